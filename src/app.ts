@@ -1,7 +1,7 @@
 import express, { Application, Router } from 'express';
 import cors from 'cors';
 import path from 'path';
-import { healthRouter } from './routes/health.routes';
+import { initHealthRoutes } from './routes/health.routes';
 import { responseFormatter } from './middleware/responseFormatter';
 import { errorHandler } from './middleware/errorHandler';
 import { setupSwaggerMiddleware } from './middleware/swagger.middleware';
@@ -9,6 +9,9 @@ import { attachDeviceId } from './middleware/deviceId';
 import { createBaseRouter } from './routes/baseRouter';
 import { initStoryRoutes } from './routes/story.routes';
 import { initMonitoringRoutes } from './routes/monitoring.routes';
+import { initAdminRoutes } from './routes/admin.routes';
+import { initTemplateRoutes } from './routes/template.routes';
+import { createStoryServices } from './services/storyServices';
 // import { initRTVIRoutes } from './routes/rtvi.routes';
 import dotenv from 'dotenv';
 
@@ -18,7 +21,8 @@ dotenv.config();
 const app: Application = express();
 
 // Middleware
-app.use(express.json());
+// Story archives (POST /story/import) can be well over the default 100kb
+app.use(express.json({ limit: '5mb' }));
 app.use(cors());
 app.use(responseFormatter());
 app.use(attachDeviceId);
@@ -42,11 +46,18 @@ if (!apiKey) {
 }
 
 // Mount story routes on API router
-v1Router.use('/story', initStoryRoutes(apiKey));
+const storyServices = createStoryServices(apiKey);
+v1Router.use('/story', initStoryRoutes(storyServices));
 
 // Mount monitoring routes
 v1Router.use('/monitoring', initMonitoringRoutes());
 
+// Mount admin routes
+v1Router.use('/admin', initAdminRoutes(storyServices));
+
+// Mount story template routes
+v1Router.use('/templates', initTemplateRoutes(storyServices));
+
 // Mount RTVI routes
 // v1Router.use('/rtvi', initRTVIRoutes());
 
@@ -54,7 +65,7 @@ v1Router.use('/monitoring', initMonitoringRoutes());
 app.use((v1Router as any).mainRouter);
 
 // Routes
-app.use('/health', healthRouter);
+app.use('/health', initHealthRoutes(storyServices.llmProviders));
 app.use('/', docsRouter);
 
 // Error handling middleware (must be last)
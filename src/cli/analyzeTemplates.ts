@@ -0,0 +1,66 @@
+/**
+ * Check story templates for dangling choice targets, unreachable segments,
+ * dead ends, inescapable cycles and undeclared or unused variables.
+ *
+ * Usage: npm run analyze:templates -- [--json] [--quiet] [<file or directory> ...]
+ *
+ * Analyzes STORY_TEMPLATES_DIR (data/templates) when no paths are given.
+ * --quiet leaves out choices the AI writes. Exits with status 1 if any
+ * template has errors.
+ */
+import dotenv from 'dotenv';
+dotenv.config();
+
+import templateConfig from '../config/templates';
+import { analyzeTemplateFiles, formatTemplateIssue, TemplateAnalysis } from '../services/templates';
+
+function parseArgs(argv: string[]): { targets: string[]; json: boolean; quiet: boolean } {
+  const targets: string[] = [];
+  let json = false;
+  let quiet = false;
+
+  for (const arg of argv) {
+    switch (arg) {
+      case '--json':
+        json = true;
+        break;
+      case '--quiet':
+        quiet = true;
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          throw new Error(`Unknown argument: ${arg}`);
+        }
+        targets.push(arg);
+    }
+  }
+
+  return { targets: targets.length > 0 ? targets : [templateConfig.directory], json, quiet };
+}
+
+function main(): void {
+  const { targets, json, quiet } = parseArgs(process.argv.slice(2));
+  const analyses: TemplateAnalysis[] = targets.flatMap(target => analyzeTemplateFiles(target));
+  const issues = analyses.flatMap(analysis => analysis.issues);
+
+  if (json) {
+    console.log(JSON.stringify(analyses, null, 2));
+  } else {
+    analyses.forEach(analysis => {
+      analysis.issues
+        .filter(issue => !quiet || issue.severity !== 'info')
+        .forEach(issue => console.log(formatTemplateIssue(analysis, issue)));
+    });
+    const count = (severity: string) => issues.filter(issue => issue.severity === severity).length;
+    console.log(`Analyzed ${analyses.length} templates: ${count('error')} errors, ${count('warning')} warnings, ${count('info')} choices left to the AI`);
+  }
+
+  process.exitCode = issues.some(issue => issue.severity === 'error') ? 1 : 0;
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`Template analysis failed: ${(error as Error).message}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,74 @@
+/**
+ * Upgrade every persisted story state to the current schema version.
+ *
+ * Usage: npm run migrate:state -- [--driver file|sqlite] [--dir <path>] [--sqlite-file <path>] [--dry-run]
+ *
+ * Defaults come from the STATE_STORAGE_* environment variables. Exits with
+ * status 1 if any record could not be upgraded.
+ */
+// Load environment variables so storage defaults match the server's
+import dotenv from 'dotenv';
+dotenv.config();
+
+import storageConfig, { StorageConfig, StorageDriver } from '../config/storage';
+import { createStateStorage, SqliteStateStorage } from '../services/persistence';
+import { migrateStoredStates } from '../services/persistence/migrateStoredStates';
+import { STORY_STATE_SCHEMA_VERSION } from '../models/StoryState';
+
+function parseArgs(argv: string[]): { config: StorageConfig; dryRun: boolean } {
+  const config: StorageConfig = {
+    driver: storageConfig.driver,
+    file: { ...storageConfig.file },
+    sqlite: { ...storageConfig.sqlite }
+  };
+  let dryRun = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--driver':
+        config.driver = argv[++i] as StorageDriver;
+        break;
+      case '--dir':
+        config.file.directory = argv[++i];
+        break;
+      case '--sqlite-file':
+        config.sqlite.filename = argv[++i];
+        break;
+      case '--dry-run':
+        dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  if (config.driver === 'memory') {
+    throw new Error('In-memory storage has nothing to migrate offline; use --driver file or --driver sqlite');
+  }
+
+  return { config, dryRun };
+}
+
+async function main(): Promise<void> {
+  const { config, dryRun } = parseArgs(process.argv.slice(2));
+  const storage = createStateStorage(config);
+
+  console.log(`Migrating story states to schema version ${STORY_STATE_SCHEMA_VERSION}${dryRun ? ' (dry run)' : ''}`);
+  const report = await migrateStoredStates(storage, { dryRun });
+
+  if (storage instanceof SqliteStateStorage) {
+    storage.close();
+  }
+
+  console.log(`Scanned ${report.scanned}, ${dryRun ? 'would upgrade' : 'upgraded'} ${report.upgraded}, already current ${report.current}, failed ${report.failed.length}`);
+  report.failed.forEach(failure => {
+    console.log(`  FAILED ${failure.userId}/${failure.storyId}: ${failure.error}`);
+  });
+
+  process.exitCode = report.failed.length > 0 ? 1 : 0;
+}
+
+main().catch(error => {
+  console.error(`State migration failed: ${(error as Error).message}`);
+  process.exitCode = 1;
+});
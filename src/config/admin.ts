@@ -0,0 +1,13 @@
+/**
+ * Admin API configuration
+ */
+export interface AdminConfig {
+  // Shared token expected in the X-Admin-Token header; admin endpoints are disabled without it
+  apiToken?: string;
+}
+
+const adminConfig: AdminConfig = {
+  apiToken: process.env.ADMIN_API_TOKEN || undefined
+};
+
+export default adminConfig;
@@ -0,0 +1,22 @@
+/**
+ * Story export/import archive configuration
+ */
+export interface ArchiveConfig {
+  // Key for the HMAC signature that protects archives from tampering; export and import are disabled without it
+  secret?: string;
+  // True when no secret was configured and the built-in development key is in use
+  usingDefaultSecret: boolean;
+}
+
+const DEVELOPMENT_SECRET = 'primer-development-archive-secret';
+
+// The development key is public, so it only signs archives where they cannot be forged against real users
+const DEVELOPMENT_ENVIRONMENTS = ['development', 'test'];
+const allowDevelopmentSecret = DEVELOPMENT_ENVIRONMENTS.includes(process.env.NODE_ENV || 'development');
+
+const archiveConfig: ArchiveConfig = {
+  secret: process.env.STORY_ARCHIVE_SECRET || (allowDevelopmentSecret ? DEVELOPMENT_SECRET : undefined),
+  usingDefaultSecret: !process.env.STORY_ARCHIVE_SECRET && allowDevelopmentSecret
+};
+
+export default archiveConfig;
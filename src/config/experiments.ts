@@ -0,0 +1,44 @@
+import fs from 'fs';
+
+/**
+ * One arm of an experiment: the settings its users get instead of the usual ones
+ */
+export interface ExperimentVariantConfig {
+  name: string;
+  // Share of the experiment's users, relative to the other variants' weights (default 1)
+  weight?: number;
+  // Prompt template versions by prompt ID, e.g. { "story-segment": 2 }
+  promptVersions?: Record<string, number>;
+  temperature?: number;
+  // Model to ask the request's provider for instead of its configured one
+  model?: string;
+}
+
+export interface ExperimentConfig {
+  id: string;
+  description?: string;
+  // Disabled experiments assign no one (default true)
+  enabled?: boolean;
+  variants: ExperimentVariantConfig[];
+}
+
+/**
+ * Prompt and model experiments users are split between
+ */
+export interface ExperimentsConfig {
+  experiments: ExperimentConfig[];
+}
+
+// EXPERIMENTS_FILE holds a JSON list of experiments
+function loadExperiments(file?: string): ExperimentConfig[] {
+  if (!file) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+const experimentsConfig: ExperimentsConfig = {
+  experiments: loadExperiments(process.env.EXPERIMENTS_FILE)
+};
+
+export default experimentsConfig;
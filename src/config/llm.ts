@@ -0,0 +1,100 @@
+import path from 'path';
+
+/**
+ * LLM provider configuration
+ */
+export interface LLMConfig {
+  // Provider used when a request does not ask for one (openai, gemini, local or fake)
+  defaultProvider: string;
+  // Let clients pick a provider per request with the X-LLM-Provider header
+  allowRequestOverride: boolean;
+  openai: {
+    apiKey: string;
+    model: string;
+    baseUrl: string;
+  };
+  gemini: {
+    apiKey: string;
+    model: string;
+  };
+  // Any server speaking the OpenAI chat completions API (Ollama, LM Studio, vLLM, ...)
+  local: {
+    baseUrl?: string;
+    apiKey?: string;
+    model: string;
+    // Whether the server and model support function calling (structured choice output)
+    structuredOutput: boolean;
+  };
+  // Offline provider for development and tests: deterministic output, no network
+  fake: {
+    // Also registered whenever it is the default provider
+    enabled: boolean;
+    // Same seed and prompt, same story
+    seed: string;
+    fixturesFile: string;
+    // Recorded transcript to replay before falling back to the fixtures
+    transcriptFile?: string;
+    // Delay between streamed chunks
+    chunkDelayMs: number;
+  };
+  // Record every call the default provider answers to this transcript file
+  recordTranscriptFile?: string;
+  // Applied to every provider's calls
+  resilience: {
+    timeoutMs: number;
+    // Retries after the first attempt, for timeouts, network errors, 429s and 5xx
+    maxRetries: number;
+    // Backoff doubles from the base delay up to the maximum, with full jitter.
+    // A Retry-After longer than the maximum is not waited for.
+    retryBaseDelayMs: number;
+    retryMaxDelayMs: number;
+    // Consecutive failed calls that open the circuit breaker
+    breakerFailureThreshold: number;
+    // How long an open breaker fails fast before letting a trial call through
+    breakerResetTimeoutMs: number;
+  };
+  // Follow-up requests asking the model to fix choices that fail validation
+  choiceRepairAttempts: number;
+  // Write a segment and its choices in one call on providers with structured output
+  combinedGeneration: boolean;
+}
+
+const llmConfig: LLMConfig = {
+  defaultProvider: process.env.LLM_PROVIDER || 'openai',
+  allowRequestOverride: process.env.LLM_ALLOW_REQUEST_OVERRIDE !== 'false',
+  openai: {
+    apiKey: process.env.OPENAI_API_KEY || '',
+    model: process.env.OPENAI_MODEL || 'gpt-4',
+    baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1'
+  },
+  gemini: {
+    apiKey: process.env.GEMINI_API_KEY || '',
+    model: process.env.GEMINI_MODEL || 'gemini-1.5-pro'
+  },
+  local: {
+    baseUrl: process.env.LOCAL_LLM_BASE_URL || undefined,
+    apiKey: process.env.LOCAL_LLM_API_KEY || undefined,
+    model: process.env.LOCAL_LLM_MODEL || 'llama3',
+    structuredOutput: process.env.LOCAL_LLM_STRUCTURED_OUTPUT === 'true'
+  },
+  fake: {
+    enabled: process.env.LLM_FAKE_ENABLED === 'true',
+    seed: process.env.LLM_FAKE_SEED || 'primer',
+    fixturesFile: process.env.LLM_FAKE_FIXTURES_FILE || path.join(__dirname, '../../data/llm-fixtures/fake-story.json'),
+    transcriptFile: process.env.LLM_FAKE_TRANSCRIPT_FILE || undefined,
+    chunkDelayMs: parseInt(process.env.LLM_FAKE_CHUNK_DELAY_MS || '0', 10)
+  },
+  recordTranscriptFile: process.env.LLM_RECORD_TRANSCRIPT_FILE || undefined,
+  resilience: {
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '30000', 10),
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '2', 10),
+    retryBaseDelayMs: parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || '500', 10),
+    retryMaxDelayMs: parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || '10000', 10),
+    breakerFailureThreshold: parseInt(process.env.LLM_BREAKER_FAILURE_THRESHOLD || '5', 10),
+    breakerResetTimeoutMs: parseInt(process.env.LLM_BREAKER_RESET_TIMEOUT_MS || '30000', 10)
+  },
+  choiceRepairAttempts: parseInt(process.env.LLM_CHOICE_REPAIR_ATTEMPTS || '1', 10),
+  combinedGeneration: process.env.LLM_COMBINED_GENERATION !== 'false'
+};
+
+export default llmConfig;
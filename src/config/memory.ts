@@ -0,0 +1,26 @@
+/**
+ * What stories remember between segments: the story bible, and the rolling
+ * summary of long conversational stories
+ */
+export interface StoryMemoryConfig {
+  // Update the story bible from each new segment (one extra LLM call per segment)
+  bibleExtraction: boolean;
+  // Most tokens of summary, key facts and recent messages put in a prompt
+  contextTokenBudget: number;
+  // Messages always left out of the summary and quoted as they are
+  recentMessages: number;
+  // Older messages wait until there are this many before they are summarized
+  summarizeBatchMessages: number;
+  // Length the rolling summary is asked to stay within
+  summaryMaxWords: number;
+}
+
+const memoryConfig: StoryMemoryConfig = {
+  bibleExtraction: process.env.STORY_BIBLE_EXTRACTION !== 'false',
+  contextTokenBudget: parseInt(process.env.STORY_MEMORY_CONTEXT_TOKEN_BUDGET || '1500', 10),
+  recentMessages: parseInt(process.env.STORY_MEMORY_RECENT_MESSAGES || '8', 10),
+  summarizeBatchMessages: parseInt(process.env.STORY_MEMORY_SUMMARIZE_BATCH || '12', 10),
+  summaryMaxWords: parseInt(process.env.STORY_MEMORY_SUMMARY_MAX_WORDS || '250', 10)
+};
+
+export default memoryConfig;
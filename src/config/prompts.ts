@@ -0,0 +1,30 @@
+import path from 'path';
+
+/**
+ * Prompt template configuration
+ */
+export interface PromptConfig {
+  // Every *.json file here is a prompt template
+  directory: string;
+  // Version to use for each prompt ID; the newest version on disk otherwise
+  versions: Record<string, number>;
+}
+
+// PROMPT_TEMPLATE_VERSIONS pins versions, e.g. "story-segment=2,story-choices=1"
+function parseVersions(value?: string): Record<string, number> {
+  const versions: Record<string, number> = {};
+  for (const entry of (value || '').split(',')) {
+    const [id, version] = entry.split('=').map(part => part.trim());
+    if (id && version) {
+      versions[id] = parseInt(version, 10);
+    }
+  }
+  return versions;
+}
+
+const promptConfig: PromptConfig = {
+  directory: process.env.PROMPT_TEMPLATES_DIR || path.join(__dirname, '../../data/prompts'),
+  versions: parseVersions(process.env.PROMPT_TEMPLATE_VERSIONS)
+};
+
+export default promptConfig;
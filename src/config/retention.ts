@@ -0,0 +1,31 @@
+import path from 'path';
+
+export type RetentionAction = 'delete' | 'archive';
+
+/**
+ * Data retention configuration for stored stories
+ */
+export interface RetentionConfig {
+  // Run the purge job in the background
+  enabled: boolean;
+  // Stories not updated for this many days are purged (0 keeps them forever)
+  storyMaxAgeDays: number;
+  // Conversation messages older than this many days are trimmed (0 keeps them forever)
+  conversationMaxAgeDays: number;
+  // Delete purged stories outright, or move them to archiveDirectory first
+  action: RetentionAction;
+  archiveDirectory: string;
+  // How often the purge job runs (ms)
+  intervalMs: number;
+}
+
+const retentionConfig: RetentionConfig = {
+  enabled: process.env.RETENTION_ENABLED === 'true',
+  storyMaxAgeDays: parseInt(process.env.RETENTION_STORY_MAX_AGE_DAYS || '180', 10),
+  conversationMaxAgeDays: parseInt(process.env.RETENTION_CONVERSATION_MAX_AGE_DAYS || '30', 10),
+  action: (process.env.RETENTION_ACTION as RetentionAction) || 'delete',
+  archiveDirectory: process.env.RETENTION_ARCHIVE_DIR || path.join(__dirname, '../../data/retention-archive'),
+  intervalMs: parseInt(process.env.RETENTION_INTERVAL_MS || String(24 * 60 * 60 * 1000), 10)
+};
+
+export default retentionConfig;
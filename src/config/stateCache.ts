@@ -0,0 +1,19 @@
+/**
+ * In-process StoryState cache configuration
+ */
+export interface StateCacheConfig {
+  // Most story states kept in memory; the least recently used are evicted first
+  maxEntries: number;
+  // States not used for this long are evicted (ms)
+  idleTimeoutMs: number;
+  // How often idle states are looked for (ms)
+  sweepIntervalMs: number;
+}
+
+const stateCacheConfig: StateCacheConfig = {
+  maxEntries: parseInt(process.env.STATE_CACHE_MAX_ENTRIES || '1000', 10),
+  idleTimeoutMs: parseInt(process.env.STATE_CACHE_IDLE_TIMEOUT_MS || String(30 * 60 * 1000), 10),
+  sweepIntervalMs: parseInt(process.env.STATE_CACHE_SWEEP_INTERVAL_MS || String(60 * 1000), 10)
+};
+
+export default stateCacheConfig;
@@ -0,0 +1,35 @@
+import path from 'path';
+
+export type StorageDriver = 'memory' | 'file' | 'sqlite';
+
+/**
+ * Story state storage configuration
+ */
+export interface StorageConfig {
+  driver: StorageDriver;
+  file: {
+    directory: string;
+  };
+  sqlite: {
+    filename: string;
+  };
+}
+
+const dataDirectory = path.join(__dirname, '../../data/state');
+
+const storageConfig: StorageConfig = {
+  // Which StateStorageInterface implementation to use (memory, file or sqlite)
+  driver: (process.env.STATE_STORAGE_DRIVER as StorageDriver) || 'memory',
+
+  // One JSON file per story, in a directory per user
+  file: {
+    directory: process.env.STATE_STORAGE_DIR || path.join(dataDirectory, 'users')
+  },
+
+  // Embedded SQLite database
+  sqlite: {
+    filename: process.env.STATE_STORAGE_SQLITE_FILE || path.join(dataDirectory, 'story-state.db')
+  }
+};
+
+export default storageConfig;
@@ -0,0 +1,27 @@
+import path from 'path';
+
+const directory = process.env.STORY_TEMPLATES_DIR || path.join(__dirname, '../../data/templates');
+
+/**
+ * Story template configuration
+ */
+export interface TemplateConfig {
+  // Every *.json file here is a story template
+  directory: string;
+  // Every version of each template, kept for the stories started from them.
+  // Numbers are local to this directory; stories also match versions by content
+  versionsDirectory: string;
+  // Pick up templates added, changed or removed in the directory without a restart
+  watch: boolean;
+  // Wait for changes to the directory to settle before reloading
+  watchDebounceMs: number;
+}
+
+const templateConfig: TemplateConfig = {
+  directory,
+  versionsDirectory: process.env.STORY_TEMPLATE_VERSIONS_DIR || path.join(directory, '.versions'),
+  watch: process.env.STORY_TEMPLATES_WATCH !== 'false',
+  watchDebounceMs: parseInt(process.env.STORY_TEMPLATES_WATCH_DEBOUNCE_MS || '250', 10)
+};
+
+export default templateConfig;
@@ -0,0 +1,68 @@
+import fs from 'fs';
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * Limits for one period; 0 means no limit
+ */
+export interface UsageBudget {
+  tokens: number;
+  costUsd: number;
+}
+
+/**
+ * Token accounting and per-user budget configuration
+ */
+export interface UsageConfig {
+  // Prices by model name. Versioned names (gpt-4o-2024-08-06) use the longest
+  // matching prefix; models without a price (local, fake) cost nothing.
+  pricing: Record<string, ModelPricing>;
+  // Per-user limits for each UTC day and calendar month
+  budgets: {
+    daily: UsageBudget;
+    monthly: UsageBudget;
+  };
+  // Keep per-user totals in this file so budgets survive restarts
+  ledgerFile?: string;
+}
+
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'gpt-4': { prompt: 30, completion: 60 },
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+  'gemini-1.5-pro': { prompt: 1.25, completion: 5 },
+  'gemini-1.5-flash': { prompt: 0.075, completion: 0.3 }
+};
+
+// USAGE_PRICING_FILE holds a JSON object in the same shape, merged over the defaults
+function loadPricing(file?: string): Record<string, ModelPricing> {
+  if (!file) {
+    return DEFAULT_PRICING;
+  }
+  return { ...DEFAULT_PRICING, ...JSON.parse(fs.readFileSync(file, 'utf8')) };
+}
+
+const usageConfig: UsageConfig = {
+  pricing: loadPricing(process.env.USAGE_PRICING_FILE),
+  budgets: {
+    daily: {
+      tokens: parseInt(process.env.USAGE_DAILY_TOKEN_BUDGET || '0', 10),
+      costUsd: parseFloat(process.env.USAGE_DAILY_COST_BUDGET_USD || '0')
+    },
+    monthly: {
+      tokens: parseInt(process.env.USAGE_MONTHLY_TOKEN_BUDGET || '0', 10),
+      costUsd: parseFloat(process.env.USAGE_MONTHLY_COST_BUDGET_USD || '0')
+    }
+  },
+  ledgerFile: process.env.USAGE_LEDGER_FILE || undefined
+};
+
+export default usageConfig;
@@ -6,6 +6,11 @@ import { StorySegment, StoryState } from '../../models/StoryState';
 import { InMemoryStateStorage } from '../../services/persistence/InMemoryStateStorage';
 import { AuthenticatedUser } from '../../models/Auth';
 import { PersonalizationManager } from '../../services/PersonalizationManager';
+import { StateVersionConflictError } from '../../services/persistence/StateVersionConflictError';
+import { StorySlotNotFoundError } from '../../services/StorySlotNotFoundError';
+import { InvalidRewindTargetError } from '../../services/InvalidRewindTargetError';
+import { StoryArchiveError } from '../../services/StoryArchiveError';
+import { UsageBudgetExceededError } from '../../services/UsageBudgetExceededError';
 
 jest.mock('../../services/StoryStateService');
 jest.mock('../../services/GPTClient');
@@ -23,7 +28,7 @@ describe('StoryController', () => {
 
   beforeEach(() => {
     mockStoryStateService = new StoryStateService(
-      new GPTClient('test-key'),
+      GPTClient.fromApiKey('test-key'),
       new InMemoryStateStorage()
     ) as jest.Mocked<StoryStateService>;
 
@@ -47,7 +52,7 @@ describe('StoryController', () => {
     // Default request
     mockReq = {
       user: mockUser,
-      header: jest.fn().mockReturnValue('test-device'),
+      header: jest.fn((name: string) => (name === 'X-Device-ID' ? 'test-device' : undefined)) as any,
       body: {}
     };
   });
@@ -76,7 +81,7 @@ describe('StoryController', () => {
         getCurrentSegment: jest.fn().mockReturnValue(null),
         getPublicState: jest.fn().mockReturnValue({ progress: 0 }),
         updateContextualData: jest.fn(),
-        markSegmentAsRead: jest.fn()
+        markSegmentAsRead: jest.fn().mockReturnValue(true)
       };
 
       mockStoryStateService.getOrCreateStoryState.mockResolvedValue(mockState as any);
@@ -109,7 +114,7 @@ describe('StoryController', () => {
         getCurrentSegment: jest.fn().mockReturnValue(mockSegment),
         getPublicState: jest.fn().mockReturnValue({ progress: 50 }),
         updateContextualData: jest.fn(),
-        markSegmentAsRead: jest.fn()
+        markSegmentAsRead: jest.fn().mockReturnValue(true)
       };
 
       mockStoryStateService.getOrCreateStoryState.mockResolvedValue(mockState as any);
@@ -129,6 +134,21 @@ describe('StoryController', () => {
         state: { progress: 50 }
       });
     });
+
+    it('should not save a story whose current segment was already read', async () => {
+      const mockState = {
+        getCurrentSegment: jest.fn().mockReturnValue({ id: 'current', content: 'Current story content', choices: [] }),
+        getPublicState: jest.fn().mockReturnValue({ progress: 50, version: 4 }),
+        markSegmentAsRead: jest.fn().mockReturnValue(false)
+      };
+      mockStoryStateService.getOrCreateStoryState.mockResolvedValue(mockState as any);
+
+      await storyController.getCurrentStory(mockReq as Request, mockRes as Response);
+
+      // Another tab's choice against version 4 still goes through
+      expect(mockStoryStateService.saveStoryState).not.toHaveBeenCalled();
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ state: { progress: 50, version: 4 } }));
+    });
   });
 
   describe('makeChoice', () => {
@@ -180,9 +200,9 @@ describe('StoryController', () => {
 
       await storyController.makeChoice(mockReq as Request, mockRes as Response);
 
-      expect(mockStoryStateService.generateNextSegment).toHaveBeenCalledWith('test-user', 'choice1');
-      expect(mockState.markSegmentAsRead).toHaveBeenCalledWith('next');
-      expect(mockStoryStateService.saveStoryState).toHaveBeenCalledWith('test-user');
+      expect(mockStoryStateService.generateNextSegment).toHaveBeenCalledWith('test-user', 'choice1', undefined, undefined);
+      // Saved, marked as read, by generateNextSegment under the story lock
+      expect(mockStoryStateService.saveStoryState).not.toHaveBeenCalled();
       expect(jsonMock).toHaveBeenCalledWith({
         success: true,
         segment: {
@@ -193,6 +213,37 @@ describe('StoryController', () => {
         state: { progress: 75 }
       });
     });
+
+    it('should pass the client version through for optimistic concurrency', async () => {
+      mockStoryStateService.generateNextSegment.mockResolvedValue({ id: 'next', content: '', choices: [] });
+      mockStoryStateService.getOrCreateStoryState.mockResolvedValue({
+        getPublicState: jest.fn().mockReturnValue({}),
+        markSegmentAsRead: jest.fn()
+      } as any);
+
+      mockReq.body = { choiceId: 'choice1', version: 7 };
+
+      await storyController.makeChoice(mockReq as Request, mockRes as Response);
+
+      expect(mockStoryStateService.generateNextSegment).toHaveBeenCalledWith('test-user', 'choice1', 7, undefined);
+    });
+
+    it('should return 409 when the story was changed by another request', async () => {
+      mockStoryStateService.generateNextSegment.mockRejectedValue(
+        new StateVersionConflictError('test-user', 7, 8)
+      );
+
+      mockReq.body = { choiceId: 'choice1', version: 7 };
+
+      await storyController.makeChoice(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(409);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+        success: false,
+        error: 'Story state was changed by another request',
+        currentVersion: 8
+      }));
+    });
   });
 
   describe('updateProgress', () => {
@@ -284,7 +335,7 @@ describe('StoryController', () => {
       await storyController.resetStory(mockReq as Request, mockRes as Response);
 
       expect(mockStoryStateService.clearUserState).toHaveBeenCalledWith('test-user');
-      expect(mockStoryStateService.getOrCreateStoryState).toHaveBeenCalledWith('test-user');
+      expect(mockStoryStateService.getOrCreateStoryState).toHaveBeenCalledWith('test-user', undefined, undefined);
       expect(statusMock).toHaveBeenCalledWith(200);
       expect(jsonMock).toHaveBeenCalledWith({
         success: true,
@@ -298,4 +349,390 @@ describe('StoryController', () => {
       });
     });
   });
-}); 
\ No newline at end of file
+
+  describe('rewindStory', () => {
+    it('should rewind to the requested segment', async () => {
+      const mockSegment: StorySegment = {
+        id: 'forest',
+        content: 'Two doors',
+        choices: [{ id: 'blue', text: 'Blue door', nextSegmentId: 'castle' }]
+      };
+      const mockState = {
+        getCurrentSegment: jest.fn().mockReturnValue(mockSegment),
+        getPublicState: jest.fn().mockReturnValue({ currentSegmentId: 'forest' })
+      };
+      mockReq.body = { segmentId: 'forest', version: 3 };
+      mockStoryStateService.rewindStory.mockResolvedValue({
+        id: 'branch_1',
+        rewoundAt: new Date(),
+        fromSegmentId: 'dragon',
+        toSegmentId: 'forest',
+        choiceHistory: [{ segmentId: 'forest', choiceId: 'red', timestamp: new Date() }],
+        conversationHistory: []
+      });
+      mockStoryStateService.getOrCreateStoryState.mockResolvedValue(mockState as any);
+
+      await storyController.rewindStory(mockReq as Request, mockRes as Response);
+
+      expect(mockStoryStateService.rewindStory).toHaveBeenCalledWith('test-user', 'forest', 3);
+      expect(jsonMock).toHaveBeenCalledWith({
+        success: true,
+        segment: {
+          id: 'forest',
+          content: 'Two doors',
+          choices: [{ id: 'blue', text: 'Blue door' }]
+        },
+        branch: {
+          id: 'branch_1',
+          fromSegmentId: 'dragon',
+          toSegmentId: 'forest',
+          undoneChoices: 1,
+          undoneMessages: 0
+        },
+        state: { currentSegmentId: 'forest' }
+      });
+    });
+
+    it('should return 400 for an invalid rewind target', async () => {
+      mockReq.body = { segmentId: 'castle' };
+      mockStoryStateService.rewindStory.mockRejectedValue(new InvalidRewindTargetError('test-user', 'castle'));
+
+      await storyController.rewindStory(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ error: 'Invalid rewind target' }));
+    });
+  });
+
+  describe('getStoryGraph', () => {
+    let typeMock: jest.Mock;
+    let sendMock: jest.Mock;
+
+    beforeEach(() => {
+      const storyState = new StoryState('test-user');
+      storyState.addSegment({ id: 'intro', content: 'Begin', choices: [
+        { id: 'choice1', text: 'Continue', nextSegmentId: 'next' }
+      ] });
+      mockStoryStateService.getOrCreateStoryState.mockResolvedValue(storyState);
+
+      typeMock = jest.fn().mockReturnThis();
+      sendMock = jest.fn();
+      mockRes.type = typeMock;
+      mockRes.send = sendMock;
+    });
+
+    it('should return the graph as JSON by default', async () => {
+      mockReq.query = {};
+
+      await storyController.getStoryGraph(mockReq as Request, mockRes as Response);
+
+      expect(jsonMock).toHaveBeenCalledWith({
+        success: true,
+        graph: expect.objectContaining({ currentSegmentId: 'intro', path: ['intro'] })
+      });
+    });
+
+    it('should return Graphviz DOT when requested', async () => {
+      mockReq.query = { format: 'dot' };
+
+      await storyController.getStoryGraph(mockReq as Request, mockRes as Response);
+
+      expect(typeMock).toHaveBeenCalledWith('text/vnd.graphviz');
+      expect(sendMock).toHaveBeenCalledWith(expect.stringContaining('digraph story'));
+    });
+
+    it('should reject unknown formats', async () => {
+      mockReq.query = { format: 'svg' };
+
+      await storyController.getStoryGraph(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('getStoryTranscript', () => {
+    let typeMock: jest.Mock;
+    let sendMock: jest.Mock;
+
+    beforeEach(() => {
+      const storyState = new StoryState('test-user');
+      storyState.addSegment({ id: 'intro', content: 'Begin', choices: [] });
+      mockStoryStateService.getOrCreateStoryState.mockResolvedValue(storyState);
+
+      typeMock = jest.fn().mockReturnThis();
+      sendMock = jest.fn();
+      mockRes.type = typeMock;
+      mockRes.send = sendMock;
+      mockRes.setHeader = jest.fn();
+    });
+
+    it('should send a Markdown transcript by default', async () => {
+      mockReq.query = {};
+
+      await storyController.getStoryTranscript(mockReq as Request, mockRes as Response);
+
+      expect(typeMock).toHaveBeenCalledWith('text/markdown; charset=utf-8');
+      expect(mockRes.setHeader).toHaveBeenCalledWith('Content-Disposition', 'attachment; filename="my-story.md"');
+      expect(sendMock).toHaveBeenCalledWith(expect.stringContaining('## Chapter 1'));
+    });
+
+    it('should send an EPUB book when requested', async () => {
+      mockReq.query = { format: 'epub' };
+
+      await storyController.getStoryTranscript(mockReq as Request, mockRes as Response);
+
+      expect(typeMock).toHaveBeenCalledWith('application/epub+zip');
+      expect(Buffer.isBuffer(sendMock.mock.calls[0][0])).toBe(true);
+    });
+
+    it('should reject unknown formats', async () => {
+      mockReq.query = { format: 'pdf' };
+
+      await storyController.getStoryTranscript(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe('story archives', () => {
+    let mockArchiveService: { exportStory: jest.Mock; importStory: jest.Mock };
+
+    beforeEach(() => {
+      mockArchiveService = { exportStory: jest.fn(), importStory: jest.fn() };
+      storyController = new StoryController(
+        mockStoryStateService,
+        mockPersonalizationManager,
+        undefined,
+        undefined,
+        mockArchiveService as any
+      );
+      mockRes.setHeader = jest.fn();
+    });
+
+    it('should send the archive as a download', async () => {
+      const archive = { format: 'primer-story-archive', story: { storyId: 'story-1' }, signature: 'abc' };
+      mockArchiveService.exportStory.mockResolvedValue(archive);
+
+      await storyController.exportStory(mockReq as Request, mockRes as Response);
+
+      expect(mockArchiveService.exportStory).toHaveBeenCalledWith('test-user');
+      expect(mockRes.setHeader).toHaveBeenCalledWith('Content-Disposition', 'attachment; filename="story-story-1.json"');
+      expect(jsonMock).toHaveBeenCalledWith(archive);
+    });
+
+    it('should install an uploaded archive', async () => {
+      const storyState = new StoryState('test-user');
+      storyState.addSegment({ id: 'intro', content: 'Begin', choices: [] });
+      mockReq.body = { format: 'primer-story-archive' };
+      mockArchiveService.importStory.mockResolvedValue({ storyState, missingIllustrationIds: [] });
+
+      await storyController.importStory(mockReq as Request, mockRes as Response);
+
+      expect(mockArchiveService.importStory).toHaveBeenCalledWith('test-user', mockReq.body);
+      expect(statusMock).toHaveBeenCalledWith(201);
+    });
+
+    it('should return 400 for tampered archives', async () => {
+      mockArchiveService.importStory.mockRejectedValue(new StoryArchiveError('tampered', 'Signature mismatch'));
+
+      await storyController.importStory(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ error: 'Story archive has been modified' }));
+    });
+
+    it('should return 422 for incompatible archives', async () => {
+      mockArchiveService.importStory.mockRejectedValue(new StoryArchiveError('incompatible', 'Too new'));
+
+      await storyController.importStory(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(422);
+    });
+
+    it('should return 503 for exports and imports when archives are disabled', async () => {
+      const disabled = new StoryArchiveError('disabled', 'Story archives are disabled - set STORY_ARCHIVE_SECRET to enable them');
+      mockArchiveService.exportStory.mockRejectedValue(disabled);
+      mockArchiveService.importStory.mockRejectedValue(disabled);
+
+      await storyController.exportStory(mockReq as Request, mockRes as Response);
+      await storyController.importStory(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenNthCalledWith(1, 503);
+      expect(statusMock).toHaveBeenNthCalledWith(2, 503);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ error: 'Story archives are disabled on this server' }));
+    });
+  });
+
+  describe('save slots', () => {
+    it('should list the user\'s slots with the active one', async () => {
+      const slots = [{ storyId: 'story-1', title: 'Story 1', isActive: true }];
+      mockStoryStateService.getActiveStoryId.mockResolvedValue('story-1');
+      mockStoryStateService.listStorySlots.mockResolvedValue(slots as any);
+
+      await storyController.listSlots(mockReq as Request, mockRes as Response);
+
+      expect(mockStoryStateService.listStorySlots).toHaveBeenCalledWith('test-user');
+      expect(jsonMock).toHaveBeenCalledWith({ success: true, activeStoryId: 'story-1', slots });
+    });
+
+    it('should create a new slot with the given title', async () => {
+      const mockState = {
+        getCurrentSegment: jest.fn().mockReturnValue(undefined),
+        getPublicState: jest.fn().mockReturnValue({ storyId: 'story-2', title: 'Space' })
+      };
+      mockReq.body = { title: ' Space ' };
+      mockStoryStateService.createStorySlot.mockResolvedValue(mockState as any);
+
+      await storyController.createSlot(mockReq as Request, mockRes as Response);
+
+      expect(mockStoryStateService.createStorySlot).toHaveBeenCalledWith('test-user', 'Space', undefined);
+      expect(statusMock).toHaveBeenCalledWith(201);
+    });
+
+    it('should require a title when renaming a slot', async () => {
+      mockReq.params = { storyId: 'story-1' };
+
+      await storyController.renameSlot(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(mockStoryStateService.renameStorySlot).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when switching to an unknown slot', async () => {
+      mockReq.params = { storyId: 'missing' };
+      mockStoryStateService.switchStorySlot.mockRejectedValue(new StorySlotNotFoundError('test-user', 'missing'));
+
+      await storyController.switchSlot(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(404);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ success: false, error: 'Story not found' }));
+    });
+
+    it('should delete a slot', async () => {
+      mockReq.params = { storyId: 'story-1' };
+      mockStoryStateService.deleteStorySlot.mockResolvedValue();
+
+      await storyController.deleteSlot(mockReq as Request, mockRes as Response);
+
+      expect(mockStoryStateService.deleteStorySlot).toHaveBeenCalledWith('test-user', 'story-1');
+      expect(jsonMock).toHaveBeenCalledWith({ success: true, message: 'Story slot deleted successfully' });
+    });
+  });
+  describe('LLM provider selection', () => {
+    const withHeaders = (headers: Record<string, string>) => {
+      mockReq.header = jest.fn((name: string) => headers[name]) as any;
+    };
+
+    beforeEach(() => {
+      const llmClient = { getProviderNames: jest.fn().mockReturnValue(['openai', 'gemini']) };
+      storyController = new StoryController(mockStoryStateService, mockPersonalizationManager, llmClient as any);
+    });
+
+    it('should generate with the provider named in the X-LLM-Provider header', async () => {
+      withHeaders({ 'X-LLM-Provider': 'Gemini' });
+      mockStoryStateService.generateNextSegment.mockResolvedValue({ id: 'next', content: '', choices: [] });
+      mockStoryStateService.getOrCreateStoryState.mockResolvedValue({
+        getPublicState: jest.fn().mockReturnValue({}),
+        markSegmentAsRead: jest.fn()
+      } as any);
+      mockReq.body = { choiceId: 'choice1' };
+
+      await storyController.makeChoice(mockReq as Request, mockRes as Response);
+
+      expect(mockStoryStateService.generateNextSegment).toHaveBeenCalledWith('test-user', 'choice1', undefined, 'gemini');
+    });
+
+    it('should return 400 for a provider the deployment does not offer', async () => {
+      withHeaders({ 'X-LLM-Provider': 'claude' });
+      mockReq.body = { choiceId: 'choice1' };
+
+      await storyController.makeChoice(mockReq as Request, mockRes as Response);
+
+      expect(mockStoryStateService.generateNextSegment).not.toHaveBeenCalled();
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+        success: false,
+        error: 'Unknown LLM provider',
+        message: 'Unknown LLM provider: claude (available: openai, gemini)'
+      }));
+    });
+  });
+
+  describe('converseWithStory', () => {
+    it('should give the narrator the story memory instead of the whole conversation', async () => {
+      const storyState = new StoryState('test-user');
+      storyState.memory.summary = 'Mira crossed the river.';
+      storyState.memory.summarizedThrough = new Date('2024-01-01T00:00:00Z');
+      storyState.memory.summarizedThroughCount = 1;
+      storyState.conversationHistory.push(
+        { role: 'user', content: 'Cross the river', timestamp: new Date('2024-01-01T00:00:00Z') },
+        { role: 'assistant', content: 'The ferryman nods.', timestamp: new Date('2024-01-01T00:01:00Z') }
+      );
+      const llmClient = {
+        getProviderNames: jest.fn().mockReturnValue(['openai']),
+        generateStorySegment: jest.fn().mockResolvedValue('The far bank is quiet.'),
+        summarizeStory: jest.fn()
+      };
+      storyController = new StoryController(mockStoryStateService, mockPersonalizationManager, llmClient as any);
+      mockStoryStateService.getOrCreateStoryState.mockResolvedValue(storyState);
+      mockStoryStateService.getUserContext.mockResolvedValue({ userId: 'test-user' });
+      mockStoryStateService.saveStoryState.mockResolvedValue(undefined);
+      mockPersonalizationManager.enrichContext.mockImplementation(async context => context);
+      mockReq.body = { userInput: 'Look around' };
+      mockReq.query = {};
+
+      await storyController.converseWithStory(mockReq as Request, mockRes as Response);
+
+      const { context } = llmClient.generateStorySegment.mock.calls[0][0];
+      expect(context.storySummary).toBe('Mira crossed the river.');
+      expect(context.recentConversation).toBe('Narrator: The ferryman nods.\nReader: Look around');
+      expect(context.conversationHistory).toBeUndefined();
+      expect(llmClient.summarizeStory).not.toHaveBeenCalled();
+      expect(mockStoryStateService.updateStoryBible).toHaveBeenCalledWith(storyState, 'The far bank is quiet.', undefined);
+      expect(storyState.conversationHistory).toHaveLength(4);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ success: true, isConversational: true }));
+    });
+  });
+
+  describe('getStoryBible', () => {
+    it('should return the active story\'s bible', async () => {
+      const storyState = new StoryState('test-user');
+      storyState.bible.characters.push({ name: 'Mira', description: 'A young cartographer' });
+      mockStoryStateService.getOrCreateStoryState.mockResolvedValue(storyState);
+
+      await storyController.getStoryBible(mockReq as Request, mockRes as Response);
+
+      expect(jsonMock).toHaveBeenCalledWith({
+        success: true,
+        storyId: 'default',
+        bible: {
+          characters: [{ name: 'Mira', description: 'A young cartographer' }],
+          items: [],
+          locations: [],
+          plotThreads: []
+        }
+      });
+    });
+  });
+
+  describe('usage budgets', () => {
+    it('should return 429 until the budget resets once the user has used it up', async () => {
+      const resetAt = new Date(Date.now() + 60 * 60 * 1000);
+      mockStoryStateService.getOrCreateStoryState.mockRejectedValue(
+        new UsageBudgetExceededError('test-user', 'daily', 'tokens', resetAt)
+      );
+      mockRes.set = jest.fn();
+
+      await storyController.getCurrentStory(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(429);
+      expect(mockRes.set).toHaveBeenCalledWith('Retry-After', '3600');
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({
+        success: false,
+        error: 'Usage budget exceeded',
+        period: 'daily',
+        resetAt: resetAt.toISOString()
+      }));
+    });
+  });
+});
@@ -1,25 +1,67 @@
 import { Response } from 'express';
 import * as Express from 'express';
 import { StoryStateService } from '../services/StoryStateService';
-import { GPTClient } from '../services/GPTClient';
+import { LLMClient } from '../services/llm/LLMClient';
+import { LLMCircuitOpenError, UnknownLLMProviderError } from '../services/llm/LLMProviderError';
+import { UsageBudgetExceededError } from '../services/UsageBudgetExceededError';
 import { StorySegment, StoryChoice, StoryState } from '../models/StoryState';
 import { AuthenticatedUser } from '../models/Auth';
 import { PersonalizationManager } from '../services/PersonalizationManager';
 import { RequestWithUser } from '../types/express';
+import { StateVersionConflictError } from '../services/persistence/StateVersionConflictError';
+import { StorySlotNotFoundError } from '../services/StorySlotNotFoundError';
+import { InvalidRewindTargetError } from '../services/InvalidRewindTargetError';
+import { StoryGraphExporter, StoryGraphFormat, STORY_GRAPH_FORMATS } from '../services/StoryGraphExporter';
+import { StoryArchiveService } from '../services/StoryArchiveService';
+import { StoryArchiveError, StoryArchiveErrorReason } from '../services/StoryArchiveError';
+import { StoryTranscriptRenderer, StoryTranscriptFormat, STORY_TRANSCRIPT_FORMATS } from '../services/StoryTranscriptRenderer';
+import { StoryMemory } from '../services/StoryMemory';
+import { PromptConstructor } from '../services/PromptConstructor';
+
+const ARCHIVE_ERROR_MESSAGES: Record<StoryArchiveErrorReason, string> = {
+  invalid: 'Invalid story archive',
+  tampered: 'Story archive has been modified',
+  incompatible: 'Story archive is not compatible with this server',
+  disabled: 'Story archives are disabled on this server'
+};
+
+// Archives from a newer server are well-formed but cannot be understood here
+const ARCHIVE_ERROR_STATUSES: Record<StoryArchiveErrorReason, number> = {
+  invalid: 400,
+  tampered: 400,
+  incompatible: 422,
+  disabled: 503
+};
 
 export class StoryController {
   private storyStateService: StoryStateService;
   private personalizationManager: PersonalizationManager;
-  private gptClient: GPTClient;
+  private llmClient: LLMClient;
+  private storyGraphExporter: StoryGraphExporter;
+  private storyArchiveService: StoryArchiveService;
+  private storyTranscriptRenderer: StoryTranscriptRenderer;
+  private storyMemory: StoryMemory;
+  private promptConstructor: PromptConstructor;
   
   constructor(
     storyStateService: StoryStateService,
     personalizationManager?: PersonalizationManager,
-    gptClient?: GPTClient
+    llmClient?: LLMClient,
+    storyGraphExporter?: StoryGraphExporter,
+    storyArchiveService?: StoryArchiveService,
+    storyTranscriptRenderer?: StoryTranscriptRenderer,
+    storyMemory?: StoryMemory,
+    promptConstructor?: PromptConstructor
   ) {
     this.storyStateService = storyStateService;
     this.personalizationManager = personalizationManager || new PersonalizationManager();
-    this.gptClient = gptClient || this.storyStateService.getGPTClient();
+    this.llmClient = llmClient || this.storyStateService.getLLMClient();
+    this.storyGraphExporter = storyGraphExporter || new StoryGraphExporter();
+    this.storyArchiveService = storyArchiveService ||
+      new StoryArchiveService(this.storyStateService, this.personalizationManager);
+    this.storyTranscriptRenderer = storyTranscriptRenderer || new StoryTranscriptRenderer();
+    this.storyMemory = storyMemory || new StoryMemory(this.llmClient);
+    this.promptConstructor = promptConstructor || new PromptConstructor();
   }
   
   /**
@@ -37,10 +79,11 @@ export class StoryController {
         res.status(401).json({ error: 'Unauthorized - User ID or Device ID required' });
         return;
       }
+      const provider = this.getRequestedProvider(req);
       console.log(`[StoryController] Processing request for userId: ${userId}`);
 
       const getStateStartTime = Date.now();
-      const storyState = await this.storyStateService.getOrCreateStoryState(userId);
+      const storyState = await this.storyStateService.getOrCreateStoryState(userId, undefined, provider);
       console.log(`[StoryController] getOrCreateStoryState completed in ${Date.now() - getStateStartTime}ms`);
       
       const currentSegment = storyState.getCurrentSegment();
@@ -49,14 +92,16 @@ export class StoryController {
         console.log(`[StoryController] No current segment found, generating initial segment`);
         
         const generateStartTime = Date.now();
-        const segment = await this.storyStateService.generateInitialStorySegment(userId);
+        const segment = await this.storyStateService.generateInitialStorySegment(userId, undefined, provider);
         console.log(`[StoryController] generateInitialStorySegment completed in ${Date.now() - generateStartTime}ms`);
         
-        // Mark the segment as viewed
-        const saveStartTime = Date.now();
-        storyState.markSegmentAsRead(segment.id);
-        await this.storyStateService.saveStoryState(userId);
-        console.log(`[StoryController] saveStoryState completed in ${Date.now() - saveStartTime}ms`);
+        // Mark the segment as viewed; saving only when that changed the state,
+        // as every save raises the version other tabs make choices against
+        if (storyState.markSegmentAsRead(segment.id)) {
+          const saveStartTime = Date.now();
+          await this.storyStateService.saveStoryState(userId);
+          console.log(`[StoryController] saveStoryState completed in ${Date.now() - saveStartTime}ms`);
+        }
         
         res.json({
           success: true,
@@ -66,11 +111,12 @@ export class StoryController {
       } else {
         console.log(`[StoryController] Current segment found id: ${currentSegment.id}`);
         
-        // Mark the segment as viewed
-        const saveStartTime = Date.now();
-        storyState.markSegmentAsRead(currentSegment.id);
-        await this.storyStateService.saveStoryState(userId);
-        console.log(`[StoryController] saveStoryState completed in ${Date.now() - saveStartTime}ms`);
+        // Mark the segment as viewed (a re-read saves nothing)
+        if (storyState.markSegmentAsRead(currentSegment.id)) {
+          const saveStartTime = Date.now();
+          await this.storyStateService.saveStoryState(userId);
+          console.log(`[StoryController] saveStoryState completed in ${Date.now() - saveStartTime}ms`);
+        }
         
         res.json({
           success: true,
@@ -82,6 +128,9 @@ export class StoryController {
       console.log(`[StoryController] getCurrentStory completed in ${Date.now() - startTime}ms`);
     } catch (error) {
       console.error(`[StoryController] Error getting current story (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
       res.status(500).json({ 
         success: false,
         error: 'Failed to get current story state',
@@ -119,22 +168,20 @@ export class StoryController {
       }
       console.log(`[StoryController] Processing choice ${choiceId} for userId: ${userId}`);
 
+      // Optional optimistic-concurrency check against the version the client last saw
+      const expectedVersion = this.getExpectedVersion(req);
+      const provider = this.getRequestedProvider(req);
+
       // Generate the next segment based on the choice
       const generateStartTime = Date.now();
       console.log(`[StoryController] Starting generateNextSegment`);
-      const nextSegment = await this.storyStateService.generateNextSegment(userId, choiceId);
+      const nextSegment = await this.storyStateService.generateNextSegment(userId, choiceId, expectedVersion, provider);
       console.log(`[StoryController] generateNextSegment completed in ${Date.now() - generateStartTime}ms`);
       
-      // Get the updated state
+      // Get the updated state (already saved, with the new segment marked as viewed)
       const getStateStartTime = Date.now();
       const storyState = await this.storyStateService.getOrCreateStoryState(userId);
       console.log(`[StoryController] getOrCreateStoryState completed in ${Date.now() - getStateStartTime}ms`);
-      
-      // Mark the new segment as viewed
-      const saveStartTime = Date.now();
-      storyState.markSegmentAsRead(nextSegment.id);
-      await this.storyStateService.saveStoryState(userId);
-      console.log(`[StoryController] saveStoryState completed in ${Date.now() - saveStartTime}ms`);
 
       res.json({
         success: true,
@@ -145,6 +192,9 @@ export class StoryController {
       console.log(`[StoryController] makeChoice completed in ${Date.now() - startTime}ms`);
     } catch (error) {
       console.error(`[StoryController] Error processing choice (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
       res.status(500).json({ 
         success: false,
         error: 'Failed to process story choice',
@@ -180,11 +230,12 @@ export class StoryController {
         });
         return;
       }
+      const provider = this.getRequestedProvider(req);
       console.log(`[StoryController] Processing conversation input for userId: ${userId}`);
 
       // Get the user's story state
       const getStateStartTime = Date.now();
-      const storyState = await this.storyStateService.getOrCreateStoryState(userId);
+      const storyState = await this.storyStateService.getOrCreateStoryState(userId, undefined, provider);
       console.log(`[StoryController] getOrCreateStoryState completed in ${Date.now() - getStateStartTime}ms`);
       
       // Get user context for the conversation
@@ -199,11 +250,6 @@ export class StoryController {
         storyState.conversationHistory = [];
       }
       
-      // Keep a reasonable history size (last 10 exchanges)
-      if (storyState.conversationHistory.length > 20) {
-        storyState.conversationHistory = storyState.conversationHistory.slice(-20);
-      }
-      
       // Add latest user input to history
       storyState.conversationHistory.push({
         role: 'user',
@@ -211,8 +257,12 @@ export class StoryController {
         timestamp: new Date()
       });
       
-      userContext.conversationHistory = storyState.conversationHistory;
-      console.log(`[StoryController] Context prepared in ${Date.now() - contextStart}ms`);
+      // Fold older messages into the story's summary, then give the prompt
+      // the summary, key facts and recent messages within its token budget
+      await this.storyMemory.update(storyState, provider);
+      const { tokens: memoryTokens, ...memoryContext } = this.storyMemory.buildContext(storyState);
+      Object.assign(userContext, memoryContext);
+      console.log(`[StoryController] Context prepared in ${Date.now() - contextStart}ms (${memoryTokens} tokens of story memory)`);
 
       // Enrich context with personalization
       const enrichStart = Date.now();
@@ -226,11 +276,7 @@ export class StoryController {
       const exchangeId = `conv_${Date.now()}_${Math.random().toString(36).substring(2, 6)}`;
       
       // Prepare the prompt for story generation
-      const prompt = `Continue this interactive story based on the user's input: "${userInput}".
-                    Respond directly as the narrator, crafting a vivid, engaging continuation of the story that
-                    incorporates the user's input naturally. Keep the response concise (2-4 paragraphs) and engaging.
-                    Don't refer to the user's input directly or use phrases like "based on what you said".
-                    Instead, weave their contribution seamlessly into the narrative.`;
+      const instruction = this.promptConstructor.renderInstruction('conversation-turn', { userInput }, userId);
       
       if (useStreaming) {
         // Set up streaming response
@@ -265,10 +311,12 @@ export class StoryController {
         console.log(`[StoryController] Starting streamed story response generation`);
         const generateStart = Date.now();
         
-        await this.gptClient.streamStorySegment({
-          prompt,
+        await this.llmClient.streamStorySegment({
+          prompt: instruction.text,
+          promptTemplate: instruction.template,
           context: enrichedContext,
-          onChunk
+          onChunk,
+          provider
         });
         
         console.log(`[StoryController] Streamed story response completed in ${Date.now() - generateStart}ms`);
@@ -277,7 +325,8 @@ export class StoryController {
         storyState.conversationHistory.push({
           role: 'assistant',
           content: fullStoryResponse,
-          timestamp: new Date()
+          timestamp: new Date(),
+          segmentId: exchangeId
         });
         
         // Create a story segment to maintain compatibility with existing frontend
@@ -290,6 +339,7 @@ export class StoryController {
         // Add to segments for historical tracking
         storyState.addSegment(conversationSegment);
         storyState.currentSegmentId = exchangeId;
+        await this.storyStateService.updateStoryBible(storyState, conversationSegment.content, provider);
         
         // Save the updated state
         const saveStart = Date.now();
@@ -310,9 +360,11 @@ export class StoryController {
         console.log(`[StoryController] Starting non-streamed story response generation`);
         const generateStart = Date.now();
         
-        const storyResponse = await this.gptClient.generateStorySegment({
-          prompt,
-          context: enrichedContext
+        const storyResponse = await this.llmClient.generateStorySegment({
+          prompt: instruction.text,
+          promptTemplate: instruction.template,
+          context: enrichedContext,
+          provider
         });
         
         console.log(`[StoryController] Story response generated in ${Date.now() - generateStart}ms`);
@@ -321,7 +373,8 @@ export class StoryController {
         storyState.conversationHistory.push({
           role: 'assistant',
           content: storyResponse,
-          timestamp: new Date()
+          timestamp: new Date(),
+          segmentId: exchangeId
         });
         
         // Create a story segment to maintain compatibility with existing frontend
@@ -334,6 +387,7 @@ export class StoryController {
         // Add to segments for historical tracking
         storyState.addSegment(conversationSegment);
         storyState.currentSegmentId = exchangeId;
+        await this.storyStateService.updateStoryBible(storyState, conversationSegment.content, provider);
         
         // Save the updated state
         const saveStart = Date.now();
@@ -356,6 +410,9 @@ export class StoryController {
       console.log(`[StoryController] converseWithStory completed in ${Date.now() - startTime}ms`);
     } catch (error) {
       console.error(`[StoryController] Error in conversation (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
       res.status(500).json({ 
         success: false,
         error: 'Failed to process conversational input',
@@ -383,20 +440,20 @@ export class StoryController {
         return;
       }
       
-      // Get preferences from request if any
-      const { preferences } = req.body || {};
+      // Get preferences and an optional title from request if any
+      const { preferences, title } = req.body || {};
+      const provider = this.getRequestedProvider(req);
       console.log(`[StoryController] Starting conversation for userId: ${userId}`);
       
       // Check if streaming is requested
       const useStreaming = req.query.stream === 'true' || req.body.stream === true;
       
-      // Clear existing state first
-      const clearStateStartTime = Date.now();
-      await this.storyStateService.clearUserState(userId);
-      console.log(`[StoryController] clearUserState completed in ${Date.now() - clearStateStartTime}ms`);
-      
-      // Create new state
+      // Create new state in its own save slot, leaving the user's other stories untouched
       const storyState = new StoryState(userId);
+      storyState.storyId = this.storyStateService.generateStoryId();
+      if (typeof title === 'string' && title.trim()) {
+        storyState.title = title.trim();
+      }
       
       // Initialize conversation history
       storyState.conversationHistory = [];
@@ -423,10 +480,7 @@ export class StoryController {
       const introId = 'conv_intro';
       
       // Prepare the story prompt
-      const prompt = `Create a brief, engaging introduction to an interactive story. 
-                      Set the scene and atmosphere in 2-3 paragraphs, but don't introduce specific characters yet 
-                      as the user will help shape the story. End with an open-ended prompt that invites the user to 
-                      contribute to what happens next. Do not present choices - this is a fully interactive story.`;
+      const instruction = this.promptConstructor.renderInstruction('conversation-intro', {}, userId);
       
       if (useStreaming) {
         // Set up streaming response
@@ -461,10 +515,12 @@ export class StoryController {
         console.log(`[StoryController] Starting streamed story introduction generation`);
         const generateStart = Date.now();
         
-        await this.gptClient.streamStorySegment({
-          prompt,
+        await this.llmClient.streamStorySegment({
+          prompt: instruction.text,
+          promptTemplate: instruction.template,
           context: enrichedContext,
-          onChunk
+          onChunk,
+          provider
         });
         
         console.log(`[StoryController] Streamed story introduction completed in ${Date.now() - generateStart}ms`);
@@ -484,7 +540,8 @@ export class StoryController {
         storyState.conversationHistory.push({
           role: 'assistant',
           content: fullStoryIntro,
-          timestamp: new Date()
+          timestamp: new Date(),
+          segmentId: introId
         });
         
         // Save state
@@ -504,9 +561,11 @@ export class StoryController {
       } else {
         // Generate the initial story introduction (non-streaming)
         const generateStart = Date.now();
-        const storyIntro = await this.gptClient.generateStorySegment({
-          prompt,
-          context: enrichedContext
+        const storyIntro = await this.llmClient.generateStorySegment({
+          prompt: instruction.text,
+          promptTemplate: instruction.template,
+          context: enrichedContext,
+          provider
         });
         console.log(`[StoryController] Initial story generated in ${Date.now() - generateStart}ms`);
         
@@ -525,7 +584,8 @@ export class StoryController {
         storyState.conversationHistory.push({
           role: 'assistant',
           content: storyIntro,
-          timestamp: new Date()
+          timestamp: new Date(),
+          segmentId: introId
         });
         
         // Save state
@@ -548,6 +608,9 @@ export class StoryController {
       console.log(`[StoryController] startConversation completed in ${Date.now() - startTime}ms`);
     } catch (error) {
       console.error(`[StoryController] Error starting conversation (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
       res.status(500).json({ 
         success: false,
         error: 'Failed to start conversational story',
@@ -616,6 +679,9 @@ export class StoryController {
       console.log(`[StoryController] updateProgress completed in ${Date.now() - startTime}ms`);
     } catch (error) {
       console.error(`[StoryController] Error updating progress (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
       res.status(500).json({ 
         success: false,
         error: 'Failed to update story progress',
@@ -642,6 +708,7 @@ export class StoryController {
         });
         return;
       }
+      const provider = this.getRequestedProvider(req);
       console.log(`[StoryController] Resetting story for userId: ${userId}`);
       
       // Clear the user's state
@@ -651,7 +718,7 @@ export class StoryController {
       
       // Get a fresh initial state
       const getStateStartTime = Date.now();
-      const storyState = await this.storyStateService.getOrCreateStoryState(userId);
+      const storyState = await this.storyStateService.getOrCreateStoryState(userId, undefined, provider);
       console.log(`[StoryController] getOrCreateStoryState completed in ${Date.now() - getStateStartTime}ms`);
       
       const currentSegment = storyState.getCurrentSegment();
@@ -667,6 +734,9 @@ export class StoryController {
       console.log(`[StoryController] resetStory completed in ${Date.now() - startTime}ms`);
     } catch (error) {
       console.error(`[StoryController] Error resetting story (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
       res.status(500).json({
         success: false,
         error: 'Failed to reset story',
@@ -675,6 +745,522 @@ export class StoryController {
     }
   }
   
+  /**
+   * Rewind the story to an earlier segment, keeping the undone part as an abandoned branch
+   * @route POST /api/story/rewind
+   */
+  async rewindStory(req: RequestWithUser, res: Response): Promise<void> {
+    const startTime = Date.now();
+    console.log(`[StoryController] Starting rewindStory`);
+    
+    try {
+      // For demo purposes, use deviceId if user auth not available
+      const userId = req.user?.id || req.header('X-Device-ID');
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - User ID or Device ID required'
+        });
+        return;
+      }
+      
+      // Without a segment ID this undoes the most recent choice
+      const { segmentId } = req.body || {};
+      if (segmentId !== undefined && typeof segmentId !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Segment ID must be a string'
+        });
+        return;
+      }
+      console.log(`[StoryController] Rewinding story for userId: ${userId} to ${segmentId || 'previous choice'}`);
+      
+      const rewindStartTime = Date.now();
+      const branch = await this.storyStateService.rewindStory(userId, segmentId, this.getExpectedVersion(req));
+      console.log(`[StoryController] Rewind applied in ${Date.now() - rewindStartTime}ms`);
+      
+      const storyState = await this.storyStateService.getOrCreateStoryState(userId);
+      const currentSegment = storyState.getCurrentSegment();
+      
+      res.json({
+        success: true,
+        segment: currentSegment ? this.formatStorySegment(currentSegment) : null,
+        branch: {
+          id: branch.id,
+          fromSegmentId: branch.fromSegmentId,
+          toSegmentId: branch.toSegmentId,
+          undoneChoices: branch.choiceHistory.length,
+          undoneMessages: branch.conversationHistory.length
+        },
+        state: storyState.getPublicState()
+      });
+      
+      console.log(`[StoryController] rewindStory completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      console.error(`[StoryController] Error rewinding story (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to rewind story',
+        message: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Export the graph of segments the user has explored
+   * @route GET /api/story/graph?format=json|dot|mermaid
+   */
+  async getStoryGraph(req: RequestWithUser, res: Response): Promise<void> {
+    const startTime = Date.now();
+    console.log(`[StoryController] Starting getStoryGraph`);
+    
+    try {
+      // For demo purposes, use deviceId if user auth not available
+      const userId = req.user?.id || req.header('X-Device-ID');
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - User ID or Device ID required'
+        });
+        return;
+      }
+      
+      const format = (req.query.format || 'json') as StoryGraphFormat;
+      if (!STORY_GRAPH_FORMATS.includes(format)) {
+        res.status(400).json({
+          success: false,
+          error: `Format must be one of: ${STORY_GRAPH_FORMATS.join(', ')}`
+        });
+        return;
+      }
+      
+      const storyState = await this.storyStateService.getOrCreateStoryState(userId);
+      const graph = this.storyGraphExporter.buildGraph(storyState);
+      
+      if (format === 'json') {
+        res.json({
+          success: true,
+          graph
+        });
+      } else {
+        res.type(format === 'dot' ? 'text/vnd.graphviz' : 'text/plain');
+        res.send(this.storyGraphExporter.render(graph, format));
+      }
+      
+      console.log(`[StoryController] getStoryGraph completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      console.error(`[StoryController] Error exporting story graph (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to export story graph',
+        message: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Get the characters, items, locations and open plot threads of the active story
+   * @route GET /api/story/bible
+   */
+  async getStoryBible(req: RequestWithUser, res: Response): Promise<void> {
+    const startTime = Date.now();
+    console.log(`[StoryController] Starting getStoryBible`);
+    
+    try {
+      // For demo purposes, use deviceId if user auth not available
+      const userId = req.user?.id || req.header('X-Device-ID');
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - User ID or Device ID required'
+        });
+        return;
+      }
+      
+      const storyState = await this.storyStateService.getOrCreateStoryState(userId);
+      res.json({
+        success: true,
+        storyId: storyState.storyId,
+        bible: storyState.bible
+      });
+      
+      console.log(`[StoryController] getStoryBible completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      console.error(`[StoryController] Error getting story bible (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get story bible',
+        message: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Download the path taken through the active story as a book
+   * @route GET /api/story/transcript?format=markdown|html|epub
+   */
+  async getStoryTranscript(req: RequestWithUser, res: Response): Promise<void> {
+    const startTime = Date.now();
+    console.log(`[StoryController] Starting getStoryTranscript`);
+    
+    try {
+      // For demo purposes, use deviceId if user auth not available
+      const userId = req.user?.id || req.header('X-Device-ID');
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - User ID or Device ID required'
+        });
+        return;
+      }
+      
+      const format = (req.query.format || 'markdown') as StoryTranscriptFormat;
+      if (!STORY_TRANSCRIPT_FORMATS.includes(format)) {
+        res.status(400).json({
+          success: false,
+          error: `Format must be one of: ${STORY_TRANSCRIPT_FORMATS.join(', ')}`
+        });
+        return;
+      }
+      
+      const storyState = await this.storyStateService.getOrCreateStoryState(userId);
+      const transcript = this.storyTranscriptRenderer.buildTranscript(storyState);
+      const rendered = await this.storyTranscriptRenderer.render(transcript, format);
+      
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.fileName}"`);
+      res.type(rendered.contentType);
+      res.send(rendered.body);
+      
+      console.log(`[StoryController] getStoryTranscript completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      console.error(`[StoryController] Error rendering story transcript (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to render story transcript',
+        message: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Download the active story as a signed archive
+   * @route GET /api/story/export
+   */
+  async exportStory(req: RequestWithUser, res: Response): Promise<void> {
+    const startTime = Date.now();
+    console.log(`[StoryController] Starting exportStory`);
+    
+    try {
+      // For demo purposes, use deviceId if user auth not available
+      const userId = req.user?.id || req.header('X-Device-ID');
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - User ID or Device ID required'
+        });
+        return;
+      }
+      
+      const archive = await this.storyArchiveService.exportStory(userId);
+      
+      res.setHeader('Content-Disposition', `attachment; filename="story-${archive.story.storyId}.json"`);
+      res.json(archive);
+      
+      console.log(`[StoryController] exportStory completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      console.error(`[StoryController] Error exporting story (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to export story',
+        message: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Install a story archive as a new save slot and make it the active story
+   * @route POST /api/story/import
+   */
+  async importStory(req: RequestWithUser, res: Response): Promise<void> {
+    const startTime = Date.now();
+    console.log(`[StoryController] Starting importStory`);
+    
+    try {
+      // For demo purposes, use deviceId if user auth not available
+      const userId = req.user?.id || req.header('X-Device-ID');
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - User ID or Device ID required'
+        });
+        return;
+      }
+      
+      const { storyState, missingIllustrationIds } = await this.storyArchiveService.importStory(userId, req.body);
+      const currentSegment = storyState.getCurrentSegment();
+      
+      res.status(201).json({
+        success: true,
+        segment: currentSegment ? this.formatStorySegment(currentSegment) : null,
+        state: storyState.getPublicState(),
+        missingIllustrationIds
+      });
+      
+      console.log(`[StoryController] importStory completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      console.error(`[StoryController] Error importing story (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to import story',
+        message: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * List the user's save slots
+   * @route GET /api/story/slots
+   */
+  async listSlots(req: RequestWithUser, res: Response): Promise<void> {
+    const startTime = Date.now();
+    console.log(`[StoryController] Starting listSlots`);
+    
+    try {
+      // For demo purposes, use deviceId if user auth not available
+      const userId = req.user?.id || req.header('X-Device-ID');
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - User ID or Device ID required'
+        });
+        return;
+      }
+      
+      // Resolve the active slot first so it is flagged in the listing
+      const activeStoryId = await this.storyStateService.getActiveStoryId(userId);
+      const slots = await this.storyStateService.listStorySlots(userId);
+      
+      res.json({
+        success: true,
+        activeStoryId,
+        slots
+      });
+      
+      console.log(`[StoryController] listSlots completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      console.error(`[StoryController] Error listing story slots (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list story slots',
+        message: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Start a new story in a new save slot and make it active
+   * @route POST /api/story/slots
+   */
+  async createSlot(req: RequestWithUser, res: Response): Promise<void> {
+    const startTime = Date.now();
+    console.log(`[StoryController] Starting createSlot`);
+    
+    try {
+      // For demo purposes, use deviceId if user auth not available
+      const userId = req.user?.id || req.header('X-Device-ID');
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - User ID or Device ID required'
+        });
+        return;
+      }
+      
+      const { title } = req.body || {};
+      if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+        res.status(400).json({
+          success: false,
+          error: 'Title must be a non-empty string'
+        });
+        return;
+      }
+      
+      const provider = this.getRequestedProvider(req);
+      const storyState = await this.storyStateService.createStorySlot(userId, title?.trim(), provider);
+      const currentSegment = storyState.getCurrentSegment();
+      
+      res.status(201).json({
+        success: true,
+        segment: currentSegment ? this.formatStorySegment(currentSegment) : null,
+        state: storyState.getPublicState()
+      });
+      
+      console.log(`[StoryController] createSlot completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      console.error(`[StoryController] Error creating story slot (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create story slot',
+        message: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Make one of the user's save slots the active story
+   * @route POST /api/story/slots/:storyId/switch
+   */
+  async switchSlot(req: RequestWithUser, res: Response): Promise<void> {
+    const startTime = Date.now();
+    console.log(`[StoryController] Starting switchSlot`);
+    
+    try {
+      // For demo purposes, use deviceId if user auth not available
+      const userId = req.user?.id || req.header('X-Device-ID');
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - User ID or Device ID required'
+        });
+        return;
+      }
+      
+      const storyState = await this.storyStateService.switchStorySlot(userId, String(req.params.storyId));
+      const currentSegment = storyState.getCurrentSegment();
+      
+      res.json({
+        success: true,
+        segment: currentSegment ? this.formatStorySegment(currentSegment) : null,
+        state: storyState.getPublicState()
+      });
+      
+      console.log(`[StoryController] switchSlot completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      console.error(`[StoryController] Error switching story slot (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to switch story slot',
+        message: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Rename one of the user's save slots
+   * @route PATCH /api/story/slots/:storyId
+   */
+  async renameSlot(req: RequestWithUser, res: Response): Promise<void> {
+    const startTime = Date.now();
+    console.log(`[StoryController] Starting renameSlot`);
+    
+    try {
+      // For demo purposes, use deviceId if user auth not available
+      const userId = req.user?.id || req.header('X-Device-ID');
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - User ID or Device ID required'
+        });
+        return;
+      }
+      
+      const { title } = req.body || {};
+      if (typeof title !== 'string' || !title.trim()) {
+        res.status(400).json({
+          success: false,
+          error: 'Title is required'
+        });
+        return;
+      }
+      
+      const storyState = await this.storyStateService.renameStorySlot(userId, String(req.params.storyId), title.trim());
+      
+      res.json({
+        success: true,
+        state: storyState.getPublicState()
+      });
+      
+      console.log(`[StoryController] renameSlot completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      console.error(`[StoryController] Error renaming story slot (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to rename story slot',
+        message: (error as Error).message
+      });
+    }
+  }
+  
+  /**
+   * Delete one of the user's save slots
+   * @route DELETE /api/story/slots/:storyId
+   */
+  async deleteSlot(req: RequestWithUser, res: Response): Promise<void> {
+    const startTime = Date.now();
+    console.log(`[StoryController] Starting deleteSlot`);
+    
+    try {
+      // For demo purposes, use deviceId if user auth not available
+      const userId = req.user?.id || req.header('X-Device-ID');
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Unauthorized - User ID or Device ID required'
+        });
+        return;
+      }
+      
+      await this.storyStateService.deleteStorySlot(userId, String(req.params.storyId));
+      
+      res.json({
+        success: true,
+        message: 'Story slot deleted successfully'
+      });
+      
+      console.log(`[StoryController] deleteSlot completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      console.error(`[StoryController] Error deleting story slot (${Date.now() - startTime}ms):`, error);
+      if (this.sendKnownError(res, error)) {
+        return;
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Failed to delete story slot',
+        message: (error as Error).message
+      });
+    }
+  }
+  
   /**
    * Format a story segment for API response
    */
@@ -688,4 +1274,130 @@ export class StoryController {
       }))
     };
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Read the story version a client based its request on, from the request
+   * body (`version`) or an `If-Match` header. Returns undefined when absent.
+   */
+  private getExpectedVersion(req: RequestWithUser): number | undefined {
+    const rawVersion = req.body?.version ?? req.header('If-Match')?.replace(/^W\//, '').replace(/"/g, '');
+    if (rawVersion === undefined || rawVersion === null || rawVersion === '') {
+      return undefined;
+    }
+    
+    const version = Number(rawVersion);
+    return Number.isInteger(version) ? version : undefined;
+  }
+  
+  /**
+   * Read the LLM provider a client asked for with the X-LLM-Provider header.
+   * Returns undefined when absent (the deployment default is used); throws
+   * UnknownLLMProviderError for providers this deployment does not offer.
+   */
+  private getRequestedProvider(req: RequestWithUser): string | undefined {
+    const provider = req.header('X-LLM-Provider')?.trim().toLowerCase();
+    if (!provider) {
+      return undefined;
+    }
+    
+    const availableProviders = this.llmClient.getProviderNames();
+    if (!availableProviders.includes(provider)) {
+      throw new UnknownLLMProviderError(provider, availableProviders);
+    }
+    return provider;
+  }
+  
+  /**
+   * Respond to an error any handler can run into: a write that lost an
+   * optimistic-concurrency race (clients should re-fetch /story/current and
+   * retry with the new version), an LLM provider that is unknown or whose
+   * circuit breaker is open, a spent usage budget, a missing save slot, a bad
+   * rewind target or an archive that cannot be exported or imported.
+   * Returns false for any other error, which the handler reports itself.
+   */
+  private sendKnownError(res: Response, error: unknown): boolean {
+    const known = this.describeKnownError(error);
+    if (!known) {
+      return false;
+    }
+    
+    const body = { success: false, ...known.body };
+    
+    // Streaming responses have already sent their headers, so report it as an event
+    if (res.headersSent) {
+      res.write(`data: ${JSON.stringify({ type: 'error', status: known.status, ...body })}\n\n`);
+      res.end();
+      return true;
+    }
+    
+    if (known.retryAt) {
+      res.set('Retry-After', String(this.secondsUntil(known.retryAt)));
+    }
+    res.status(known.status).json(body);
+    return true;
+  }
+  
+  /**
+   * Map an error class to the status and body sendKnownError responds with
+   */
+  private describeKnownError(
+    error: unknown
+  ): { status: number; body: Record<string, unknown>; retryAt?: Date } | null {
+    if (error instanceof StateVersionConflictError) {
+      return {
+        status: 409,
+        body: {
+          error: 'Story state was changed by another request',
+          message: error.message,
+          currentVersion: error.actualVersion
+        }
+      };
+    }
+    if (error instanceof UnknownLLMProviderError) {
+      return { status: 400, body: { error: 'Unknown LLM provider', message: error.message } };
+    }
+    if (error instanceof LLMCircuitOpenError) {
+      return {
+        status: 503,
+        body: {
+          error: 'LLM provider unavailable',
+          message: error.message,
+          retryAfter: this.secondsUntil(error.retryAt)
+        },
+        retryAt: error.retryAt
+      };
+    }
+    if (error instanceof UsageBudgetExceededError) {
+      return {
+        status: 429,
+        body: {
+          error: 'Usage budget exceeded',
+          message: error.message,
+          period: error.period,
+          resetAt: error.resetAt.toISOString()
+        },
+        retryAt: error.resetAt
+      };
+    }
+    if (error instanceof StorySlotNotFoundError) {
+      return { status: 404, body: { error: 'Story not found', message: error.message } };
+    }
+    if (error instanceof InvalidRewindTargetError) {
+      return { status: 400, body: { error: 'Invalid rewind target', message: error.message } };
+    }
+    if (error instanceof StoryArchiveError) {
+      return {
+        status: ARCHIVE_ERROR_STATUSES[error.reason],
+        body: { error: ARCHIVE_ERROR_MESSAGES[error.reason], message: error.message }
+      };
+    }
+    return null;
+  }
+  
+  /**
+   * Whole seconds until a time, for Retry-After (at least 1)
+   */
+  private secondsUntil(time: Date): number {
+    return Math.max(1, Math.ceil((time.getTime() - Date.now()) / 1000));
+  }
+}
@@ -16,9 +16,12 @@ import { responseFormatter } from './middleware/responseFormatter';
 import { setupSwaggerMiddleware } from './middleware/swagger.middleware';
 import { validateApiKeys } from './config/services';
 import { createBaseRouter } from './routes/baseRouter';
-import { healthRouter } from './routes/health.routes';
+import { initHealthRoutes } from './routes/health.routes';
 import { initStoryRoutes } from './routes/story.routes';
 import { initMonitoringRoutes } from './routes/monitoring.routes';
+import { initAdminRoutes } from './routes/admin.routes';
+import { initTemplateRoutes } from './routes/template.routes';
+import { createStoryServices } from './services/storyServices';
 import { initVoiceRoutes } from './routes/voice.routes';
 import { attachDeviceId } from './middleware/deviceId';
 import { VoiceController } from './controllers/voiceController';
@@ -61,7 +64,8 @@ export const server = http.createServer(app);
 // Apply middlewares
 app.use(loggingMiddleware);
 app.use(corsMiddleware);
-app.use(express.json());
+// Story archives (POST /story/import) can be well over the default 100kb
+app.use(express.json({ limit: '5mb' }));
 app.use(responseFormatter());
 app.use(attachDeviceId);
 
@@ -77,7 +81,6 @@ app.get('/health', (req, res) => {
 
 // Routes should be defined here
 const v1Router = createBaseRouter('v1');
-v1Router.use('/health', healthRouter);
 
 // Get API key from environment
 const apiKey = process.env.OPENAI_API_KEY || '';
@@ -86,11 +89,19 @@ if (!apiKey) {
 }
 
 // Mount story routes on API router
-v1Router.use('/story', initStoryRoutes(apiKey));
+const storyServices = createStoryServices(apiKey);
+v1Router.use('/health', initHealthRoutes(storyServices.llmProviders));
+v1Router.use('/story', initStoryRoutes(storyServices));
 
 // Mount monitoring routes
 v1Router.use('/monitoring', initMonitoringRoutes());
 
+// Mount admin routes
+v1Router.use('/admin', initAdminRoutes(storyServices));
+
+// Mount story template routes
+v1Router.use('/templates', initTemplateRoutes(storyServices));
+
 // Initialize all services
 const services = initializeServices();
 
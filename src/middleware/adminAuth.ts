@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import adminConfig, { AdminConfig } from '../config/admin';
+
+/**
+ * Middleware factory that only lets requests with the admin token through.
+ * The token is sent in the X-Admin-Token header. Without a configured token
+ * every admin request is refused.
+ */
+export const requireAdminToken = (config: AdminConfig = adminConfig): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!config.apiToken) {
+      res.status(503).json({
+        success: false,
+        error: 'Admin API is disabled - set ADMIN_API_TOKEN to enable it'
+      });
+      return;
+    }
+
+    const token = req.header('X-Admin-Token') || '';
+    const expected = Buffer.from(config.apiToken);
+    const actual = Buffer.from(token);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      res.status(401).json({
+        success: false,
+        error: 'Unauthorized - admin token required'
+      });
+      return;
+    }
+
+    next();
+  };
+};
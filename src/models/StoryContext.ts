@@ -1,3 +1,5 @@
+import { StoryBible } from './StoryState';
+
 export interface StoryContext {
   // Required fields
   userId: string;
@@ -20,6 +22,7 @@ export interface StoryContext {
   previousSegment?: string;
   lastChoice?: string;
   choiceHistory?: string[];
+  storyBible?: StoryBible;
   
   // Additional metadata
   [key: string]: any; // Allow for future extensibility
@@ -14,18 +14,105 @@ export interface UserChoice {
   segmentId: string;
   choiceId: string;
   timestamp: Date;
+  // Story variables before the choice, so rewinding can undo its effects
+  variables?: StoryVariables;
 }
 
+export type StoryVariableValue = string | number | boolean | string[];
+
+/**
+ * Flags, counters, inventory and other values a story template's choices
+ * read and change, by name
+ */
+export type StoryVariables = Record<string, StoryVariableValue>;
+
 export interface ConversationMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  // Segment this message produced (assistant messages only)
+  segmentId?: string;
+}
+
+/**
+ * Part of a story that was undone by rewinding, kept so it can be revisited
+ */
+export interface StoryBranch {
+  id: string;
+  rewoundAt: Date;
+  // Segment that was current when the user rewound
+  fromSegmentId: string;
+  // Segment the user rewound to
+  toSegmentId: string;
+  choiceHistory: UserChoice[];
+  conversationHistory: ConversationMessage[];
+}
+
+/**
+ * Something the story has established that later segments must stay true to
+ */
+export interface StoryBibleEntry {
+  name: string;
+  description: string;
+}
+
+/**
+ * The characters, items, locations and open plot threads of one story,
+ * kept up to date as segments are written
+ */
+export interface StoryBible {
+  characters: StoryBibleEntry[];
+  items: StoryBibleEntry[];
+  locations: StoryBibleEntry[];
+  // Promises, mysteries and other threads the story has not resolved yet
+  plotThreads: StoryBibleEntry[];
+}
+
+/**
+ * What one segment added to or changed in the bible
+ */
+export interface StoryBibleUpdate extends StoryBible {
+  // Names of plot threads the segment resolved
+  resolvedPlotThreads: string[];
+}
+
+export function createEmptyStoryBible(): StoryBible {
+  return { characters: [], items: [], locations: [], plotThreads: [] };
+}
+
+/**
+ * What a conversational story remembers beyond the recent messages
+ */
+export interface StoryMemory {
+  // Rolling summary of every message up to summarizedThrough
+  summary: string;
+  // Timestamp of the last message folded into the summary (null before the first)
+  summarizedThrough: Date | null;
+  // How many messages stamped exactly summarizedThrough are in the summary;
+  // replies can land in the same millisecond as the message before them
+  summarizedThroughCount: number;
+}
+
+export function createEmptyStoryMemory(): StoryMemory {
+  return { summary: '', summarizedThrough: null, summarizedThroughCount: 0 };
 }
 
 export type ContextualData = Record<string, any>;
 
+// Save slot used for users who have never created or switched stories
+export const DEFAULT_STORY_ID = 'default';
+
+// Schema version written into serialized state; older snapshots are upgraded
+// by the migrations in StoryStateMigrations on load
+export const STORY_STATE_SCHEMA_VERSION = 10;
+
 interface StoryStateData {
+  schemaVersion: number;
   userId: string;
+  storyId?: string;
+  title?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
   currentSegmentId: string;
   segments: Record<string, StorySegment>;
   choiceHistory: UserChoice[];
@@ -33,16 +120,41 @@ interface StoryStateData {
   readSegments: string[];
   conversationHistory?: ConversationMessage[];
   isConversationalMode?: boolean;
+  version?: number;
+  abandonedBranches?: StoryBranch[];
+  memory?: StoryMemory;
+  bible?: StoryBible;
+  templateId?: string | null;
+  templateVersion?: number | null;
+  templateHash?: string | null;
+  variables?: StoryVariables;
 }
 
 export class StoryState {
   userId: string;
+  storyId: string = DEFAULT_STORY_ID;
+  title: string = 'My Story';
+  createdAt: Date = new Date();
+  updatedAt: Date = new Date();
   currentSegmentId: string;
   segments: Record<string, StorySegment>;
   choiceHistory: UserChoice[];
   contextualData: ContextualData;
   conversationHistory: ConversationMessage[] = [];
   isConversationalMode: boolean = false;
+  abandonedBranches: StoryBranch[] = [];
+  memory: StoryMemory = createEmptyStoryMemory();
+  bible: StoryBible = createEmptyStoryBible();
+  // Story template the story was started from; null when the AI writes all of it
+  templateId: string | null = null;
+  // Version of that template, which the story keeps following when the template changes
+  templateVersion: number | null = null;
+  // Content hash of that version, which finds it wherever it is numbered differently
+  templateHash: string | null = null;
+  // Values the template's choices have set
+  variables: StoryVariables = {};
+  // Version of the snapshot this state was loaded from or last saved as (0 = never saved)
+  version: number = 0;
   private readSegments: Set<string> = new Set();
 
   constructor(
@@ -89,7 +201,8 @@ export class StoryState {
     this.choiceHistory.push({
       segmentId: this.currentSegmentId,
       choiceId,
-      timestamp: new Date()
+      timestamp: new Date(),
+      ...(Object.keys(this.variables).length > 0 ? { variables: StoryState.copyVariables(this.variables) } : {})
     });
 
     // Update current segment
@@ -99,14 +212,94 @@ export class StoryState {
   /**
    * Add a message to the conversation history
    */
-  addConversationMessage(role: 'user' | 'assistant', content: string): void {
+  addConversationMessage(role: 'user' | 'assistant', content: string, segmentId?: string): void {
     this.conversationHistory.push({
       role,
       content,
-      timestamp: new Date()
+      timestamp: new Date(),
+      ...(segmentId ? { segmentId } : {})
     });
   }
 
+  /**
+   * Segments the story can be rewound to, oldest first
+   */
+  getRewindTargets(): string[] {
+    if (this.choiceHistory.length > 0) {
+      return Array.from(new Set(this.choiceHistory.map(choice => choice.segmentId)));
+    }
+
+    // Conversational stories rewind to an earlier narrator response
+    const segmentIds = this.conversationHistory
+      .filter(message => message.role === 'assistant' && message.segmentId)
+      .map(message => message.segmentId as string)
+      .filter(segmentId => segmentId !== this.currentSegmentId);
+    return Array.from(new Set(segmentIds));
+  }
+
+  /**
+   * Go back to an earlier segment (the most recent rewind target by default).
+   * Choices and messages after that point are moved into an abandoned branch;
+   * the segments themselves stay in the story so the branch can be revisited.
+   */
+  rewindTo(segmentId?: string): StoryBranch {
+    const targets = this.getRewindTargets();
+    const targetSegmentId = segmentId || targets[targets.length - 1];
+    if (!targetSegmentId || !targets.includes(targetSegmentId)) {
+      throw new Error('Invalid rewind target');
+    }
+
+    let droppedChoices: UserChoice[] = [];
+    let droppedMessages: ConversationMessage[] = [];
+
+    const choiceIndex = this.choiceHistory.map(choice => choice.segmentId).lastIndexOf(targetSegmentId);
+    if (choiceIndex >= 0) {
+      // Undo the choice made at the target and everything after it
+      const rewindPoint = new Date(this.choiceHistory[choiceIndex].timestamp).getTime();
+      droppedChoices = this.choiceHistory.slice(choiceIndex);
+      this.choiceHistory = this.choiceHistory.slice(0, choiceIndex);
+
+      const messageIndex = this.conversationHistory.findIndex(
+        message => new Date(message.timestamp).getTime() >= rewindPoint
+      );
+      if (messageIndex >= 0) {
+        droppedMessages = this.conversationHistory.slice(messageIndex);
+        this.conversationHistory = this.conversationHistory.slice(0, messageIndex);
+      }
+    } else {
+      // Keep the conversation up to and including the target response
+      const messageIndex = this.conversationHistory
+        .map(message => message.role === 'assistant' ? message.segmentId : undefined)
+        .lastIndexOf(targetSegmentId);
+      droppedMessages = this.conversationHistory.slice(messageIndex + 1);
+      this.conversationHistory = this.conversationHistory.slice(0, messageIndex + 1);
+    }
+
+    const branch: StoryBranch = {
+      id: `branch_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      rewoundAt: new Date(),
+      fromSegmentId: this.currentSegmentId,
+      toSegmentId: targetSegmentId,
+      choiceHistory: droppedChoices,
+      conversationHistory: droppedMessages
+    };
+    this.abandonedBranches.push(branch);
+    this.currentSegmentId = targetSegmentId;
+    if (droppedChoices[0]?.variables) {
+      this.variables = StoryState.copyVariables(droppedChoices[0].variables);
+    }
+
+    // A summary that covers undone messages no longer describes the story;
+    // it is rebuilt from the messages that are left
+    const summarizedThrough = this.memory.summarizedThrough?.getTime();
+    if (summarizedThrough !== undefined &&
+        droppedMessages.some(message => new Date(message.timestamp).getTime() <= summarizedThrough)) {
+      this.memory = createEmptyStoryMemory();
+    }
+
+    return branch;
+  }
+
   /**
    * Switch to conversational mode
    */
@@ -114,6 +307,34 @@ export class StoryState {
     this.isConversationalMode = true;
   }
 
+  /**
+   * Merge what a segment established into the bible. Entries are matched by
+   * name, ignoring case; a matching entry takes the newer description.
+   */
+  updateBible(update: StoryBibleUpdate): void {
+    const merge = (entries: StoryBibleEntry[], changes: StoryBibleEntry[]): StoryBibleEntry[] => {
+      const merged = [...entries];
+      changes.forEach(change => {
+        const index = merged.findIndex(entry => entry.name.toLowerCase() === change.name.toLowerCase());
+        if (index >= 0) {
+          merged[index] = { ...merged[index], description: change.description };
+        } else {
+          merged.push({ name: change.name, description: change.description });
+        }
+      });
+      return merged;
+    };
+
+    const resolved = new Set(update.resolvedPlotThreads.map(name => name.toLowerCase()));
+    this.bible = {
+      characters: merge(this.bible.characters, update.characters),
+      items: merge(this.bible.items, update.items),
+      locations: merge(this.bible.locations, update.locations),
+      plotThreads: merge(this.bible.plotThreads, update.plotThreads)
+        .filter(thread => !resolved.has(thread.name.toLowerCase()))
+    };
+  }
+
   updateContextualData(newData: ContextualData): void {
     this.contextualData = this.deepMerge(this.contextualData, newData);
   }
@@ -144,39 +365,36 @@ export class StoryState {
 
   toJSON(): StoryStateData {
     return {
+      schemaVersion: STORY_STATE_SCHEMA_VERSION,
       userId: this.userId,
+      storyId: this.storyId,
+      title: this.title,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
       currentSegmentId: this.currentSegmentId,
       segments: this.segments,
       choiceHistory: this.choiceHistory,
       contextualData: this.contextualData,
       readSegments: Array.from(this.readSegments),
       conversationHistory: this.conversationHistory,
-      isConversationalMode: this.isConversationalMode
+      isConversationalMode: this.isConversationalMode,
+      version: this.version,
+      abandonedBranches: this.abandonedBranches,
+      memory: this.memory,
+      bible: this.bible,
+      templateId: this.templateId,
+      templateVersion: this.templateVersion,
+      templateHash: this.templateHash,
+      variables: this.variables
     };
   }
 
   static fromJSON(data: any): StoryState {
     // Process choice history to convert string timestamps to Date objects
-    const choiceHistory = Array.isArray(data.choiceHistory) 
-      ? data.choiceHistory.map((choice: any) => ({
-          segmentId: choice.segmentId,
-          choiceId: choice.choiceId,
-          timestamp: typeof choice.timestamp === 'string' 
-            ? new Date(choice.timestamp) 
-            : choice.timestamp
-        }))
-      : [];
+    const choiceHistory = StoryState.choiceHistoryFromJSON(data.choiceHistory);
       
     // Process conversation history if available
-    const conversationHistory = Array.isArray(data.conversationHistory)
-      ? data.conversationHistory.map((message: any) => ({
-          role: message.role,
-          content: message.content,
-          timestamp: typeof message.timestamp === 'string'
-            ? new Date(message.timestamp)
-            : message.timestamp
-        }))
-      : [];
+    const conversationHistory = StoryState.conversationHistoryFromJSON(data.conversationHistory);
 
     const storyState = new StoryState(
       data.userId,
@@ -188,6 +406,42 @@ export class StoryState {
       data.isConversationalMode || false
     );
 
+    storyState.version = typeof data.version === 'number' ? data.version : 0;
+    storyState.abandonedBranches = Array.isArray(data.abandonedBranches)
+      ? data.abandonedBranches.map((branch: any) => ({
+          id: branch.id,
+          rewoundAt: new Date(branch.rewoundAt),
+          fromSegmentId: branch.fromSegmentId,
+          toSegmentId: branch.toSegmentId,
+          choiceHistory: StoryState.choiceHistoryFromJSON(branch.choiceHistory),
+          conversationHistory: StoryState.conversationHistoryFromJSON(branch.conversationHistory)
+        }))
+      : [];
+    if (data.memory) {
+      storyState.memory = {
+        ...createEmptyStoryMemory(),
+        ...data.memory,
+        summarizedThrough: data.memory.summarizedThrough ? new Date(data.memory.summarizedThrough) : null
+      };
+    }
+    if (data.bible) {
+      storyState.bible = { ...createEmptyStoryBible(), ...data.bible };
+    }
+    storyState.templateId = data.templateId || null;
+    storyState.templateVersion = typeof data.templateVersion === 'number' ? data.templateVersion : null;
+    storyState.templateHash = data.templateHash || null;
+    storyState.variables = data.variables && typeof data.variables === 'object' ? data.variables : {};
+    storyState.storyId = data.storyId || DEFAULT_STORY_ID;
+    if (data.title) {
+      storyState.title = data.title;
+    }
+    if (data.createdAt) {
+      storyState.createdAt = new Date(data.createdAt);
+    }
+    if (data.updatedAt) {
+      storyState.updatedAt = new Date(data.updatedAt);
+    }
+
     // Restore read segments
     if (Array.isArray(data.readSegments)) {
       data.readSegments.forEach((segmentId: string) => {
@@ -198,29 +452,75 @@ export class StoryState {
     return storyState;
   }
 
+  private static choiceHistoryFromJSON(data: any): UserChoice[] {
+    return Array.isArray(data)
+      ? data.map((choice: any) => ({
+          segmentId: choice.segmentId,
+          choiceId: choice.choiceId,
+          timestamp: typeof choice.timestamp === 'string' 
+            ? new Date(choice.timestamp) 
+            : choice.timestamp,
+          ...(choice.variables ? { variables: choice.variables } : {})
+        }))
+      : [];
+  }
+
+  private static conversationHistoryFromJSON(data: any): ConversationMessage[] {
+    return Array.isArray(data)
+      ? data.map((message: any) => ({
+          role: message.role,
+          content: message.content,
+          timestamp: typeof message.timestamp === 'string'
+            ? new Date(message.timestamp)
+            : message.timestamp,
+          ...(message.segmentId ? { segmentId: message.segmentId } : {})
+        }))
+      : [];
+  }
+
   getPublicState(): Record<string, any> {
     return {
       userId: this.userId,
+      storyId: this.storyId,
+      title: this.title,
       currentSegmentId: this.currentSegmentId,
+      templateId: this.templateId,
+      templateVersion: this.templateVersion,
+      variables: this.variables,
       progress: this.calculateProgress(),
       contextualData: this.contextualData,
       readSegments: Array.from(this.readSegments),
       isConversationalMode: this.isConversationalMode,
+      version: this.version,
+      abandonedBranchCount: this.abandonedBranches.length,
       // Only include last few messages for the public state
       recentConversation: this.conversationHistory.slice(-5)
     };
   }
 
+  private static copyVariables(variables: StoryVariables): StoryVariables {
+    const copy: StoryVariables = {};
+    Object.entries(variables).forEach(([name, value]) => {
+      copy[name] = Array.isArray(value) ? [...value] : value;
+    });
+    return copy;
+  }
+
   private calculateProgress(): number {
     const totalSegments = Object.keys(this.segments).length;
     const readCount = this.readSegments.size;
     return totalSegments > 0 ? Math.round((readCount / totalSegments) * 100) : 0;
   }
 
-  markSegmentAsRead(segmentId: string): void {
-    if (this.segments[segmentId]) {
-      this.readSegments.add(segmentId);
+  /**
+   * Returns whether the segment was unread, i.e. whether the state changed
+   */
+  markSegmentAsRead(segmentId: string): boolean {
+    if (!this.segments[segmentId] || this.readSegments.has(segmentId)) {
+      return false;
     }
+    this.readSegments.add(segmentId);
+    return true;
   }
 
   isSegmentRead(segmentId: string): boolean {
@@ -0,0 +1,206 @@
+import { createEmptyStoryMemory, DEFAULT_STORY_ID } from './StoryState';
+
+/**
+ * One step in the upgrade path of serialized StoryState data.
+ * `migrate` receives data at schema version `version - 1` and returns it at `version`.
+ */
+export interface StoryStateMigration {
+  version: number;
+  description: string;
+  migrate: (data: Record<string, any>) => Record<string, any>;
+}
+
+export interface StoryStateMigrationResult {
+  data: Record<string, any>;
+  fromVersion: number;
+  toVersion: number;
+  migrated: boolean;
+}
+
+/**
+ * Thrown when serialized state cannot be brought up to the current schema
+ */
+export class StoryStateMigrationError extends Error {
+  schemaVersion: number;
+
+  constructor(schemaVersion: number, message: string) {
+    super(message);
+    this.schemaVersion = schemaVersion;
+    this.name = this.constructor.name;
+  }
+}
+
+/**
+ * Ordered registry of schema migrations. Append a migration here (and bump
+ * STORY_STATE_SCHEMA_VERSION) whenever a field is added to StoryStateData;
+ * never edit or reorder released ones. Snapshots written before schema
+ * versions existed count as version 0.
+ */
+export const STORY_STATE_MIGRATIONS: StoryStateMigration[] = [
+  {
+    version: 1,
+    description: 'Fill in fields missing from the earliest snapshots',
+    migrate: data => ({
+      ...data,
+      currentSegmentId: data.currentSegmentId || 'intro',
+      segments: data.segments || {},
+      choiceHistory: Array.isArray(data.choiceHistory) ? data.choiceHistory : [],
+      contextualData: data.contextualData || {},
+      readSegments: Array.isArray(data.readSegments) ? data.readSegments : [],
+      conversationHistory: Array.isArray(data.conversationHistory) ? data.conversationHistory : [],
+      isConversationalMode: Boolean(data.isConversationalMode)
+    })
+  },
+  {
+    version: 2,
+    description: 'Add save slot metadata',
+    migrate: data => {
+      // Best guess at when a story began: its first recorded choice or message
+      const firstTimestamp = [...data.choiceHistory, ...data.conversationHistory]
+        .map((entry: any) => entry.timestamp)
+        .filter(Boolean)
+        .sort()[0];
+      const createdAt = data.createdAt || firstTimestamp || new Date().toISOString();
+
+      return {
+        ...data,
+        storyId: data.storyId || DEFAULT_STORY_ID,
+        title: data.title || 'My Story',
+        createdAt,
+        updatedAt: data.updatedAt || createdAt
+      };
+    }
+  },
+  {
+    version: 3,
+    description: 'Add abandoned branches for rewind',
+    migrate: data => ({
+      ...data,
+      abandonedBranches: Array.isArray(data.abandonedBranches) ? data.abandonedBranches : []
+    })
+  },
+  {
+    version: 4,
+    description: 'Add story memory for long conversations',
+    migrate: data => ({
+      ...data,
+      memory: data.memory || createEmptyStoryMemory()
+    })
+  },
+  {
+    version: 5,
+    description: 'Move story memory facts into the story bible',
+    // Stories that never kept facts (including every one upgraded by migration 4) start with an empty bible
+    migrate: data => {
+      const { facts, ...memory } = data.memory || {};
+      return {
+        ...data,
+        memory,
+        bible: data.bible || {
+          characters: facts?.characters || [],
+          items: facts?.items || [],
+          locations: facts?.places || [],
+          plotThreads: facts?.promises || []
+        }
+      };
+    }
+  },
+  {
+    version: 6,
+    description: 'Record the story template a story was started from',
+    // Left unset for older stories: only StoryStateService can work it out, from the intro,
+    // so writers without the templates (the offline migrator, retention) must not decide it
+    migrate: data => data.templateId === undefined ? data : {
+      ...data,
+      templateId: data.templateId || null
+    }
+  },
+  {
+    version: 7,
+    description: 'Add the story variables set by template choices',
+    migrate: data => ({
+      ...data,
+      variables: data.variables || {}
+    })
+  },
+  {
+    version: 8,
+    description: 'Record the version of the story template a story was started from',
+    // Templates were not versioned before, so the story started from the first version
+    migrate: data => ({
+      ...data,
+      templateVersion: data.templateId ? 1 : null
+    })
+  },
+  {
+    version: 9,
+    description: 'Record the content hash of the story template version a story was started from',
+    // Not known for older stories, which keep to the version number alone
+    migrate: data => ({
+      ...data,
+      templateHash: data.templateHash || null
+    })
+  },
+  {
+    version: 10,
+    description: 'Count the summarized messages that share the last summarized timestamp',
+    // Older stories treated every message stamped with that time as summarized
+    migrate: data => {
+      const memory = data.memory || {};
+      if (typeof memory.summarizedThroughCount === 'number') {
+        return data;
+      }
+      const summarizedThrough = memory.summarizedThrough ? new Date(memory.summarizedThrough).getTime() : undefined;
+      return {
+        ...data,
+        memory: {
+          ...memory,
+          summarizedThroughCount: summarizedThrough === undefined ? 0 : data.conversationHistory
+            .filter((message: any) => new Date(message.timestamp).getTime() === summarizedThrough)
+            .length
+        }
+      };
+    }
+  }
+];
+
+/**
+ * Bring serialized state up to the current schema version
+ */
+export function migrateStoryStateData(
+  data: Record<string, any>,
+  migrations: StoryStateMigration[] = STORY_STATE_MIGRATIONS
+): StoryStateMigrationResult {
+  const fromVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  const toVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+  if (fromVersion > toVersion) {
+    throw new StoryStateMigrationError(
+      fromVersion,
+      `Story state schema version ${fromVersion} is newer than the supported version ${toVersion}`
+    );
+  }
+
+  let migrated = data;
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) {
+      continue;
+    }
+
+    try {
+      migrated = { ...migration.migrate(migrated), schemaVersion: migration.version };
+    } catch (error) {
+      throw new StoryStateMigrationError(
+        fromVersion,
+        `Migration to schema version ${migration.version} (${migration.description}) failed: ${(error as Error).message}`
+      );
+    }
+  }
+
+  return {
+    data: migrated,
+    fromVersion,
+    toVersion,
+    migrated: fromVersion !== toVersion
+  };
+}
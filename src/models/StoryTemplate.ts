@@ -1,4 +1,13 @@
-import { StorySegment, StoryChoice } from './StoryState';
+import { StorySegment, StoryChoice, StoryVariables, StoryVariableValue } from './StoryState';
+import {
+  StoryTemplateSyntaxError,
+  TemplateExpression,
+  TemplateNode,
+  compileExpression,
+  compileTemplate,
+  evaluateCondition,
+  renderTemplate
+} from './StoryTemplateExpression';
 
 export type VariableType = 'string' | 'number' | 'boolean';
 
@@ -9,22 +18,67 @@ export interface TemplateVariable {
   default?: any;
 }
 
+export type StoryVariableType = VariableType | 'list';
+
+/**
+ * A variable of the story itself (a flag, counter or inventory list), which
+ * choices read in their conditions and change with their effects
+ */
+export interface StoryVariableDeclaration {
+  name: string;
+  type: StoryVariableType;
+  // Value a new story starts with; '', 0, false or [] when not given
+  initial?: StoryVariableValue;
+}
+
+/**
+ * What picking a choice does to the story variables
+ */
+export type ChoiceEffect =
+  | { set: string; value: StoryVariableValue }
+  // Add to a number (1 by default; negative to take away)
+  | { increment: string; by?: number }
+  // Put an item in a list, once
+  | { add: string; item: string }
+  | { remove: string; item: string };
+
+export interface ChoiceTemplate {
+  id: string;
+  text: string;
+  nextSegmentId: string;
+  // Expression over the variables; the choice is only offered while it holds
+  condition?: string;
+  effects?: ChoiceEffect[];
+}
+
 export interface SegmentTemplate {
   id: string;
   template: string;
-  choices: {
-    id: string;
-    text: string;
-    nextSegmentId: string;
-  }[];
+  choices: ChoiceTemplate[];
+  // Marks a segment where the story may end, so having no choices is intended
+  ending?: boolean;
 }
 
 export interface StoryTemplateSchema {
   id: string;
   variables: TemplateVariable[];
+  storyVariables?: StoryVariableDeclaration[];
   segmentTemplates: Record<string, SegmentTemplate>;
 }
 
+const STORY_VARIABLE_DEFAULTS: Record<StoryVariableType, StoryVariableValue> = {
+  string: '',
+  number: 0,
+  boolean: false,
+  list: []
+};
+
+function isOfType(value: unknown, type: StoryVariableType): boolean {
+  return type === 'list'
+    ? Array.isArray(value) && value.every(item => typeof item === 'string')
+    : typeof value === type;
+}
+
 export class StoryTemplateSchema {
   static validate(schema: any): boolean {
     // Check for required top-level properties
@@ -55,6 +109,30 @@ export class StoryTemplateSchema {
       }
     });
     
+    // Validate story variables
+    if (schema.storyVariables !== undefined && !Array.isArray(schema.storyVariables)) {
+      throw new Error('storyVariables must be an array');
+    }
+    const storyVariableTypes = new Map<string, StoryVariableType>();
+    (schema.storyVariables || []).forEach((variable: any) => {
+      if (!variable.name || typeof variable.name !== 'string') {
+        throw new Error('Each story variable must have a name');
+      }
+      
+      if (!Object.keys(STORY_VARIABLE_DEFAULTS).includes(variable.type)) {
+        throw new Error(`Invalid story variable type: ${variable.type}`);
+      }
+      
+      if (storyVariableTypes.has(variable.name) || schema.variables.some((other: any) => other.name === variable.name)) {
+        throw new Error(`Story variable ${variable.name} is declared more than once`);
+      }
+      
+      if (variable.initial !== undefined && !isOfType(variable.initial, variable.type)) {
+        throw new Error(`Initial value of story variable ${variable.name} must be a ${variable.type}`);
+      }
+      storyVariableTypes.set(variable.name, variable.type);
+    });
+    
     // Validate segment templates
     Object.values(schema.segmentTemplates).forEach((segment: any) => {
       if (!segment.id || typeof segment.id !== 'string') {
@@ -69,6 +147,12 @@ export class StoryTemplateSchema {
         throw new Error('Each segment template must have a choices array');
       }
       
+      if (segment.ending !== undefined && typeof segment.ending !== 'boolean') {
+        throw new Error(`ending of segment ${segment.id} must be a boolean`);
+      }
+      
+      StoryTemplateSchema.checkSyntax(segment.template, segment.id);
+      
       segment.choices.forEach((choice: any) => {
         if (!choice.id || typeof choice.id !== 'string') {
           throw new Error('Each choice must have an id');
@@ -81,17 +165,92 @@ export class StoryTemplateSchema {
         if (!choice.nextSegmentId || typeof choice.nextSegmentId !== 'string') {
           throw new Error('Each choice must have a nextSegmentId');
         }
+        
+        StoryTemplateSchema.checkSyntax(choice.text, segment.id, choice.id);
+        
+        if (choice.condition !== undefined) {
+          if (typeof choice.condition !== 'string') {
+            throw new Error(`Condition of choice ${choice.id} in segment ${segment.id} must be a string`);
+          }
+          StoryTemplateSchema.checkSyntax(choice.condition, segment.id, choice.id, 'condition');
+        }
+        
+        if (choice.effects !== undefined) {
+          if (!Array.isArray(choice.effects)) {
+            throw new Error(`Effects of choice ${choice.id} in segment ${segment.id} must be an array`);
+          }
+          choice.effects.forEach((effect: any) => {
+            const problem = StoryTemplateSchema.checkEffect(effect, storyVariableTypes);
+            if (problem) {
+              throw new Error(`Invalid effect of choice ${choice.id} in segment ${segment.id}: ${problem}`);
+            }
+          });
+        }
       });
     });
     
     return true;
   }
+  
+  /**
+   * Compile template text (or a choice condition) so syntax errors name the
+   * segment and choice they are in, as well as the column
+   */
+  private static checkSyntax(text: string, segmentId: string, choiceId?: string, field?: 'condition'): void {
+    try {
+      if (field === 'condition') {
+        compileExpression(text);
+      } else {
+        compileTemplate(text);
+      }
+    } catch (error) {
+      if (error instanceof StoryTemplateSyntaxError) {
+        throw new StoryTemplateSyntaxError(error.reason, error.column, { segmentId, choiceId, field });
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * What is wrong with a choice effect, if anything. Effects may only change
+   * declared story variables, with values of their type.
+   */
+  private static checkEffect(effect: any, types: Map<string, StoryVariableType>): string | undefined {
+    const kinds = ['set', 'increment', 'add', 'remove'].filter(kind => effect && kind in effect);
+    if (kinds.length !== 1) {
+      return 'each effect must have exactly one of set, increment, add or remove';
+    }
+    const [kind] = kinds;
+    const name = effect[kind];
+    const type = types.get(name);
+    if (!type) {
+      return `${kind} targets undeclared story variable ${name}`;
+    }
+    
+    if (kind === 'set') {
+      return isOfType(effect.value, type) ? undefined : `${name} must be set to a ${type}`;
+    }
+    if (kind === 'increment') {
+      if (type !== 'number') {
+        return `cannot increment ${type} variable ${name}`;
+      }
+      return effect.by === undefined || typeof effect.by === 'number' ? undefined : `increment of ${name} must be by a number`;
+    }
+    if (type !== 'list') {
+      return `cannot ${kind} items of ${type} variable ${name}`;
+    }
+    return typeof effect.item === 'string' ? undefined : `${kind} on ${name} must name a string item`;
+  }
 }
 
 export class StoryTemplate {
   id: string;
   variables: TemplateVariable[];
+  storyVariables: StoryVariableDeclaration[];
   segmentTemplates: Record<string, SegmentTemplate>;
+  // Compiled template text and choice conditions, by source
+  private compiled = new Map<string, TemplateNode[]>();
+  private compiledConditions = new Map<string, TemplateExpression>();
   
   constructor(schema: StoryTemplateSchema) {
     try {
@@ -102,10 +261,15 @@ export class StoryTemplate {
     
     this.id = schema.id;
     this.variables = schema.variables;
+    this.storyVariables = schema.storyVariables || [];
     this.segmentTemplates = schema.segmentTemplates;
   }
   
-  generateSegment(segmentId: string, variables: Record<string, any>): StorySegment {
+  /**
+   * Render a segment for the reader's variables and the story's variables.
+   * Choices whose condition does not hold are left out.
+   */
+  generateSegment(segmentId: string, variables: Record<string, any>, storyVariables: StoryVariables = {}): StorySegment {
     // Validate variables against schema
     this.validateVariables(variables);
     
@@ -114,15 +278,20 @@ export class StoryTemplate {
       throw new Error(`Segment template not found: ${segmentId}`);
     }
     
+    const values = { ...this.applyDefaults(variables), ...storyVariables };
+    
     // Generate content from template
-    const content = this.processTemplate(segmentTemplate.template, variables);
+    const content = this.processTemplate(segmentTemplate.template, values);
     
     // Process choices
-    const choices: StoryChoice[] = segmentTemplate.choices.map(choiceTemplate => ({
-      id: choiceTemplate.id,
-      text: this.processTemplate(choiceTemplate.text, variables),
-      nextSegmentId: choiceTemplate.nextSegmentId
-    }));
+    const choices: StoryChoice[] = segmentTemplate.choices
+      .filter(choiceTemplate => !choiceTemplate.condition ||
+        evaluateCondition(this.compileCondition(choiceTemplate.condition), values))
+      .map(choiceTemplate => ({
+        id: choiceTemplate.id,
+        text: this.processTemplate(choiceTemplate.text, values),
+        nextSegmentId: choiceTemplate.nextSegmentId
+      }));
     
     return {
       id: segmentId,
@@ -160,7 +329,44 @@ export class StoryTemplate {
     }
   }
   
-  private processTemplate(template: string, variables: Record<string, any>): string {
+  /**
+   * Story variables as a new story starts
+   */
+  getInitialStoryVariables(): StoryVariables {
+    const storyVariables: StoryVariables = {};
+    for (const declaration of this.storyVariables) {
+      const initial = declaration.initial ?? STORY_VARIABLE_DEFAULTS[declaration.type];
+      storyVariables[declaration.name] = Array.isArray(initial) ? [...initial] : initial;
+    }
+    return storyVariables;
+  }
+  
+  /**
+   * Story variables after picking a choice of one of the template's
+   * segments; unchanged for choices the template does not define
+   */
+  applyChoiceEffects(segmentId: string, choiceId: string, storyVariables: StoryVariables): StoryVariables {
+    const choice = this.segmentTemplates[segmentId]?.choices.find(candidate => candidate.id === choiceId);
+    const updated: StoryVariables = { ...storyVariables };
+    
+    for (const effect of choice?.effects || []) {
+      if ('set' in effect) {
+        updated[effect.set] = Array.isArray(effect.value) ? [...effect.value] : effect.value;
+      } else if ('increment' in effect) {
+        const current = updated[effect.increment];
+        updated[effect.increment] = (typeof current === 'number' ? current : 0) + (effect.by ?? 1);
+      } else {
+        const name = 'add' in effect ? effect.add : effect.remove;
+        const items = Array.isArray(updated[name]) ? updated[name] as string[] : [];
+        updated[name] = 'add' in effect
+          ? (items.includes(effect.item) ? [...items] : [...items, effect.item])
+          : items.filter(item => item !== effect.item);
+      }
+    }
+    return updated;
+  }
+  
+  private applyDefaults(variables: Record<string, any>): Record<string, any> {
     // Create a variables object with defaults applied
     const processedVars: Record<string, any> = {};
     
@@ -172,13 +378,24 @@ export class StoryTemplate {
     }
     
     // Then apply provided values
-    Object.assign(processedVars, variables);
-    
-    // Replace variables in template
-    return template.replace(/{([^}]+)}/g, (match, varName) => {
-      return processedVars[varName] !== undefined 
-        ? String(processedVars[varName]) 
-        : match;
-    });
+    return Object.assign(processedVars, variables);
+  }
+  
+  private processTemplate(template: string, values: Record<string, any>): string {
+    let nodes = this.compiled.get(template);
+    if (!nodes) {
+      nodes = compileTemplate(template);
+      this.compiled.set(template, nodes);
+    }
+    return renderTemplate(nodes, values);
   }
-} 
\ No newline at end of file
+  
+  private compileCondition(condition: string): TemplateExpression {
+    let expression = this.compiledConditions.get(condition);
+    if (!expression) {
+      expression = compileExpression(condition);
+      this.compiledConditions.set(condition, expression);
+    }
+    return expression;
+  }
+}
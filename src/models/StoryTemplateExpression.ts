@@ -0,0 +1,643 @@
+/**
+ * The expression language of story templates.
+ *
+ * Text may contain `{expression}`s and conditional blocks:
+ *
+ *   {#if coins > 0}You have {coins} {coins | plural('coin')}.{#elseif has_map}...{#else}...{/if}
+ *
+ * Expressions have variables, 'strings', numbers, true/false/null,
+ * `a ? b : c`, `||`, `&&`, `!`, comparisons (== != < <= > >=), `'key' in
+ * inventory`, parentheses and filters (`name | capitalize`). Lists render as
+ * their items joined with commas and are false when empty. `{{` and `}}` stand for literal braces.
+ * Templates are compiled once and evaluated without touching JavaScript, so
+ * a template can only read the variables it is given.
+ */
+
+export type TemplateValue = string | number | boolean | string[] | null | undefined;
+
+export type TemplateVariables = Record<string, unknown>;
+
+type BinaryOperator = '||' | '&&' | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+export type TemplateExpression =
+  | { type: 'literal'; value: TemplateValue }
+  | { type: 'variable'; name: string }
+  | { type: 'not'; operand: TemplateExpression }
+  | { type: 'binary'; operator: BinaryOperator; left: TemplateExpression; right: TemplateExpression }
+  | { type: 'conditional'; test: TemplateExpression; consequent: TemplateExpression; alternate: TemplateExpression }
+  | { type: 'filter'; name: string; input: TemplateExpression; args: TemplateExpression[] };
+
+export type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'expression'; expression: TemplateExpression }
+  // The first branch whose test passes is rendered, else the otherwise nodes
+  | { type: 'if'; branches: { test: TemplateExpression; children: TemplateNode[] }[]; otherwise: TemplateNode[] };
+
+/**
+ * Thrown when template text does not parse
+ */
+export class StoryTemplateSyntaxError extends Error {
+  // What is wrong, without where
+  reason: string;
+  // 1-based column in the template text
+  column: number;
+  segmentId?: string;
+  choiceId?: string;
+
+  constructor(reason: string, column: number, location: { segmentId?: string; choiceId?: string; field?: string } = {}) {
+    const choice = location.choiceId ? ` (choice ${location.choiceId}${location.field ? ` ${location.field}` : ''})` : '';
+    const where = location.segmentId ? ` in segment ${location.segmentId}${choice}` : '';
+    super(`Syntax error${where} at column ${column}: ${reason}`);
+    this.reason = reason;
+    this.column = column;
+    this.segmentId = location.segmentId;
+    this.choiceId = location.choiceId;
+    this.name = this.constructor.name;
+  }
+}
+
+const PRONOUN_FORMS = ['subject', 'object', 'possessive', 'possessive_pronoun', 'reflexive'] as const;
+type PronounForm = typeof PRONOUN_FORMS[number];
+
+const PRONOUNS: Record<string, Record<PronounForm, string>> = {
+  he: { subject: 'he', object: 'him', possessive: 'his', possessive_pronoun: 'his', reflexive: 'himself' },
+  she: { subject: 'she', object: 'her', possessive: 'her', possessive_pronoun: 'hers', reflexive: 'herself' },
+  they: { subject: 'they', object: 'them', possessive: 'their', possessive_pronoun: 'theirs', reflexive: 'themself' },
+  it: { subject: 'it', object: 'it', possessive: 'its', possessive_pronoun: 'its', reflexive: 'itself' }
+};
+
+interface TemplateFilter {
+  minArgs: number;
+  maxArgs: number;
+  // Checks literal arguments at compile time; returns what is wrong, if anything
+  check?: (args: TemplateExpression[]) => string | undefined;
+  apply: (value: TemplateValue, ...args: TemplateValue[]) => TemplateValue;
+}
+
+const FILTERS: Record<string, TemplateFilter> = {
+  capitalize: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => {
+      const text = toText(value);
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    }
+  },
+  upper: { minArgs: 0, maxArgs: 0, apply: value => toText(value).toUpperCase() },
+  lower: { minArgs: 0, maxArgs: 0, apply: value => toText(value).toLowerCase() },
+  // Mira -> Mira's, James -> James'
+  possessive: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: value => {
+      const text = toText(value);
+      return text ? `${text}${/s$/i.test(text) ? '\'' : '\'s'}` : '';
+    }
+  },
+  // The word for a count: coins | plural('coin') or plural('mouse', 'mice')
+  plural: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: (value, singular, plural) =>
+      value === 1 ? toText(singular) : plural !== undefined ? toText(plural) : `${toText(singular)}s`
+  },
+  // A pronoun from a set named by the value (he, she/her, they/them, ...); they when unknown
+  pronoun: {
+    minArgs: 1,
+    maxArgs: 1,
+    check: ([form]) => form.type === 'literal' && !PRONOUN_FORMS.includes(form.value as PronounForm)
+      ? `Unknown pronoun form ${JSON.stringify(form.value)}; use one of ${PRONOUN_FORMS.join(', ')}`
+      : undefined,
+    apply: (value, form) => {
+      const set = PRONOUNS[toText(value).split('/')[0].trim().toLowerCase()] ?? PRONOUNS.they;
+      return set[form as PronounForm] ?? set.subject;
+    }
+  },
+  default: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (value, fallback) => isBlank(value) ? fallback : value
+  },
+  // Number of items in a list
+  count: { minArgs: 0, maxArgs: 0, apply: value => Array.isArray(value) ? value.length : 0 },
+  join: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (value, separator) => Array.isArray(value) ? value.join(separator === undefined ? ', ' : toText(separator)) : toText(value)
+  }
+};
+
+function isBlank(value: TemplateValue): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function isTrue(value: TemplateValue): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function toText(value: TemplateValue): string {
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  return isBlank(value) ? '' : String(value);
+}
+
+type Token =
+  | { type: 'identifier'; value: string; column: number }
+  | { type: 'literal'; value: TemplateValue; column: number }
+  | { type: 'operator'; value: string; column: number }
+  | { type: 'end'; column: number };
+
+const OPERATORS = ['||', '&&', '==', '!=', '<=', '>=', '<', '>', '!', '?', ':', '(', ')', ',', '|'];
+const KEYWORDS: Record<string, TemplateValue> = { true: true, false: false, null: null };
+
+/**
+ * Split an expression into tokens. `offset` is the column before the
+ * expression starts, so columns are in terms of the whole template text.
+ */
+function tokenize(source: string, offset: number): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+    const column = offset + position + 1;
+
+    if (/\s/.test(char)) {
+      position++;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(position))![0];
+      if (name === 'in') {
+        tokens.push({ type: 'operator', value: name, column });
+      } else {
+        tokens.push(Object.prototype.hasOwnProperty.call(KEYWORDS, name)
+          ? { type: 'literal', value: KEYWORDS[name], column }
+          : { type: 'identifier', value: name, column });
+      }
+      position += name.length;
+    } else if (/[0-9]/.test(char)) {
+      const number = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(position))![0];
+      tokens.push({ type: 'literal', value: Number(number), column });
+      position += number.length;
+    } else if (char === '\'' || char === '"') {
+      let value = '';
+      position++;
+      while (position < source.length && source[position] !== char) {
+        if (source[position] === '\\' && position + 1 < source.length) {
+          position++;
+        }
+        value += source[position++];
+      }
+      if (position >= source.length) {
+        throw new StoryTemplateSyntaxError('Unclosed string', column);
+      }
+      position++;
+      tokens.push({ type: 'literal', value, column });
+    } else {
+      const operator = OPERATORS.find(candidate => source.startsWith(candidate, position));
+      if (!operator) {
+        throw new StoryTemplateSyntaxError(`Unexpected character ${JSON.stringify(char)}`, column);
+      }
+      tokens.push({ type: 'operator', value: operator, column });
+      position += operator.length;
+    }
+  }
+
+  tokens.push({ type: 'end', column: offset + source.length + 1 });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser for one expression, lowest precedence first:
+ * conditional, ||, &&, comparison, !, filters, then values.
+ */
+class ExpressionParser {
+  private tokens: Token[];
+  private position = 0;
+
+  constructor(source: string, offset: number) {
+    this.tokens = tokenize(source, offset);
+  }
+
+  parse(): TemplateExpression {
+    const expression = this.parseConditional();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new StoryTemplateSyntaxError(`Unexpected ${this.describe(token)}`, token.column);
+    }
+    return expression;
+  }
+
+  private parseConditional(): TemplateExpression {
+    const test = this.parseBinary(0);
+    if (!this.accept('?')) {
+      return test;
+    }
+    const consequent = this.parseConditional();
+    this.expect(':', 'in conditional expression');
+    const alternate = this.parseConditional();
+    return { type: 'conditional', test, consequent, alternate };
+  }
+
+  // Binary operators from lowest to highest precedence; comparisons do not chain
+  private static readonly BINARY_LEVELS: BinaryOperator[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!=', '<', '<=', '>', '>=', 'in']
+  ];
+
+  private parseBinary(level: number): TemplateExpression {
+    if (level === ExpressionParser.BINARY_LEVELS.length) {
+      return this.parseUnary();
+    }
+    const operators = ExpressionParser.BINARY_LEVELS[level];
+    const chains = level < ExpressionParser.BINARY_LEVELS.length - 1;
+    let left = this.parseBinary(level + 1);
+
+    let token = this.peek();
+    while (token.type === 'operator' && operators.includes(token.value as BinaryOperator)) {
+      this.position++;
+      const right = this.parseBinary(level + 1);
+      left = { type: 'binary', operator: token.value as BinaryOperator, left, right };
+      token = this.peek();
+      if (!chains && token.type === 'operator' && operators.includes(token.value as BinaryOperator)) {
+        throw new StoryTemplateSyntaxError('Comparisons cannot be chained; use && between them', token.column);
+      }
+    }
+    return left;
+  }
+
+  private parseUnary(): TemplateExpression {
+    if (this.accept('!')) {
+      return { type: 'not', operand: this.parseUnary() };
+    }
+    return this.parseFiltered();
+  }
+
+  private parseFiltered(): TemplateExpression {
+    let input = this.parsePrimary();
+
+    while (this.accept('|')) {
+      const token = this.next();
+      if (token.type !== 'identifier') {
+        throw new StoryTemplateSyntaxError(`Expected a filter name after | but found ${this.describe(token)}`, token.column);
+      }
+      const filter = FILTERS[token.value];
+      if (!filter) {
+        throw new StoryTemplateSyntaxError(
+          `Unknown filter ${token.value}; use one of ${Object.keys(FILTERS).join(', ')}`,
+          token.column
+        );
+      }
+
+      const args: TemplateExpression[] = [];
+      if (this.accept('(')) {
+        if (!this.accept(')')) {
+          do {
+            args.push(this.parseConditional());
+          } while (this.accept(','));
+          this.expect(')', `after the arguments of ${token.value}`);
+        }
+      }
+      if (args.length < filter.minArgs || args.length > filter.maxArgs) {
+        const expected = filter.minArgs === filter.maxArgs
+          ? `${filter.minArgs}`
+          : `${filter.minArgs} to ${filter.maxArgs}`;
+        throw new StoryTemplateSyntaxError(`Filter ${token.value} takes ${expected} argument(s), not ${args.length}`, token.column);
+      }
+      const problem = filter.check?.(args);
+      if (problem) {
+        throw new StoryTemplateSyntaxError(problem, token.column);
+      }
+
+      input = { type: 'filter', name: token.value, input, args };
+    }
+    return input;
+  }
+
+  private parsePrimary(): TemplateExpression {
+    const token = this.next();
+    if (token.type === 'literal') {
+      return { type: 'literal', value: token.value };
+    }
+    if (token.type === 'identifier') {
+      return { type: 'variable', name: token.value };
+    }
+    if (token.type === 'operator' && token.value === '(') {
+      const expression = this.parseConditional();
+      this.expect(')', 'to close (');
+      return expression;
+    }
+    throw new StoryTemplateSyntaxError(`Expected a value but found ${this.describe(token)}`, token.column);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== 'end') {
+      this.position++;
+    }
+    return token;
+  }
+
+  private accept(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(operator: string, context: string): void {
+    const token = this.peek();
+    if (!this.accept(operator)) {
+      throw new StoryTemplateSyntaxError(`Expected '${operator}' ${context} but found ${this.describe(token)}`, token.column);
+    }
+  }
+
+  private describe(token: Token): string {
+    if (token.type === 'end') {
+      return 'the end of the expression';
+    }
+    return token.type === 'literal' ? JSON.stringify(token.value) : `'${token.value}'`;
+  }
+}
+
+function parseExpression(source: string, offset: number): TemplateExpression {
+  if (!source.trim()) {
+    throw new StoryTemplateSyntaxError('Empty expression', offset + 1);
+  }
+  return new ExpressionParser(source, offset).parse();
+}
+
+/**
+ * Index of the } that closes the tag opened at `start`, skipping braces
+ * inside string literals; -1 if there is none
+ */
+function findTagEnd(text: string, start: number): number {
+  let quote: string | null = null;
+  for (let position = start + 1; position < text.length; position++) {
+    const char = text[position];
+    if (quote) {
+      if (char === '\\') {
+        position++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+    } else if (char === '}') {
+      return position;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Compile template text into nodes, throwing StoryTemplateSyntaxError with
+ * the column of the first problem
+ */
+export function compileTemplate(text: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open {#if} blocks, innermost last
+  const open: { node: Extract<TemplateNode, { type: 'if' }>; column: number; hasElse: boolean }[] = [];
+  let nodes = root;
+  let literal = '';
+  let position = 0;
+
+  const flush = () => {
+    if (literal) {
+      nodes.push({ type: 'text', text: literal });
+      literal = '';
+    }
+  };
+
+  while (position < text.length) {
+    const char = text[position];
+
+    if ((char === '{' || char === '}') && text[position + 1] === char) {
+      literal += char;
+      position += 2;
+      continue;
+    }
+    if (char === '}') {
+      throw new StoryTemplateSyntaxError('Unexpected }; write }} for a literal brace', position + 1);
+    }
+    if (char !== '{') {
+      literal += char;
+      position++;
+      continue;
+    }
+
+    const column = position + 1;
+    const end = findTagEnd(text, position);
+    if (end === -1) {
+      throw new StoryTemplateSyntaxError('Unclosed {; write {{ for a literal brace', column);
+    }
+    const content = text.substring(position + 1, end);
+    // Column just before the tag's first non-space character
+    const contentOffset = position + 1 + (content.length - content.trimStart().length);
+    const tag = content.trim();
+    flush();
+
+    const block = /^([#/][A-Za-z]+)\b\s*/.exec(tag);
+    if (!block) {
+      nodes.push({ type: 'expression', expression: parseExpression(content, position + 1) });
+    } else {
+      const [keywordText, keyword] = block;
+      const condition = tag.substring(keywordText.length);
+      const conditionOffset = contentOffset + keywordText.length;
+      const current = open[open.length - 1];
+
+      if (keyword === '#if') {
+        const node: Extract<TemplateNode, { type: 'if' }> = {
+          type: 'if',
+          branches: [{ test: parseExpression(condition, conditionOffset), children: [] }],
+          otherwise: []
+        };
+        nodes.push(node);
+        open.push({ node, column, hasElse: false });
+        nodes = node.branches[0].children;
+      } else if (keyword === '#elseif') {
+        if (!current || current.hasElse) {
+          throw new StoryTemplateSyntaxError(current ? '{#elseif} after {#else}' : '{#elseif} outside {#if}', column);
+        }
+        const branch = { test: parseExpression(condition, conditionOffset), children: [] as TemplateNode[] };
+        current.node.branches.push(branch);
+        nodes = branch.children;
+      } else if (keyword === '#else' && !condition) {
+        if (!current || current.hasElse) {
+          throw new StoryTemplateSyntaxError(current ? 'Second {#else} in one {#if}' : '{#else} outside {#if}', column);
+        }
+        current.hasElse = true;
+        nodes = current.node.otherwise;
+      } else if (keyword === '/if' && !condition) {
+        if (!current) {
+          throw new StoryTemplateSyntaxError('{/if} without {#if}', column);
+        }
+        open.pop();
+        const parent = open[open.length - 1];
+        nodes = !parent
+          ? root
+          : parent.hasElse
+            ? parent.node.otherwise
+            : parent.node.branches[parent.node.branches.length - 1].children;
+      } else {
+        throw new StoryTemplateSyntaxError(`Unknown block tag {${tag}}; use {#if}, {#elseif}, {#else} and {/if}`, column);
+      }
+    }
+    position = end + 1;
+  }
+  flush();
+
+  if (open.length > 0) {
+    throw new StoryTemplateSyntaxError('Unclosed {#if}', open[open.length - 1].column);
+  }
+  return root;
+}
+
+function compare(operator: BinaryOperator, left: TemplateValue, right: TemplateValue): boolean {
+  if (operator === 'in') {
+    // An item in a list, or text within text
+    if (Array.isArray(right)) {
+      return typeof left === 'string' && right.includes(left);
+    }
+    return typeof left === 'string' && typeof right === 'string' && right.includes(left);
+  }
+  if (operator === '==') {
+    return left === right;
+  }
+  if (operator === '!=') {
+    return left !== right;
+  }
+  // Ordering only makes sense between two numbers or two strings
+  if (typeof left !== typeof right || (typeof left !== 'number' && typeof left !== 'string')) {
+    return false;
+  }
+  const l = left as number | string;
+  const r = right as number | string;
+  switch (operator) {
+    case '<': return l < r;
+    case '<=': return l <= r;
+    case '>': return l > r;
+    default: return l >= r;
+  }
+}
+
+function evaluate(expression: TemplateExpression, variables: TemplateVariables): TemplateValue {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+    case 'variable': {
+      // Only the variables' own values, never anything from their prototype
+      const value = Object.prototype.hasOwnProperty.call(variables, expression.name)
+        ? variables[expression.name]
+        : undefined;
+      if (Array.isArray(value)) {
+        return value.filter(item => typeof item === 'string');
+      }
+      return ['string', 'number', 'boolean'].includes(typeof value) || value === null ? value as TemplateValue : undefined;
+    }
+    case 'not':
+      return !isTrue(evaluate(expression.operand, variables));
+    case 'binary': {
+      const left = evaluate(expression.left, variables);
+      if (expression.operator === '||') {
+        return isTrue(left) ? left : evaluate(expression.right, variables);
+      }
+      if (expression.operator === '&&') {
+        return isTrue(left) ? evaluate(expression.right, variables) : left;
+      }
+      return compare(expression.operator, left, evaluate(expression.right, variables));
+    }
+    case 'conditional':
+      return isTrue(evaluate(expression.test, variables))
+        ? evaluate(expression.consequent, variables)
+        : evaluate(expression.alternate, variables);
+    case 'filter':
+      return FILTERS[expression.name].apply(
+        evaluate(expression.input, variables),
+        ...expression.args.map(arg => evaluate(arg, variables))
+      );
+  }
+}
+
+/**
+ * Render compiled template nodes. Unknown variables are blank.
+ */
+export function renderTemplate(nodes: TemplateNode[], variables: TemplateVariables): string {
+  return nodes.map(node => {
+    if (node.type === 'text') {
+      return node.text;
+    }
+    if (node.type === 'expression') {
+      return toText(evaluate(node.expression, variables));
+    }
+    const branch = node.branches.find(candidate => isTrue(evaluate(candidate.test, variables)));
+    return renderTemplate(branch ? branch.children : node.otherwise, variables);
+  }).join('');
+}
+
+/**
+ * Compile a single expression, such as a choice condition
+ */
+export function compileExpression(source: string): TemplateExpression {
+  return parseExpression(source, 0);
+}
+
+/**
+ * Whether a compiled expression holds for the given variables
+ */
+export function evaluateCondition(expression: TemplateExpression, variables: TemplateVariables): boolean {
+  return isTrue(evaluate(expression, variables));
+}
+
+/**
+ * Names of the variables an expression reads
+ */
+export function getExpressionVariables(expression: TemplateExpression, names: Set<string> = new Set()): Set<string> {
+  switch (expression.type) {
+    case 'variable':
+      names.add(expression.name);
+      break;
+    case 'not':
+      getExpressionVariables(expression.operand, names);
+      break;
+    case 'binary':
+      getExpressionVariables(expression.left, names);
+      getExpressionVariables(expression.right, names);
+      break;
+    case 'conditional':
+      getExpressionVariables(expression.test, names);
+      getExpressionVariables(expression.consequent, names);
+      getExpressionVariables(expression.alternate, names);
+      break;
+    case 'filter':
+      getExpressionVariables(expression.input, names);
+      expression.args.forEach(arg => getExpressionVariables(arg, names));
+      break;
+  }
+  return names;
+}
+
+/**
+ * Names of the variables compiled template text reads
+ */
+export function getTemplateVariables(nodes: TemplateNode[], names: Set<string> = new Set()): Set<string> {
+  for (const node of nodes) {
+    if (node.type === 'expression') {
+      getExpressionVariables(node.expression, names);
+    } else if (node.type === 'if') {
+      node.branches.forEach(branch => {
+        getExpressionVariables(branch.test, names);
+        getTemplateVariables(branch.children, names);
+      });
+      getTemplateVariables(node.otherwise, names);
+    }
+  }
+  return names;
+}
@@ -1,4 +1,4 @@
-import { StoryState, StorySegment, UserChoice } from '../StoryState';
+import { StoryState, StorySegment, UserChoice, STORY_STATE_SCHEMA_VERSION, createEmptyStoryBible, createEmptyStoryMemory } from '../StoryState';
 
 describe('StoryState', () => {
   describe('constructor', () => {
@@ -72,6 +72,18 @@ describe('StoryState', () => {
     });
   });
   
+  describe('markSegmentAsRead', () => {
+    it('should report whether the segment was unread', () => {
+      const storyState = new StoryState('user123');
+      storyState.addSegment({ id: 'intro', content: 'Story begins...', choices: [] });
+      
+      expect(storyState.markSegmentAsRead('intro')).toBe(true);
+      expect(storyState.markSegmentAsRead('intro')).toBe(false);
+      expect(storyState.markSegmentAsRead('missing')).toBe(false);
+      expect(storyState.isSegmentRead('intro')).toBe(true);
+    });
+  });
+  
   describe('makeChoice', () => {
     it('should update state based on user choice', () => {
       const storyState = new StoryState('user123');
@@ -116,6 +128,175 @@ describe('StoryState', () => {
     });
   });
   
+  describe('rewindTo', () => {
+    const buildStory = () => {
+      const storyState = new StoryState('user123');
+      storyState.addSegment({ id: 'intro', content: 'A fork in the road', choices: [
+        { id: 'left', text: 'Go left', nextSegmentId: 'forest' },
+        { id: 'right', text: 'Go right', nextSegmentId: 'river' }
+      ] });
+      storyState.addSegment({ id: 'forest', content: 'Two doors', choices: [
+        { id: 'red', text: 'Red door', nextSegmentId: 'dragon' },
+        { id: 'blue', text: 'Blue door', nextSegmentId: 'castle' }
+      ] });
+      storyState.addSegment({ id: 'dragon', content: 'A dragon!', choices: [] });
+      storyState.makeChoice('left');
+      storyState.makeChoice('red');
+      return storyState;
+    };
+    
+    it('should undo the most recent choice by default', () => {
+      const storyState = buildStory();
+      
+      const branch = storyState.rewindTo();
+      
+      expect(storyState.currentSegmentId).toBe('forest');
+      expect(storyState.choiceHistory.map(choice => choice.choiceId)).toEqual(['left']);
+      expect(branch.fromSegmentId).toBe('dragon');
+      expect(branch.toSegmentId).toBe('forest');
+      expect(branch.choiceHistory.map(choice => choice.choiceId)).toEqual(['red']);
+    });
+    
+    it('should rewind to any earlier choice and keep the abandoned branch', () => {
+      const storyState = buildStory();
+      
+      storyState.rewindTo('intro');
+      
+      expect(storyState.currentSegmentId).toBe('intro');
+      expect(storyState.choiceHistory).toEqual([]);
+      expect(storyState.segments.dragon).toBeDefined();
+      expect(storyState.abandonedBranches).toHaveLength(1);
+      expect(storyState.abandonedBranches[0].choiceHistory.map(choice => choice.choiceId)).toEqual(['left', 'red']);
+    });
+    
+    it('should trim the conversation to the chosen response', () => {
+      const storyState = new StoryState('user123');
+      storyState.addConversationMessage('assistant', 'Once upon a time', 'conv_intro');
+      storyState.addConversationMessage('user', 'Open the door');
+      storyState.addConversationMessage('assistant', 'The door creaks open', 'conv_1');
+      storyState.addConversationMessage('user', 'Go inside');
+      storyState.addConversationMessage('assistant', 'It is dark inside', 'conv_2');
+      storyState.currentSegmentId = 'conv_2';
+      
+      expect(storyState.getRewindTargets()).toEqual(['conv_intro', 'conv_1']);
+      
+      const branch = storyState.rewindTo('conv_intro');
+      
+      expect(storyState.currentSegmentId).toBe('conv_intro');
+      expect(storyState.conversationHistory.map(message => message.content)).toEqual(['Once upon a time']);
+      expect(branch.conversationHistory).toHaveLength(4);
+    });
+    
+    it('should forget a summary that covers undone messages', () => {
+      const storyState = new StoryState('user123');
+      storyState.conversationHistory = [
+        { role: 'assistant', content: 'Once upon a time', timestamp: new Date('2024-01-01T00:00:00Z'), segmentId: 'conv_intro' },
+        { role: 'user', content: 'Open the door', timestamp: new Date('2024-01-01T00:01:00Z') },
+        { role: 'assistant', content: 'The door creaks open', timestamp: new Date('2024-01-01T00:02:00Z'), segmentId: 'conv_1' },
+        { role: 'user', content: 'Go inside', timestamp: new Date('2024-01-01T00:03:00Z') },
+        { role: 'assistant', content: 'It is dark inside', timestamp: new Date('2024-01-01T00:04:00Z'), segmentId: 'conv_2' }
+      ];
+      storyState.currentSegmentId = 'conv_2';
+      storyState.memory = { ...createEmptyStoryMemory(), summary: 'A door was opened.', summarizedThrough: new Date('2024-01-01T00:02:00Z') };
+      
+      storyState.rewindTo('conv_1');
+      expect(storyState.memory.summary).toBe('A door was opened.');
+      
+      storyState.rewindTo('conv_intro');
+      expect(storyState.memory).toEqual(createEmptyStoryMemory());
+    });
+    
+    it('should undo the effects of the choices it takes back', () => {
+      const storyState = new StoryState('user123');
+      storyState.addSegment({ id: 'intro', content: 'A chest', choices: [{ id: 'open', text: 'Open it', nextSegmentId: 'chest' }] });
+      storyState.addSegment({ id: 'chest', content: 'A key', choices: [{ id: 'take', text: 'Take the key', nextSegmentId: 'door' }] });
+      storyState.variables = { inventory: [] };
+      storyState.makeChoice('open');
+      storyState.variables = { inventory: ['key'] };
+      storyState.makeChoice('take');
+      storyState.variables = { inventory: ['key', 'lamp'] };
+      
+      storyState.rewindTo('chest');
+      expect(storyState.variables).toEqual({ inventory: ['key'] });
+      
+      storyState.rewindTo('intro');
+      expect(storyState.variables).toEqual({ inventory: [] });
+    });
+    
+    it('should reject segments that are not earlier points in the story', () => {
+      const storyState = buildStory();
+      
+      expect(() => storyState.rewindTo('castle')).toThrow('Invalid rewind target');
+      expect(() => new StoryState('user123').rewindTo()).toThrow('Invalid rewind target');
+    });
+    
+    it('should restore abandoned branches from JSON', () => {
+      const storyState = buildStory();
+      storyState.rewindTo('forest');
+      
+      const restored = StoryState.fromJSON(JSON.parse(JSON.stringify(storyState.toJSON())));
+      
+      expect(restored.abandonedBranches).toHaveLength(1);
+      expect(restored.abandonedBranches[0].rewoundAt).toBeInstanceOf(Date);
+      expect(restored.abandonedBranches[0].choiceHistory[0].timestamp).toBeInstanceOf(Date);
+    });
+    
+    it('should restore the story memory and bible from JSON', () => {
+      const storyState = new StoryState('user123');
+      storyState.memory.summary = 'The hero found a key.';
+      storyState.memory.summarizedThrough = new Date('2024-01-01T00:02:00Z');
+      storyState.bible.items.push({ name: 'Brass key', description: 'Opens the tower door' });
+      
+      const restored = StoryState.fromJSON(JSON.parse(JSON.stringify(storyState.toJSON())));
+      
+      expect(restored.memory).toEqual(storyState.memory);
+      expect(restored.bible).toEqual(storyState.bible);
+    });
+  });
+  
+  describe('updateBible', () => {
+    it('should add new entries and update known ones, matching names regardless of case', () => {
+      const storyState = new StoryState('user123');
+      storyState.bible.characters.push({ name: 'Mira', description: 'A young cartographer' });
+      
+      storyState.updateBible({
+        characters: [
+          { name: 'mira', description: 'A young cartographer, now carrying a map' },
+          { name: 'The ferryman', description: 'Keeps the river crossing' }
+        ],
+        items: [{ name: 'Map', description: 'Shows the river crossings' }],
+        locations: [],
+        plotThreads: [{ name: 'Return the map', description: 'Mira promised to bring it back' }],
+        resolvedPlotThreads: []
+      });
+      
+      expect(storyState.bible.characters).toEqual([
+        { name: 'Mira', description: 'A young cartographer, now carrying a map' },
+        { name: 'The ferryman', description: 'Keeps the river crossing' }
+      ]);
+      expect(storyState.bible.items).toHaveLength(1);
+      expect(storyState.bible.plotThreads).toHaveLength(1);
+    });
+    
+    it('should drop plot threads once they are resolved', () => {
+      const storyState = new StoryState('user123');
+      storyState.bible.plotThreads.push(
+        { name: 'Return the map', description: 'Mira promised to bring it back' },
+        { name: 'Find Tomas', description: 'Mira is looking for her brother' }
+      );
+      
+      storyState.updateBible({
+        characters: [],
+        items: [],
+        locations: [],
+        plotThreads: [],
+        resolvedPlotThreads: ['return the map']
+      });
+      
+      expect(storyState.bible.plotThreads.map(thread => thread.name)).toEqual(['Find Tomas']);
+    });
+  });
+  
   describe('updateContextualData', () => {
     it('should update contextual data with new values', () => {
       const storyState = new StoryState('user123');
@@ -157,12 +338,27 @@ describe('StoryState', () => {
       const json = storyState.toJSON();
       
       expect(json).toEqual({
+        schemaVersion: STORY_STATE_SCHEMA_VERSION,
         userId,
         currentSegmentId: 'intro',
         segments: { intro: segment },
         choiceHistory: [],
         contextualData: {},
-        readSegments: []
+        readSegments: [],
+        conversationHistory: [],
+        isConversationalMode: false,
+        version: 0,
+        abandonedBranches: [],
+        memory: createEmptyStoryMemory(),
+        bible: createEmptyStoryBible(),
+        templateId: null,
+        templateVersion: null,
+        templateHash: null,
+        variables: {},
+        storyId: 'default',
+        title: 'My Story',
+        createdAt: storyState.createdAt,
+        updatedAt: storyState.updatedAt
       });
     });
   });
@@ -192,5 +388,41 @@ describe('StoryState', () => {
       expect(storyState.choiceHistory[0].choiceId).toBe('choice1');
       expect(storyState.choiceHistory[0].timestamp).toBeInstanceOf(Date);
     });
+    
+    it('should restore the saved version', () => {
+      const storyState = StoryState.fromJSON({ userId: 'user123', segments: {}, version: 5 });
+      
+      expect(storyState.version).toBe(5);
+      expect(storyState.getPublicState().version).toBe(5);
+    });
+    
+    it('should restore the story template the story was started from', () => {
+      const storyState = StoryState.fromJSON({ userId: 'user123', segments: {}, templateId: 'adventure_template', templateVersion: 3, templateHash: 'abc123' });
+      
+      expect(storyState.templateId).toBe('adventure_template');
+      expect(storyState.templateVersion).toBe(3);
+      expect(storyState.templateHash).toBe('abc123');
+      expect(storyState.getPublicState()).toEqual(expect.objectContaining({ templateId: 'adventure_template', templateVersion: 3 }));
+      expect(StoryState.fromJSON({ userId: 'user123', segments: {} }).templateId).toBeNull();
+      expect(StoryState.fromJSON({ userId: 'user123', segments: {} }).templateVersion).toBeNull();
+    });
+    
+    it('should restore the story variables', () => {
+      const storyState = StoryState.fromJSON({
+        userId: 'user123',
+        segments: {},
+        variables: { has_key: true, coins: 3, inventory: ['crystal orb'] }
+      });
+      
+      expect(storyState.variables).toEqual({ has_key: true, coins: 3, inventory: ['crystal orb'] });
+      expect(storyState.getPublicState().variables).toEqual(storyState.variables);
+      expect(StoryState.fromJSON({ userId: 'user123', segments: {} }).variables).toEqual({});
+    });
+    
+    it('should default the version of unversioned snapshots to 0', () => {
+      const storyState = StoryState.fromJSON({ userId: 'user123', segments: {} });
+      
+      expect(storyState.version).toBe(0);
+    });
   });
 }); 
\ No newline at end of file
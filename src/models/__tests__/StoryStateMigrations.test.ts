@@ -0,0 +1,147 @@
+import {
+  migrateStoryStateData,
+  StoryStateMigration,
+  StoryStateMigrationError,
+  STORY_STATE_MIGRATIONS
+} from '../StoryStateMigrations';
+import { StoryState, STORY_STATE_SCHEMA_VERSION } from '../StoryState';
+
+describe('StoryStateMigrations', () => {
+  const legacySnapshot = {
+    userId: 'user123',
+    currentSegmentId: 'segment1',
+    segments: {
+      intro: { id: 'intro', content: 'Story begins...', choices: [] },
+      segment1: { id: 'segment1', content: 'Next part...', choices: [] }
+    },
+    choiceHistory: [{ segmentId: 'intro', choiceId: 'choice1', timestamp: '2024-01-02T00:00:00.000Z' }],
+    contextualData: {}
+  };
+  
+  it('should end the registry at the current schema version', () => {
+    const versions = STORY_STATE_MIGRATIONS.map(migration => migration.version);
+    
+    expect(versions).toEqual(versions.map((_, index) => index + 1));
+    expect(versions[versions.length - 1]).toBe(STORY_STATE_SCHEMA_VERSION);
+  });
+  
+  it('should upgrade snapshots written before schema versions existed', () => {
+    const result = migrateStoryStateData(legacySnapshot);
+    
+    expect(result.fromVersion).toBe(0);
+    expect(result.migrated).toBe(true);
+    expect(result.data).toEqual(expect.objectContaining({
+      schemaVersion: STORY_STATE_SCHEMA_VERSION,
+      storyId: 'default',
+      title: 'My Story',
+      createdAt: '2024-01-02T00:00:00.000Z',
+      readSegments: [],
+      conversationHistory: [],
+      isConversationalMode: false,
+      abandonedBranches: [],
+      memory: { summary: '', summarizedThrough: null, summarizedThroughCount: 0 },
+      bible: { characters: [], items: [], locations: [], plotThreads: [] },
+      templateVersion: null,
+      templateHash: null,
+      variables: {}
+    }));
+    expect(result.data).not.toHaveProperty('templateId');
+  });
+  
+  it('should move story memory facts into the story bible', () => {
+    const facts = {
+      characters: [{ name: 'Mira', description: 'A young cartographer' }],
+      items: [],
+      places: [{ name: 'The ford', description: 'Where the river is shallow' }],
+      promises: [{ name: 'Return the map', description: 'Promised to the ferryman' }]
+    };
+    
+    const result = migrateStoryStateData({
+      ...new StoryState('user123').toJSON(),
+      schemaVersion: 4,
+      memory: { summary: 'Mira set out.', facts, summarizedThrough: '2024-01-01T00:00:00.000Z' },
+      bible: undefined
+    });
+    
+    expect(result.data.memory).toEqual({ summary: 'Mira set out.', summarizedThrough: '2024-01-01T00:00:00.000Z', summarizedThroughCount: 0 });
+    expect(result.data.bible).toEqual({
+      characters: facts.characters,
+      items: [],
+      locations: facts.places,
+      plotThreads: facts.promises
+    });
+  });
+  
+  it('should give stories migrated to version 4 without facts an empty story bible', () => {
+    const result = migrateStoryStateData({
+      ...new StoryState('user123').toJSON(),
+      schemaVersion: 4,
+      memory: { summary: 'Mira set out.', summarizedThrough: null },
+      bible: undefined
+    });
+
+    expect(result.data.memory).toEqual({ summary: 'Mira set out.', summarizedThrough: null, summarizedThroughCount: 0 });
+    expect(result.data.bible).toEqual({ characters: [], items: [], locations: [], plotThreads: [] });
+  });
+
+  it('should pin stories started from a template to its first version', () => {
+    const result = migrateStoryStateData({
+      ...new StoryState('user123').toJSON(),
+      schemaVersion: 7,
+      templateId: 'adventure_template',
+      templateVersion: undefined
+    });
+
+    expect(result.data.templateVersion).toBe(1);
+  });
+
+  it('should count every message stamped with the last summarized time as summarized', () => {
+    const result = migrateStoryStateData({
+      ...new StoryState('user123').toJSON(),
+      schemaVersion: 9,
+      conversationHistory: [
+        { role: 'user', content: 'Cross the river', timestamp: '2024-01-01T00:00:00.000Z' },
+        { role: 'assistant', content: 'The ferryman nods.', timestamp: '2024-01-01T00:00:00.000Z' },
+        { role: 'user', content: 'Look around', timestamp: '2024-01-01T00:01:00.000Z' }
+      ],
+      memory: { summary: 'Mira crossed the river.', summarizedThrough: '2024-01-01T00:00:00.000Z' }
+    });
+
+    expect(result.data.memory.summarizedThroughCount).toBe(2);
+  });
+
+  it('should leave current snapshots untouched', () => {
+    const current = new StoryState('user123').toJSON();
+    
+    const result = migrateStoryStateData(current);
+    
+    expect(result.migrated).toBe(false);
+    expect(result.data).toBe(current);
+  });
+  
+  it('should only run migrations newer than the snapshot', () => {
+    const migrations: StoryStateMigration[] = [
+      { version: 1, description: 'first', migrate: jest.fn(data => ({ ...data, first: true })) },
+      { version: 2, description: 'second', migrate: jest.fn(data => ({ ...data, second: true })) }
+    ];
+    
+    const result = migrateStoryStateData({ schemaVersion: 1 }, migrations);
+    
+    expect(migrations[0].migrate).not.toHaveBeenCalled();
+    expect(result.data).toEqual({ schemaVersion: 2, second: true });
+  });
+  
+  it('should reject snapshots from a newer schema', () => {
+    expect(() => migrateStoryStateData({ ...legacySnapshot, schemaVersion: STORY_STATE_SCHEMA_VERSION + 1 }))
+      .toThrow(StoryStateMigrationError);
+  });
+  
+  it('should report which migration failed', () => {
+    const migrations: StoryStateMigration[] = [
+      { version: 1, description: 'explode', migrate: () => { throw new Error('bad data'); } }
+    ];
+    
+    expect(() => migrateStoryStateData({}, migrations))
+      .toThrow('Migration to schema version 1 (explode) failed: bad data');
+  });
+});
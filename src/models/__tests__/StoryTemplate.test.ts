@@ -1,4 +1,5 @@
 import { StoryTemplate, StoryTemplateSchema, TemplateVariable } from '../StoryTemplate';
+import { StoryTemplateSyntaxError } from '../StoryTemplateExpression';
 
 describe('StoryTemplateSchema', () => {
   it('should validate a template schema', () => {
@@ -102,6 +103,55 @@ describe('StoryTemplateSchema', () => {
     };
     expect(() => StoryTemplateSchema.validate(invalidSchema)).toThrow('Variable required property must be a boolean');
   });
+
+  it('should check story variables, conditions and effects', () => {
+    const schema = (storyVariables: any[], choice: Record<string, any>) => ({
+      id: 'test',
+      variables: [{ name: 'character_name', type: 'string', required: true }],
+      storyVariables,
+      segmentTemplates: {
+        intro: { id: 'intro', template: 'A door.', choices: [{ id: 'open', text: 'Open it', nextSegmentId: 'hall', ...choice }] }
+      }
+    });
+    const inventory = { name: 'inventory', type: 'list' };
+
+    expect(() => StoryTemplateSchema.validate(schema([inventory], {
+      condition: "'key' in inventory",
+      effects: [{ remove: 'inventory', item: 'key' }]
+    }))).not.toThrow();
+    expect(() => StoryTemplateSchema.validate(schema([{ name: 'coins', type: 'money' }], {})))
+      .toThrow('Invalid story variable type: money');
+    expect(() => StoryTemplateSchema.validate(schema([{ name: 'character_name', type: 'string' }], {})))
+      .toThrow('Story variable character_name is declared more than once');
+    expect(() => StoryTemplateSchema.validate(schema([{ name: 'coins', type: 'number', initial: 'none' }], {})))
+      .toThrow('Initial value of story variable coins must be a number');
+    expect(() => StoryTemplateSchema.validate(schema([inventory], { condition: "'key' in" })))
+      .toThrow('Syntax error in segment intro (choice open condition) at column 9');
+    expect(() => StoryTemplateSchema.validate(schema([inventory], { effects: [{ set: 'has_key', value: true }] })))
+      .toThrow('Invalid effect of choice open in segment intro: set targets undeclared story variable has_key');
+    expect(() => StoryTemplateSchema.validate(schema([inventory], { effects: [{ increment: 'inventory' }] })))
+      .toThrow('cannot increment list variable inventory');
+    expect(() => StoryTemplateSchema.validate(schema([inventory], { effects: [{ set: 'inventory', value: 'key' }] })))
+      .toThrow('inventory must be set to a list');
+    expect(() => StoryTemplateSchema.validate(schema([inventory], { effects: [{ add: 'inventory', remove: 'inventory', item: 'key' }] })))
+      .toThrow('each effect must have exactly one of set, increment, add or remove');
+  });
+
+  it('should report template syntax errors with their segment and column', () => {
+    const schema = {
+      id: 'test',
+      variables: [],
+      segmentTemplates: {
+        intro: { id: 'intro', template: 'Hello {name', choices: [] },
+        cave: { id: 'cave', template: 'A cave.', choices: [{ id: 'run', text: '{is_brave ? "Stay"}', nextSegmentId: 'end' }] }
+      }
+    };
+
+    expect(() => StoryTemplateSchema.validate(schema)).toThrow('Syntax error in segment intro at column 7: Unclosed {');
+    schema.segmentTemplates.intro.template = 'Hello {name}';
+    expect(() => StoryTemplateSchema.validate(schema)).toThrow(StoryTemplateSyntaxError);
+    expect(() => StoryTemplateSchema.validate(schema)).toThrow('Syntax error in segment cave (choice run) at column 19');
+  });
 });
 
 describe('StoryTemplate', () => {
@@ -193,6 +243,25 @@ describe('StoryTemplate', () => {
       expect(segment.content).toBe('Once upon a time, Bob was 10 years old and lived in Forest.');
     });
     
+    it('should evaluate expressions in the template', () => {
+      const template = new StoryTemplate({
+        ...validSchema,
+        variables: [...validSchema.variables, { name: 'is_brave', type: 'boolean', required: false, default: true }],
+        segmentTemplates: {
+          intro: {
+            id: 'intro',
+            template: "{is_brave ? 'Without hesitation' : 'Slowly'}, {character_name | possessive} journey began{#if age < 12} early{/if}.",
+            choices: [{ id: 'go', text: 'Go to {location | upper}', nextSegmentId: 'exploration' }]
+          }
+        }
+      });
+
+      const segment = template.generateSegment('intro', { character_name: 'Alice', location: 'Wonderland', is_brave: false });
+
+      expect(segment.content).toBe('Slowly, Alice\'s journey began early.');
+      expect(segment.choices[0].text).toBe('Go to WONDERLAND');
+    });
+    
     it('should throw error for invalid segment ID', () => {
       const template = new StoryTemplate(validSchema);
       const variables = {
@@ -243,6 +312,59 @@ describe('StoryTemplate', () => {
     });
   });
   
+  describe('story variables', () => {
+    const template = new StoryTemplate({
+      ...validSchema,
+      storyVariables: [
+        { name: 'inventory', type: 'list' },
+        { name: 'coins', type: 'number', initial: 2 },
+        { name: 'door_open', type: 'boolean' }
+      ],
+      segmentTemplates: {
+        ...validSchema.segmentTemplates,
+        hall: {
+          id: 'hall',
+          template: 'You carry {inventory | default("nothing")} and {coins} {coins | plural("coin")}.',
+          choices: [
+            { id: 'unlock', text: 'Unlock the door', nextSegmentId: 'vault', condition: "'key' in inventory && !door_open",
+              effects: [{ set: 'door_open', value: true }, { remove: 'inventory', item: 'key' }] },
+            { id: 'buy', text: 'Buy a lamp', nextSegmentId: 'hall', condition: 'coins >= 2',
+              effects: [{ increment: 'coins', by: -2 }, { add: 'inventory', item: 'lamp' }] },
+            { id: 'leave', text: 'Leave', nextSegmentId: 'home' }
+          ]
+        }
+      }
+    });
+    const reader = { character_name: 'Alice', location: 'Wonderland' };
+
+    it('should start stories with the declared initial values', () => {
+      expect(template.getInitialStoryVariables()).toEqual({ inventory: [], coins: 2, door_open: false });
+    });
+
+    it('should only offer choices whose condition holds', () => {
+      const start = template.generateSegment('hall', reader, template.getInitialStoryVariables());
+      const withKey = template.generateSegment('hall', reader, { inventory: ['key'], coins: 0, door_open: false });
+
+      expect(start.content).toBe('You carry nothing and 2 coins.');
+      expect(start.choices.map(choice => choice.id)).toEqual(['buy', 'leave']);
+      expect(withKey.content).toBe('You carry key and 0 coins.');
+      expect(withKey.choices.map(choice => choice.id)).toEqual(['unlock', 'leave']);
+    });
+
+    it('should apply the effects of the chosen choice', () => {
+      const start = template.getInitialStoryVariables();
+
+      const bought = template.applyChoiceEffects('hall', 'buy', start);
+      const unlocked = template.applyChoiceEffects('hall', 'unlock', { ...bought, inventory: ['lamp', 'key'] });
+
+      expect(bought).toEqual({ inventory: ['lamp'], coins: 0, door_open: false });
+      expect(unlocked).toEqual({ inventory: ['lamp'], coins: 0, door_open: true });
+      expect(start).toEqual({ inventory: [], coins: 2, door_open: false });
+      expect(template.applyChoiceEffects('hall', 'leave', bought)).toEqual(bought);
+      expect(template.applyChoiceEffects('cellar', 'open', bought)).toEqual(bought);
+    });
+  });
+  
   describe('validateVariables', () => {
     it('should validate variables match schema requirements', () => {
       const template = new StoryTemplate(validSchema);
@@ -328,4 +450,17 @@ describe('Fantasy Adventure Template', () => {
     expect(segment.choices[0].id).toBe('enter_cave');
     expect(segment.choices[1].id).toBe('ask_farmers');
   });
-}); 
\ No newline at end of file
+}); 
+describe('Adventure Template', () => {
+  it('should render its conditional opening rather than the expression', () => {
+    const fs = require('fs');
+    const path = require('path');
+    const templatePath = path.join(__dirname, '../../../data/templates/adventure_template.json');
+    const template = new StoryTemplate(JSON.parse(fs.readFileSync(templatePath, 'utf8')));
+
+    const segment = template.generateSegment('intro', { character_name: 'Mira', location: 'Hollowmere' });
+
+    expect(segment.content).toContain('Without hesitation, Mira approached the mysterious glow.');
+    expect(segment.content).not.toMatch(/[{}]/);
+  });
+});
@@ -0,0 +1,84 @@
+import { StoryTemplateSyntaxError, compileTemplate, renderTemplate } from '../StoryTemplateExpression';
+
+describe('StoryTemplateExpression', () => {
+  const render = (text: string, variables: Record<string, unknown> = {}) =>
+    renderTemplate(compileTemplate(text), variables);
+
+  it('should fill in variables and leave unknown ones blank', () => {
+    expect(render('{name} is {age} years old.', { name: 'Mira', age: 9 })).toBe('Mira is 9 years old.');
+    expect(render('Hello {nickname}!', {})).toBe('Hello !');
+    expect(render('{{not a tag}}')).toBe('{not a tag}');
+  });
+
+  it('should evaluate conditionals, comparisons and logic', () => {
+    const text = "{is_brave ? 'Without hesitation' : 'With a mix of fear and curiosity'}";
+
+    expect(render(text, { is_brave: true })).toBe('Without hesitation');
+    expect(render(text, { is_brave: false })).toBe('With a mix of fear and curiosity');
+    expect(render('{age >= 10 && !scared ? "old enough" : "too young"}', { age: 10, scared: false })).toBe('old enough');
+    expect(render('{age < 10 || name == "Mira" ? "yes" : "no"}', { age: 12, name: 'Mira' })).toBe('yes');
+    expect(render('{nickname || name}', { name: 'Mira' })).toBe('Mira');
+    expect(render('{age > "ten" ? "yes" : "no"}', { age: 12 })).toBe('no');
+  });
+
+  it('should apply filters', () => {
+    expect(render('{name | capitalize}', { name: 'mira' })).toBe('Mira');
+    expect(render('{name | possessive} map, {other | possessive} boat', { name: 'Mira', other: 'James' }))
+      .toBe('Mira\'s map, James\' boat');
+    expect(render('{coins} {coins | plural("coin")}', { coins: 1 })).toBe('1 coin');
+    expect(render('{coins} {coins | plural("coin")}', { coins: 3 })).toBe('3 coins');
+    expect(render('{mice | plural("mouse", "mice")}', { mice: 2 })).toBe('mice');
+    expect(render('{pronouns | pronoun("subject") | capitalize} lost {pronouns | pronoun("possessive")} hat.', { pronouns: 'she/her' }))
+      .toBe('She lost her hat.');
+    expect(render('{pronouns | pronoun("reflexive")}', {})).toBe('themself');
+    expect(render('{title | default("friend") | upper}', { title: '' })).toBe('FRIEND');
+  });
+
+  it('should work with lists', () => {
+    const variables = { inventory: ['crystal orb', 'key'], empty: [] };
+
+    expect(render('{"key" in inventory ? "Unlock" : "Knock"}', variables)).toBe('Unlock');
+    expect(render('{!("map" in inventory) && "key" in inventory}', variables)).toBe('true');
+    expect(render('You carry {inventory} ({inventory | count} items).', variables)).toBe('You carry crystal orb, key (2 items).');
+    expect(render('{inventory | join(" and ")}', variables)).toBe('crystal orb and key');
+    expect(render('{#if empty}Something{#else}Nothing{/if}', variables)).toBe('Nothing');
+  });
+
+  it('should render conditional blocks', () => {
+    const text = '{#if coins > 5}Rich{#elseif coins > 0}You have {coins} {coins | plural("coin")}{#else}Empty{/if}.';
+
+    expect(render(text, { coins: 10 })).toBe('Rich.');
+    expect(render(text, { coins: 2 })).toBe('You have 2 coins.');
+    expect(render(text, { coins: 0 })).toBe('Empty.');
+    expect(render('{#if a}A{#if b}B{/if}{#else}none{/if}', { a: true, b: true })).toBe('AB');
+  });
+
+  it('should not reach outside the variables it is given', () => {
+    expect(render('{constructor}{toString}', {})).toBe('');
+    expect(render('{hero}', { hero: { name: 'Mira' } })).toBe('');
+  });
+
+  it.each([
+    ["{is_brave ? 'yes'}", 18, 'Expected \':\' in conditional expression but found the end of the expression'],
+    ['Hi {name', 4, 'Unclosed {; write {{ for a literal brace'],
+    ['Hi }', 4, 'Unexpected }; write }} for a literal brace'],
+    ['{name | shout}', 9, 'Unknown filter shout'],
+    ['{coins | plural}', 10, 'Filter plural takes 1 to 2 argument(s), not 0'],
+    ['{p | pronoun("dative")}', 6, 'Unknown pronoun form "dative"'],
+    ['{1 < age < 9}', 10, 'Comparisons cannot be chained'],
+    ['{#if ready}Go', 1, 'Unclosed {#if}'],
+    ['{#else}', 1, '{#else} outside {#if}'],
+    ['{#each items}', 1, 'Unknown block tag {#each items}'],
+    ['{#if }', 5, 'Empty expression'],
+    ['{name.length}', 6, 'Unexpected character "."']
+  ])('should report %s as a syntax error at its column', (text, column, reason) => {
+    expect.assertions(3);
+    try {
+      compileTemplate(text);
+    } catch (error) {
+      expect(error).toBeInstanceOf(StoryTemplateSyntaxError);
+      expect((error as StoryTemplateSyntaxError).column).toBe(column);
+      expect((error as StoryTemplateSyntaxError).reason).toContain(reason);
+    }
+  });
+});
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { requireAdminToken } from '../middleware/adminAuth';
+import { StoryServices } from '../services/storyServices';
+import { analyzeTemplateFiles } from '../services/templates';
+import templateConfig from '../config/templates';
+
+/**
+ * Initialize admin routes (all require the X-Admin-Token header)
+ */
+export function initAdminRoutes(services: StoryServices): Router {
+  const router = Router();
+  router.use(requireAdminToken());
+  
+  // GET what the retention policy would purge and trim right now, without changing anything
+  router.get('/retention/report', async (req, res) => {
+    try {
+      const report = await services.retentionService.run({ dryRun: true });
+      res.json({
+        success: true,
+        report
+      });
+    } catch (error) {
+      console.error('[AdminRouter] Error building retention report:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to build retention report',
+        message: (error as Error).message
+      });
+    }
+  });
+  
+  // GET the segment graph and problems of every story template
+  router.get('/templates/analysis', (req, res) => {
+    try {
+      const analyses = analyzeTemplateFiles(templateConfig.directory);
+      res.json({
+        success: true,
+        analyses
+      });
+    } catch (error) {
+      console.error('[AdminRouter] Error analyzing story templates:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to analyze story templates',
+        message: (error as Error).message
+      });
+    }
+  });
+  
+  return router;
+}
@@ -1,14 +1,38 @@
 import { Router, Request, Response } from 'express';
+import { LLMProviderRegistry } from '../services/llm/LLMProviderRegistry';
+import { ResilientLLMProvider } from '../services/llm/ResilientLLMProvider';
 
-const healthRouter = Router();
+/**
+ * Initialize health routes. With the LLM provider registry the check also
+ * reports each provider's circuit breaker, and is "degraded" while the
+ * default provider's breaker is not closed.
+ */
+export function initHealthRoutes(llmProviders?: LLMProviderRegistry): Router {
+  const router = Router();
 
-healthRouter.get('/', (_req: Request, res: Response) => {
-  res.formatter.success({
-    data: {
+  router.get('/', (_req: Request, res: Response) => {
+    const data: Record<string, any> = {
       status: 'ok',
       timestamp: new Date().toISOString()
+    };
+
+    if (llmProviders) {
+      const defaultProvider = llmProviders.getDefaultProviderName();
+      const providers = llmProviders.getProviders().map(provider => ({
+        name: provider.name,
+        model: provider.model,
+        circuit: provider instanceof ResilientLLMProvider ? provider.getCircuitStatus() : undefined
+      }));
+
+      const defaultCircuit = providers.find(provider => provider.name === defaultProvider)?.circuit;
+      if (defaultCircuit && defaultCircuit.state !== 'closed') {
+        data.status = 'degraded';
+      }
+      data.llm = { defaultProvider, providers };
     }
+
+    res.formatter.success({ data });
   });
-});
 
-export { healthRouter }; 
\ No newline at end of file
+  return router;
+}
@@ -7,13 +7,12 @@ import path from 'path';
 /**
  * Initialize illustration routes
  */
-export function initIllustrationRoutes(storyStateService: StoryStateService): Router {
+export function initIllustrationRoutes(
+  storyStateService: StoryStateService,
+  illustrationService: IllustrationService = new IllustrationService(path.join(__dirname, '../../public'))
+): Router {
   const router = Router();
   
-  // Initialize services
-  const illustrationService = new IllustrationService(
-    path.join(__dirname, '../../public')
-  );
   
   // Initialize controller
   const illustrationController = new IllustrationController(
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { storyMonitoring } from '../utils/storyMonitoring';
+import { getExperimentService } from '../services/experiments';
 
 /**
  * Initialize monitoring routes
@@ -39,6 +40,15 @@ export function initMonitoringRoutes(): Router {
     });
   });
   
+  // GET running experiments and how each variant is doing
+  router.get('/experiments', (req, res) => {
+    res.json({
+      success: true,
+      experiments: getExperimentService().getExperiments(),
+      variants: storyMonitoring.getExperimentComparison()
+    });
+  });
+  
   // GET metrics for a specific user
   router.get('/user/:userId', (req, res) => {
     const { userId } = req.params;
@@ -50,6 +60,7 @@ export function initMonitoringRoutes(): Router {
     res.json({
       success: true,
       userId,
+      usage: storyMonitoring.getUserUsage(userId),
       gptMetrics: {
         count: gptMetrics.length,
         metrics: gptMetrics
@@ -1,31 +1,31 @@
 import { Router } from 'express';
 import { StoryController } from '../controllers/storyController';
-import { StoryStateService } from '../services/StoryStateService';
-import { GPTClient } from '../services/GPTClient';
-import { InMemoryStateStorage } from '../services/persistence/InMemoryStateStorage';
-import { PersonalizationManager } from '../services/PersonalizationManager';
+import { StoryGraphExporter } from '../services/StoryGraphExporter';
+import { StoryTranscriptRenderer } from '../services/StoryTranscriptRenderer';
+import { StoryServices } from '../services/storyServices';
 import { initIllustrationRoutes } from './illustration.routes';
-import { DEFAULT_OPENAI_MODEL } from '../config/services';
-import path from 'path';
 
 /**
  * Initialize story routes
  */
-export function initStoryRoutes(apiKey: string): Router {
+export function initStoryRoutes(services: StoryServices): Router {
   const router = Router();
-  
-  // Initialize services
-  console.log(`[StoryRouter] Initializing GPTClient with model: ${DEFAULT_OPENAI_MODEL} (env: ${process.env.OPENAI_MODEL || 'not set'})`);
-  const stateStorage = new InMemoryStateStorage();
-  const gptClient = new GPTClient(apiKey, DEFAULT_OPENAI_MODEL);
-  const personalizationManager = new PersonalizationManager();
-  const storyStateService = new StoryStateService(gptClient, stateStorage, personalizationManager);
+  const {
+    storyStateService,
+    personalizationManager,
+    gptClient,
+    illustrationService,
+    storyArchiveService
+  } = services;
   
   // Initialize controller with direct access to the GPT client for conversational mode
   const storyController = new StoryController(
     storyStateService, 
     personalizationManager,
-    gptClient
+    gptClient,
+    new StoryGraphExporter(),
+    storyArchiveService,
+    new StoryTranscriptRenderer(illustrationService)
   );
   
   // Set up story routes
@@ -53,6 +53,42 @@ export function initStoryRoutes(apiKey: string): Router {
     (req, res) => storyController.resetStory(req, res)
   );
   
+  // POST to rewind the story to an earlier choice
+  router.post(
+    '/rewind',
+    (req, res) => storyController.rewindStory(req, res)
+  );
+  
+  // GET the characters, items, locations and open plot threads of the story
+  router.get(
+    '/bible',
+    (req, res) => storyController.getStoryBible(req, res)
+  );
+  
+  // GET the graph of explored segments (JSON, DOT or Mermaid)
+  router.get(
+    '/graph',
+    (req, res) => storyController.getStoryGraph(req, res)
+  );
+  
+  // GET the path taken through the story as a book (Markdown, HTML or EPUB)
+  router.get(
+    '/transcript',
+    (req, res) => storyController.getStoryTranscript(req, res)
+  );
+  
+  // GET a signed archive of the active story (for moving it to another device)
+  router.get(
+    '/export',
+    (req, res) => storyController.exportStory(req, res)
+  );
+  
+  // POST a story archive to install it as a new save slot
+  router.post(
+    '/import',
+    (req, res) => storyController.importStory(req, res)
+  );
+  
   // Conversational mode endpoints
   
   // POST to start a new conversational story
@@ -66,9 +102,41 @@ export function initStoryRoutes(apiKey: string): Router {
     '/converse',
     (req, res) => storyController.converseWithStory(req, res)
   );
-  
+
+  // Save slot endpoints
+
+  // GET the user's save slots
+  router.get(
+    '/slots',
+    (req, res) => storyController.listSlots(req, res)
+  );
+
+  // POST to start a new story in a new save slot
+  router.post(
+    '/slots',
+    (req, res) => storyController.createSlot(req, res)
+  );
+
+  // POST to make a save slot the active story
+  router.post(
+    '/slots/:storyId/switch',
+    (req, res) => storyController.switchSlot(req, res)
+  );
+
+  // PATCH to rename a save slot
+  router.patch(
+    '/slots/:storyId',
+    (req, res) => storyController.renameSlot(req, res)
+  );
+
+  // DELETE a save slot
+  router.delete(
+    '/slots/:storyId',
+    (req, res) => storyController.deleteSlot(req, res)
+  );
+
   // Initialize and mount illustration routes
-  const illustrationRouter = initIllustrationRoutes(storyStateService);
+  const illustrationRouter = initIllustrationRoutes(storyStateService, illustrationService);
   router.use('/illustrations', illustrationRouter);
   
   return router;
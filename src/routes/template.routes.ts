@@ -0,0 +1,122 @@
+import { Response, Router } from 'express';
+import { requireAdminToken } from '../middleware/adminAuth';
+import { StoryServices } from '../services/storyServices';
+import {
+  analyzeStoryTemplate,
+  InvalidStoryTemplateError,
+  StoredStoryTemplate,
+  StoryTemplateExistsError,
+  StoryTemplateNotFoundError
+} from '../services/templates';
+
+function sendTemplate(res: Response, stored: StoredStoryTemplate, status: number = 200): void {
+  res.status(status).json({
+    success: true,
+    id: stored.schema.id,
+    version: stored.version,
+    template: stored.schema,
+    issues: analyzeStoryTemplate(stored.schema).issues
+  });
+}
+
+function sendTemplateError(res: Response, error: unknown, failure: string): void {
+  if (error instanceof StoryTemplateNotFoundError) {
+    res.status(404).json({ success: false, error: 'Story template not found', message: error.message });
+    return;
+  }
+  if (error instanceof InvalidStoryTemplateError) {
+    res.status(400).json({ success: false, error: 'Invalid story template', message: error.message });
+    return;
+  }
+  if (error instanceof StoryTemplateExistsError) {
+    res.status(409).json({ success: false, error: 'Story template already exists', message: error.message });
+    return;
+  }
+  console.error(`[TemplateRouter] ${failure}:`, error);
+  res.status(500).json({ success: false, error: failure, message: (error as Error).message });
+}
+
+/**
+ * Initialize story template routes (all require the X-Admin-Token header).
+ * New stories start from a template's current version; stories already
+ * started keep the version they started with.
+ */
+export function initTemplateRoutes(services: StoryServices): Router {
+  const router = Router();
+  const store = services.templateStore;
+  router.use(requireAdminToken());
+
+  // GET the current version of every template
+  router.get('/', (req, res) => {
+    try {
+      res.json({
+        success: true,
+        templates: store.list()
+      });
+    } catch (error) {
+      sendTemplateError(res, error, 'Failed to list story templates');
+    }
+  });
+
+  // GET a template's current version, or the one in ?version=
+  router.get('/:id', (req, res) => {
+    const version = req.query.version !== undefined ? Number(req.query.version) : undefined;
+    if (version !== undefined && !Number.isInteger(version)) {
+      res.status(400).json({ success: false, error: 'version must be an integer' });
+      return;
+    }
+    try {
+      sendTemplate(res, store.get(req.params.id, version));
+    } catch (error) {
+      sendTemplateError(res, error, 'Failed to get story template');
+    }
+  });
+
+  // GET every version kept of a template
+  router.get('/:id/versions', (req, res) => {
+    try {
+      res.json({
+        success: true,
+        id: req.params.id,
+        currentVersion: store.find(req.params.id)?.version ?? null,
+        versions: store.getVersions(req.params.id)
+      });
+    } catch (error) {
+      sendTemplateError(res, error, 'Failed to list story template versions');
+    }
+  });
+
+  // POST a new template
+  router.post('/', (req, res) => {
+    try {
+      sendTemplate(res, store.create(req.body), 201);
+    } catch (error) {
+      sendTemplateError(res, error, 'Failed to create story template');
+    }
+  });
+
+  // PUT a new version of a template (the id in the body may be left out)
+  router.put('/:id', (req, res) => {
+    try {
+      sendTemplate(res, store.update(req.params.id, { id: req.params.id, ...req.body }));
+    } catch (error) {
+      sendTemplateError(res, error, 'Failed to update story template');
+    }
+  });
+
+  // DELETE a template, so no new stories start from it
+  router.delete('/:id', (req, res) => {
+    try {
+      const removed = store.delete(req.params.id);
+      res.json({
+        success: true,
+        id: req.params.id,
+        version: removed.version
+      });
+    } catch (error) {
+      sendTemplateError(res, error, 'Failed to delete story template');
+    }
+  });
+
+  return router;
+}
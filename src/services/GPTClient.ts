@@ -1,54 +1,44 @@
-import axios, { AxiosError, AxiosRequestConfig } from 'axios';
-import { StoryChoice } from '../models/StoryState';
+import { StoryBibleUpdate, StoryChoice } from '../models/StoryState';
 import crypto from 'crypto';
-
-interface GenerateStorySegmentParams {
-  prompt: string;
-  context: Record<string, any>;
-}
-
-interface StreamStorySegmentParams {
-  prompt: string;
-  context: Record<string, any>;
-  onChunk: (chunk: string) => void;
-}
-
-interface GenerateStoryChoicesParams {
-  currentSegment: string;
-  context: Record<string, any>;
-  numChoices: number;
-}
-
-interface ConstructPromptParams {
-  instruction: string;
-  context?: Record<string, any>;
-}
-
-interface ChatCompletionMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-interface ChatCompletionChoice {
-  index: number;
-  message: ChatCompletionMessage;
-  finish_reason: string;
-}
-
-interface ChatCompletionResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: ChatCompletionChoice[];
-}
-
-interface OpenAIErrorResponse {
-  error?: {
-    message?: string;
-    type?: string;
-  }
-}
+import { ZodType, ZodTypeDef } from 'zod';
+import {
+  GenerateStoryChoicesParams,
+  GenerateStorySegmentParams,
+  GenerateStorySegmentWithChoicesParams,
+  LLMCircuitOpenError,
+  LLMClient,
+  LLMCompletion,
+  LLMMessage,
+  LLMProvider,
+  LLMProviderError,
+  LLMProviderRegistry,
+  LLMRequestOptions,
+  LLMResponseFormatError,
+  LLMResponseSchema,
+  OpenAIProvider,
+  ExtractStoryBibleParams,
+  STORY_BIBLE_RESPONSE_SCHEMA,
+  STORY_CHOICES_RESPONSE_SCHEMA,
+  STORY_MEMORY_RESPONSE_SCHEMA,
+  STORY_SEGMENT_RESPONSE_SCHEMA,
+  StoryMemoryDraft,
+  StorySegmentDraft,
+  StreamStorySegmentParams,
+  SummarizeStoryParams,
+  UnknownLLMProviderError,
+  describeResponseSchemaError,
+  isRetryableLLMError,
+  storyBibleUpdateResponseSchema,
+  storyChoicesResponseSchema,
+  storyMemoryResponseSchema,
+  storySegmentResponseSchema
+} from './llm';
+import llmConfig from '../config/llm';
+import { countMessageTokens, countTextTokens } from './llm/tokenCounter';
+import { UsageTracker } from './UsageTracker';
+import { UsageBudgetExceededError } from './UsageBudgetExceededError';
+import { BuiltPrompt, PromptConstructor } from './PromptConstructor';
+import { ExperimentService, getExperimentService } from './experiments';
 
 // Cache interfaces
 interface CacheEntry<T> {
@@ -57,27 +47,59 @@ interface CacheEntry<T> {
   expiresAt: number;
 }
 
-export class GPTClient {
-  private apiKey: string;
-  private apiUrl: string;
-  private model: string;
+export interface GPTClientOptions {
+  // How long generated text is reused for, in ms
+  cacheTTL?: number;
+  // Accounts for and limits each user's usage
+  usageTracker?: UsageTracker;
+  // Vary users' prompts and models (the configured experiments by default)
+  experiments?: ExperimentService;
+}
+
+/**
+ * Story-level text generation: builds the storytelling prompts from the
+ * prompt templates, caches results and records metrics, and hands the API
+ * call to whichever LLM provider the request selects
+ */
+export class GPTClient implements LLMClient {
+  private providers: LLMProviderRegistry;
   private contentCache: Map<string, CacheEntry<string>> = new Map();
   private choicesCache: Map<string, CacheEntry<StoryChoice[]>> = new Map();
+  private segmentCache: Map<string, CacheEntry<StorySegmentDraft>> = new Map();
   private cacheTTL: number = 3600000; // 1 hour in milliseconds
+  private choiceRepairAttempts: number = llmConfig.choiceRepairAttempts;
+  private combinedGeneration: boolean = llmConfig.combinedGeneration;
+  private usageTracker?: UsageTracker;
+  private experiments: ExperimentService;
+  private prompts: PromptConstructor;
+  
+  constructor(providers: LLMProviderRegistry, options: GPTClientOptions = {}) {
+    this.providers = providers;
+    this.cacheTTL = options.cacheTTL ?? this.cacheTTL;
+    this.usageTracker = options.usageTracker;
+    this.experiments = options.experiments ?? getExperimentService();
+    this.prompts = new PromptConstructor(undefined, this.experiments);
+    const defaultProvider = this.providers.get();
+    console.log(`[GPTClient] Initialized with provider: ${defaultProvider.name}, model: ${defaultProvider.model} (env var OPENAI_MODEL=${process.env.OPENAI_MODEL || 'not set'})`);
+  }
   
-  constructor(
-    apiKey: string, 
-    model: string = 'gpt-4', 
+  /**
+   * A client for OpenAI alone, with an API key and optional model and chat completions URL
+   */
+  static fromApiKey(
+    apiKey: string,
+    model: string = 'gpt-4',
     apiUrl: string = 'https://api.openai.com/v1/chat/completions',
-    cacheTTL: number = 3600000
-  ) {
-    this.apiKey = apiKey;
+    cacheTTL?: number
+  ): GPTClient {
     // Always use the env var model if available, otherwise use the passed model
-    const envModel = process.env.OPENAI_MODEL;
-    this.model = envModel || model;
-    this.apiUrl = apiUrl;
-    this.cacheTTL = cacheTTL;
-    console.log(`[GPTClient] Initialized with model: ${this.model} (env var OPENAI_MODEL=${process.env.OPENAI_MODEL || 'not set'})`);
+    const baseUrl = apiUrl.replace(/\/chat\/completions\/?$/, '');
+    const provider = new OpenAIProvider(apiKey, process.env.OPENAI_MODEL || model, baseUrl);
+    return new GPTClient(new LLMProviderRegistry([provider]), { cacheTTL });
+  }
+  
+  getProviderNames(): string[] {
+    return this.providers.getProviderNames();
   }
   
   async generateStorySegment(params: GenerateStorySegmentParams): Promise<string> {
@@ -85,7 +107,13 @@ export class GPTClient {
     console.log(`[GPTClient] Starting generateStorySegment`);
     
     const { prompt, context = {} } = params;
-    const cacheKey = this.generateCacheKey(prompt, context);
+    const provider = this.providers.get(params.provider);
+    
+    // Generate prompt with context
+    const promptStart = Date.now();
+    const storyPrompt = this.prompts.buildStorySegmentPrompt(prompt, context, { instructionTemplate: params.promptTemplate });
+    console.log(`[GPTClient] Prompt construction (${storyPrompt.id} v${storyPrompt.version}) completed in ${Date.now() - promptStart}ms`);
+    const cacheKey = this.generateCacheKey(provider, storyPrompt.messages, this.getRequestOptions(context.userId));
     
     // Check cache first
     const cachedContent = this.contentCache.get(cacheKey);
@@ -97,33 +125,15 @@ export class GPTClient {
     
     console.log(`[GPTClient] No cached content found, generating new content`);
     
-    // Generate prompt with context
-    const promptStart = Date.now();
-    const finalPrompt = this.constructPrompt({
-      instruction: prompt,
-      context
-    });
-    console.log(`[GPTClient] Prompt construction completed in ${Date.now() - promptStart}ms`);
-    
-    // Prepare messages for API call
-    const messages: ChatCompletionMessage[] = [
-      { role: 'system', content: 'You are a creative writing assistant.' },
-      { role: 'user', content: finalPrompt }
-    ];
-    
     try {
       // Make API call
-      console.log(`[GPTClient] Starting API call to ${this.model}`);
+      console.log(`[GPTClient] Starting API call to ${provider.name} (${provider.model})`);
       const apiCallStart = Date.now();
-      const response = await this.callChatCompletionAPI(messages, context.userId || 'system');
+      const completion = await this.callProvider(provider, 'chat/completions', context.userId || 'system', storyPrompt,
+        options => provider.complete(storyPrompt.messages, options));
       console.log(`[GPTClient] API call completed in ${Date.now() - apiCallStart}ms`);
       
-      // Extract and validate the story text
-      if (!response.choices || !response.choices[0] || !response.choices[0].message) {
-        throw new Error('Invalid response from GPT API');
-      }
-      
-      const storyText = response.choices[0].message.content.trim();
+      const storyText = completion.text;
       const responseLength = storyText.length;
       console.log(`[GPTClient] Received story text of ${responseLength} characters`);
       
@@ -139,10 +149,6 @@ export class GPTClient {
       return storyText;
     } catch (error: any) {
       console.error(`[GPTClient] Error in generateStorySegment (${Date.now() - startTime}ms):`, error);
-      
-      if (error.message === 'Invalid response from GPT API') {
-        throw error; // Rethrow specific validation errors
-      }
       this.handleApiError(error);
     }
   }
@@ -151,8 +157,12 @@ export class GPTClient {
     const startTime = Date.now();
     console.log(`[GPTClient] Starting generateStoryChoices`);
     
-    // Generate a cache key based on the segment and context
-    const cacheKey = this.generateCacheKey(params.currentSegment, params.context);
+    // Generate a cache key based on the prompt for the segment and context
+    const provider = this.providers.get(params.provider);
+    const promptStart = Date.now();
+    const choicesPrompt = this.prompts.buildStoryChoicesPrompt(params.currentSegment, params.context, params.numChoices);
+    console.log(`[GPTClient] Prompt construction (${choicesPrompt.id} v${choicesPrompt.version}) completed in ${Date.now() - promptStart}ms`);
+    const cacheKey = this.generateCacheKey(provider, choicesPrompt.messages, this.getRequestOptions(params.context?.userId));
     
     // Check if we have a cached response
     const cachedChoices = this.choicesCache.get(cacheKey);
@@ -165,272 +175,310 @@ export class GPTClient {
     console.log(`[GPTClient] No cached choices found, generating new choices`);
     
     try {
-      const promptStart = Date.now();
-      const messages: ChatCompletionMessage[] = [
-        {
-          role: 'system',
-          content: `You are a creative storyteller. Generate exactly ${params.numChoices} choices for an interactive narrative. 
-                    IMPORTANT: Return ONLY raw JSON without any markdown formatting, code blocks, or explanations.
-                    Return a valid JSON array of choice objects, each with 'id', 'text', and 'nextSegmentId' properties.
-                    Example response format: [{"id":"choice1","text":"Go left","nextSegmentId":"left_path"}]`
-        },
-        {
-          role: 'user',
-          content: this.constructPrompt({
-            instruction: `Based on the following story segment, generate ${params.numChoices} interesting choices for the reader:
-                        ${params.currentSegment}`,
-            context: params.context
-          })
-        }
-      ];
-      console.log(`[GPTClient] Messages prepared in ${Date.now() - promptStart}ms`);
-      
-      console.log(`[GPTClient] Starting API call to ${this.model} for choices`);
+      console.log(`[GPTClient] Starting API call to ${provider.name} (${provider.model}) for choices`);
       const apiCallStart = Date.now();
-      const response = await this.callChatCompletionAPI(messages);
+      const choices = await this.requestStructured(
+        provider,
+        params.context?.userId || 'system',
+        choicesPrompt,
+        STORY_CHOICES_RESPONSE_SCHEMA,
+        storyChoicesResponseSchema,
+        'choices'
+      );
       console.log(`[GPTClient] API call for choices completed in ${Date.now() - apiCallStart}ms`);
       
-      if (!response.choices || response.choices.length === 0) {
-        throw new Error('Invalid response from GPT API');
-      }
+      console.log(`[GPTClient] Parsed ${choices.length} choices`);
       
-      try {
-        console.log(`[GPTClient] Parsing choices JSON response`);
-        const parseStart = Date.now();
-        
-        // Extract the JSON content from potential markdown code blocks
-        let contentToProcess = response.choices[0].message.content.trim();
-        
-        // If content is wrapped in markdown code blocks (```json ... ```), extract the JSON
-        if (contentToProcess.startsWith('```')) {
-          // Find the first ``` and the last ```
-          const startJsonIndex = contentToProcess.indexOf('\n') + 1;
-          const endJsonIndex = contentToProcess.lastIndexOf('```');
-          
-          if (startJsonIndex > 0 && endJsonIndex > startJsonIndex) {
-            contentToProcess = contentToProcess.substring(startJsonIndex, endJsonIndex).trim();
-          }
-        }
-        
-        const choices = JSON.parse(contentToProcess) as StoryChoice[];
-        
-        // Validate the parsed data has the expected structure
-        if (!Array.isArray(choices)) {
-          throw new Error('GPT API response is not a valid array');
-        }
-        
-        // Validate each choice has the required properties
-        for (const choice of choices) {
-          if (!choice.id || !choice.text || !choice.nextSegmentId) {
-            throw new Error('GPT API response contains invalid choice objects');
-          }
-        }
-        
-        console.log(`[GPTClient] JSON parsing completed in ${Date.now() - parseStart}ms, found ${choices.length} choices`);
-        
-        // Cache the response
-        this.choicesCache.set(cacheKey, {
-          content: choices,
-          timestamp: Date.now(),
-          expiresAt: Date.now() + this.cacheTTL
-        });
-        console.log(`[GPTClient] Choices cached with key: ${cacheKey.substring(0, 8)}...`);
-        
-        console.log(`[GPTClient] generateStoryChoices completed in ${Date.now() - startTime}ms`);
-        return choices;
-      } catch (parseError) {
-        const responseContent = response.choices[0].message.content;
-        console.error(`[GPTClient] JSON parsing error: ${parseError}`);
-        console.error(`[GPTClient] Raw response content: ${responseContent.substring(0, 100)}...`);
-        throw new Error('Failed to parse GPT API response as JSON');
-      }
+      // Cache the response
+      this.choicesCache.set(cacheKey, {
+        content: choices,
+        timestamp: Date.now(),
+        expiresAt: Date.now() + this.cacheTTL
+      });
+      console.log(`[GPTClient] Choices cached with key: ${cacheKey.substring(0, 8)}...`);
+      
+      console.log(`[GPTClient] generateStoryChoices completed in ${Date.now() - startTime}ms`);
+      return choices;
     } catch (error) {
       console.error(`[GPTClient] Error in generateStoryChoices (${Date.now() - startTime}ms):`, error);
+      if (error instanceof LLMResponseFormatError) {
+        console.error(`[GPTClient] Raw response content: ${error.responseText.substring(0, 100)}...`);
+        throw new Error('Failed to parse GPT API response as JSON');
+      }
       this.handleApiError(error);
     }
   }
   
-  constructPrompt(params: ConstructPromptParams): string {
-    let prompt = params.instruction;
+  async generateStorySegmentWithChoices(params: GenerateStorySegmentWithChoicesParams): Promise<StorySegmentDraft> {
+    const startTime = Date.now();
+    console.log(`[GPTClient] Starting generateStorySegmentWithChoices`);
     
-    // Add user context information
-    if (params.context && Object.keys(params.context).length > 0) {
-      // Extract specific context values that are important for storytelling
-      const storyContext: Record<string, any> = {};
-      
-      // User identity and preferences
-      if (params.context.userId) storyContext.userId = params.context.userId;
-      if (params.context.character) {
-        storyContext.character = params.context.character;
-      } else if (params.context.character_name) {
-        storyContext.character_name = params.context.character_name;
-      }
-      if (params.context.age) storyContext.age = params.context.age;
-      
-      // Story context and history
-      if (params.context.previousSegment) storyContext.previousSegment = params.context.previousSegment;
-      if (params.context.choice) storyContext.lastChoice = params.context.choice;
-      if (params.context.choiceHistory) storyContext.choiceHistory = params.context.choiceHistory;
-      
-      // Story style preferences
-      if (params.context.tone) storyContext.tone = params.context.tone;
-      if (params.context.audience) storyContext.audience = params.context.audience;
-      if (params.context.genre) storyContext.genre = params.context.genre;
-      
-      // Location and setting
-      if (params.context.setting) storyContext.setting = params.context.setting;
-      if (params.context.location) storyContext.location = params.context.location;
-      
-      // Format specific context as part of the prompt
-      prompt += '\n\nContext:';
+    const { prompt, context = {} } = params;
+    const provider = this.providers.get(params.provider);
+    const segmentPrompt = this.prompts.buildStorySegmentPrompt(prompt, context, {
+      numChoices: params.numChoices,
+      instructionTemplate: params.promptTemplate
+    });
+    const cacheKey = this.generateCacheKey(provider, segmentPrompt.messages, this.getRequestOptions(context.userId));
+    
+    const cachedSegment = this.segmentCache.get(cacheKey);
+    if (cachedSegment && cachedSegment.expiresAt > Date.now()) {
+      console.log(`[GPTClient] Using cached story segment with choices (cached ${Date.now() - cachedSegment.timestamp}ms ago)`);
+      console.log(`[GPTClient] generateStorySegmentWithChoices completed in ${Date.now() - startTime}ms (from cache)`);
+      return cachedSegment.content;
+    }
+    
+    try {
+      console.log(`[GPTClient] Starting API call to ${provider.name} (${provider.model}) for segment with choices`);
+      const apiCallStart = Date.now();
+      const segment = await this.requestStructured(
+        provider,
+        context.userId || 'system',
+        segmentPrompt,
+        STORY_SEGMENT_RESPONSE_SCHEMA,
+        storySegmentResponseSchema
+      );
+      console.log(`[GPTClient] API call for segment with choices completed in ${Date.now() - apiCallStart}ms`);
+      console.log(`[GPTClient] Received story text of ${segment.content.length} characters and ${segment.choices.length} choices`);
       
-      for (const key of Object.keys(storyContext)) {
-        // Format complex objects more readably
-        const value = typeof storyContext[key] === 'object' 
-          ? JSON.stringify(storyContext[key], null, 2)
-          : storyContext[key];
-        
-        prompt += `\n${key}: ${value}`;
-      }
+      this.segmentCache.set(cacheKey, {
+        content: segment,
+        timestamp: Date.now(),
+        expiresAt: Date.now() + this.cacheTTL
+      });
       
-      // Add any remaining context parameters
-      const extraContext = { ...params.context };
-      for (const key of Object.keys(storyContext)) {
-        delete extraContext[key];
+      console.log(`[GPTClient] generateStorySegmentWithChoices completed in ${Date.now() - startTime}ms`);
+      return segment;
+    } catch (error) {
+      console.error(`[GPTClient] Error in generateStorySegmentWithChoices (${Date.now() - startTime}ms):`, error);
+      if (error instanceof LLMResponseFormatError) {
+        console.error(`[GPTClient] Raw response content: ${error.responseText.substring(0, 100)}...`);
+        throw new Error('Failed to parse GPT API response as JSON');
       }
+      this.handleApiError(error);
+    }
+  }
+  
+  supportsCombinedGeneration(provider?: string): boolean {
+    return this.combinedGeneration && this.providers.get(provider).structuredOutput === true;
+  }
+  
+  async summarizeStory(params: SummarizeStoryParams): Promise<StoryMemoryDraft> {
+    const startTime = Date.now();
+    console.log(`[GPTClient] Starting summarizeStory for ${params.messages.length} messages`);
+    
+    const provider = this.providers.get(params.provider);
+    const { memory, context = {} } = params;
+    
+    try {
+      const summaryPrompt = this.prompts.buildStorySummaryPrompt(memory.summary, params.messages, params.summaryMaxWords, context.userId);
+      const draft = await this.requestStructured(
+        provider,
+        context.userId || 'system',
+        summaryPrompt,
+        STORY_MEMORY_RESPONSE_SCHEMA,
+        storyMemoryResponseSchema
+      );
       
-      if (Object.keys(extraContext).length > 0) {
-        prompt += '\n\nAdditional context:';
-        for (const key of Object.keys(extraContext)) {
-          // Skip complex objects to keep prompt concise
-          if (typeof extraContext[key] !== 'object') {
-            prompt += `\n${key}: ${extraContext[key]}`;
-          }
-        }
+      console.log(`[GPTClient] summarizeStory completed in ${Date.now() - startTime}ms`);
+      return draft;
+    } catch (error) {
+      console.error(`[GPTClient] Error in summarizeStory (${Date.now() - startTime}ms):`, error);
+      if (error instanceof LLMResponseFormatError) {
+        console.error(`[GPTClient] Raw response content: ${error.responseText.substring(0, 100)}...`);
+        throw new Error('Failed to parse GPT API response as JSON');
       }
+      this.handleApiError(error);
     }
+  }
+  
+  async extractStoryBible(params: ExtractStoryBibleParams): Promise<StoryBibleUpdate> {
+    const startTime = Date.now();
+    console.log(`[GPTClient] Starting extractStoryBible`);
     
-    // Add instructions for formatting and style
-    prompt += '\n\nInstructions:';
-    prompt += '\n- Create engaging, descriptive content appropriate for the audience.';
-    prompt += '\n- Maintain a consistent narrative style and tone.';
-    prompt += '\n- Incorporate the context details naturally into the story.';
+    const provider = this.providers.get(params.provider);
+    const { context = {} } = params;
     
-    if (params.context?.audience === 'children') {
-      prompt += '\n- Use simpler language appropriate for children.';
-      prompt += '\n- Keep content appropriate for young readers.';
+    try {
+      const biblePrompt = this.prompts.buildStoryBiblePrompt(params.bible, params.content, context.userId);
+      const update = await this.requestStructured(
+        provider,
+        context.userId || 'system',
+        biblePrompt,
+        STORY_BIBLE_RESPONSE_SCHEMA,
+        storyBibleUpdateResponseSchema
+      );
+      
+      console.log(`[GPTClient] extractStoryBible completed in ${Date.now() - startTime}ms`);
+      return update;
+    } catch (error) {
+      console.error(`[GPTClient] Error in extractStoryBible (${Date.now() - startTime}ms):`, error);
+      if (error instanceof LLMResponseFormatError) {
+        console.error(`[GPTClient] Raw response content: ${error.responseText.substring(0, 100)}...`);
+        throw new Error('Failed to parse GPT API response as JSON');
+      }
+      this.handleApiError(error);
     }
+  }
+  
+  /**
+   * Ask for JSON with the provider's structured output and validate it.
+   * A response that is not valid JSON or does not match the schema is sent
+   * back with what was wrong, up to choiceRepairAttempts times, before
+   * giving up with LLMResponseFormatError.
+   */
+  private async requestStructured<T>(
+    provider: LLMProvider,
+    userId: string,
+    prompt: BuiltPrompt,
+    responseSchema: LLMResponseSchema,
+    validator: ZodType<T, ZodTypeDef, unknown>,
+    // Names the value validation errors are reported from
+    root: string = ''
+  ): Promise<T> {
+    const conversation = [...prompt.messages];
     
-    if (params.context?.tone) {
-      prompt += `\n- Maintain a ${params.context.tone} tone throughout.`;
+    for (let attempt = 0; ; attempt++) {
+      let responseText: string;
+      let problem: string;
+      
+      try {
+        const completion = await this.callProvider(provider, 'chat/completions', userId, prompt,
+          options => provider.completeJSON<unknown>(conversation, { ...options, responseSchema }), conversation);
+        
+        const result = validator.safeParse(completion.data);
+        if (result.success) {
+          if (attempt > 0) {
+            console.log(`[GPTClient] ${responseSchema.name} repaired after ${attempt} attempt(s)`);
+          }
+          return result.data;
+        }
+        responseText = completion.text;
+        problem = describeResponseSchemaError(result.error, root);
+      } catch (error) {
+        if (!(error instanceof LLMResponseFormatError)) {
+          throw error;
+        }
+        responseText = error.responseText;
+        problem = error.message;
+      }
+      
+      if (attempt >= this.choiceRepairAttempts) {
+        throw new LLMResponseFormatError(provider.name, `Invalid ${responseSchema.name} from ${provider.name}: ${problem}`, responseText);
+      }
+      
+      console.warn(`[GPTClient] Invalid ${responseSchema.name} from ${provider.name} (${problem}); repair ${attempt + 1}/${this.choiceRepairAttempts}`);
+      conversation.push(
+        { role: 'assistant', content: responseText },
+        { role: 'user', content: this.prompts.buildRepairMessage(problem, userId !== 'system' ? userId : undefined) }
+      );
     }
-    
-    return prompt;
   }
   
-  private async callChatCompletionAPI(messages: ChatCompletionMessage[], 
-    userId: string = 'system'
-  ): Promise<ChatCompletionResponse> {
+  /**
+   * Make one provider call, with the model and temperature of the user's
+   * experiment variants, and record it in the GPT request metrics with the
+   * prompt templates it was built from. `messages` are what the call sends,
+   * when that is more than the prompt (a repair round-trip).
+   */
+  private async callProvider<T extends LLMCompletion>(
+    provider: LLMProvider,
+    endpoint: string,
+    userId: string,
+    prompt: BuiltPrompt,
+    call: (options: LLMRequestOptions) => Promise<T>,
+    messages: LLMMessage[] = prompt.messages
+  ): Promise<T> {
     // Import here to avoid circular dependencies
     const { storyMonitoring } = require('../utils/storyMonitoring');
     
+    // Requests on behalf of a user count against their budget
+    const isUserRequest = userId !== 'system';
+    if (isUserRequest) {
+      this.usageTracker?.checkBudget(userId);
+    }
+    
+    const options = this.getRequestOptions(userId);
+    const model = options.model ?? provider.model;
     const startTime = Date.now();
-    console.log(`[GPTClient] Starting API call to ${this.model}`);
     const requestId = `gpt_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+    const promptMetrics = {
+      promptId: prompt.id,
+      promptVersion: prompt.version,
+      instructionPromptId: prompt.instruction?.id,
+      instructionPromptVersion: prompt.instruction?.version
+    };
+    
+    // Count prompt tokens locally for providers that do not report usage (streams, local servers)
+    const countedPromptTokens = countMessageTokens(messages);
+    console.log(`[GPTClient] Request to ${provider.name} (${model}) with ~${countedPromptTokens} tokens`);
     
     try {
-      // Estimate prompt tokens (very rough estimate)
-      const promptString = JSON.stringify(messages);
-      const promptTokens = Math.ceil(promptString.length / 4);
-      console.log(`[GPTClient] Request to ${this.model} with ~${promptTokens} tokens`);
-      
-      const networkStart = Date.now();
-      console.log(`[GPTClient] Sending request to OpenAI API using model: ${this.model}`);
-      const response = await axios.post(
-        this.apiUrl,
-        {
-          model: this.model,
-          messages,
-          temperature: 0.7,
-          max_tokens: 1000
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
-      console.log(`[GPTClient] Network request completed in ${Date.now() - networkStart}ms for model: ${this.model}`);
-      
-      const endTime = Date.now();
-      const latency = endTime - startTime;
+      const completion = await call(options);
+      const latency = Date.now() - startTime;
+      const usageCounted = !completion.usage;
+      const promptTokens = completion.usage?.promptTokens ?? countedPromptTokens;
+      const completionTokens = completion.usage?.completionTokens ?? countTextTokens(completion.text);
+      const costUsd = isUserRequest && this.usageTracker
+        ? this.usageTracker.record(userId, completion.model, promptTokens, completionTokens)
+        : undefined;
       
-      // Estimate completion tokens (very rough estimate)
-      const completionString = JSON.stringify(response.data.choices[0].message.content);
-      const completionTokens = Math.ceil(completionString.length / 4);
+      console.log(`[GPTClient] API call to ${provider.name} (${completion.model}) completed in ${latency}ms, received ${completionTokens} tokens`);
       
-      console.log(`[GPTClient] API call to ${this.model} completed in ${latency}ms, received ~${completionTokens} tokens`);
-      
-      // Log the request
       storyMonitoring.logGPTRequest({
         requestId,
         userId,
-        endpoint: 'chat/completions',
-        model: this.model,
+        endpoint,
+        provider: provider.name,
+        model: completion.model,
         latency,
         promptTokens,
         completionTokens,
+        usageCounted,
+        costUsd,
+        ...promptMetrics,
         success: true
       });
       
-      return response.data as ChatCompletionResponse;
+      return completion;
     } catch (error) {
-      const endTime = Date.now();
-      const latency = endTime - startTime;
-      
-      console.error(`[GPTClient] API call to ${this.model} failed after ${latency}ms:`, error);
+      const latency = Date.now() - startTime;
+      console.error(`[GPTClient] API call to ${provider.name} (${model}) failed after ${latency}ms:`, error);
       
       // Log the failed request
       storyMonitoring.logGPTRequest({
         requestId,
         userId,
-        endpoint: 'chat/completions',
-        model: this.model,
+        endpoint,
+        provider: provider.name,
+        model,
         latency,
+        ...promptMetrics,
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
       
-      this.handleApiError(error);
+      throw error;
     }
   }
   
   private handleApiError(error: any): never {
-    // Check if this is our specific validation error
-    if (error.message === 'Invalid response from GPT API') {
-      throw error; // Rethrow without modification
+    // Configuration errors, an unavailable provider and a spent budget are
+    // the caller's to report (or work around) as they are
+    if (
+      error instanceof UnknownLLMProviderError ||
+      error instanceof LLMCircuitOpenError ||
+      error instanceof UsageBudgetExceededError
+    ) {
+      throw error;
     }
-    
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      if (axiosError.response) {
-        // The request was made and the server responded with a status code
-        // that falls out of the range of 2xx
-        const responseData = axiosError.response.data as OpenAIErrorResponse;
-        const errorMessage = responseData?.error?.message || axiosError.message;
-        throw new Error(`GPT API request failed: ${errorMessage}`);
-      } else if (axiosError.request) {
-        // The request was made but no response was received
-        throw new Error(`GPT API request failed: No response received`);
-      } else {
-        // Something happened in setting up the request that triggered an Error
-        throw new Error(`GPT API request failed: ${axiosError.message}`);
-      }
+    // Still failing once retries are used up; keeps its status so callers
+    // can tell an outage from a request that will never work
+    if (isRetryableLLMError(error)) {
+      throw new LLMProviderError(error.provider, `GPT API request failed: ${error.message}`, error.status, error.retryAfterMs);
     }
     
-    // For non-Axios errors
-    throw new Error(`GPT API request failed: ${error.message || 'Unknown error'}`);
+    throw new Error(`GPT API request failed: ${error?.message || 'Unknown error'}`);
   }
   
   /**
@@ -438,115 +486,24 @@ export class GPTClient {
    * @param params Parameters including prompt, context, and callback for chunks
    */
   async streamStorySegment(params: StreamStorySegmentParams): Promise<void> {
-    // Import here to avoid circular dependencies
-    const { storyMonitoring } = require('../utils/storyMonitoring');
-    
     const startTime = Date.now();
     console.log(`[GPTClient] Starting streamStorySegment`);
-    const requestId = `gpt_stream_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+    
+    const { prompt, context = {}, onChunk } = params;
+    const provider = this.providers.get(params.provider);
     
     try {
-      const { prompt, context = {}, onChunk } = params;
-      
       // Generate prompt with context
       const promptStart = Date.now();
-      const finalPrompt = this.constructPrompt({
-        instruction: prompt,
-        context
-      });
-      console.log(`[GPTClient] Prompt construction completed in ${Date.now() - promptStart}ms`);
-      
-      // Prepare messages for API call
-      const messages: ChatCompletionMessage[] = [
-        { role: 'system', content: 'You are a creative writing assistant.' },
-        { role: 'user', content: finalPrompt }
-      ];
-      
-      // Make API call with streaming
-      console.log(`[GPTClient] Starting streaming API call to ${this.model}`);
-      const apiCallStart = Date.now();
-      
-      // Configure axios for streaming response
-      const config: AxiosRequestConfig = {
-        method: 'post',
-        url: this.apiUrl,
-        data: {
-          model: this.model,
-          messages,
-          temperature: 0.7,
-          stream: true,
-          max_tokens: 1000
-        },
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'Accept': 'text/event-stream'
-        },
-        responseType: 'stream'
-      };
-      
-      const response = await axios(config);
-      
-      let buffer = '';
-      
-      // Process the stream
-      response.data.on('data', (chunk: Buffer) => {
-        const lines = chunk.toString().split('\n\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('data: ') && line !== 'data: [DONE]') {
-            try {
-              const jsonStr = line.replace('data: ', '');
-              const json = JSON.parse(jsonStr);
-              
-              if (json.choices && json.choices[0] && json.choices[0].delta && json.choices[0].delta.content) {
-                const content = json.choices[0].delta.content;
-                buffer += content;
-                onChunk(content);
-              }
-            } catch (e) {
-              // Skip parsing errors for incomplete chunks
-              console.warn('[GPTClient] Failed to parse streaming chunk:', e);
-            }
-          }
-        }
-      });
-      
-      // Wait for the stream to finish
-      await new Promise<void>((resolve) => {
-        response.data.on('end', () => {
-          console.log(`[GPTClient] Streaming completed in ${Date.now() - apiCallStart}ms`);
-          
-          // Log the completed streaming request
-          storyMonitoring.logGPTRequest({
-            requestId,
-            userId: context.userId || 'system',
-            endpoint: 'chat/completions/stream',
-            model: this.model,
-            latency: Date.now() - startTime,
-            promptTokens: Math.ceil(JSON.stringify(messages).length / 4),
-            completionTokens: Math.ceil(buffer.length / 4),
-            success: true
-          });
-          
-          resolve();
-        });
-      });
+      const storyPrompt = this.prompts.buildStorySegmentPrompt(prompt, context, { instructionTemplate: params.promptTemplate });
+      console.log(`[GPTClient] Prompt construction (${storyPrompt.id} v${storyPrompt.version}) completed in ${Date.now() - promptStart}ms`);
       
+      console.log(`[GPTClient] Starting streaming API call to ${provider.name} (${provider.model})`);
+      await this.callProvider(provider, 'chat/completions/stream', context.userId || 'system', storyPrompt,
+        options => provider.stream(storyPrompt.messages, onChunk, options));
+      console.log(`[GPTClient] Streaming completed in ${Date.now() - startTime}ms`);
     } catch (error) {
       console.error(`[GPTClient] Streaming error:`, error);
-      
-      // Log the failed request
-      storyMonitoring.logGPTRequest({
-        requestId,
-        userId: params.context.userId || 'system',
-        endpoint: 'chat/completions/stream',
-        model: this.model,
-        latency: Date.now() - startTime,
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-      
       this.handleApiError(error);
     }
   }
@@ -557,14 +514,31 @@ export class GPTClient {
   clearCache(): void {
     this.contentCache.clear();
     this.choicesCache.clear();
-    console.log(`[GPTClient] Cache cleared for model: ${this.model}`);
+    this.segmentCache.clear();
+    console.log(`[GPTClient] Cache cleared`);
   }
   
   /**
-   * Generate a cache key from a prompt and context
+   * The model and temperature the user's experiment variants set, if any.
+   * Requests not made for a user are in no experiment.
    */
-  private generateCacheKey(prompt: string, context: Record<string, any>): string {
-    const data = JSON.stringify({ prompt, context });
+  private getRequestOptions(userId?: string): LLMRequestOptions {
+    if (!userId || userId === 'system') {
+      return {};
+    }
+    const { model, temperature } = this.experiments.assign(userId);
+    return {
+      ...(model !== undefined ? { model } : {}),
+      ...(temperature !== undefined ? { temperature } : {})
+    };
+  }
+  
+  /**
+   * Generate a cache key from the provider, the messages a prompt sends and
+   * the request options that change the response
+   */
+  private generateCacheKey(provider: LLMProvider, messages: LLMMessage[], options: LLMRequestOptions): string {
+    const data = JSON.stringify({ provider: provider.name, model: options.model ?? provider.model, temperature: options.temperature, messages });
     return crypto.createHash('md5').update(data).digest('hex');
   }
-} 
\ No newline at end of file
+}
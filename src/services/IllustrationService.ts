@@ -263,6 +263,26 @@ export class IllustrationService {
     return this.illustrations[id] || null;
   }
 
+  /**
+   * Read an illustration's image file, or null if it is missing or empty
+   */
+  async readIllustrationFile(illustration: StoryIllustration): Promise<Buffer | null> {
+    const publicRoot = path.resolve(this.publicPath);
+    const filePath = path.resolve(publicRoot, illustration.path.replace(/^\/+/, ''));
+
+    // Only serve files from inside the public directory
+    if (!filePath.startsWith(publicRoot + path.sep)) {
+      return null;
+    }
+
+    try {
+      const data = await fs.promises.readFile(filePath);
+      return data.length > 0 ? data : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Add a new illustration to the collection
    */
@@ -0,0 +1,16 @@
+/**
+ * Thrown when a rewind names a segment that is not an earlier point in the story
+ */
+export class InvalidRewindTargetError extends Error {
+  userId: string;
+  segmentId?: string;
+  
+  constructor(userId: string, segmentId?: string) {
+    super(segmentId
+      ? `Cannot rewind story for user ${userId} to segment ${segmentId}`
+      : `Story for user ${userId} has nothing to rewind`);
+    this.userId = userId;
+    this.segmentId = segmentId;
+    this.name = this.constructor.name;
+  }
+}
@@ -1,94 +1,258 @@
-import { StoryContext } from '../models/StoryContext';
+import { ConversationMessage, StoryBible, StoryBibleEntry } from '../models/StoryState';
+import { LLMMessage } from './llm/LLMProvider';
+import {
+  PromptTemplateRef,
+  PromptTemplateStore,
+  PromptVariables,
+  RenderedPrompt,
+  getPromptTemplateStore
+} from './prompts';
+import { ExperimentService, getExperimentService } from './experiments';
 
+/**
+ * A prompt ready to send, with the template it was rendered from
+ */
+export interface BuiltPrompt extends PromptTemplateRef {
+  messages: LLMMessage[];
+  // Template the caller's instruction was rendered from, if any
+  instruction?: PromptTemplateRef;
+}
+
+/**
+ * An instruction rendered from a template, for the story segment prompt
+ */
+export interface PromptInstruction {
+  text: string;
+  template: PromptTemplateRef;
+}
+
+// Bible sections in prompt order, most important first
+export const STORY_BIBLE_SECTIONS: [keyof StoryBible, string][] = [
+  ['characters', 'Characters'],
+  ['plotThreads', 'Open plot threads'],
+  ['locations', 'Locations'],
+  ['items', 'Items']
+];
+
+// Context keys given their own section of the prompt, in order
+const MEMORY_SECTIONS: [string, string][] = [
+  ['storySummary', 'Story so far'],
+  ['storyBible', 'Story bible'],
+  ['keyFacts', 'Key facts'],
+  ['recentConversation', 'Recent conversation']
+];
+
+export function formatStoryBibleEntry(entry: StoryBibleEntry): string {
+  return `- ${entry.name}: ${entry.description}`;
+}
+
+/**
+ * The story bible as prompt text, undefined when it is empty. `include`
+ * picks which entry lines to keep, e.g. to stay within a token budget.
+ */
+export function formatStoryBible(
+  bible: StoryBible,
+  include: (line: string) => boolean = () => true
+): string | undefined {
+  const sections: string[] = [];
+  for (const [key, title] of STORY_BIBLE_SECTIONS) {
+    const lines = bible[key].map(formatStoryBibleEntry).filter(line => include(line));
+    if (lines.length > 0) {
+      sections.push(`${title}:\n${lines.join('\n')}`);
+    }
+  }
+  return sections.length > 0 ? sections.join('\n') : undefined;
+}
+
+/**
+ * Messages as a transcript, one line per message
+ */
+export function formatConversation(messages: ConversationMessage[]): string {
+  return messages
+    .map(message => `${message.role === 'user' ? 'Reader' : 'Narrator'}: ${message.content}`)
+    .join('\n');
+}
+
+/**
+ * Builds every prompt the story engine sends from the prompt templates.
+ * The templates hold the wording; this works out their variables from the
+ * story context. Prompts for a user use the template versions of their
+ * experiment variants.
+ */
 export class PromptConstructor {
-  private readonly BASE_STORY_PROMPT = 'You are a creative storyteller. Generate engaging, descriptive story segments for an interactive narrative.';
-  private readonly BASE_CHOICES_PROMPT = 'You are a creative storyteller. Generate interesting and meaningful choices that will impact the story direction.';
-  
+  private templates: PromptTemplateStore;
+  private experiments: ExperimentService;
+
+  constructor(
+    templates: PromptTemplateStore = getPromptTemplateStore(),
+    experiments: ExperimentService = getExperimentService()
+  ) {
+    this.templates = templates;
+    this.experiments = experiments;
+  }
+
   /**
-   * Constructs a prompt for generating a story segment based on the given context
+   * Render an instruction template (story-intro, story-continue, ...) for
+   * the story segment prompt
    */
-  constructStorySegmentPrompt(context: StoryContext): string {
-    let prompt = this.BASE_STORY_PROMPT + '\n\n';
-    
-    // Add context information
-    prompt += this.constructContextSection(context);
-    
-    // Add story-specific guidelines
-    prompt += '\nGuidelines:\n';
-    prompt += '- Maintain a consistent narrative style and tone.\n';
-    prompt += '- Incorporate the context details naturally into the story.\n';
-    prompt += '- Create vivid, engaging scenes that draw the reader in.\n';
-    
-    if (context.audience) {
-      prompt += `- Ensure content is appropriate for ${context.audience} audience.\n`;
-    }
-    
-    if (context.tone) {
-      prompt += `- Maintain a ${context.tone} tone throughout the narrative.\n`;
-    }
-    
-    return prompt;
+  renderInstruction(id: string, variables: PromptVariables = {}, userId?: string): PromptInstruction {
+    const { version, user } = this.render(id, variables, userId);
+    return { text: user, template: { id, version } };
   }
-  
+
   /**
-   * Constructs a prompt for generating story choices based on the current context and segment
+   * Prompt for a story segment, written as plain text or, given a number of
+   * choices, as JSON with its choices
    */
-  constructChoicesPrompt(context: StoryContext, currentSegment: string, numChoices: number): string {
-    let prompt = this.BASE_CHOICES_PROMPT + '\n\n';
-    
-    prompt += `Based on the following story segment, generate exactly ${numChoices} interesting choices for the reader:\n\n`;
-    prompt += `"${currentSegment}"\n\n`;
-    
-    // Add context information
-    prompt += this.constructContextSection(context);
-    
-    // Add choice-specific guidelines
-    prompt += '\nChoice Guidelines:\n';
-    prompt += `- Generate exactly ${numChoices} distinct choices.\n`;
-    prompt += '- Each choice should lead to meaningfully different story directions.\n';
-    prompt += '- Choices should be consistent with the established narrative.\n';
-    
-    if (context.audience) {
-      prompt += `- Ensure choices are appropriate for ${context.audience} audience.\n`;
-    }
-    
-    if (context.tone) {
-      prompt += `- Maintain ${context.tone} tone in choice descriptions.\n`;
+  buildStorySegmentPrompt(
+    instruction: string,
+    context: Record<string, any> = {},
+    options: { numChoices?: number; instructionTemplate?: PromptTemplateRef } = {}
+  ): BuiltPrompt {
+    const prompt = this.build('story-segment', {
+      ...this.getContextVariables(context),
+      instruction,
+      withChoices: options.numChoices !== undefined,
+      numChoices: options.numChoices
+    }, context.userId);
+    return { ...prompt, instruction: options.instructionTemplate };
+  }
+
+  buildStoryChoicesPrompt(currentSegment: string, context: Record<string, any> = {}, numChoices: number): BuiltPrompt {
+    return this.build('story-choices', {
+      ...this.getContextVariables(context),
+      currentSegment,
+      numChoices
+    }, context.userId);
+  }
+
+  buildStorySummaryPrompt(
+    summary: string,
+    messages: ConversationMessage[],
+    summaryMaxWords: number,
+    userId?: string
+  ): BuiltPrompt {
+    return this.build('story-summary', {
+      summary,
+      messages: formatConversation(messages),
+      summaryMaxWords
+    }, userId);
+  }
+
+  buildStoryBiblePrompt(bible: StoryBible, content: string, userId?: string): BuiltPrompt {
+    return this.build('story-bible', {
+      bible: formatStoryBible(bible),
+      content
+    }, userId);
+  }
+
+  /**
+   * Follow-up asking the model to correct a structured response that failed validation
+   */
+  buildRepairMessage(problem: string, userId?: string): string {
+    return this.render('response-repair', { problem }, userId).user;
+  }
+
+  private build(id: string, variables: PromptVariables, userId?: string): BuiltPrompt {
+    return this.toBuiltPrompt(this.render(id, variables, userId));
+  }
+
+  /**
+   * Render a template in the version the user's experiment variants give
+   * it, if any, else the configured one
+   */
+  private render(id: string, variables: PromptVariables, userId?: string): RenderedPrompt {
+    const version = userId ? this.experiments.assign(userId).promptVersions[id] : undefined;
+    return this.templates.render(id, variables, version);
+  }
+
+  private toBuiltPrompt({ id, version, system, user }: RenderedPrompt): BuiltPrompt {
+    const messages: LLMMessage[] = [];
+    if (system) {
+      messages.push({ role: 'system', content: system });
     }
-    
-    return prompt;
+    messages.push({ role: 'user', content: user });
+    return { id, version, messages };
   }
-  
+
+  /**
+   * Variables the story prompts share: the context as text, plus the
+   * details their guidelines depend on
+   */
+  private getContextVariables(context: Record<string, any>): PromptVariables {
+    const storyBible = context.storyBible && formatStoryBible(context.storyBible);
+    return {
+      context: this.formatContext(context),
+      tone: context.tone,
+      forChildren: context.audience === 'children',
+      establishedFacts: Boolean(storyBible || context.keyFacts)
+    };
+  }
+
   /**
-   * Helper method to construct the context section of prompts
+   * The context as prompt text: storytelling details as key: value lines,
+   * then what the story remembers, then anything else that was given
    */
-  private constructContextSection(context: StoryContext): string {
-    let contextSection = 'Context:\n';
-    
-    // Story style and genre
-    if (context.genre) contextSection += `genre: ${context.genre}\n`;
-    if (context.tone) contextSection += `tone: ${context.tone}\n`;
-    if (context.audience) contextSection += `audience: ${context.audience}\n`;
-    
-    // Character details
-    if (context.character) contextSection += `character: ${context.character}\n`;
-    if (context.character_name) contextSection += `character_name: ${context.character_name}\n`;
-    if (context.age) contextSection += `age: ${context.age}\n`;
-    
-    // Setting details
-    if (context.setting) contextSection += `setting: ${context.setting}\n`;
-    if (context.location) contextSection += `location: ${context.location}\n`;
-    
-    // Story history
-    if (context.previousSegment) contextSection += `previousSegment: ${context.previousSegment}\n`;
-    if (context.lastChoice) contextSection += `lastChoice: ${context.lastChoice}\n`;
-    if (context.choiceHistory && context.choiceHistory.length > 0) {
-      contextSection += 'choiceHistory:\n';
-      context.choiceHistory.forEach(choice => {
-        contextSection += `  - ${choice}\n`;
-      });
+  private formatContext(context: Record<string, any>): string | undefined {
+    if (Object.keys(context).length === 0) {
+      return undefined;
+    }
+
+    // Extract specific context values that are important for storytelling
+    const storyContext: Record<string, any> = {};
+
+    // User identity and preferences
+    if (context.userId) storyContext.userId = context.userId;
+    if (context.character) {
+      storyContext.character = context.character;
+    } else if (context.character_name) {
+      storyContext.character_name = context.character_name;
     }
-    
-    return contextSection;
+    if (context.age) storyContext.age = context.age;
+
+    // Story context and history
+    if (context.previousSegment) storyContext.previousSegment = context.previousSegment;
+    if (context.choice) storyContext.lastChoice = context.choice;
+    if (context.choiceHistory) storyContext.choiceHistory = context.choiceHistory;
+
+    // Story style preferences
+    if (context.tone) storyContext.tone = context.tone;
+    if (context.audience) storyContext.audience = context.audience;
+    if (context.genre) storyContext.genre = context.genre;
+
+    // Location and setting
+    if (context.setting) storyContext.setting = context.setting;
+    if (context.location) storyContext.location = context.location;
+
+    let text = 'Context:';
+    for (const key of Object.keys(storyContext)) {
+      // Format complex objects more readably
+      const value = typeof storyContext[key] === 'object'
+        ? JSON.stringify(storyContext[key], null, 2)
+        : storyContext[key];
+
+      text += `\n${key}: ${value}`;
+    }
+
+    // What the story has established and remembers
+    for (const [key, title] of MEMORY_SECTIONS) {
+      const section = key === 'storyBible' ? context.storyBible && formatStoryBible(context.storyBible) : context[key];
+      if (section) {
+        text += `\n\n${title}:\n${section}`;
+      }
+    }
+
+    // Any remaining context parameters, skipping complex objects to keep the prompt concise
+    const handledKeys = new Set([...Object.keys(storyContext), ...MEMORY_SECTIONS.map(([key]) => key)]);
+    const extraContext = Object.keys(context)
+      .filter(key => !handledKeys.has(key) && typeof context[key] !== 'object');
+    if (extraContext.length > 0) {
+      text += '\n\nAdditional context:';
+      for (const key of extraContext) {
+        text += `\n${key}: ${context[key]}`;
+      }
+    }
+
+    return text;
   }
-} 
\ No newline at end of file
+}
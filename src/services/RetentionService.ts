@@ -0,0 +1,227 @@
+import fs from 'fs';
+import path from 'path';
+import { StateStorageInterface } from './persistence/StateStorageInterface';
+import { migrateStoryStateData } from '../models/StoryStateMigrations';
+import { StoryStateService } from './StoryStateService';
+import retentionConfig, { RetentionAction, RetentionConfig } from '../config/retention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionPurge {
+  userId: string;
+  storyId: string;
+  updatedAt: string;
+  action: RetentionAction;
+}
+
+export interface RetentionTrim {
+  userId: string;
+  storyId: string;
+  removedMessages: number;
+}
+
+export interface RetentionFailure {
+  userId: string;
+  storyId: string;
+  error: string;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  startedAt: string;
+  // Stories last updated before this are purged (null when story purging is off)
+  storyCutoff: string | null;
+  // Conversation messages from before this are trimmed (null when trimming is off)
+  conversationCutoff: string | null;
+  scanned: number;
+  // Stories loaded in memory right now; they are in use, so they are left alone
+  skipped: number;
+  purged: RetentionPurge[];
+  trimmed: RetentionTrim[];
+  failed: RetentionFailure[];
+}
+
+export interface RetentionRunOptions {
+  // Report what would be removed without changing anything
+  dryRun?: boolean;
+  now?: Date;
+}
+
+/**
+ * Applies the data retention policy to stored stories: stories nobody has
+ * touched for too long are deleted (or archived to disk first), and old
+ * conversation messages are trimmed from the rest
+ */
+export class RetentionService {
+  private stateStorage: StateStorageInterface;
+  private storyStateService: StoryStateService;
+  private config: RetentionConfig;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    stateStorage: StateStorageInterface,
+    storyStateService: StoryStateService,
+    config: RetentionConfig = retentionConfig
+  ) {
+    this.stateStorage = stateStorage;
+    this.storyStateService = storyStateService;
+    this.config = config;
+  }
+
+  /**
+   * Run the purge job on the configured interval, if retention is enabled
+   */
+  start(): void {
+    if (!this.config.enabled || this.timer) {
+      return;
+    }
+
+    console.log(`[RetentionService] Purging stories idle for ${this.config.storyMaxAgeDays} days and messages older than ${this.config.conversationMaxAgeDays} days every ${this.config.intervalMs}ms`);
+    this.timer = setInterval(() => {
+      // Skip a tick rather than overlap a slow run
+      if (this.running) {
+        return;
+      }
+      this.run().catch(error => console.error('[RetentionService] Purge failed:', error));
+    }, this.config.intervalMs);
+    // Never keep the process alive just to purge
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Apply the retention policy to every stored story. Stories that cannot be
+   * processed are reported rather than stopping the run.
+   */
+  async run(options: RetentionRunOptions = {}): Promise<RetentionReport> {
+    const { dryRun = false, now = new Date() } = options;
+    const storyCutoff = this.cutoff(now, this.config.storyMaxAgeDays);
+    const conversationCutoff = this.cutoff(now, this.config.conversationMaxAgeDays);
+    const report: RetentionReport = {
+      dryRun,
+      startedAt: now.toISOString(),
+      storyCutoff: storyCutoff ? storyCutoff.toISOString() : null,
+      conversationCutoff: conversationCutoff ? conversationCutoff.toISOString() : null,
+      scanned: 0,
+      skipped: 0,
+      purged: [],
+      trimmed: [],
+      failed: []
+    };
+
+    this.running = true;
+    try {
+      for (const userId of await this.stateStorage.listUserIds()) {
+        for (const storyId of await this.stateStorage.listStoryIds(userId)) {
+          report.scanned++;
+
+          if (this.storyStateService.isStateCached(userId, storyId)) {
+            report.skipped++;
+            continue;
+          }
+
+          try {
+            await this.applyPolicy(userId, storyId, storyCutoff, conversationCutoff, dryRun, report);
+          } catch (error) {
+            report.failed.push({ userId, storyId, error: (error as Error).message });
+            console.error(`[RetentionService] Could not process ${userId}/${storyId}:`, (error as Error).message);
+          }
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    console.log(`[RetentionService] ${dryRun ? 'Dry run' : 'Run'} finished: scanned ${report.scanned}, purged ${report.purged.length}, trimmed ${report.trimmed.length}, failed ${report.failed.length}`);
+    return report;
+  }
+
+  private async applyPolicy(
+    userId: string,
+    storyId: string,
+    storyCutoff: Date | null,
+    conversationCutoff: Date | null,
+    dryRun: boolean,
+    report: RetentionReport
+  ): Promise<void> {
+    const stored = await this.stateStorage.loadState(userId, storyId);
+    if (!stored) {
+      return;
+    }
+
+    // Older snapshots may predate updatedAt; migration fills it in
+    const data = migrateStoryStateData(stored).data;
+    const updatedAt = new Date(data.updatedAt);
+
+    if (storyCutoff && updatedAt < storyCutoff) {
+      const action = this.config.action;
+      if (!dryRun) {
+        if (action === 'archive') {
+          await this.archiveState(userId, storyId, data);
+        }
+        await this.stateStorage.deleteState(userId, storyId);
+      }
+      report.purged.push({ userId, storyId, updatedAt: updatedAt.toISOString(), action });
+      console.log(`[RetentionService] ${dryRun ? 'Would purge' : action === 'archive' ? 'Archived and deleted' : 'Deleted'} ${userId}/${storyId} (last updated ${updatedAt.toISOString()})`);
+      return;
+    }
+
+    if (!conversationCutoff) {
+      return;
+    }
+
+    let removedMessages = 0;
+    const trim = (messages: any[] = []) => {
+      const kept = messages.filter(message => new Date(message.timestamp) >= conversationCutoff);
+      removedMessages += messages.length - kept.length;
+      return kept;
+    };
+    const conversationHistory = trim(data.conversationHistory);
+    const abandonedBranches = data.abandonedBranches.map((branch: any) => ({
+      ...branch,
+      conversationHistory: trim(branch.conversationHistory)
+    }));
+
+    if (removedMessages === 0) {
+      return;
+    }
+
+    if (!dryRun) {
+      // Compare-and-swap so a story written meanwhile is reported, not clobbered
+      await this.stateStorage.saveState(
+        userId,
+        storyId,
+        { ...data, conversationHistory, abandonedBranches },
+        stored.version || 0
+      );
+    }
+    report.trimmed.push({ userId, storyId, removedMessages });
+    console.log(`[RetentionService] ${dryRun ? 'Would trim' : 'Trimmed'} ${removedMessages} conversation messages from ${userId}/${storyId}`);
+  }
+
+  /**
+   * Write a purged story to the archive directory before it is deleted
+   */
+  private async archiveState(userId: string, storyId: string, data: Record<string, any>): Promise<void> {
+    const userDirectory = path.join(this.config.archiveDirectory, encodeURIComponent(userId));
+    await fs.promises.mkdir(userDirectory, { recursive: true });
+
+    const archivedAt = new Date().toISOString();
+    const fileName = `${encodeURIComponent(storyId)}-${archivedAt.replace(/[:.]/g, '-')}.json`;
+    await fs.promises.writeFile(
+      path.join(userDirectory, fileName),
+      JSON.stringify({ archivedAt, userId, storyId, state: data }, null, 2)
+    );
+  }
+
+  private cutoff(now: Date, maxAgeDays: number): Date | null {
+    return maxAgeDays > 0 ? new Date(now.getTime() - maxAgeDays * DAY_MS) : null;
+  }
+}
@@ -0,0 +1,15 @@
+// disabled: the server has no archive secret, so it can neither sign nor verify archives
+export type StoryArchiveErrorReason = 'invalid' | 'tampered' | 'incompatible' | 'disabled';
+
+/**
+ * Thrown when a story cannot be exported or an uploaded archive cannot be imported
+ */
+export class StoryArchiveError extends Error {
+  reason: StoryArchiveErrorReason;
+  
+  constructor(reason: StoryArchiveErrorReason, message: string) {
+    super(message);
+    this.reason = reason;
+    this.name = this.constructor.name;
+  }
+}
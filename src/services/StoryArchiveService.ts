@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import { StoryState, STORY_STATE_SCHEMA_VERSION } from '../models/StoryState';
+import { migrateStoryStateData, StoryStateMigrationError } from '../models/StoryStateMigrations';
+import { StoryStateService } from './StoryStateService';
+import { PersonalizationManager } from './PersonalizationManager';
+import { IllustrationService } from './IllustrationService';
+import { StoryArchiveError } from './StoryArchiveError';
+import archiveConfig, { ArchiveConfig } from '../config/archive';
+
+export const STORY_ARCHIVE_FORMAT = 'primer-story-archive';
+export const STORY_ARCHIVE_FORMAT_VERSION = 1;
+
+/**
+ * Portable, signed copy of one story and the reader's preferences
+ */
+export interface StoryArchive {
+  format: typeof STORY_ARCHIVE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  // StoryState schema version of `story`
+  schemaVersion: number;
+  story: Record<string, any>;
+  preferences: Record<string, any>;
+  // Illustration IDs shown for each segment, keyed by segment ID
+  illustrations: Record<string, string[]>;
+  // HMAC-SHA256 of every other field, as canonical JSON
+  signature: string;
+}
+
+export interface StoryImportResult {
+  storyState: StoryState;
+  // Illustrations referenced by the archive that this server does not have
+  missingIllustrationIds: string[];
+}
+
+/**
+ * Exports a user's story as a signed archive and installs archives for another user
+ * (for example after switching devices)
+ */
+export class StoryArchiveService {
+  private storyStateService: StoryStateService;
+  private personalizationManager: PersonalizationManager;
+  private illustrationService?: IllustrationService;
+  private config: ArchiveConfig;
+
+  constructor(
+    storyStateService: StoryStateService,
+    personalizationManager: PersonalizationManager,
+    illustrationService?: IllustrationService,
+    config: ArchiveConfig = archiveConfig
+  ) {
+    this.storyStateService = storyStateService;
+    this.personalizationManager = personalizationManager;
+    this.illustrationService = illustrationService;
+    this.config = config;
+
+    if (!config.secret) {
+      console.warn('[StoryArchiveService] STORY_ARCHIVE_SECRET is not set; story export and import are disabled');
+    } else if (config.usingDefaultSecret) {
+      console.warn('[StoryArchiveService] STORY_ARCHIVE_SECRET is not set; archives are signed with the development key');
+    }
+  }
+
+  /**
+   * Export the user's active story
+   */
+  async exportStory(userId: string): Promise<StoryArchive> {
+    this.requireSecret();
+    const storyState = await this.storyStateService.getOrCreateStoryState(userId);
+    const preferences = await this.personalizationManager.getUserPreferences(userId);
+
+    const illustrations: Record<string, string[]> = {};
+    if (this.illustrationService) {
+      Object.keys(storyState.segments).forEach(segmentId => {
+        const ids = this.illustrationService!.getIllustrationsForSegment(segmentId).map(illustration => illustration.id);
+        if (ids.length > 0) {
+          illustrations[segmentId] = ids;
+        }
+      });
+    }
+
+    // Round-trip through JSON so the signature covers exactly what the client receives
+    const unsigned = JSON.parse(JSON.stringify({
+      format: STORY_ARCHIVE_FORMAT,
+      formatVersion: STORY_ARCHIVE_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      schemaVersion: STORY_STATE_SCHEMA_VERSION,
+      story: storyState.toJSON(),
+      preferences,
+      illustrations
+    }));
+
+    console.log(`[StoryArchiveService] Exported story ${storyState.storyId} for userId: ${userId}`);
+    return { ...unsigned, signature: this.sign(unsigned) };
+  }
+
+  /**
+   * Validate an archive and install its story as a new save slot for the user.
+   * The imported story becomes the user's active story.
+   */
+  async importStory(userId: string, archive: any): Promise<StoryImportResult> {
+    this.requireSecret();
+    if (!archive || typeof archive !== 'object' || archive.format !== STORY_ARCHIVE_FORMAT) {
+      throw new StoryArchiveError('invalid', 'Not a story archive');
+    }
+    if (archive.formatVersion !== STORY_ARCHIVE_FORMAT_VERSION) {
+      throw new StoryArchiveError('incompatible', `Unsupported archive format version: ${archive.formatVersion}`);
+    }
+
+    const { signature, ...unsigned } = archive;
+    if (typeof signature !== 'string' || !this.verify(unsigned, signature)) {
+      throw new StoryArchiveError('tampered', 'Archive signature does not match its contents');
+    }
+
+    const { story } = unsigned;
+    if (!story || typeof story !== 'object' || !story.segments || typeof story.segments !== 'object') {
+      throw new StoryArchiveError('invalid', 'Archive does not contain a story');
+    }
+
+    let storyData: Record<string, any>;
+    try {
+      storyData = migrateStoryStateData(story).data;
+    } catch (error) {
+      if (error instanceof StoryStateMigrationError) {
+        throw new StoryArchiveError('incompatible', error.message);
+      }
+      throw error;
+    }
+
+    // Install under the importing user, in a fresh slot that has never been saved
+    const storyState = StoryState.fromJSON(storyData);
+    storyState.userId = userId;
+    storyState.storyId = this.storyStateService.generateStoryId();
+    storyState.version = 0;
+
+    this.storyStateService.storeState(userId, storyState);
+    await this.storyStateService.saveStoryState(userId, storyState.storyId);
+
+    if (unsigned.preferences && typeof unsigned.preferences === 'object') {
+      await this.personalizationManager.updateUserPreferences(userId, unsigned.preferences);
+    }
+
+    const referencedIds = Object.values(unsigned.illustrations || {}).flat() as string[];
+    const missingIllustrationIds = this.illustrationService
+      ? Array.from(new Set(referencedIds)).filter(id => !this.illustrationService!.getIllustrationById(id))
+      : [];
+
+    console.log(`[StoryArchiveService] Imported story as ${storyState.storyId} for userId: ${userId}`);
+    return { storyState, missingIllustrationIds };
+  }
+
+  private requireSecret(): string {
+    if (!this.config.secret) {
+      throw new StoryArchiveError('disabled', 'Story archives are disabled - set STORY_ARCHIVE_SECRET to enable them');
+    }
+    return this.config.secret;
+  }
+
+  private sign(unsigned: Record<string, any>): string {
+    return crypto.createHmac('sha256', this.requireSecret()).update(this.canonicalJson(unsigned)).digest('hex');
+  }
+
+  private verify(unsigned: Record<string, any>, signature: string): boolean {
+    const expected = Buffer.from(this.sign(unsigned), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * JSON with object keys sorted, so the signature does not depend on key order
+   */
+  private canonicalJson(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.canonicalJson(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value)
+        .sort()
+        .filter(key => value[key] !== undefined)
+        .map(key => `${JSON.stringify(key)}:${this.canonicalJson(value[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+}
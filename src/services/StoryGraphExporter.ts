@@ -0,0 +1,249 @@
+import { StoryState } from '../models/StoryState';
+
+export type StoryGraphFormat = 'json' | 'dot' | 'mermaid';
+
+export const STORY_GRAPH_FORMATS: StoryGraphFormat[] = ['json', 'dot', 'mermaid'];
+
+export interface StoryGraphNode {
+  id: string;
+  label: string;
+  // False for choice targets the story has not generated yet
+  generated: boolean;
+  read: boolean;
+  current: boolean;
+  onPath: boolean;
+}
+
+export interface StoryGraphEdge {
+  from: string;
+  to: string;
+  // Missing for conversational exchanges, which have no choices
+  choiceId?: string;
+  label: string;
+  taken: boolean;
+  // Taken once, then undone by rewinding
+  abandoned: boolean;
+}
+
+export interface StoryGraph {
+  userId: string;
+  storyId: string;
+  currentSegmentId: string;
+  // Segments visited on the way to the current segment, in order
+  path: string[];
+  nodes: StoryGraphNode[];
+  edges: StoryGraphEdge[];
+}
+
+// Longest node label before the segment text is cut off
+const MAX_LABEL_LENGTH = 40;
+
+/**
+ * Builds the graph of story segments a reader has explored and renders it
+ * as JSON-friendly nodes and edges, Graphviz DOT or Mermaid
+ */
+export class StoryGraphExporter {
+  /**
+   * Build the explored graph for a story
+   */
+  buildGraph(storyState: StoryState): StoryGraph {
+    const path = this.getPath(storyState);
+    const onPath = new Set(path);
+    const takenChoices = new Set(
+      storyState.choiceHistory.map(choice => this.choiceKey(choice.segmentId, choice.choiceId))
+    );
+    const abandonedChoices = new Set(
+      storyState.abandonedBranches.flatMap(branch =>
+        branch.choiceHistory.map(choice => this.choiceKey(choice.segmentId, choice.choiceId))
+      )
+    );
+
+    const nodes = new Map<string, StoryGraphNode>();
+    const addNode = (id: string) => {
+      if (nodes.has(id)) {
+        return;
+      }
+      const segment = storyState.segments[id];
+      nodes.set(id, {
+        id,
+        label: segment ? this.truncate(segment.content) : '(not yet explored)',
+        generated: Boolean(segment),
+        read: storyState.isSegmentRead(id),
+        current: id === storyState.currentSegmentId,
+        onPath: onPath.has(id)
+      });
+    };
+
+    const edges: StoryGraphEdge[] = [];
+    Object.values(storyState.segments).forEach(segment => {
+      addNode(segment.id);
+      segment.choices.forEach(choice => {
+        addNode(choice.nextSegmentId);
+        const key = this.choiceKey(segment.id, choice.id);
+        edges.push({
+          from: segment.id,
+          to: choice.nextSegmentId,
+          choiceId: choice.id,
+          label: choice.text,
+          taken: takenChoices.has(key),
+          abandoned: !takenChoices.has(key) && abandonedChoices.has(key)
+        });
+      });
+    });
+
+    // Conversational stories have no choices, so link each exchange to the next
+    if (storyState.choiceHistory.length === 0) {
+      for (let i = 1; i < path.length; i++) {
+        edges.push({
+          from: path[i - 1],
+          to: path[i],
+          label: '',
+          taken: true,
+          abandoned: false
+        });
+      }
+    }
+
+    return {
+      userId: storyState.userId,
+      storyId: storyState.storyId,
+      currentSegmentId: storyState.currentSegmentId,
+      path,
+      nodes: Array.from(nodes.values()),
+      edges
+    };
+  }
+
+  /**
+   * Render a graph in the requested format
+   */
+  render(graph: StoryGraph, format: StoryGraphFormat): string {
+    switch (format) {
+      case 'dot':
+        return this.toDot(graph);
+      case 'mermaid':
+        return this.toMermaid(graph);
+      case 'json':
+        return JSON.stringify(graph, null, 2);
+      default:
+        throw new Error(`Unknown story graph format: ${format}`);
+    }
+  }
+
+  /**
+   * Render a graph as Graphviz DOT. Read segments are filled, the path taken
+   * is drawn bold and unexplored choices are dashed.
+   */
+  toDot(graph: StoryGraph): string {
+    const lines = [
+      'digraph story {',
+      '  rankdir=TB;',
+      '  node [shape=box, style="rounded,filled", fillcolor=white, fontname="Helvetica"];'
+    ];
+
+    graph.nodes.forEach(node => {
+      const attributes = [`label="${this.escapeDot(node.label)}"`];
+      if (!node.generated) {
+        attributes.push('style="rounded,dashed"');
+      } else if (node.read) {
+        attributes.push('fillcolor="#d4edda"');
+      }
+      if (node.current) {
+        attributes.push('penwidth=3');
+      }
+      lines.push(`  "${this.escapeDot(node.id)}" [${attributes.join(', ')}];`);
+    });
+
+    graph.edges.forEach(edge => {
+      const attributes = [`label="${this.escapeDot(edge.label)}"`];
+      if (edge.taken) {
+        attributes.push('penwidth=3');
+      } else if (edge.abandoned) {
+        attributes.push('color=gray');
+      }
+      if (!this.isGenerated(graph, edge.to)) {
+        attributes.push('style=dashed');
+      }
+      lines.push(`  "${this.escapeDot(edge.from)}" -> "${this.escapeDot(edge.to)}" [${attributes.join(', ')}];`);
+    });
+
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Render a graph as a Mermaid flowchart, with the same conventions as toDot
+   */
+  toMermaid(graph: StoryGraph): string {
+    // Segment IDs can contain characters Mermaid does not allow in node IDs
+    const nodeIds = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+    const lines = ['flowchart TD'];
+
+    graph.nodes.forEach(node => {
+      lines.push(`  ${nodeIds.get(node.id)}["${this.escapeMermaid(node.label)}"]`);
+    });
+
+    graph.edges.forEach(edge => {
+      const arrow = edge.taken ? '==>' : this.isGenerated(graph, edge.to) ? '-->' : '-.->';
+      // Choice text is written by the LLM, and a line break would end the edge
+      const label = edge.label ? `|"${this.escapeMermaid(this.singleLine(edge.label))}"|` : '';
+      lines.push(`  ${nodeIds.get(edge.from)} ${arrow}${label} ${nodeIds.get(edge.to)}`);
+    });
+
+    lines.push('  classDef read fill:#d4edda');
+    lines.push('  classDef unexplored stroke-dasharray:5 5');
+    lines.push('  classDef current stroke-width:3px');
+
+    const classMembers = (predicate: (node: StoryGraphNode) => boolean) =>
+      graph.nodes.filter(predicate).map(node => nodeIds.get(node.id)).join(',');
+    const read = classMembers(node => node.generated && node.read);
+    const unexplored = classMembers(node => !node.generated);
+    const current = classMembers(node => node.current);
+    if (read) lines.push(`  class ${read} read`);
+    if (unexplored) lines.push(`  class ${unexplored} unexplored`);
+    if (current) lines.push(`  class ${current} current`);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Segments from the start of the story to the current segment
+   */
+  private getPath(storyState: StoryState): string[] {
+    if (storyState.choiceHistory.length > 0) {
+      return [...storyState.choiceHistory.map(choice => choice.segmentId), storyState.currentSegmentId];
+    }
+
+    const segmentIds = storyState.conversationHistory
+      .filter(message => message.role === 'assistant' && message.segmentId)
+      .map(message => message.segmentId as string);
+    return segmentIds.length > 0 ? segmentIds : [storyState.currentSegmentId];
+  }
+
+  private isGenerated(graph: StoryGraph, segmentId: string): boolean {
+    return graph.nodes.some(node => node.id === segmentId && node.generated);
+  }
+
+  private choiceKey(segmentId: string, choiceId: string): string {
+    return `${segmentId}\u0000${choiceId}`;
+  }
+
+  private singleLine(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  private truncate(text: string): string {
+    const singleLine = this.singleLine(text);
+    return singleLine.length > MAX_LABEL_LENGTH
+      ? `${singleLine.substring(0, MAX_LABEL_LENGTH - 3)}...`
+      : singleLine;
+  }
+
+  private escapeDot(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  }
+
+  private escapeMermaid(text: string): string {
+    return text.replace(/"/g, '#quot;');
+  }
+}
@@ -0,0 +1,138 @@
+import memoryConfig, { StoryMemoryConfig } from '../config/memory';
+import { ConversationMessage, StoryState } from '../models/StoryState';
+import { LLMClient } from './llm/LLMClient';
+import { countTextTokens } from './llm/tokenCounter';
+import { formatConversation, formatStoryBible } from './PromptConstructor';
+
+/**
+ * What a conversational turn's prompt gets from the story's memory
+ */
+export interface StoryMemoryContext {
+  storySummary?: string;
+  keyFacts?: string;
+  recentConversation?: string;
+  // Tokens the sections above take up
+  tokens: number;
+}
+
+/**
+ * Keeps long conversational stories coherent. Messages older than the recent
+ * window are folded into a rolling summary kept on the story state, and each
+ * turn's prompt gets the summary, the story bible's key facts and as many
+ * recent messages as fit its token budget.
+ */
+export class StoryMemory {
+  private llmClient: LLMClient;
+  private config: StoryMemoryConfig;
+
+  constructor(llmClient: LLMClient, config: StoryMemoryConfig = memoryConfig) {
+    this.llmClient = llmClient;
+    this.config = config;
+  }
+
+  /**
+   * Summarize older messages once enough of them have built up. Returns
+   * whether the memory changed. A failed summary is logged and the memory
+   * left as it was, so the turn can go ahead on the recent messages.
+   */
+  async update(storyState: StoryState, provider?: string): Promise<boolean> {
+    const unsummarized = this.getUnsummarizedMessages(storyState);
+    const older = unsummarized.slice(0, Math.max(0, unsummarized.length - this.config.recentMessages));
+    if (older.length < this.config.summarizeBatchMessages) {
+      return false;
+    }
+
+    const startTime = Date.now();
+    try {
+      const { summary } = await this.llmClient.summarizeStory({
+        memory: { summary: storyState.memory.summary },
+        messages: older,
+        summaryMaxWords: this.config.summaryMaxWords,
+        context: { userId: storyState.userId },
+        provider
+      });
+
+      const previous = storyState.memory;
+      const summarizedThrough = new Date(older[older.length - 1].timestamp);
+      const atSummarizedThrough = older
+        .filter(message => new Date(message.timestamp).getTime() === summarizedThrough.getTime())
+        .length;
+      storyState.memory = {
+        summary,
+        summarizedThrough,
+        summarizedThroughCount: previous.summarizedThrough?.getTime() === summarizedThrough.getTime()
+          ? previous.summarizedThroughCount + atSummarizedThrough
+          : atSummarizedThrough
+      };
+      console.log(`[StoryMemory] Summarized ${older.length} messages for ${storyState.userId}/${storyState.storyId} in ${Date.now() - startTime}ms`);
+      return true;
+    } catch (error) {
+      console.warn(`[StoryMemory] Could not summarize messages for ${storyState.userId}/${storyState.storyId}; using recent messages only:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Prompt context within the token budget. The newest messages come first,
+   * up to half the budget; then the summary, the story bible, and older
+   * messages not yet summarized while there is room.
+   */
+  buildContext(storyState: StoryState): StoryMemoryContext {
+    const budget = this.config.contextTokenBudget;
+    let spent = 0;
+    const fits = (text: string, limit: number = budget): boolean => {
+      const tokens = countTextTokens(text);
+      if (spent + tokens > limit) {
+        return false;
+      }
+      spent += tokens;
+      return true;
+    };
+
+    // Newest first
+    const lines = this.getUnsummarizedMessages(storyState)
+      .reverse()
+      .map(message => formatConversation([message]));
+    let included = 0;
+    while (included < lines.length && fits(lines[included], budget / 2)) {
+      included++;
+    }
+
+    const { summary } = storyState.memory;
+    const storySummary = summary && fits(summary) ? summary : undefined;
+    // Bible entries that do not fit are left out; the most important sections come first
+    const keyFacts = formatStoryBible(storyState.bible, line => fits(line));
+
+    while (included < lines.length && fits(lines[included])) {
+      included++;
+    }
+
+    return {
+      storySummary,
+      keyFacts,
+      recentConversation: included > 0 ? lines.slice(0, included).reverse().join('\n') : undefined,
+      tokens: spent
+    };
+  }
+
+  /**
+   * Messages after summarizedThrough, plus those sharing its timestamp that
+   * came after the ones in the summary
+   */
+  private getUnsummarizedMessages(storyState: StoryState): ConversationMessage[] {
+    const summarizedThrough = storyState.memory.summarizedThrough?.getTime();
+    if (summarizedThrough === undefined) {
+      return [...storyState.conversationHistory];
+    }
+
+    let skip = storyState.memory.summarizedThroughCount;
+    return storyState.conversationHistory.filter(message => {
+      const timestamp = new Date(message.timestamp).getTime();
+      if (timestamp === summarizedThrough && skip > 0) {
+        skip--;
+        return false;
+      }
+      return timestamp >= summarizedThrough;
+    });
+  }
+}
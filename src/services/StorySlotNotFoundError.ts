@@ -0,0 +1,14 @@
+/**
+ * Thrown when a save-slot operation names a story the user does not have
+ */
+export class StorySlotNotFoundError extends Error {
+  userId: string;
+  storyId: string;
+  
+  constructor(userId: string, storyId: string) {
+    super(`Story ${storyId} not found for user ${userId}`);
+    this.userId = userId;
+    this.storyId = storyId;
+    this.name = this.constructor.name;
+  }
+}
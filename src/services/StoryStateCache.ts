@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+import { StoryState } from '../models/StoryState';
+import stateCacheConfig, { StateCacheConfig } from '../config/stateCache';
+
+/**
+ * Writes a state back to storage before it is evicted
+ */
+export type StoryStateFlush = (userId: string, storyId: string, storyState: StoryState) => Promise<void>;
+
+/**
+ * Called after a state has been evicted
+ */
+export type StoryStateEvicted = (userId: string, storyId: string) => void;
+
+export interface StoryStateCacheStats {
+  size: number;
+  maxEntries: number;
+  idleTimeoutMs: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+  // Evicted states that had unsaved changes and were written back first
+  flushes: number;
+  // Flushes that failed; those states stay cached until a later sweep succeeds
+  flushFailures: number;
+}
+
+interface CacheEntry {
+  userId: string;
+  storyId: string;
+  storyState: StoryState;
+  lastAccessed: number;
+  // Fingerprint of the state as last loaded or saved; unset if it has never been saved
+  savedFingerprint?: string;
+}
+
+/**
+ * Bounded in-process cache of loaded story states. The least recently used
+ * states are evicted once there are more than `maxEntries`, and any state left
+ * idle for `idleTimeoutMs` is evicted by a periodic sweep. States with changes
+ * that were never saved are flushed before they are dropped.
+ */
+export class StoryStateCache {
+  // Map iteration order doubles as recency order: least recently used first
+  private entries = new Map<string, CacheEntry>();
+  private flush: StoryStateFlush;
+  private onEvicted?: StoryStateEvicted;
+  private config: StateCacheConfig;
+  private sweepTimer?: NodeJS.Timeout;
+  private evicting?: Promise<number>;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private flushes = 0;
+  private flushFailures = 0;
+
+  constructor(
+    flush: StoryStateFlush,
+    config: StateCacheConfig = stateCacheConfig,
+    onEvicted?: StoryStateEvicted
+  ) {
+    this.flush = flush;
+    this.config = config;
+    this.onEvicted = onEvicted;
+  }
+
+  /**
+   * Look up a state, counting the hit or miss and marking it as recently used
+   */
+  get(key: string): StoryState | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    this.touch(key, entry);
+    return entry.storyState;
+  }
+
+  /**
+   * Look up a state without affecting statistics or recency
+   */
+  peek(key: string): StoryState | undefined {
+    return this.entries.get(key)?.storyState;
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Cache a state. Pass `clean` when it matches what is in storage (it was just loaded).
+   */
+  set(key: string, userId: string, storyId: string, storyState: StoryState, clean: boolean = false): void {
+    const existing = this.entries.get(key);
+    const entry: CacheEntry = existing && existing.storyState === storyState
+      ? existing
+      : { userId, storyId, storyState, lastAccessed: Date.now() };
+    if (clean) {
+      entry.savedFingerprint = this.fingerprint(storyState);
+    }
+    this.touch(key, entry);
+
+    if (this.entries.size > this.config.maxEntries) {
+      this.evict().catch(error => console.error('[StoryStateCache] Error evicting story states:', error));
+    }
+  }
+
+  /**
+   * Record that a cached state has just been saved
+   */
+  markClean(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.savedFingerprint = this.fingerprint(entry.storyState);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * Evict states over the size limit and states that have been idle too long,
+   * flushing unsaved changes first. Resolves to the number of states evicted.
+   */
+  evict(now: number = Date.now()): Promise<number> {
+    // One eviction pass at a time, so a state is never flushed twice at once
+    if (!this.evicting) {
+      this.evicting = this.runEviction(now).finally(() => {
+        this.evicting = undefined;
+      });
+    }
+    return this.evicting;
+  }
+
+  /**
+   * Start evicting idle states in the background
+   */
+  startSweep(): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.evict().catch(error => console.error('[StoryStateCache] Error sweeping idle story states:', error));
+    }, this.config.sweepIntervalMs);
+    // Never keep the process alive just to sweep
+    this.sweepTimer.unref();
+  }
+
+  stopSweep(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  getStats(): StoryStateCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.entries.size,
+      maxEntries: this.config.maxEntries,
+      idleTimeoutMs: this.config.idleTimeoutMs,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      evictions: this.evictions,
+      flushes: this.flushes,
+      flushFailures: this.flushFailures
+    };
+  }
+
+  private async runEviction(now: number): Promise<number> {
+    const overCapacity = this.entries.size - this.config.maxEntries;
+    const victims = Array.from(this.entries.entries()).filter(([, entry], index) =>
+      index < overCapacity || now - entry.lastAccessed >= this.config.idleTimeoutMs
+    );
+
+    let evicted = 0;
+    for (const [key, entry] of victims) {
+      const lastAccessed = entry.lastAccessed;
+
+      if (this.isDirty(entry)) {
+        try {
+          await this.flush(entry.userId, entry.storyId, entry.storyState);
+          entry.savedFingerprint = this.fingerprint(entry.storyState);
+          this.flushes++;
+        } catch (error) {
+          // Keep the state rather than lose its changes
+          this.flushFailures++;
+          console.error(`[StoryStateCache] Failed to flush ${key} before eviction:`, error);
+          continue;
+        }
+      }
+
+      // Leave it cached if it was replaced or used while being flushed
+      if (this.entries.get(key) !== entry || entry.lastAccessed !== lastAccessed) {
+        continue;
+      }
+
+      this.entries.delete(key);
+      this.evictions++;
+      evicted++;
+      this.onEvicted?.(entry.userId, entry.storyId);
+    }
+
+    if (evicted > 0) {
+      console.log(`[StoryStateCache] Evicted ${evicted} story states (${this.entries.size} cached)`);
+    }
+    return evicted;
+  }
+
+  private touch(key: string, entry: CacheEntry): void {
+    entry.lastAccessed = Date.now();
+    // Re-insert so the entry moves to the most recently used end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  private isDirty(entry: CacheEntry): boolean {
+    return entry.savedFingerprint !== this.fingerprint(entry.storyState);
+  }
+
+  private fingerprint(storyState: StoryState): string {
+    const serialized = JSON.stringify(storyState.toJSON()) || '';
+    return crypto.createHash('sha1').update(serialized).digest('hex');
+  }
+}
@@ -1,68 +1,148 @@
-import { StoryState, StorySegment, StoryChoice, ConversationMessage } from '../models/StoryState';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  StoryState,
+  StorySegment,
+  StoryChoice,
+  ConversationMessage,
+  StoryBranch,
+  DEFAULT_STORY_ID
+} from '../models/StoryState';
 import { StoryTemplate } from '../models/StoryTemplate';
-import { GPTClient } from './GPTClient';
+import { LLMClient } from './llm/LLMClient';
+import { LLMCircuitOpenError } from './llm/LLMProviderError';
+import { isRetryableLLMError } from './llm/ResilientLLMProvider';
+import { UsageBudgetExceededError } from './UsageBudgetExceededError';
+import type { StoryGenerationMetrics } from '../utils/storyMonitoring';
+import { hashCode } from '../utils/hashCode';
 import { StateStorageInterface } from './persistence/StateStorageInterface';
 import { InMemoryStateStorage } from './persistence/InMemoryStateStorage';
+import { StateVersionConflictError } from './persistence/StateVersionConflictError';
+import { StorySlotNotFoundError } from './StorySlotNotFoundError';
+import { InvalidRewindTargetError } from './InvalidRewindTargetError';
+import { migrateStoryStateData } from '../models/StoryStateMigrations';
 import { PersonalizationManager } from './PersonalizationManager';
+import { PromptConstructor, PromptInstruction } from './PromptConstructor';
 import { StoryContext } from '../models/StoryContext';
+import { StoryStateCache, StoryStateCacheStats } from './StoryStateCache';
+import stateCacheConfig, { StateCacheConfig } from '../config/stateCache';
+import memoryConfig from '../config/memory';
+import { getStoryTemplateStore, StoredStoryTemplate, StoryTemplateStore } from './templates';
+
+/**
+ * Summary of one save slot, as listed to clients
+ */
+export interface StorySlotSummary {
+  storyId: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  currentSegmentId: string;
+  progress: number;
+  isConversationalMode: boolean;
+  isActive: boolean;
+}
+
+export interface StoryStateServiceOptions {
+  cacheConfig?: StateCacheConfig;
+  promptConstructor?: PromptConstructor;
+  // The shared store by default
+  templateStore?: StoryTemplateStore;
+}
+
+// How a segment was produced, as reported to storyMonitoring
+type SegmentGeneration = Pick<StoryGenerationMetrics, 'fallback' | 'fallbackReason' | 'generationMode' | 'templateId'>;
 
 export class StoryStateService {
-  private storyStates: Record<string, StoryState> = {};
-  private storyTemplates: Record<string, StoryTemplate> = {};
-  private gptClient: GPTClient;
+  // Loaded story states, keyed by stateKey(userId, storyId)
+  private storyStates: StoryStateCache;
+  // The save slot each user is currently playing
+  private activeStoryIds: Record<string, string> = {};
+  // Tail of the choices and rewinds queued on each story, keyed by stateKey(userId, storyId)
+  private storyLocks: Map<string, Promise<unknown>> = new Map();
+  // Story templates new stories start from, and the versions stories were started from
+  private templateStore: StoryTemplateStore;
+  // Serves segments while the LLM provider is unavailable
+  private fallbackTemplate: StoryTemplate | null = null;
+  private llmClient: LLMClient;
   private stateStorage: StateStorageInterface;
   private personalizationManager: PersonalizationManager;
+  private promptConstructor: PromptConstructor;
+  private bibleExtraction: boolean = memoryConfig.bibleExtraction;
   
   constructor(
-    gptClient: GPTClient, 
+    llmClient: LLMClient, 
     stateStorage: StateStorageInterface = new InMemoryStateStorage(),
-    personalizationManager: PersonalizationManager = new PersonalizationManager()
+    personalizationManager: PersonalizationManager = new PersonalizationManager(),
+    options: StoryStateServiceOptions = {}
   ) {
-    this.gptClient = gptClient;
+    this.llmClient = llmClient;
     this.stateStorage = stateStorage;
     this.personalizationManager = personalizationManager;
-    // In a real implementation, templates would be loaded from a database or file system
-    this.loadTemplates();
+    this.promptConstructor = options.promptConstructor ?? new PromptConstructor();
+    this.templateStore = options.templateStore ?? getStoryTemplateStore();
+    this.storyStates = new StoryStateCache(
+      (userId, storyId, storyState) => this.flushEvictedState(userId, storyId, storyState),
+      options.cacheConfig ?? stateCacheConfig,
+      userId => this.forgetIdleUser(userId)
+    );
+    this.loadFallbackTemplate();
   }
   
   /**
-   * Get the GPTClient for direct access
+   * Get the LLM client for direct access
    */
-  getGPTClient(): GPTClient {
-    return this.gptClient;
+  getLLMClient(): LLMClient {
+    return this.llmClient;
   }
   
   /**
-   * Store a state directly in memory (for creating new conversational stories)
+   * Store a state directly in memory and make it the user's active story
+   * (for creating new conversational stories)
    */
   storeState(userId: string, storyState: StoryState): void {
-    this.storyStates[userId] = storyState;
+    this.storyStates.set(this.stateKey(userId, storyState.storyId), userId, storyState.storyId, storyState);
+    this.activeStoryIds[userId] = storyState.storyId;
   }
   
-  async getOrCreateStoryState(userId: string): Promise<StoryState> {
+  /**
+   * Generate an ID for a new save slot
+   */
+  generateStoryId(): string {
+    return uuidv4();
+  }
+  
+  /**
+   * Get a user's story, loading it from storage or starting a new one.
+   * Without a storyId this is the user's active save slot. A new story's
+   * opening is generated with the given LLM provider (the default if omitted).
+   */
+  async getOrCreateStoryState(userId: string, storyId?: string, provider?: string): Promise<StoryState> {
     const startTime = Date.now();
-    console.log(`[StoryStateService] Getting story state for userId: ${userId}`);
+    const resolvedStoryId = storyId || await this.getActiveStoryId(userId);
+    const key = this.stateKey(userId, resolvedStoryId);
+    console.log(`[StoryStateService] Getting story state for userId: ${userId}, storyId: ${resolvedStoryId}`);
     
     // Check if the story state already exists in memory
-    if (this.storyStates[userId]) {
+    const cachedState = this.storyStates.get(key);
+    if (cachedState) {
       console.log(`[StoryStateService] Found in-memory story state for userId: ${userId} (${Date.now() - startTime}ms)`);
-      return this.storyStates[userId];
+      return cachedState;
     }
     
     // Check if state exists in storage
     const storageCheckStart = Date.now();
-    const existsInStorage = await this.stateStorage.hasState(userId);
+    const existsInStorage = await this.stateStorage.hasState(userId, resolvedStoryId);
     console.log(`[StoryStateService] Storage check completed in ${Date.now() - storageCheckStart}ms`);
     
     if (existsInStorage) {
       // Load from storage
       const loadStart = Date.now();
-      const stateData = await this.stateStorage.loadState(userId);
-      const storyState = StoryState.fromJSON(stateData!);
+      const stateData = await this.stateStorage.loadState(userId, resolvedStoryId);
+      const storyState = this.deserializeState(userId, resolvedStoryId, stateData!);
       console.log(`[StoryStateService] Loaded state from storage in ${Date.now() - loadStart}ms`);
       
       // Cache in memory
-      this.storyStates[userId] = storyState;
+      this.storyStates.set(key, userId, resolvedStoryId, storyState, true);
       console.log(`[StoryStateService] getOrCreateStoryState (from storage) completed in ${Date.now() - startTime}ms`);
       return storyState;
     }
@@ -71,27 +151,40 @@ export class StoryStateService {
     
     // Create a new story state
     const storyState = new StoryState(userId);
+    storyState.storyId = resolvedStoryId;
+    // The template its intro comes from, whose authored segments the rest of the story follows
+    // (its current version, which the story keeps to when the template changes)
+    const selected = this.selectTemplate(userId, resolvedStoryId);
+    storyState.templateId = selected?.template.id ?? null;
+    storyState.templateVersion = selected?.version ?? null;
+    storyState.templateHash = selected?.hash ?? null;
+    storyState.variables = selected ? selected.template.getInitialStoryVariables() : {};
     
     // Generate the initial story segment
     const generateStart = Date.now();
-    const initialSegment = await this.generateInitialStorySegment(userId);
+    const initialSegment = await this.generateInitialStorySegment(userId, resolvedStoryId, provider);
     console.log(`[StoryStateService] Initial segment generation completed in ${Date.now() - generateStart}ms`);
     
     storyState.addSegment(initialSegment);
+    await this.updateStoryBible(storyState, initialSegment.content, provider);
     
     // Store the state in memory
-    this.storyStates[userId] = storyState;
+    this.storyStates.set(key, userId, resolvedStoryId, storyState);
     
     // Persist to storage
     const saveStart = Date.now();
-    await this.saveStoryState(userId);
+    await this.saveStoryState(userId, resolvedStoryId);
     console.log(`[StoryStateService] Saved new state to storage in ${Date.now() - saveStart}ms`);
     
     console.log(`[StoryStateService] getOrCreateStoryState (new state) completed in ${Date.now() - startTime}ms`);
     return storyState;
   }
   
-  async generateInitialStorySegment(userId: string): Promise<StorySegment> {
+  async generateInitialStorySegment(
+    userId: string,
+    storyId: string = DEFAULT_STORY_ID,
+    provider?: string
+  ): Promise<StorySegment> {
     // Import here to avoid circular dependencies
     const { storyMonitoring } = require('../utils/storyMonitoring');
     
@@ -102,10 +195,11 @@ export class StoryStateService {
     try {
       // Get the template for the user (based on their preferences, progress, etc.)
       const templateStart = Date.now();
-      const template = this.getTemplateForUser(userId);
+      const template = this.getTemplateForUser(userId, storyId);
       console.log(`[StoryStateService] Template lookup completed in ${Date.now() - templateStart}ms`);
       
       let segment: StorySegment;
+      let generation: SegmentGeneration = {};
       
       if (template) {
         console.log(`[StoryStateService] Using template for initial segment generation`);
@@ -115,12 +209,13 @@ export class StoryStateService {
         console.log(`[StoryStateService] User variables fetched in ${Date.now() - userVarsStart}ms`);
         
         const templateGenStart = Date.now();
-        segment = template.generateSegment('intro', userVariables);
+        segment = template.generateSegment('intro', userVariables, template.getInitialStoryVariables());
+        generation = { templateId: template.id };
         console.log(`[StoryStateService] Template segment generation completed in ${Date.now() - templateGenStart}ms`);
       } else {
         console.log(`[StoryStateService] No template found, using AI generation`);
         // No template available, use AI generation
-        const prompt = 'Generate an engaging introductory story segment for a new adventure.';
+        const instruction = this.promptConstructor.renderInstruction('story-intro', {}, userId);
         
         const contextStart = Date.now();
         const userContext = await this.getUserContext(userId);
@@ -131,30 +226,7 @@ export class StoryStateService {
         const enrichedContext = await this.personalizationManager.enrichContext(userContext);
         console.log(`[StoryStateService] Context enrichment completed in ${Date.now() - enrichStart}ms`);
         
-        // Generate content using GPT
-        console.log(`[StoryStateService] Starting GPT content generation`);
-        const gptContentStart = Date.now();
-        const content = await this.gptClient.generateStorySegment({
-          prompt,
-          context: enrichedContext
-        });
-        console.log(`[StoryStateService] GPT content generation completed in ${Date.now() - gptContentStart}ms`);
-        
-        // Generate choices using GPT
-        console.log(`[StoryStateService] Starting GPT choice generation`);
-        const gptChoicesStart = Date.now();
-        const choices = await this.gptClient.generateStoryChoices({
-          currentSegment: content,
-          context: enrichedContext,
-          numChoices: 2
-        });
-        console.log(`[StoryStateService] GPT choice generation completed in ${Date.now() - gptChoicesStart}ms`);
-        
-        segment = {
-          id: 'intro',
-          content,
-          choices
-        };
+        ({ segment, generation } = await this.generateAISegment(userId, 'intro', instruction, enrichedContext, provider));
       }
       
       const endTime = Date.now();
@@ -166,7 +238,8 @@ export class StoryStateService {
         userId,
         segmentId: segment.id,
         latency,
-        success: true
+        success: true,
+        ...generation
       });
       
       console.log(`[StoryStateService] Initial segment generation total time: ${latency}ms`);
@@ -191,7 +264,28 @@ export class StoryStateService {
     }
   }
   
-  async generateNextSegment(userId: string, choiceId: string): Promise<StorySegment> {
+  /**
+   * Apply a choice and return the segment it leads to.
+   * When expectedVersion is given (the version the client last saw), the choice
+   * is rejected with a StateVersionConflictError if the story has moved on since.
+   * New segments are generated with the given LLM provider (the default if omitted).
+   */
+  async generateNextSegment(
+    userId: string,
+    choiceId: string,
+    expectedVersion?: number,
+    provider?: string
+  ): Promise<StorySegment> {
+    const storyId = await this.getActiveStoryId(userId);
+    return this.withStoryLock(userId, storyId, () => this.applyChoice(userId, choiceId, expectedVersion, provider));
+  }
+  
+  private async applyChoice(
+    userId: string,
+    choiceId: string,
+    expectedVersion?: number,
+    provider?: string
+  ): Promise<StorySegment> {
     // Import here to avoid circular dependencies
     const { storyMonitoring } = require('../utils/storyMonitoring');
     
@@ -202,9 +296,14 @@ export class StoryStateService {
     try {
       // Get the user's story state
       const getStateStart = Date.now();
-      const storyState = await this.getOrCreateStoryState(userId);
+      const storyState = await this.getOrCreateStoryState(userId, undefined, provider);
       console.log(`[StoryStateService] Story state retrieved in ${Date.now() - getStateStart}ms`);
       
+      // Reject choices made against a stale view of the story
+      if (expectedVersion !== undefined && storyState.version !== expectedVersion) {
+        throw new StateVersionConflictError(userId, expectedVersion, storyState.version);
+      }
+      
       // Get the current segment
       const currentSegment = storyState.getCurrentSegment();
       if (!currentSegment) {
@@ -217,14 +316,26 @@ export class StoryStateService {
         throw new Error(`Choice ${choiceId} not found in current segment`);
       }
       
-      // Update the story state based on the choice
-      storyState.makeChoice(choiceId);
+      // The choice and its effects are only applied to the (cached, shared) state
+      // once the next segment is in hand, so a failed generation leaves no trace
+      const template = this.getStoryTemplate(storyState);
+      const variables = template
+        ? template.applyChoiceEffects(currentSegment.id, choiceId, storyState.variables)
+        : storyState.variables;
+      const recordChoice = () => {
+        storyState.makeChoice(choiceId);
+        storyState.variables = variables;
+      };
       
-      // Check if we already have the next segment
+      // Check if we already have the next segment. Authored segments are
+      // rendered again instead, as the story variables may have changed.
       const nextSegmentId = selectedChoice.nextSegmentId;
-      if (storyState.segments[nextSegmentId]) {
+      const authored = Boolean(template?.segmentTemplates[nextSegmentId]);
+      if (storyState.segments[nextSegmentId] && !authored) {
         console.log(`[StoryStateService] Found cached next segment: ${nextSegmentId}`);
-        // Save the updated state (because we made a choice)
+        // Save the updated state (because we made a choice), with the segment the user is shown as read
+        recordChoice();
+        storyState.markSegmentAsRead(nextSegmentId);
         const saveStart = Date.now();
         await this.saveStoryState(userId);
         console.log(`[StoryStateService] Saved state in ${Date.now() - saveStart}ms`);
@@ -247,50 +358,54 @@ export class StoryStateService {
         return storyState.segments[nextSegmentId];
       }
       
-      console.log(`[StoryStateService] Generating new next segment`);
-      // Get base context
-      const contextStart = Date.now();
-      const baseContext = await this.getUserContext(userId);
-      baseContext.previousSegment = currentSegment.content;
-      baseContext.choice = selectedChoice.text;
-      console.log(`[StoryStateService] Base context created in ${Date.now() - contextStart}ms`);
-      
-      // Enrich with personalization
-      const enrichStart = Date.now();
-      const enrichedContext = await this.personalizationManager.enrichContext(baseContext);
-      console.log(`[StoryStateService] Context enrichment completed in ${Date.now() - enrichStart}ms`);
-      
-      const prompt = `Continue the story based on the choice: "${selectedChoice.text}". 
-                     Previous segment: "${currentSegment.content}"`;
-      
-      // Generate content using GPT
-      console.log(`[StoryStateService] Starting GPT content generation`);
-      const gptContentStart = Date.now();
-      const content = await this.gptClient.generateStorySegment({
-        prompt,
-        context: enrichedContext
-      });
-      console.log(`[StoryStateService] GPT content generation completed in ${Date.now() - gptContentStart}ms`);
-      
-      // Generate choices using GPT
-      console.log(`[StoryStateService] Starting GPT choice generation`);
-      const gptChoicesStart = Date.now();
-      const choices = await this.gptClient.generateStoryChoices({
-        currentSegment: content,
-        context: enrichedContext,
-        numChoices: 2
-      });
-      console.log(`[StoryStateService] GPT choice generation completed in ${Date.now() - gptChoicesStart}ms`);
-      
-      // Create the new segment
-      const nextSegment: StorySegment = {
-        id: nextSegmentId,
-        content,
-        choices
-      };
+      let nextSegment: StorySegment;
+      let generation: SegmentGeneration;
+      const isNewSegment = !storyState.segments[nextSegmentId];
+      if (template && authored) {
+        // The author wrote this segment; only the ones they left open go to the AI
+        console.log(`[StoryStateService] Rendering authored segment ${nextSegmentId} from template ${template.id}`);
+        const templateGenStart = Date.now();
+        nextSegment = template.generateSegment(nextSegmentId, await this.getUserVariables(userId), variables);
+        generation = { templateId: template.id };
+        console.log(`[StoryStateService] Template segment generation completed in ${Date.now() - templateGenStart}ms`);
+      } else {
+        console.log(`[StoryStateService] Generating new next segment`);
+        // Get base context
+        const contextStart = Date.now();
+        const baseContext = await this.getUserContext(userId);
+        baseContext.previousSegment = currentSegment.content;
+        baseContext.choice = selectedChoice.text;
+        baseContext.storyBible = storyState.bible;
+        console.log(`[StoryStateService] Base context created in ${Date.now() - contextStart}ms`);
+        
+        // Enrich with personalization
+        const enrichStart = Date.now();
+        const enrichedContext = await this.personalizationManager.enrichContext(baseContext);
+        console.log(`[StoryStateService] Context enrichment completed in ${Date.now() - enrichStart}ms`);
+        
+        const instruction = this.promptConstructor.renderInstruction('story-continue', {
+          choice: selectedChoice.text,
+          previousSegment: currentSegment.content
+        }, userId);
+        
+        // Create the new segment
+        ({ segment: nextSegment, generation } = await this.generateAISegment(
+          userId,
+          nextSegmentId,
+          instruction,
+          enrichedContext,
+          provider
+        ));
+      }
       
       // Add the segment to the story state
+      recordChoice();
       storyState.addSegment(nextSegment);
+      if (!generation.fallback && isNewSegment) {
+        await this.updateStoryBible(storyState, nextSegment.content, provider);
+      }
+      // Read by the user it is returned to, recorded in the same locked save
+      storyState.markSegmentAsRead(nextSegment.id);
       
       // Save the updated state
       const saveStart = Date.now();
@@ -308,7 +423,8 @@ export class StoryStateService {
         previousSegmentId: currentSegment.id,
         choiceId,
         latency,
-        success: true
+        success: true,
+        ...generation
       });
       
       console.log(`[StoryStateService] Generated next segment in ${latency}ms`);
@@ -339,7 +455,8 @@ export class StoryStateService {
   async generateConversationResponse(
     userId: string, 
     userInput: string, 
-    conversationHistory: ConversationMessage[]
+    conversationHistory: ConversationMessage[],
+    provider?: string
   ): Promise<string> {
     // Import here to avoid circular dependencies
     const { storyMonitoring } = require('../utils/storyMonitoring');
@@ -362,15 +479,13 @@ export class StoryStateService {
       
       // Generate the story response
       const generateStart = Date.now();
-      const prompt = `Continue this interactive story based on the user's input: "${userInput}".
-                    Respond directly as the narrator, crafting a vivid, engaging continuation of the story that
-                    incorporates the user's input naturally. Keep the response concise (2-4 paragraphs) and engaging.
-                    Don't refer to the user's input directly or use phrases like "based on what you said".
-                    Instead, weave their contribution seamlessly into the narrative.`;
-      
-      const response = await this.gptClient.generateStorySegment({
-        prompt,
-        context: enrichedContext
+      const instruction = this.promptConstructor.renderInstruction('conversation-turn', { userInput }, userId);
+      
+      const response = await this.llmClient.generateStorySegment({
+        prompt: instruction.text,
+        promptTemplate: instruction.template,
+        context: enrichedContext,
+        provider
       });
       console.log(`[StoryStateService] Response generated in ${Date.now() - generateStart}ms`);
       
@@ -421,17 +536,61 @@ export class StoryStateService {
     return currentSegment;
   }
   
-  async saveStoryState(userId: string): Promise<void> {
-    const storyState = this.storyStates[userId];
+  /**
+   * Persist the in-memory state for one of a user's stories (the active one by default).
+   * The save is a compare-and-swap against the version the state was loaded at;
+   * if another writer got there first the stale in-memory copy is dropped (so the
+   * next read reloads from storage) and StateVersionConflictError is rethrown.
+   */
+  async saveStoryState(userId: string, storyId?: string): Promise<void> {
+    const resolvedStoryId = storyId || this.activeStoryIds[userId] || DEFAULT_STORY_ID;
+    const key = this.stateKey(userId, resolvedStoryId);
+    const storyState = this.storyStates.peek(key);
     if (!storyState) {
       throw new Error('Story state not found for user');
     }
     
-    // Serialize the state
-    const serializedState = storyState.toJSON();
-    
-    // Save to persistent storage
-    await this.stateStorage.saveState(userId, serializedState);
+    try {
+      await this.persistState(userId, resolvedStoryId, storyState);
+      this.storyStates.markClean(key);
+    } catch (error) {
+      if (error instanceof StateVersionConflictError && this.storyStates.peek(key) === storyState) {
+        this.storyStates.delete(key);
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Evict idle and least recently used story states now, flushing unsaved changes
+   */
+  async evictIdleStates(): Promise<number> {
+    return this.storyStates.evict();
+  }
+  
+  /**
+   * Start evicting idle story states in the background
+   */
+  startStateCacheSweep(): void {
+    this.storyStates.startSweep();
+  }
+  
+  stopStateCacheSweep(): void {
+    this.storyStates.stopSweep();
+  }
+  
+  /**
+   * Whether one of a user's stories is loaded in memory (and so in use)
+   */
+  isStateCached(userId: string, storyId: string): boolean {
+    return this.storyStates.has(this.stateKey(userId, storyId));
+  }
+  
+  /**
+   * Hit, miss and eviction counts for the in-memory story state cache
+   */
+  getStateCacheStats(): StoryStateCacheStats {
+    return this.storyStates.getStats();
   }
   
   async updateUserContext(userId: string, contextData: Record<string, any>): Promise<void> {
@@ -448,6 +607,35 @@ export class StoryStateService {
     return storyState.choiceHistory;
   }
   
+  /**
+   * Rewind the user's active story to an earlier segment (undo the last choice by default).
+   * The undone part of the story is kept as an abandoned branch.
+   */
+  async rewindStory(userId: string, segmentId?: string, expectedVersion?: number): Promise<StoryBranch> {
+    const storyId = await this.getActiveStoryId(userId);
+    return this.withStoryLock(userId, storyId, () => this.rewindActiveStory(userId, segmentId, expectedVersion));
+  }
+  
+  private async rewindActiveStory(userId: string, segmentId?: string, expectedVersion?: number): Promise<StoryBranch> {
+    const storyState = await this.getOrCreateStoryState(userId);
+    
+    // Reject rewinds made against a stale view of the story
+    if (expectedVersion !== undefined && storyState.version !== expectedVersion) {
+      throw new StateVersionConflictError(userId, expectedVersion, storyState.version);
+    }
+    
+    const targets = storyState.getRewindTargets();
+    if (segmentId ? !targets.includes(segmentId) : targets.length === 0) {
+      throw new InvalidRewindTargetError(userId, segmentId);
+    }
+    
+    const branch = storyState.rewindTo(segmentId);
+    console.log(`[StoryStateService] Rewound story for userId: ${userId} from ${branch.fromSegmentId} to ${branch.toSegmentId}`);
+    
+    await this.saveStoryState(userId);
+    return branch;
+  }
+  
   /**
    * Gets the user's conversation history
    */
@@ -457,14 +645,153 @@ export class StoryStateService {
   }
   
   /**
-   * Clear story state for a user (for testing or resetting)
+   * Clear one of a user's stories, the active one by default (for testing or resetting)
    */
-  async clearUserState(userId: string): Promise<void> {
+  async clearUserState(userId: string, storyId?: string): Promise<void> {
+    const resolvedStoryId = storyId || await this.getActiveStoryId(userId);
+    
     // Remove from memory
-    delete this.storyStates[userId];
+    this.storyStates.delete(this.stateKey(userId, resolvedStoryId));
     
     // Remove from storage
-    await this.stateStorage.deleteState(userId);
+    await this.stateStorage.deleteState(userId, resolvedStoryId);
+  }
+  
+  /**
+   * Get the save slot a user is currently playing.
+   * After a restart this falls back to the most recently saved story.
+   */
+  async getActiveStoryId(userId: string): Promise<string> {
+    if (this.activeStoryIds[userId]) {
+      return this.activeStoryIds[userId];
+    }
+    
+    const slots = await this.listStorySlots(userId);
+    const mostRecent = slots.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())[0];
+    
+    this.activeStoryIds[userId] = mostRecent ? mostRecent.storyId : DEFAULT_STORY_ID;
+    return this.activeStoryIds[userId];
+  }
+  
+  /**
+   * List every save slot a user has
+   */
+  async listStorySlots(userId: string): Promise<StorySlotSummary[]> {
+    const storyIds = new Set(await this.stateStorage.listStoryIds(userId));
+    
+    // Include stories that exist only in memory so far
+    const keyPrefix = this.stateKey(userId, '');
+    this.storyStates.keys()
+      .filter(key => key.startsWith(keyPrefix))
+      .forEach(key => storyIds.add(key.slice(keyPrefix.length)));
+    
+    const slots: StorySlotSummary[] = [];
+    for (const storyId of storyIds) {
+      let storyState: StoryState | undefined = this.storyStates.peek(this.stateKey(userId, storyId));
+      if (!storyState) {
+        const stateData = await this.stateStorage.loadState(userId, storyId);
+        if (!stateData) {
+          continue;
+        }
+        storyState = this.deserializeState(userId, storyId, stateData);
+      }
+      
+      const publicState = storyState.getPublicState();
+      slots.push({
+        storyId,
+        title: storyState.title,
+        createdAt: storyState.createdAt,
+        updatedAt: storyState.updatedAt,
+        currentSegmentId: storyState.currentSegmentId,
+        progress: publicState.progress,
+        isConversationalMode: storyState.isConversationalMode,
+        isActive: this.activeStoryIds[userId] === storyId
+      });
+    }
+    
+    return slots;
+  }
+  
+  /**
+   * Start a new story in a fresh save slot and make it the active one
+   */
+  async createStorySlot(userId: string, title?: string, provider?: string): Promise<StoryState> {
+    const existingSlots = await this.listStorySlots(userId);
+    const storyId = this.generateStoryId();
+    
+    this.activeStoryIds[userId] = storyId;
+    const storyState = await this.getOrCreateStoryState(userId, storyId, provider);
+    
+    storyState.title = title || `Story ${existingSlots.length + 1}`;
+    await this.saveStoryState(userId, storyId);
+    
+    return storyState;
+  }
+  
+  /**
+   * Make an existing save slot the active one
+   */
+  async switchStorySlot(userId: string, storyId: string): Promise<StoryState> {
+    await this.assertStorySlotExists(userId, storyId);
+    
+    this.activeStoryIds[userId] = storyId;
+    const storyState = await this.getOrCreateStoryState(userId, storyId);
+    
+    // Saving bumps updatedAt, so the choice survives a restart
+    await this.saveStoryState(userId, storyId);
+    
+    return storyState;
+  }
+  
+  /**
+   * Change the title of a save slot
+   */
+  async renameStorySlot(userId: string, storyId: string, title: string): Promise<StoryState> {
+    await this.assertStorySlotExists(userId, storyId);
+    
+    const storyState = await this.getOrCreateStoryState(userId, storyId);
+    storyState.title = title;
+    await this.saveStoryState(userId, storyId);
+    
+    return storyState;
+  }
+  
+  /**
+   * Delete a save slot. If it was active, the most recent remaining story becomes active.
+   */
+  async deleteStorySlot(userId: string, storyId: string): Promise<void> {
+    await this.assertStorySlotExists(userId, storyId);
+    
+    await this.clearUserState(userId, storyId);
+    
+    if (this.activeStoryIds[userId] === storyId) {
+      delete this.activeStoryIds[userId];
+    }
+  }
+  
+  /**
+   * Merge what a new segment establishes into the story's bible. A failed
+   * extraction is logged and leaves the bible as it was; the segment is
+   * kept either way.
+   */
+  async updateStoryBible(storyState: StoryState, content: string, provider?: string): Promise<void> {
+    if (!this.bibleExtraction) {
+      return;
+    }
+    
+    const startTime = Date.now();
+    try {
+      const update = await this.llmClient.extractStoryBible({
+        bible: storyState.bible,
+        content,
+        context: { userId: storyState.userId },
+        provider
+      });
+      storyState.updateBible(update);
+      console.log(`[StoryStateService] Story bible updated in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      console.warn(`[StoryStateService] Could not update the story bible for ${storyState.userId}/${storyState.storyId}:`, error);
+    }
   }
   
   /**
@@ -472,7 +799,7 @@ export class StoryStateService {
    */
   async getUserContext(userId: string): Promise<StoryContext> {
     // Get existing context if any
-    const storyState = this.storyStates[userId];
+    const storyState = this.storyStates.peek(this.stateKey(userId, this.activeStoryIds[userId] || DEFAULT_STORY_ID));
     const existingContext = storyState?.contextualData || {};
     
     // Return base context (personalization will be added later)
@@ -482,76 +809,271 @@ export class StoryStateService {
     };
   }
   
-  private loadTemplates(): void {
+  /**
+   * Write a segment's content and choices with the LLM: in one structured
+   * call where the provider supports it, otherwise content then choices.
+   * While the provider's circuit breaker is open, when it is still failing
+   * after its retries, or once the user has used up their budget, this serves
+   * a fallback segment from the templates instead.
+   */
+  private async generateAISegment(
+    userId: string,
+    segmentId: string,
+    instruction: PromptInstruction,
+    context: Record<string, any>,
+    provider?: string
+  ): Promise<{ segment: StorySegment; generation: SegmentGeneration }> {
+    const prompt = instruction.text;
+    const promptTemplate = instruction.template;
     try {
-      // Load templates from the file system
-      const fs = require('fs');
-      const path = require('path');
-      
-      const templatesDir = path.join(__dirname, '../../data/templates');
-      
-      // Check if directory exists
-      if (!fs.existsSync(templatesDir)) {
-        console.warn(`Templates directory not found: ${templatesDir}`);
-        return;
+      if (this.llmClient.supportsCombinedGeneration(provider)) {
+        console.log(`[StoryStateService] Starting GPT segment and choice generation`);
+        const gptStart = Date.now();
+        const { content, choices } = await this.llmClient.generateStorySegmentWithChoices({
+          prompt,
+          promptTemplate,
+          context,
+          numChoices: 2,
+          provider
+        });
+        console.log(`[StoryStateService] GPT segment and choice generation completed in ${Date.now() - gptStart}ms`);
+        
+        return { segment: { id: segmentId, content, choices }, generation: { generationMode: 'combined' } };
       }
       
-      // Read all JSON files in the templates directory
-      const templateFiles = fs.readdirSync(templatesDir)
-        .filter((file: string) => file.endsWith('.json'));
+      // Generate content using GPT
+      console.log(`[StoryStateService] Starting GPT content generation`);
+      const gptContentStart = Date.now();
+      const content = await this.llmClient.generateStorySegment({ prompt, promptTemplate, context, provider });
+      console.log(`[StoryStateService] GPT content generation completed in ${Date.now() - gptContentStart}ms`);
       
-      if (templateFiles.length === 0) {
-        console.warn('No template files found in directory');
-        return;
+      // Generate choices using GPT
+      console.log(`[StoryStateService] Starting GPT choice generation`);
+      const gptChoicesStart = Date.now();
+      const choices = await this.llmClient.generateStoryChoices({
+        currentSegment: content,
+        context,
+        numChoices: 2,
+        provider
+      });
+      console.log(`[StoryStateService] GPT choice generation completed in ${Date.now() - gptChoicesStart}ms`);
+      
+      return { segment: { id: segmentId, content, choices }, generation: { generationMode: 'separate' } };
+    } catch (error) {
+      const fallbackReason = error instanceof LLMCircuitOpenError ? 'provider_unavailable'
+        : isRetryableLLMError(error) ? 'provider_error'
+        : error instanceof UsageBudgetExceededError ? 'budget_exceeded'
+        : undefined;
+      if (!fallbackReason || !this.fallbackTemplate) {
+        throw error;
       }
+      console.warn(`[StoryStateService] ${(error as Error).message}; serving fallback segment ${segmentId} for userId: ${userId}`);
+      return {
+        segment: await this.generateFallbackSegment(userId, segmentId),
+        generation: { fallback: true, fallbackReason }
+      };
+    }
+  }
+  
+  /**
+   * A segment that needs no LLM: a holding segment from the fallback template
+   * whose choices lead to new segments, so the story carries on once the
+   * provider is back. (A story template's authored segments never need one.)
+   */
+  private async generateFallbackSegment(userId: string, segmentId: string): Promise<StorySegment> {
+    const userVariables = await this.getUserVariables(userId);
+    
+    const fallbackSegment = this.fallbackTemplate!.generateSegment(
+      segmentId === 'intro' ? 'intro' : 'interlude',
+      userVariables
+    );
+    return {
+      id: segmentId,
+      content: fallbackSegment.content,
+      choices: fallbackSegment.choices.map(choice => ({
+        ...choice,
+        nextSegmentId: `${segmentId}_${choice.nextSegmentId}`
+      }))
+    };
+  }
+  
+  private loadFallbackTemplate(): void {
+    try {
+      const fs = require('fs');
+      const path = require('path');
       
-      // Load each template
-      for (const file of templateFiles) {
-        try {
-          const templatePath = path.join(templatesDir, file);
-          const templateData = JSON.parse(fs.readFileSync(templatePath, 'utf8'));
-          
-          // Create a template instance and add to the collection
-          const template = new StoryTemplate(templateData);
-          this.storyTemplates[template.id] = template;
-          console.log(`Loaded template: ${template.id}`);
-        } catch (error) {
-          console.error(`Error loading template from ${file}:`, error);
-        }
+      const fallbackPath = path.join(__dirname, '../../data/fallback-templates/default.json');
+      if (!fs.existsSync(fallbackPath)) {
+        console.warn(`Fallback template not found: ${fallbackPath}`);
+        return;
       }
       
-      console.log(`Loaded ${Object.keys(this.storyTemplates).length} templates`);
+      this.fallbackTemplate = new StoryTemplate(JSON.parse(fs.readFileSync(fallbackPath, 'utf8')));
+      console.log(`Loaded fallback template: ${this.fallbackTemplate.id}`);
     } catch (error) {
-      console.error('Error loading templates:', error);
+      console.error('Error loading fallback template:', error);
     }
   }
   
-  private getTemplateForUser(userId: string): StoryTemplate | null {
+  private getTemplateForUser(userId: string, storyId: string = DEFAULT_STORY_ID): StoryTemplate | null {
+    return this.selectTemplate(userId, storyId)?.template ?? null;
+  }
+  
+  private selectTemplate(userId: string, storyId: string = DEFAULT_STORY_ID): StoredStoryTemplate | null {
     // Get available templates
-    const templateIds = Object.keys(this.storyTemplates);
+    const templates = this.templateStore.getCurrentTemplates();
     
-    if (templateIds.length === 0) {
+    if (templates.length === 0) {
       return null;
     }
     
-    // For simplicity, we'll assign templates based on the user ID
+    // For simplicity, we'll assign templates based on the user ID (and the slot, so
+    // a user's other stories can land on different templates)
     // In a real implementation, you would select based on user preferences or other factors
-    const hash = this.hashCode(userId);
-    const templateIndex = Math.abs(hash) % templateIds.length;
-    const selectedTemplateId = templateIds[templateIndex];
+    const hash = hashCode(storyId === DEFAULT_STORY_ID ? userId : `${userId}:${storyId}`);
+    const templateIndex = Math.abs(hash) % templates.length;
+    
+    return templates[templateIndex];
+  }
+  
+  /**
+   * The version of the template a story was started from, else the
+   * template's current version if that one is no longer kept
+   */
+  private getStoryTemplate(storyState: StoryState): StoryTemplate | null {
+    if (!storyState.templateId) {
+      return null;
+    }
+    const version = storyState.templateVersion ?? undefined;
+    let stored = this.templateStore.find(storyState.templateId, version, storyState.templateHash ?? undefined);
+    if (stored && version !== undefined && stored.version !== version) {
+      // Versions are numbered per server, so the story's content can have another number here
+      console.log(`[StoryStateService] Template ${storyState.templateId} v${version} of story ${storyState.storyId} is v${stored.version} here`);
+      storyState.templateVersion = stored.version;
+    }
+    if (!stored && version !== undefined) {
+      stored = this.templateStore.find(storyState.templateId);
+      if (stored) {
+        console.warn(`[StoryStateService] Template ${storyState.templateId} v${version} is not kept; story ${storyState.storyId} continues with v${stored.version}`);
+      }
+    }
+    if (!stored) {
+      console.warn(`[StoryStateService] Template ${storyState.templateId} is not loaded; the AI will write the rest of story ${storyState.storyId}`);
+    }
+    return stored?.template || null;
+  }
+  
+  /**
+   * For stories saved before the template was recorded: the template the
+   * user was given, if the story's intro was rendered from it
+   */
+  private inferTemplate(userId: string, storyId: string, storyState: StoryState): StoredStoryTemplate | null {
+    const selected = this.selectTemplate(userId, storyId);
+    const intro = storyState.segments?.intro;
+    const authoredIntro = selected?.template.segmentTemplates.intro;
+    if (!selected || !intro || !authoredIntro) {
+      return null;
+    }
+    const choiceIds = (choices: { id: string }[]) => choices.map(choice => choice.id).join(',');
+    return choiceIds(intro.choices) === choiceIds(authoredIntro.choices) ? selected : null;
+  }
+  
+  /**
+   * Build a StoryState from stored data, upgrading it from older schema versions first.
+   * The upgraded data is written back on the next save.
+   */
+  private deserializeState(userId: string, storyId: string, stateData: Record<string, any>): StoryState {
+    const result = migrateStoryStateData(stateData);
+    if (result.migrated) {
+      console.log(`[StoryStateService] Migrated state for userId: ${userId}, storyId: ${storyId} from schema ${result.fromVersion} to ${result.toVersion}`);
+    }
+    
+    const storyState = StoryState.fromJSON(result.data);
+    // Unset until the story is first loaded here, even if it was migrated elsewhere
+    if (result.data.templateId === undefined) {
+      const inferred = this.inferTemplate(userId, storyId, storyState);
+      storyState.templateId = inferred?.template.id ?? null;
+      storyState.templateVersion = inferred?.version ?? null;
+      storyState.templateHash = inferred?.hash ?? null;
+    }
+    return storyState;
+  }
+  
+  /**
+   * Run a choice or rewind once every earlier one on the same story has
+   * settled, so each checks the expected version against the saved result
+   * of the one before rather than the same shared state
+   */
+  private async withStoryLock<T>(userId: string, storyId: string, operation: () => Promise<T>): Promise<T> {
+    const key = this.stateKey(userId, storyId);
+    const previous = this.storyLocks.get(key) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(operation);
+    this.storyLocks.set(key, current);
     
-    return this.storyTemplates[selectedTemplateId];
+    try {
+      return await current;
+    } finally {
+      if (this.storyLocks.get(key) === current) {
+        this.storyLocks.delete(key);
+      }
+    }
+  }
+  
+  /**
+   * Write a state to storage (a compare-and-swap against the version it was loaded at)
+   */
+  private async persistState(userId: string, storyId: string, storyState: StoryState): Promise<void> {
+    storyState.updatedAt = new Date();
+    storyState.version = await this.stateStorage.saveState(
+      userId,
+      storyId,
+      storyState.toJSON(),
+      storyState.version
+    );
+  }
+  
+  /**
+   * Save a state the cache is about to drop. If another writer saved the story
+   * in the meantime, their copy wins and the stale one is dropped unsaved.
+   */
+  private async flushEvictedState(userId: string, storyId: string, storyState: StoryState): Promise<void> {
+    try {
+      await this.persistState(userId, storyId, storyState);
+    } catch (error) {
+      if (!(error instanceof StateVersionConflictError)) {
+        throw error;
+      }
+      console.warn(`[StoryStateService] Dropped stale state for userId: ${userId}, storyId: ${storyId} on eviction (stored copy is newer)`);
+    }
+  }
+  
+  /**
+   * Drop a user's active slot once none of their stories are cached; after that
+   * getActiveStoryId falls back to the most recently saved story
+   */
+  private forgetIdleUser(userId: string): void {
+    const keyPrefix = this.stateKey(userId, '');
+    if (!this.storyStates.keys().some(key => key.startsWith(keyPrefix))) {
+      delete this.activeStoryIds[userId];
+    }
   }
   
-  // Helper function to generate a hash code from a string
-  private hashCode(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32bit integer
+  /**
+   * Throw StorySlotNotFoundError unless the user has the given story
+   */
+  private async assertStorySlotExists(userId: string, storyId: string): Promise<void> {
+    if (this.storyStates.has(this.stateKey(userId, storyId))) {
+      return;
     }
-    return hash;
+    
+    if (!(await this.stateStorage.hasState(userId, storyId))) {
+      throw new StorySlotNotFoundError(userId, storyId);
+    }
+  }
+  
+  // Key for a user's story in the in-memory state map
+  private stateKey(userId: string, storyId: string): string {
+    return `${userId}/${storyId}`;
   }
   
   private async getUserVariables(userId: string): Promise<Record<string, any>> {
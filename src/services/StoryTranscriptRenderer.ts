@@ -0,0 +1,380 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { StoryState } from '../models/StoryState';
+import { StoryIllustration } from '../models/StoryIllustration';
+import { IllustrationService } from './IllustrationService';
+
+export type StoryTranscriptFormat = 'markdown' | 'html' | 'epub';
+
+export const STORY_TRANSCRIPT_FORMATS: StoryTranscriptFormat[] = ['markdown', 'html', 'epub'];
+
+export interface TranscriptChapter {
+  number: number;
+  segmentId: string;
+  // What the reader said that led to this chapter (conversational stories)
+  readerInput?: string;
+  content: string;
+  // The choice the reader made at the end of this chapter
+  choiceText?: string;
+  illustrations: StoryIllustration[];
+}
+
+export interface StoryTranscript {
+  userId: string;
+  storyId: string;
+  title: string;
+  createdAt: Date;
+  chapters: TranscriptChapter[];
+}
+
+export interface RenderedTranscript {
+  contentType: string;
+  fileName: string;
+  body: string | Buffer;
+}
+
+interface EmbeddedImage {
+  illustration: StoryIllustration;
+  data: Buffer;
+  mediaType: string;
+  fileName: string;
+}
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml'
+};
+
+const BOOK_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.6; max-width: 40em; margin: 0 auto; padding: 1em; }
+  h1 { text-align: center; margin: 2em 0 1em; }
+  h2 { margin-top: 2.5em; page-break-before: always; }
+  figure { margin: 1.5em 0; text-align: center; }
+  figure img { max-width: 100%; }
+  figcaption { font-size: 0.85em; font-style: italic; }
+  .reader-input { font-style: italic; color: #555; }
+  .choice { font-style: italic; text-align: right; color: #555; }
+`;
+
+/**
+ * Turns the path a reader actually took through a story into a book:
+ * Markdown, a standalone HTML page or a minimal EPUB 3, with illustrations
+ * at the start of each chapter
+ */
+export class StoryTranscriptRenderer {
+  private illustrationService?: IllustrationService;
+  private illustrationsPerChapter: number;
+
+  constructor(illustrationService?: IllustrationService, illustrationsPerChapter: number = 1) {
+    this.illustrationService = illustrationService;
+    this.illustrationsPerChapter = illustrationsPerChapter;
+  }
+
+  /**
+   * Collect the chapters along the path taken, from the choice history or,
+   * for conversational stories, the conversation
+   */
+  buildTranscript(storyState: StoryState): StoryTranscript {
+    const chapters: Omit<TranscriptChapter, 'number' | 'illustrations'>[] = [];
+
+    if (storyState.isConversationalMode && storyState.choiceHistory.length === 0) {
+      let readerInput: string | undefined;
+      storyState.conversationHistory.forEach((message, index) => {
+        if (message.role === 'user') {
+          readerInput = message.content;
+          return;
+        }
+        chapters.push({
+          segmentId: message.segmentId || `message_${index}`,
+          readerInput,
+          content: message.content
+        });
+        readerInput = undefined;
+      });
+    } else {
+      const steps = [
+        ...storyState.choiceHistory.map(choice => ({ segmentId: choice.segmentId, choiceId: choice.choiceId })),
+        { segmentId: storyState.currentSegmentId, choiceId: undefined }
+      ];
+      steps.forEach(({ segmentId, choiceId }) => {
+        const segment = storyState.segments[segmentId];
+        if (!segment) {
+          return;
+        }
+        chapters.push({
+          segmentId,
+          content: segment.content,
+          choiceText: choiceId ? segment.choices.find(choice => choice.id === choiceId)?.text : undefined
+        });
+      });
+    }
+
+    return {
+      userId: storyState.userId,
+      storyId: storyState.storyId,
+      title: storyState.title,
+      createdAt: storyState.createdAt,
+      chapters: chapters.map((chapter, index) => ({
+        ...chapter,
+        number: index + 1,
+        illustrations: this.illustrationService
+          ? this.illustrationService.getIllustrationsForSegment(chapter.segmentId, undefined, this.illustrationsPerChapter)
+          : []
+      }))
+    };
+  }
+
+  /**
+   * Render a transcript in the requested format
+   */
+  async render(transcript: StoryTranscript, format: StoryTranscriptFormat): Promise<RenderedTranscript> {
+    const baseName = this.slugify(transcript.title) || 'story';
+
+    switch (format) {
+      case 'markdown':
+        return { contentType: 'text/markdown; charset=utf-8', fileName: `${baseName}.md`, body: this.toMarkdown(transcript) };
+      case 'html':
+        return { contentType: 'text/html; charset=utf-8', fileName: `${baseName}.html`, body: await this.toHtml(transcript) };
+      case 'epub':
+        return { contentType: 'application/epub+zip', fileName: `${baseName}.epub`, body: await this.toEpub(transcript) };
+      default:
+        throw new Error(`Unknown transcript format: ${format}`);
+    }
+  }
+
+  /**
+   * Render as Markdown; illustrations link to their public URLs
+   */
+  toMarkdown(transcript: StoryTranscript): string {
+    const lines = [`# ${transcript.title}`, ''];
+
+    transcript.chapters.forEach(chapter => {
+      lines.push(`## Chapter ${chapter.number}`, '');
+      chapter.illustrations.forEach(illustration => {
+        lines.push(`![${illustration.description}](${illustration.path})`, '');
+      });
+      if (chapter.readerInput) {
+        lines.push(`> *${chapter.readerInput.trim()}*`, '');
+      }
+      this.paragraphs(chapter.content).forEach(paragraph => lines.push(paragraph, ''));
+      if (chapter.choiceText) {
+        lines.push(`*You chose: ${chapter.choiceText}*`, '');
+      }
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render as a single HTML page with the illustrations embedded, so it can be
+   * saved or printed without the server
+   */
+  async toHtml(transcript: StoryTranscript): Promise<string> {
+    const images = await this.loadImages(transcript);
+
+    const chapters = transcript.chapters.map(chapter => {
+      const figures = chapter.illustrations.map(illustration => {
+        const image = images.get(illustration.id);
+        const src = image ? `data:${image.mediaType};base64,${image.data.toString('base64')}` : illustration.path;
+        return this.figureHtml(src, illustration);
+      });
+      return this.chapterHtml(chapter, figures);
+    });
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${this.escapeHtml(transcript.title)}</title>`,
+      `<style>${BOOK_STYLES}</style>`,
+      '</head>',
+      '<body>',
+      `<h1>${this.escapeHtml(transcript.title)}</h1>`,
+      ...chapters,
+      '</body>',
+      '</html>'
+    ].join('\n');
+  }
+
+  /**
+   * Render as a minimal EPUB 3 book, one XHTML file per chapter. Illustrations
+   * whose image files are not available are left out.
+   */
+  async toEpub(transcript: StoryTranscript): Promise<Buffer> {
+    const images = await this.loadImages(transcript);
+    const zip = new JSZip();
+
+    // The mimetype entry must come first and be stored uncompressed
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">',
+      '  <rootfiles>',
+      '    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>',
+      '  </rootfiles>',
+      '</container>'
+    ].join('\n'));
+
+    zip.file('OEBPS/styles.css', BOOK_STYLES);
+
+    transcript.chapters.forEach(chapter => {
+      const figures = chapter.illustrations
+        .map(illustration => images.get(illustration.id))
+        .filter((image): image is EmbeddedImage => Boolean(image))
+        .map(image => this.figureHtml(`images/${image.fileName}`, image.illustration));
+      zip.file(`OEBPS/${this.chapterFileName(chapter)}`, this.xhtmlDocument(
+        `Chapter ${chapter.number}`,
+        this.chapterHtml(chapter, figures)
+      ));
+    });
+
+    images.forEach(image => {
+      zip.file(`OEBPS/images/${image.fileName}`, image.data);
+    });
+
+    zip.file('OEBPS/nav.xhtml', this.xhtmlDocument(transcript.title, [
+      '<nav epub:type="toc" id="toc">',
+      `<h1>${this.escapeHtml(transcript.title)}</h1>`,
+      '<ol>',
+      ...transcript.chapters.map(chapter =>
+        `<li><a href="${this.chapterFileName(chapter)}">Chapter ${chapter.number}</a></li>`
+      ),
+      '</ol>',
+      '</nav>'
+    ].join('\n')));
+
+    zip.file('OEBPS/content.opf', this.packageDocument(transcript, Array.from(images.values())));
+
+    return zip.generateAsync({ type: 'nodebuffer', mimeType: 'application/epub+zip', compression: 'DEFLATE' });
+  }
+
+  private packageDocument(transcript: StoryTranscript, images: EmbeddedImage[]): string {
+    // EPUB 3 requires a modification date without milliseconds
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">',
+      '  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+      `    <dc:identifier id="book-id">urn:primer:${this.escapeHtml(transcript.userId)}:${this.escapeHtml(transcript.storyId)}</dc:identifier>`,
+      `    <dc:title>${this.escapeHtml(transcript.title)}</dc:title>`,
+      '    <dc:language>en</dc:language>',
+      `    <meta property="dcterms:modified">${modified}</meta>`,
+      '  </metadata>',
+      '  <manifest>',
+      '    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+      '    <item id="styles" href="styles.css" media-type="text/css"/>',
+      ...transcript.chapters.map(chapter =>
+        `    <item id="chapter-${chapter.number}" href="${this.chapterFileName(chapter)}" media-type="application/xhtml+xml"/>`
+      ),
+      ...images.map((image, index) =>
+        `    <item id="image-${index + 1}" href="images/${image.fileName}" media-type="${image.mediaType}"/>`
+      ),
+      '  </manifest>',
+      '  <spine>',
+      ...transcript.chapters.map(chapter => `    <itemref idref="chapter-${chapter.number}"/>`),
+      '  </spine>',
+      '</package>'
+    ].join('\n');
+  }
+
+  private xhtmlDocument(title: string, body: string): string {
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<!DOCTYPE html>',
+      '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">',
+      '<head>',
+      `<title>${this.escapeHtml(title)}</title>`,
+      '<link rel="stylesheet" type="text/css" href="styles.css"/>',
+      '</head>',
+      '<body>',
+      body,
+      '</body>',
+      '</html>'
+    ].join('\n');
+  }
+
+  private chapterHtml(chapter: TranscriptChapter, figures: string[]): string {
+    const parts = [`<section id="chapter-${chapter.number}">`, `<h2>Chapter ${chapter.number}</h2>`, ...figures];
+    if (chapter.readerInput) {
+      parts.push(`<p class="reader-input">${this.escapeHtml(chapter.readerInput.trim())}</p>`);
+    }
+    this.paragraphs(chapter.content).forEach(paragraph => {
+      parts.push(`<p>${this.escapeHtml(paragraph).replace(/\n/g, '<br/>')}</p>`);
+    });
+    if (chapter.choiceText) {
+      parts.push(`<p class="choice">You chose: ${this.escapeHtml(chapter.choiceText)}</p>`);
+    }
+    parts.push('</section>');
+    return parts.join('\n');
+  }
+
+  private figureHtml(src: string, illustration: StoryIllustration): string {
+    const caption = illustration.credit
+      ? `${illustration.description} (${illustration.credit})`
+      : illustration.description;
+    return [
+      '<figure>',
+      `<img src="${this.escapeHtml(src)}" alt="${this.escapeHtml(illustration.description)}"/>`,
+      `<figcaption>${this.escapeHtml(caption)}</figcaption>`,
+      '</figure>'
+    ].join('\n');
+  }
+
+  /**
+   * Load the image files for every illustration in the transcript, keyed by illustration ID
+   */
+  private async loadImages(transcript: StoryTranscript): Promise<Map<string, EmbeddedImage>> {
+    const images = new Map<string, EmbeddedImage>();
+    if (!this.illustrationService) {
+      return images;
+    }
+
+    for (const chapter of transcript.chapters) {
+      for (const illustration of chapter.illustrations) {
+        const extension = path.extname(illustration.path).toLowerCase();
+        if (images.has(illustration.id) || !IMAGE_MEDIA_TYPES[extension]) {
+          continue;
+        }
+
+        const data = await this.illustrationService.readIllustrationFile(illustration);
+        if (data) {
+          images.set(illustration.id, {
+            illustration,
+            data,
+            mediaType: IMAGE_MEDIA_TYPES[extension],
+            fileName: `${this.slugify(illustration.id) || 'image'}-${images.size + 1}${extension}`
+          });
+        }
+      }
+    }
+
+    return images;
+  }
+
+  private chapterFileName(chapter: TranscriptChapter): string {
+    return `chapter-${chapter.number}.xhtml`;
+  }
+
+  private paragraphs(content: string): string[] {
+    return content.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+  }
+
+  private slugify(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,20 @@
+import { UsagePeriod } from './UsageTracker';
+
+/**
+ * Thrown instead of calling the LLM for a user who has used up a daily or
+ * monthly token or cost budget
+ */
+export class UsageBudgetExceededError extends Error {
+  userId: string;
+  period: UsagePeriod;
+  // When the exhausted budget starts again
+  resetAt: Date;
+  
+  constructor(userId: string, period: UsagePeriod, limit: 'tokens' | 'cost', resetAt: Date) {
+    super(`User ${userId} has used their ${period} ${limit === 'tokens' ? 'token' : 'cost'} budget; it resets at ${resetAt.toISOString()}`);
+    this.userId = userId;
+    this.period = period;
+    this.resetAt = resetAt;
+    this.name = this.constructor.name;
+  }
+}
@@ -0,0 +1,222 @@
+import fs from 'fs';
+import path from 'path';
+import usageConfig, { ModelPricing, UsageBudget, UsageConfig } from '../config/usage';
+import { UsageBudgetExceededError } from './UsageBudgetExceededError';
+
+export type UsagePeriod = 'daily' | 'monthly';
+
+interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  requests: number;
+}
+
+interface PeriodUsage extends UsageTotals {
+  // UTC day (2024-05-01) or month (2024-05) the totals belong to
+  period: string;
+}
+
+interface UserUsage {
+  daily: PeriodUsage;
+  monthly: PeriodUsage;
+}
+
+export interface UsagePeriodReport extends PeriodUsage {
+  totalTokens: number;
+  budget: UsageBudget;
+  // Left before the budget is used up; null where there is no limit
+  remaining: {
+    tokens: number | null;
+    costUsd: number | null;
+  };
+  resetAt: string;
+}
+
+export interface UserUsageReport {
+  userId: string;
+  daily: UsagePeriodReport;
+  monthly: UsagePeriodReport;
+  overBudget: boolean;
+}
+
+/**
+ * Counts each user's LLM tokens and their cost for the current UTC day and
+ * month, and enforces the configured budgets. Totals are kept in memory and,
+ * when a ledger file is configured, on disk.
+ */
+export class UsageTracker {
+  private config: UsageConfig;
+  private now: () => Date;
+  private usage: Map<string, UserUsage> = new Map();
+  // Ledger writes run one at a time, in order
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(config: UsageConfig = usageConfig, now: () => Date = () => new Date()) {
+    this.config = config;
+    this.now = now;
+    this.loadLedger();
+  }
+
+  /**
+   * Price of a call in USD; zero for models without a configured price
+   */
+  calculateCost(model: string, promptTokens: number, completionTokens: number): number {
+    const pricing = this.getPricing(model);
+    if (!pricing) {
+      return 0;
+    }
+    return (promptTokens * pricing.prompt + completionTokens * pricing.completion) / 1_000_000;
+  }
+
+  /**
+   * Add a call to the user's totals. Returns its cost in USD.
+   */
+  record(userId: string, model: string, promptTokens: number, completionTokens: number): number {
+    const costUsd = this.calculateCost(model, promptTokens, completionTokens);
+    const usage = this.getUsage(userId);
+
+    for (const totals of [usage.daily, usage.monthly]) {
+      totals.promptTokens += promptTokens;
+      totals.completionTokens += completionTokens;
+      totals.costUsd += costUsd;
+      totals.requests++;
+    }
+
+    this.saveLedger();
+    return costUsd;
+  }
+
+  /**
+   * Throws UsageBudgetExceededError when the user has used up any budget
+   */
+  checkBudget(userId: string): void {
+    const usage = this.getUsage(userId);
+
+    for (const period of ['daily', 'monthly'] as UsagePeriod[]) {
+      const budget = this.config.budgets[period];
+      const totals = usage[period];
+      if (budget.tokens > 0 && totals.promptTokens + totals.completionTokens >= budget.tokens) {
+        throw new UsageBudgetExceededError(userId, period, 'tokens', this.getResetAt(period));
+      }
+      if (budget.costUsd > 0 && totals.costUsd >= budget.costUsd) {
+        throw new UsageBudgetExceededError(userId, period, 'cost', this.getResetAt(period));
+      }
+    }
+  }
+
+  getUserUsage(userId: string): UserUsageReport {
+    const usage = this.getUsage(userId);
+    const daily = this.toReport('daily', usage.daily);
+    const monthly = this.toReport('monthly', usage.monthly);
+    const isExhausted = (report: UsagePeriodReport) =>
+      report.remaining.tokens === 0 || report.remaining.costUsd === 0;
+
+    return {
+      userId,
+      daily,
+      monthly,
+      overBudget: isExhausted(daily) || isExhausted(monthly)
+    };
+  }
+
+  /**
+   * Wait for pending ledger writes
+   */
+  async flush(): Promise<void> {
+    await this.saving;
+  }
+
+  private toReport(period: UsagePeriod, totals: PeriodUsage): UsagePeriodReport {
+    const budget = this.config.budgets[period];
+    const totalTokens = totals.promptTokens + totals.completionTokens;
+    return {
+      ...totals,
+      totalTokens,
+      budget,
+      remaining: {
+        tokens: budget.tokens > 0 ? Math.max(0, budget.tokens - totalTokens) : null,
+        costUsd: budget.costUsd > 0 ? Math.max(0, budget.costUsd - totals.costUsd) : null
+      },
+      resetAt: this.getResetAt(period).toISOString()
+    };
+  }
+
+  /**
+   * The user's totals for the current day and month, starting new ones when
+   * a period has rolled over
+   */
+  private getUsage(userId: string): UserUsage {
+    const day = this.getPeriodKey('daily');
+    const month = this.getPeriodKey('monthly');
+    const usage = this.usage.get(userId);
+
+    const current: UserUsage = {
+      daily: usage?.daily.period === day ? usage.daily : this.emptyPeriod(day),
+      monthly: usage?.monthly.period === month ? usage.monthly : this.emptyPeriod(month)
+    };
+    this.usage.set(userId, current);
+    return current;
+  }
+
+  private emptyPeriod(period: string): PeriodUsage {
+    return { period, promptTokens: 0, completionTokens: 0, costUsd: 0, requests: 0 };
+  }
+
+  private getPeriodKey(period: UsagePeriod): string {
+    const iso = this.now().toISOString();
+    return period === 'daily' ? iso.substring(0, 10) : iso.substring(0, 7);
+  }
+
+  private getResetAt(period: UsagePeriod): Date {
+    const now = this.now();
+    return period === 'daily'
+      ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  }
+
+  /**
+   * Exact price, or the longest configured model name the model starts with
+   */
+  private getPricing(model: string): ModelPricing | undefined {
+    if (this.config.pricing[model]) {
+      return this.config.pricing[model];
+    }
+    const prefix = Object.keys(this.config.pricing)
+      .filter(name => model.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.config.pricing[prefix] : undefined;
+  }
+
+  private loadLedger(): void {
+    if (!this.config.ledgerFile || !fs.existsSync(this.config.ledgerFile)) {
+      return;
+    }
+    try {
+      const ledger: Record<string, UserUsage> = JSON.parse(fs.readFileSync(this.config.ledgerFile, 'utf8'));
+      Object.entries(ledger).forEach(([userId, usage]) => this.usage.set(userId, usage));
+      console.log(`[UsageTracker] Loaded usage for ${this.usage.size} users from ${this.config.ledgerFile}`);
+    } catch (error) {
+      console.error(`[UsageTracker] Error loading usage ledger ${this.config.ledgerFile}:`, error);
+    }
+  }
+
+  private saveLedger(): void {
+    const file = this.config.ledgerFile;
+    if (!file) {
+      return;
+    }
+
+    const data = JSON.stringify(Object.fromEntries(this.usage));
+    this.saving = this.saving.then(async () => {
+      const tempPath = `${file}.${process.pid}.tmp`;
+      try {
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        await fs.promises.writeFile(tempPath, data, 'utf8');
+        await fs.promises.rename(tempPath, file);
+      } catch (error) {
+        console.error(`[UsageTracker] Error saving usage ledger ${file}:`, error);
+      }
+    });
+  }
+}
@@ -1,6 +1,12 @@
 import axios from 'axios';
 import MockAdapter from 'axios-mock-adapter';
 import { GPTClient } from '../GPTClient';
+import { UsageTracker } from '../UsageTracker';
+import { UsageBudgetExceededError } from '../UsageBudgetExceededError';
+import { LLMProviderError, LLMProviderRegistry, OpenAIProvider } from '../llm';
+import { storyMonitoring } from '../../utils/storyMonitoring';
+import { ExperimentService } from '../experiments';
+import { PromptTemplateStore } from '../prompts';
 
 describe('GPTClient', () => {
   let mockAxios: MockAdapter;
@@ -8,7 +14,7 @@ describe('GPTClient', () => {
   
   beforeEach(() => {
     mockAxios = new MockAdapter(axios);
-    gptClient = new GPTClient('test-api-key');
+    gptClient = GPTClient.fromApiKey('test-api-key');
   });
   
   afterEach(() => {
@@ -68,6 +74,16 @@ describe('GPTClient', () => {
       })).rejects.toThrow('GPT API request failed: Network Error');
     });
     
+    it('should keep the status of provider errors worth retrying', async () => {
+      mockAxios.onPost('https://api.openai.com/v1/chat/completions').reply(503, { error: { message: 'Overloaded' } });
+      
+      const error = await gptClient.generateStorySegment({ prompt: 'Generate a story about a dragon', context: {} }).catch(e => e);
+      
+      expect(error).toBeInstanceOf(LLMProviderError);
+      expect(error.status).toBe(503);
+      expect(error.message).toBe('GPT API request failed: Overloaded');
+    });
+    
     it('should handle empty or invalid responses', async () => {
       // Mock a response missing choices array
       mockAxios.onPost('https://api.openai.com/v1/chat/completions').reply(200, {
@@ -157,124 +173,307 @@ describe('GPTClient', () => {
     });
   });
   
-  describe('constructPrompt', () => {
-    let client: GPTClient;
-
-    beforeEach(() => {
-      client = new GPTClient('test-key');
+  describe('generateStoryChoices validation and repair', () => {
+    const reply = (content: string) => ({ choices: [{ message: { role: 'assistant', content } }] });
+    const validChoices = [
+      { id: 'choice1', text: 'Enter the cave', nextSegmentId: 'cave' },
+      { id: 'choice2', text: 'Climb the mountain', nextSegmentId: 'mountain' }
+    ];
+    
+    it('should ask OpenAI for choices through a forced function call', async () => {
+      mockAxios.onPost('https://api.openai.com/v1/chat/completions').reply(200, {
+        choices: [{
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ function: { name: 'story_choices', arguments: JSON.stringify({ choices: validChoices }) } }]
+          }
+        }]
+      });
+      
+      const result = await gptClient.generateStoryChoices({ currentSegment: 'A fork in the road', context: {}, numChoices: 2 });
+      
+      expect(result).toEqual(validChoices);
+      const request = JSON.parse(mockAxios.history.post[0].data);
+      expect(request.tool_choice).toEqual({ type: 'function', function: { name: 'story_choices' } });
+      expect(request.tools[0].function.parameters.required).toEqual(['choices']);
     });
-
-    it('should construct a basic prompt without context', () => {
-      const prompt = client.constructPrompt({
-        instruction: 'Generate a story about dragons'
+    
+    it('should send invalid choices back to be repaired', async () => {
+      mockAxios.onPost('https://api.openai.com/v1/chat/completions')
+        .replyOnce(200, reply(JSON.stringify({ choices: [{ id: 'choice1', text: 'Enter the cave' }] })))
+        .onPost('https://api.openai.com/v1/chat/completions')
+        .replyOnce(200, reply(JSON.stringify({ choices: validChoices })));
+      
+      const result = await gptClient.generateStoryChoices({ currentSegment: 'A fork in the road', context: {}, numChoices: 2 });
+      
+      expect(result).toEqual(validChoices);
+      expect(mockAxios.history.post.length).toBe(2);
+      const repairMessages = JSON.parse(mockAxios.history.post[1].data).messages;
+      expect(repairMessages).toHaveLength(4);
+      expect(repairMessages[2]).toEqual({
+        role: 'assistant',
+        content: JSON.stringify({ choices: [{ id: 'choice1', text: 'Enter the cave' }] })
       });
-
-      expect(prompt).toBe(
-        'Generate a story about dragons\n\n' +
-        'Instructions:\n' +
-        '- Create engaging, descriptive content appropriate for the audience.\n' +
-        '- Maintain a consistent narrative style and tone.\n' +
-        '- Incorporate the context details naturally into the story.'
-      );
+      expect(repairMessages[3].content).toContain('choices[0].nextSegmentId: Required');
     });
-
-    it('should include user identity context', () => {
-      const prompt = client.constructPrompt({
-        instruction: 'Generate a story',
-        context: {
-          userId: 'user123',
-          character_name: 'Eldric',
-          age: 25
-        }
+    
+    it('should repair responses that are not JSON', async () => {
+      mockAxios.onPost('https://api.openai.com/v1/chat/completions')
+        .replyOnce(200, reply('Here are some choices: go left or right'))
+        .onPost('https://api.openai.com/v1/chat/completions')
+        .replyOnce(200, reply(JSON.stringify(validChoices)));
+      
+      const result = await gptClient.generateStoryChoices({ currentSegment: 'A fork in the road', context: {}, numChoices: 2 });
+      
+      expect(result).toEqual(validChoices);
+      expect(JSON.parse(mockAxios.history.post[1].data).messages[3].content).toContain('is not valid JSON');
+    });
+    
+    it('should give up after the repair attempts are used', async () => {
+      mockAxios.onPost('https://api.openai.com/v1/chat/completions').reply(200, reply(JSON.stringify({
+        choices: [validChoices[0], validChoices[0]]
+      })));
+      
+      await expect(gptClient.generateStoryChoices({ currentSegment: 'A fork in the road', context: {}, numChoices: 2 }))
+        .rejects.toThrow('Failed to parse GPT API response as JSON');
+      // The first attempt and one repair
+      expect(mockAxios.history.post.length).toBe(2);
+    });
+  });
+  
+  describe('generateStorySegmentWithChoices', () => {
+    it('should write the segment and its choices in one call', async () => {
+      const segment = {
+        content: 'The path forks beneath the old oak.',
+        choices: [
+          { id: 'choice1', text: 'Go left', nextSegmentId: 'left_path' },
+          { id: 'choice2', text: 'Go right', nextSegmentId: 'right_path' }
+        ]
+      };
+      mockAxios.onPost('https://api.openai.com/v1/chat/completions').reply(200, {
+        choices: [{
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ function: { name: 'story_segment', arguments: JSON.stringify(segment) } }]
+          }
+        }]
       });
-
-      expect(prompt).toContain('userId: user123');
-      expect(prompt).toContain('character_name: Eldric');
-      expect(prompt).toContain('age: 25');
+      
+      const result = await gptClient.generateStorySegmentWithChoices({
+        prompt: 'Continue the story',
+        context: { genre: 'fantasy' },
+        numChoices: 2
+      });
+      
+      expect(gptClient.supportsCombinedGeneration()).toBe(true);
+      expect(result).toEqual(segment);
+      expect(mockAxios.history.post.length).toBe(1);
+      const request = JSON.parse(mockAxios.history.post[0].data);
+      expect(request.tool_choice).toEqual({ type: 'function', function: { name: 'story_segment' } });
+      expect(request.messages[1].content).toContain('genre: fantasy');
     });
-
-    it('should include story history context', () => {
-      const prompt = client.constructPrompt({
-        instruction: 'Continue the story',
-        context: {
-          previousSegment: 'The dragon roared.',
-          lastChoice: 'Fight the dragon',
-          choiceHistory: ['Enter cave', 'Light torch', 'Fight dragon']
-        }
+    
+    it('should repair a response missing its story text', async () => {
+      const choices = [{ id: 'choice1', text: 'Go left', nextSegmentId: 'left_path' }];
+      mockAxios.onPost('https://api.openai.com/v1/chat/completions')
+        .replyOnce(200, { choices: [{ message: { content: JSON.stringify({ choices }) } }] })
+        .onPost('https://api.openai.com/v1/chat/completions')
+        .replyOnce(200, { choices: [{ message: { content: JSON.stringify({ content: 'The path forks.', choices }) } }] });
+      
+      const result = await gptClient.generateStorySegmentWithChoices({ prompt: 'Continue', context: {}, numChoices: 1 });
+      
+      expect(result.content).toBe('The path forks.');
+      expect(JSON.parse(mockAxios.history.post[1].data).messages[3].content).toContain('content: Required');
+    });
+  });
+  
+  describe('summarizeStory', () => {
+    const memory = { summary: 'Mira left the village at dawn.' };
+    
+    it('should fold new passages into the summary', async () => {
+      const updated = { summary: 'Mira left the village at dawn and promised the ferryman his map back.' };
+      mockAxios.onPost('https://api.openai.com/v1/chat/completions').reply(200, {
+        choices: [{ message: { content: null, tool_calls: [{ function: { name: 'story_memory', arguments: JSON.stringify(updated) } }] } }]
       });
-
-      expect(prompt).toContain('previousSegment: The dragon roared.');
-      expect(prompt).toContain('lastChoice: Fight the dragon');
-      expect(prompt).toContain('choiceHistory: ');
+      
+      const result = await gptClient.summarizeStory({
+        memory,
+        messages: [
+          { role: 'user', content: 'I promise to bring it back', timestamp: new Date() },
+          { role: 'assistant', content: 'The ferryman nods.', timestamp: new Date() }
+        ],
+        summaryMaxWords: 200,
+        context: { userId: 'user1' }
+      });
+      
+      expect(result).toEqual(updated);
+      const request = JSON.parse(mockAxios.history.post[0].data);
+      expect(request.tool_choice).toEqual({ type: 'function', function: { name: 'story_memory' } });
+      expect(request.messages[0].content).toContain('at most 200 words');
+      expect(request.messages[1].content).toContain('Summary so far:\nMira left the village at dawn.');
+      expect(request.messages[1].content).toContain('Reader: I promise to bring it back\nNarrator: The ferryman nods.');
     });
-
-    it('should handle story style preferences', () => {
-      const prompt = client.constructPrompt({
-        instruction: 'Tell a story',
-        context: {
-          tone: 'mysterious',
-          audience: 'children',
-          genre: 'fantasy'
-        }
+    
+    it('should fail when the summary cannot be repaired', async () => {
+      mockAxios.onPost('https://api.openai.com/v1/chat/completions').reply(200, {
+        choices: [{ message: { content: JSON.stringify({ summary: '' }) } }]
       });
-
-      expect(prompt).toContain('tone: mysterious');
-      expect(prompt).toContain('audience: children');
-      expect(prompt).toContain('genre: fantasy');
-      expect(prompt).toContain('Use simpler language appropriate for children');
-      expect(prompt).toContain('Keep content appropriate for young readers');
-      expect(prompt).toContain('Maintain a mysterious tone throughout');
+      
+      await expect(gptClient.summarizeStory({ memory, messages: [], summaryMaxWords: 200, context: {} }))
+        .rejects.toThrow('Failed to parse GPT API response as JSON');
     });
-
-    it('should handle location and setting context', () => {
-      const prompt = client.constructPrompt({
-        instruction: 'Describe the scene',
-        context: {
-          setting: 'medieval castle',
-          location: 'throne room'
-        }
+  });
+  
+  describe('extractStoryBible', () => {
+    it('should ask what the segment introduced or changed', async () => {
+      const update = {
+        characters: [{ name: 'The ferryman', description: 'Keeps the river crossing' }],
+        items: [],
+        locations: [{ name: 'The ford', description: 'Where the river runs shallow' }],
+        plotThreads: [],
+        resolvedPlotThreads: ['Cross the river']
+      };
+      mockAxios.onPost('https://api.openai.com/v1/chat/completions').reply(200, {
+        choices: [{ message: { content: null, tool_calls: [{ function: { name: 'story_bible', arguments: JSON.stringify(update) } }] } }]
       });
-
-      expect(prompt).toContain('setting: medieval castle');
-      expect(prompt).toContain('location: throne room');
+      
+      const result = await gptClient.extractStoryBible({
+        bible: {
+          characters: [{ name: 'Mira', description: 'A young cartographer' }],
+          items: [],
+          locations: [],
+          plotThreads: [{ name: 'Cross the river', description: 'Mira needs to reach the far bank' }]
+        },
+        content: 'The ferryman poled Mira across the ford.',
+        context: { userId: 'user1' }
+      });
+      
+      expect(result).toEqual(update);
+      const request = JSON.parse(mockAxios.history.post[0].data);
+      expect(request.tool_choice).toEqual({ type: 'function', function: { name: 'story_bible' } });
+      expect(request.messages[1].content).toContain('Characters:\n- Mira: A young cartographer\nOpen plot threads:\n- Cross the river');
+      expect(request.messages[1].content).toContain('New segment:\nThe ferryman poled Mira across the ford.');
     });
-
-    it('should handle complex objects in context', () => {
-      const prompt = client.constructPrompt({
-        instruction: 'Generate next scene',
-        context: {
-          character: {
-            name: 'Eldric',
-            class: 'warrior',
-            stats: { strength: 10, agility: 8 }
-          },
-          inventory: ['sword', 'shield', 'potion']
-        }
+  });
+  
+  describe('usage accounting', () => {
+    const config = {
+      pricing: { 'gpt-4': { prompt: 30, completion: 60 } },
+      budgets: { daily: { tokens: 1000, costUsd: 0 }, monthly: { tokens: 0, costUsd: 0 } }
+    };
+    let usageTracker: UsageTracker;
+    let client: GPTClient;
+    
+    beforeEach(() => {
+      usageTracker = new UsageTracker(config);
+      client = new GPTClient(new LLMProviderRegistry([new OpenAIProvider('test-key', 'gpt-4')]), { usageTracker });
+    });
+    
+    it('should record the tokens the API reports and their cost', async () => {
+      mockAxios.onPost('https://api.openai.com/v1/chat/completions').reply(200, {
+        model: 'gpt-4',
+        choices: [{ message: { content: 'Once upon a time.' } }],
+        usage: { prompt_tokens: 120, completion_tokens: 40 }
       });
-
-      expect(prompt).toContain('character: {');
-      expect(prompt).toContain('"name": "Eldric"');
-      expect(prompt).toContain('"class": "warrior"');
-      expect(prompt).toContain('"stats": {');
+      
+      await client.generateStorySegment({ prompt: 'Begin', context: { userId: 'user1' } });
+      
+      const usage = usageTracker.getUserUsage('user1').daily;
+      expect(usage).toMatchObject({ promptTokens: 120, completionTokens: 40, requests: 1 });
+      expect(usage.costUsd).toBeCloseTo(0.006);
     });
-
-    it('should handle additional context parameters', () => {
-      const prompt = client.constructPrompt({
-        instruction: 'Create a scene',
-        context: {
-          weather: 'stormy',
-          timeOfDay: 'night',
-          customParam: 'value'
-        }
+    
+    it('should count tokens locally when the API reports none', async () => {
+      mockAxios.onPost('https://api.openai.com/v1/chat/completions').reply(200, {
+        choices: [{ message: { content: 'Once upon a time.' } }]
       });
-
-      expect(prompt).toContain('Additional context:');
-      expect(prompt).toContain('weather: stormy');
-      expect(prompt).toContain('timeOfDay: night');
-      expect(prompt).toContain('customParam: value');
+      
+      await client.generateStorySegment({ prompt: 'Begin', context: { userId: 'user1' } });
+      
+      const usage = usageTracker.getUserUsage('user1').daily;
+      // "Once upon a time." is 5 tokens
+      expect(usage.completionTokens).toBe(5);
+      expect(usage.promptTokens).toBeGreaterThan(0);
+    });
+    
+    it('should refuse to call the API for a user over budget', async () => {
+      usageTracker.record('user1', 'gpt-4', 800, 200);
+      
+      await expect(client.generateStorySegment({ prompt: 'Begin', context: { userId: 'user1' } }))
+        .rejects.toThrow(UsageBudgetExceededError);
+      expect(mockAxios.history.post.length).toBe(0);
     });
   });
-
+  
+  describe('prompt templates', () => {
+    it('should record the prompt templates and versions with each request', async () => {
+      const logGPTRequest = jest.spyOn(storyMonitoring, 'logGPTRequest');
+      mockAxios.onPost('https://api.openai.com/v1/chat/completions').reply(200, {
+        choices: [{ message: { content: 'The path forks.' } }]
+      });
+      
+      await gptClient.generateStorySegment({
+        prompt: 'Continue the story based on the choice: "Go left".',
+        promptTemplate: { id: 'story-continue', version: 1 },
+        context: { userId: 'user123' }
+      });
+      
+      expect(logGPTRequest).toHaveBeenCalledWith(expect.objectContaining({
+        promptId: 'story-segment',
+        promptVersion: 1,
+        instructionPromptId: 'story-continue',
+        instructionPromptVersion: 1
+      }));
+      const request = JSON.parse(mockAxios.history.post[0].data);
+      expect(request.messages[1].content).toMatch(/^Continue the story based on the choice: "Go left"\.\n\nContext:\nuserId: user123/);
+      logGPTRequest.mockRestore();
+    });
+  });
+  
+  describe('experiments', () => {
+    const url = 'https://api.openai.com/v1/chat/completions';
+    const experiments = new ExperimentService({
+      experiments: [{
+        id: 'summary-model',
+        variants: [{ name: 'mini', model: 'gpt-4o-mini', temperature: 0.3, promptVersions: { 'story-summary': 1 } }]
+      }]
+    });
+    
+    beforeEach(() => {
+      const providers = new LLMProviderRegistry([new OpenAIProvider('test-api-key', 'gpt-4')]);
+      gptClient = new GPTClient(providers, { experiments });
+    });
+    
+    it('should use the model, temperature and prompt versions of the user\'s variant', async () => {
+      const render = jest.spyOn(PromptTemplateStore.prototype, 'render');
+      mockAxios.onPost(url).reply(200, {
+        choices: [{ message: { content: '{"summary":"Mira crossed the river."}' } }]
+      });
+      
+      await gptClient.summarizeStory({
+        memory: { summary: '' },
+        messages: [{ role: 'user', content: 'Cross the river', timestamp: new Date() }],
+        summaryMaxWords: 200,
+        context: { userId: 'user123' }
+      });
+      
+      const request = JSON.parse(mockAxios.history.post[0].data);
+      expect(request).toEqual(expect.objectContaining({ model: 'gpt-4o-mini', temperature: 0.3 }));
+      expect(render).toHaveBeenCalledWith('story-summary', expect.anything(), 1);
+      render.mockRestore();
+    });
+    
+    it('should not put requests made for no user in an experiment', async () => {
+      mockAxios.onPost(url).reply(200, { choices: [{ message: { content: 'Once upon a time.' } }] });
+      
+      await gptClient.generateStorySegment({ prompt: 'Tell a story', context: {} });
+      
+      expect(JSON.parse(mockAxios.history.post[0].data)).toEqual(expect.objectContaining({ model: 'gpt-4', temperature: 0.7 }));
+    });
+  });
+  
   describe('content caching', () => {
     const mockResponse = {
       choices: [{ message: { content: 'Test story content' } }]
@@ -350,7 +549,7 @@ describe('GPTClient', () => {
     });
 
     it('should respect cache TTL', async () => {
-      const shortTTLClient = new GPTClient('test-api-key', 'gpt-4', undefined, 100); // 100ms TTL
+      const shortTTLClient = GPTClient.fromApiKey('test-api-key', 'gpt-4', undefined, 100); // 100ms TTL
       mockAxios.onPost().reply(200, mockResponse);
 
       const params = {
@@ -1,131 +1,261 @@
-import { PromptConstructor } from '../PromptConstructor';
-import { StoryContext } from '../../models/StoryContext';
+import { PromptConstructor, formatConversation } from '../PromptConstructor';
+import { ExperimentService } from '../experiments';
+import { PromptTemplateStore } from '../prompts';
 
 describe('PromptConstructor', () => {
   let promptConstructor: PromptConstructor;
 
+  // The user message of a story segment prompt
+  const buildSegmentPrompt = (instruction: string, context?: Record<string, any>) =>
+    promptConstructor.buildStorySegmentPrompt(instruction, context).messages[1].content;
+
   beforeEach(() => {
     promptConstructor = new PromptConstructor();
   });
 
-  describe('constructStorySegmentPrompt', () => {
-    it('should create a basic prompt with minimal context', () => {
-      const context: StoryContext = {
+  describe('buildStorySegmentPrompt', () => {
+    it('should build the prompt from the story-segment template', () => {
+      const prompt = promptConstructor.buildStorySegmentPrompt('Generate a story about dragons');
+
+      expect(prompt).toMatchObject({ id: 'story-segment', version: 1 });
+      expect(prompt.messages).toEqual([
+        { role: 'system', content: 'You are a creative writing assistant.' },
+        {
+          role: 'user',
+          content: 'Generate a story about dragons\n\n' +
+            'Instructions:\n' +
+            '- Create engaging, descriptive content appropriate for the audience.\n' +
+            '- Maintain a consistent narrative style and tone.\n' +
+            '- Incorporate the context details naturally into the story.'
+        }
+      ]);
+    });
+
+    it('should ask for JSON with the choices when given a number of choices', () => {
+      const prompt = promptConstructor.buildStorySegmentPrompt('Continue the story', {}, {
+        numChoices: 3,
+        instructionTemplate: { id: 'story-continue', version: 1 }
+      });
+
+      expect(prompt.messages[0].content).toContain('then exactly 3 choices for what the reader does next');
+      expect(prompt.messages[0].content).toContain('Return ONLY raw JSON');
+      expect(prompt.instruction).toEqual({ id: 'story-continue', version: 1 });
+    });
+
+    it('should include user identity context', () => {
+      const prompt = buildSegmentPrompt('Generate a story', {
+        userId: 'user123',
+        character_name: 'Eldric',
+        age: 25
+      });
+
+      expect(prompt).toContain('Context:\nuserId: user123');
+      expect(prompt).toContain('character_name: Eldric');
+      expect(prompt).toContain('age: 25');
+    });
+
+    it('should include story history context', () => {
+      const prompt = buildSegmentPrompt('Continue the story', {
+        userId: 'user123',
+        previousSegment: 'The dragon roared.',
+        choice: 'Fight the dragon',
+        choiceHistory: ['Enter cave', 'Light torch', 'Fight dragon']
+      });
+
+      expect(prompt).toContain('previousSegment: The dragon roared.');
+      expect(prompt).toContain('lastChoice: Fight the dragon');
+      expect(prompt).toContain('choiceHistory: [\n  "Enter cave"');
+    });
+
+    it('should follow the reader\'s style preferences', () => {
+      const prompt = buildSegmentPrompt('Tell a story', {
         userId: 'user123',
+        tone: 'mysterious',
+        audience: 'children',
         genre: 'fantasy'
-      };
+      });
 
-      const prompt = promptConstructor.constructStorySegmentPrompt(context);
-      
-      expect(prompt).toContain('You are a creative storyteller');
+      expect(prompt).toContain('tone: mysterious');
+      expect(prompt).toContain('audience: children');
       expect(prompt).toContain('genre: fantasy');
-      expect(prompt).not.toContain('previousSegment');
-      expect(prompt).not.toContain('choiceHistory');
+      expect(prompt).toContain('- Use simpler language appropriate for children.');
+      expect(prompt).toContain('- Keep content appropriate for young readers.');
+      expect(prompt).toContain('- Maintain a mysterious tone throughout.');
     });
 
-    it('should incorporate story history when available', () => {
-      const context: StoryContext = {
+    it('should include location and setting context', () => {
+      const prompt = buildSegmentPrompt('Describe the scene', {
         userId: 'user123',
-        genre: 'fantasy',
-        previousSegment: 'The hero entered the ancient temple.',
-        choiceHistory: ['Enter temple', 'Light torch'],
-        lastChoice: 'Light torch'
-      };
-
-      const prompt = promptConstructor.constructStorySegmentPrompt(context);
-      
-      expect(prompt).toContain('previousSegment: The hero entered the ancient temple');
-      expect(prompt).toContain('lastChoice: Light torch');
-      expect(prompt).toContain('choiceHistory:');
-      expect(prompt).toContain('Enter temple');
-      expect(prompt).toContain('Light torch');
-    });
-
-    it('should include character details when provided', () => {
-      const context: StoryContext = {
+        setting: 'medieval castle',
+        location: 'throne room'
+      });
+
+      expect(prompt).toContain('setting: medieval castle');
+      expect(prompt).toContain('location: throne room');
+    });
+
+    it('should format complex objects in context', () => {
+      const prompt = buildSegmentPrompt('Generate next scene', {
         userId: 'user123',
-        genre: 'fantasy',
-        character: 'wizard',
-        character_name: 'Merlin',
-        age: 100
-      };
+        character: {
+          name: 'Eldric',
+          class: 'warrior',
+          stats: { strength: 10, agility: 8 }
+        },
+        inventory: ['sword', 'shield', 'potion']
+      });
 
-      const prompt = promptConstructor.constructStorySegmentPrompt(context);
-      
-      expect(prompt).toContain('character: wizard');
-      expect(prompt).toContain('character_name: Merlin');
-      expect(prompt).toContain('age: 100');
+      expect(prompt).toContain('character: {');
+      expect(prompt).toContain('"name": "Eldric"');
+      expect(prompt).toContain('"class": "warrior"');
+      expect(prompt).toContain('"stats": {');
+      expect(prompt).not.toContain('inventory');
     });
 
-    it('should include style preferences when provided', () => {
-      const context: StoryContext = {
+    it('should give long conversations their story memory as sections', () => {
+      const prompt = buildSegmentPrompt('Continue the story', {
         userId: 'user123',
-        genre: 'fantasy',
-        tone: 'mysterious',
-        audience: 'young adult',
-        setting: 'medieval kingdom',
-        location: 'enchanted forest'
-      };
+        storySummary: 'Mira left the village at dawn.',
+        keyFacts: 'Characters:\n- Mira: A young cartographer',
+        recentConversation: 'Reader: Cross the river\nNarrator: The ferryman nods.'
+      });
 
-      const prompt = promptConstructor.constructStorySegmentPrompt(context);
-      
-      expect(prompt).toContain('tone: mysterious');
-      expect(prompt).toContain('audience: young adult');
-      expect(prompt).toContain('setting: medieval kingdom');
-      expect(prompt).toContain('location: enchanted forest');
+      expect(prompt).toContain('Story so far:\nMira left the village at dawn.');
+      expect(prompt).toContain('Key facts:\nCharacters:\n- Mira: A young cartographer');
+      expect(prompt).toContain('Recent conversation:\nReader: Cross the river\nNarrator: The ferryman nods.');
+      expect(prompt).toContain('consistent with what the story has established');
+      expect(prompt).not.toContain('Additional context');
     });
-  });
 
-  describe('constructChoicesPrompt', () => {
-    it('should create a basic choices prompt with minimal context', () => {
-      const context: StoryContext = {
+    it('should include the story bible and ask for consistency with it', () => {
+      const prompt = buildSegmentPrompt('Continue the story', {
         userId: 'user123',
-        genre: 'fantasy'
-      };
-      const currentSegment = 'The hero stands before three doors.';
-      const numChoices = 3;
-
-      const prompt = promptConstructor.constructChoicesPrompt(context, currentSegment, numChoices);
-      
-      expect(prompt).toContain(`generate exactly ${numChoices} interesting choices for the reader`);
-      expect(prompt).toContain('The hero stands before three doors');
-      expect(prompt).toContain('genre: fantasy');
+        storyBible: {
+          characters: [{ name: 'Mira', description: 'A young cartographer' }],
+          items: [{ name: 'Ferryman\'s map', description: 'Shows the river crossings' }],
+          locations: [],
+          plotThreads: [{ name: 'Return the map', description: 'Mira promised to bring it back' }]
+        }
+      });
+
+      expect(prompt).toContain(
+        'Story bible:\n' +
+        'Characters:\n' +
+        '- Mira: A young cartographer\n' +
+        'Open plot threads:\n' +
+        '- Return the map: Mira promised to bring it back\n' +
+        'Items:\n' +
+        '- Ferryman\'s map: Shows the river crossings'
+      );
+      expect(prompt).toContain('- Keep characters, items, locations and plot threads consistent with what the story has established.');
     });
 
-    it('should incorporate previous choices for continuity', () => {
-      const context: StoryContext = {
+    it('should leave out an empty story bible', () => {
+      const prompt = buildSegmentPrompt('Continue the story', {
         userId: 'user123',
-        genre: 'fantasy',
-        choiceHistory: ['Enter temple', 'Light torch'],
-        lastChoice: 'Light torch'
-      };
-      const currentSegment = 'The flickering torch reveals ancient symbols on the walls.';
-      const numChoices = 2;
-
-      const prompt = promptConstructor.constructChoicesPrompt(context, currentSegment, numChoices);
-      
-      expect(prompt).toContain('choiceHistory:');
-      expect(prompt).toContain('Enter temple');
-      expect(prompt).toContain('Light torch');
-      expect(prompt).toContain('lastChoice: Light torch');
-    });
-
-    it('should include style guidance for choice generation', () => {
-      const context: StoryContext = {
+        storyBible: { characters: [], items: [], locations: [], plotThreads: [] }
+      });
+
+      expect(prompt).not.toContain('Story bible');
+      expect(prompt).not.toContain('consistent with what the story has established');
+    });
+
+    it('should list additional context parameters', () => {
+      const prompt = buildSegmentPrompt('Create a scene', {
         userId: 'user123',
-        genre: 'fantasy',
-        tone: 'mysterious',
-        audience: 'young adult'
-      };
-      const currentSegment = 'A strange mist fills the chamber.';
-      const numChoices = 2;
+        weather: 'stormy',
+        timeOfDay: 'night',
+        customParam: 'value'
+      });
 
-      const prompt = promptConstructor.constructChoicesPrompt(context, currentSegment, numChoices);
-      
-      expect(prompt).toContain('tone: mysterious');
-      expect(prompt).toContain('audience: young adult');
-      expect(prompt).toContain('Ensure choices are appropriate for young adult audience');
-      expect(prompt).toContain('Maintain mysterious tone in choice descriptions');
+      expect(prompt).toContain('Additional context:\nweather: stormy\ntimeOfDay: night\ncustomParam: value');
+    });
+  });
+
+  describe('buildStoryChoicesPrompt', () => {
+    it('should ask for the number of choices after the segment', () => {
+      const prompt = promptConstructor.buildStoryChoicesPrompt('The path forks.', { userId: 'user123', tone: 'whimsical' }, 3);
+
+      expect(prompt).toMatchObject({ id: 'story-choices', version: 1 });
+      expect(prompt.messages[0].content).toContain('Generate exactly 3 choices');
+      expect(prompt.messages[1].content).toContain('generate 3 interesting choices for the reader:\nThe path forks.');
+      expect(prompt.messages[1].content).toContain('tone: whimsical');
+      expect(prompt.messages[1].content).toContain('- Maintain a whimsical tone in the choice descriptions.');
     });
   });
-}); 
\ No newline at end of file
+
+  describe('buildStorySummaryPrompt', () => {
+    it('should give the summary so far and the new passages', () => {
+      const prompt = promptConstructor.buildStorySummaryPrompt('Mira left the village at dawn.', [
+        { role: 'user', content: 'I promise to bring it back', timestamp: new Date() },
+        { role: 'assistant', content: 'The ferryman nods.', timestamp: new Date() }
+      ], 200);
+
+      expect(prompt.messages[0].content).toContain('in at most 200 words');
+      expect(prompt.messages[1].content).toBe(
+        'Summary so far:\nMira left the village at dawn.\n\n' +
+        'New passages:\nReader: I promise to bring it back\nNarrator: The ferryman nods.'
+      );
+    });
+
+    it('should say when there is no summary yet', () => {
+      const prompt = promptConstructor.buildStorySummaryPrompt('', [], 200);
+
+      expect(prompt.messages[1].content).toContain('Summary so far:\n(none yet)\n\nNew passages:');
+    });
+  });
+
+  describe('buildStoryBiblePrompt', () => {
+    it('should give the bible so far and the new segment', () => {
+      const prompt = promptConstructor.buildStoryBiblePrompt(
+        { characters: [], items: [], locations: [], plotThreads: [] },
+        'The ferryman poled Mira across the ford.'
+      );
+
+      expect(prompt).toMatchObject({ id: 'story-bible', version: 1 });
+      expect(prompt.messages[1].content).toBe('Story bible so far:\n(empty)\n\nNew segment:\nThe ferryman poled Mira across the ford.');
+    });
+  });
+
+  describe('renderInstruction', () => {
+    it('should render an instruction with the template it came from', () => {
+      const instruction = promptConstructor.renderInstruction('story-continue', {
+        choice: 'Open the door',
+        previousSegment: 'A door stands before you.'
+      });
+
+      expect(instruction).toEqual({
+        text: 'Continue the story based on the choice: "Open the door".\nPrevious segment: "A door stands before you."',
+        template: { id: 'story-continue', version: 1 }
+      });
+    });
+
+    it('should use the template versions of the user\'s experiment variants', () => {
+      const templates = new PromptTemplateStore();
+      const render = jest.spyOn(templates, 'render');
+      const experiments = new ExperimentService({
+        experiments: [{ id: 'intro', variants: [{ name: 'pinned', promptVersions: { 'story-intro': 1 } }] }]
+      });
+      promptConstructor = new PromptConstructor(templates, experiments);
+
+      promptConstructor.renderInstruction('story-intro', {}, 'user123');
+      promptConstructor.renderInstruction('story-intro');
+
+      expect(render).toHaveBeenNthCalledWith(1, 'story-intro', {}, 1);
+      expect(render).toHaveBeenNthCalledWith(2, 'story-intro', {}, undefined);
+    });
+  });
+
+  it('should word the repair request from its template', () => {
+    expect(promptConstructor.buildRepairMessage('choices: Required')).toBe(
+      'That response could not be used: choices: Required. Reply again with ONLY the corrected JSON object, in the same format, with no other text.'
+    );
+  });
+
+  it('should format messages as a transcript', () => {
+    expect(formatConversation([
+      { role: 'user', content: 'Message 0', timestamp: new Date() },
+      { role: 'assistant', content: 'Message 1', timestamp: new Date() }
+    ])).toBe('Reader: Message 0\nNarrator: Message 1');
+  });
+});
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RetentionService } from '../RetentionService';
+import { InMemoryStateStorage } from '../persistence/InMemoryStateStorage';
+import { StoryStateService } from '../StoryStateService';
+import { STORY_STATE_SCHEMA_VERSION } from '../../models/StoryState';
+import { RetentionConfig } from '../../config/retention';
+
+describe('RetentionService', () => {
+  const now = new Date('2025-06-01T00:00:00.000Z');
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  let storage: InMemoryStateStorage;
+  let storyStateService: { isStateCached: jest.Mock };
+  let archiveDirectory: string;
+  let config: RetentionConfig;
+
+  const storyData = (updatedAt: string, messageTimestamps: string[] = []) => ({
+    schemaVersion: STORY_STATE_SCHEMA_VERSION,
+    currentSegmentId: 'intro',
+    segments: {},
+    choiceHistory: [],
+    contextualData: {},
+    readSegments: [],
+    conversationHistory: messageTimestamps.map(timestamp => ({ role: 'user', content: 'Hello', timestamp })),
+    isConversationalMode: true,
+    storyId: 'default',
+    title: 'My Story',
+    createdAt: updatedAt,
+    updatedAt,
+    abandonedBranches: []
+  });
+
+  const createService = () =>
+    new RetentionService(storage, storyStateService as unknown as StoryStateService, config);
+
+  beforeEach(() => {
+    storage = new InMemoryStateStorage();
+    storyStateService = { isStateCached: jest.fn().mockReturnValue(false) };
+    archiveDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'retention-test-'));
+    config = {
+      enabled: true,
+      storyMaxAgeDays: 90,
+      conversationMaxAgeDays: 30,
+      action: 'delete',
+      archiveDirectory,
+      intervalMs: 60000
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(archiveDirectory, { recursive: true, force: true });
+  });
+
+  it('should delete stories untouched for longer than the retention period', async () => {
+    await storage.saveState('user1', 'old', storyData(daysAgo(120)));
+    await storage.saveState('user1', 'recent', storyData(daysAgo(10)));
+
+    const report = await createService().run({ now });
+
+    expect(report.purged).toEqual([
+      { userId: 'user1', storyId: 'old', updatedAt: daysAgo(120), action: 'delete' }
+    ]);
+    expect(await storage.hasState('user1', 'old')).toBe(false);
+    expect(await storage.hasState('user1', 'recent')).toBe(true);
+  });
+
+  it('should archive stories to disk before deleting them', async () => {
+    config.action = 'archive';
+    await storage.saveState('user/1', 'old', storyData(daysAgo(120)));
+
+    await createService().run({ now });
+
+    const [archived] = fs.readdirSync(path.join(archiveDirectory, encodeURIComponent('user/1')));
+    const contents = JSON.parse(fs.readFileSync(path.join(archiveDirectory, encodeURIComponent('user/1'), archived), 'utf8'));
+    expect(archived).toMatch(/^old-.*\.json$/);
+    expect(contents).toEqual(expect.objectContaining({ userId: 'user/1', storyId: 'old' }));
+    expect(contents.state.updatedAt).toBe(daysAgo(120));
+    expect(await storage.hasState('user/1', 'old')).toBe(false);
+  });
+
+  it('should trim conversation messages older than the configured age', async () => {
+    await storage.saveState('user1', 'default', storyData(daysAgo(1), [daysAgo(45), daysAgo(31), daysAgo(2)]));
+
+    const report = await createService().run({ now });
+
+    expect(report.trimmed).toEqual([{ userId: 'user1', storyId: 'default', removedMessages: 2 }]);
+    const stored = await storage.loadState('user1', 'default');
+    expect(stored!.conversationHistory.map((message: any) => message.timestamp)).toEqual([daysAgo(2)]);
+  });
+
+  it('should only report what it would do in a dry run', async () => {
+    await storage.saveState('user1', 'old', storyData(daysAgo(120)));
+    await storage.saveState('user1', 'chatty', storyData(daysAgo(1), [daysAgo(45)]));
+
+    const report = await createService().run({ dryRun: true, now });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.purged.map(purge => purge.storyId)).toEqual(['old']);
+    expect(report.trimmed.map(trim => trim.storyId)).toEqual(['chatty']);
+    expect(await storage.hasState('user1', 'old')).toBe(true);
+    expect((await storage.loadState('user1', 'chatty'))!.conversationHistory).toHaveLength(1);
+  });
+
+  it('should leave stories that are loaded in memory alone', async () => {
+    storyStateService.isStateCached.mockReturnValue(true);
+    await storage.saveState('user1', 'old', storyData(daysAgo(120)));
+
+    const report = await createService().run({ now });
+
+    expect(report.skipped).toBe(1);
+    expect(report.purged).toEqual([]);
+    expect(await storage.hasState('user1', 'old')).toBe(true);
+  });
+
+  it('should keep everything when the retention periods are zero', async () => {
+    config.storyMaxAgeDays = 0;
+    config.conversationMaxAgeDays = 0;
+    await storage.saveState('user1', 'old', storyData(daysAgo(1000), [daysAgo(1000)]));
+
+    const report = await createService().run({ now });
+
+    expect(report.storyCutoff).toBeNull();
+    expect(report.purged).toEqual([]);
+    expect(report.trimmed).toEqual([]);
+  });
+});
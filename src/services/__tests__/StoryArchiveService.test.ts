@@ -0,0 +1,136 @@
+import { StoryArchiveService, StoryArchive } from '../StoryArchiveService';
+import { StoryArchiveError } from '../StoryArchiveError';
+import { StoryStateService } from '../StoryStateService';
+import { PersonalizationManager } from '../PersonalizationManager';
+import { IllustrationService } from '../IllustrationService';
+import { GPTClient } from '../GPTClient';
+import { InMemoryStateStorage } from '../persistence/InMemoryStateStorage';
+import { StoryState, STORY_STATE_SCHEMA_VERSION } from '../../models/StoryState';
+
+jest.mock('../GPTClient');
+
+describe('StoryArchiveService', () => {
+  const config = { secret: 'test-secret', usingDefaultSecret: false };
+  let storyStateService: StoryStateService;
+  let personalizationManager: PersonalizationManager;
+  let illustrationService: IllustrationService;
+  let archiveService: StoryArchiveService;
+  
+  beforeEach(async () => {
+    personalizationManager = new PersonalizationManager();
+    storyStateService = new StoryStateService(
+      GPTClient.fromApiKey('test-key'),
+      new InMemoryStateStorage(),
+      personalizationManager
+    );
+    illustrationService = {
+      getIllustrationsForSegment: jest.fn((segmentId: string) =>
+        segmentId === 'intro' ? [{ id: 'forest-1' }, { id: 'forest-2' }] : []
+      ),
+      getIllustrationById: jest.fn((id: string) => id === 'forest-1' ? { id } : null)
+    } as unknown as IllustrationService;
+    archiveService = new StoryArchiveService(storyStateService, personalizationManager, illustrationService, config);
+    
+    const storyState = new StoryState('old-device');
+    storyState.title = 'The Dragon Saga';
+    storyState.addSegment({ id: 'intro', content: 'A fork in the road', choices: [
+      { id: 'left', text: 'Go left', nextSegmentId: 'forest' }
+    ] });
+    storyState.addSegment({ id: 'forest', content: 'Tall trees', choices: [] });
+    storyState.makeChoice('left');
+    storyStateService.storeState('old-device', storyState);
+    await storyStateService.saveStoryState('old-device');
+    await personalizationManager.updateUserPreferences('old-device', { genre: 'fantasy' });
+  });
+  
+  const resign = (archive: StoryArchive): StoryArchive => {
+    const { signature, ...unsigned } = archive;
+    return { ...unsigned, signature: (archiveService as any).sign(unsigned) } as StoryArchive;
+  };
+  
+  it('should export the active story with preferences and illustration IDs', async () => {
+    const archive = await archiveService.exportStory('old-device');
+    
+    expect(archive.schemaVersion).toBe(STORY_STATE_SCHEMA_VERSION);
+    expect(archive.story.title).toBe('The Dragon Saga');
+    expect(archive.preferences.genre).toBe('fantasy');
+    expect(archive.illustrations).toEqual({ intro: ['forest-1', 'forest-2'] });
+    expect(archive.signature).toMatch(/^[0-9a-f]{64}$/);
+  });
+  
+  it('should install an archive as a new active story for another user', async () => {
+    const archive = await archiveService.exportStory('old-device');
+    
+    const { storyState, missingIllustrationIds } = await archiveService.importStory('new-device', archive);
+    
+    expect(storyState.userId).toBe('new-device');
+    expect(storyState.currentSegmentId).toBe('forest');
+    expect(storyState.choiceHistory[0].timestamp).toBeInstanceOf(Date);
+    expect(missingIllustrationIds).toEqual(['forest-2']);
+    await expect(storyStateService.getActiveStoryId('new-device')).resolves.toBe(storyState.storyId);
+    expect((await personalizationManager.getUserPreferences('new-device')).genre).toBe('fantasy');
+  });
+  
+  it('should accept archives whose keys were reordered in transit', async () => {
+    const archive = await archiveService.exportStory('old-device');
+    const reverseKeys = (value: any): any => {
+      if (Array.isArray(value)) return value.map(reverseKeys);
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.keys(value).reverse().map(key => [key, reverseKeys(value[key])]));
+      }
+      return value;
+    };
+    const reordered = reverseKeys(archive);
+    
+    await expect(archiveService.importStory('new-device', reordered)).resolves.toBeDefined();
+  });
+  
+  it('should reject tampered archives', async () => {
+    const archive = await archiveService.exportStory('old-device');
+    archive.story.segments.forest.content = 'A treasure chest full of gold';
+    
+    await expect(archiveService.importStory('new-device', archive))
+      .rejects.toMatchObject({ reason: 'tampered' });
+  });
+  
+  it('should reject archives signed with another key', async () => {
+    const otherServer = new StoryArchiveService(storyStateService, personalizationManager, illustrationService, {
+      secret: 'other-secret',
+      usingDefaultSecret: false
+    });
+    const archive = await otherServer.exportStory('old-device');
+    
+    await expect(archiveService.importStory('new-device', archive))
+      .rejects.toMatchObject({ reason: 'tampered' });
+  });
+  
+  it('should refuse to export or import without a secret', async () => {
+    const archive = await archiveService.exportStory('old-device');
+    const unconfigured = new StoryArchiveService(storyStateService, personalizationManager, illustrationService, {
+      usingDefaultSecret: false
+    });
+    
+    await expect(unconfigured.exportStory('old-device')).rejects.toMatchObject({ reason: 'disabled' });
+    await expect(unconfigured.importStory('new-device', archive)).rejects.toMatchObject({ reason: 'disabled' });
+  });
+  
+  it('should reject archives from a newer schema or format', async () => {
+    const archive = await archiveService.exportStory('old-device');
+    
+    await expect(archiveService.importStory('new-device', { ...archive, formatVersion: 2 }))
+      .rejects.toMatchObject({ reason: 'incompatible' });
+    await expect(archiveService.importStory('new-device', resign({
+      ...archive,
+      story: { ...archive.story, schemaVersion: STORY_STATE_SCHEMA_VERSION + 1 }
+    }))).rejects.toMatchObject({ reason: 'incompatible' });
+  });
+  
+  it('should reject payloads that are not story archives', async () => {
+    await expect(archiveService.importStory('new-device', { hello: 'world' }))
+      .rejects.toBeInstanceOf(StoryArchiveError);
+    
+    const archive = await archiveService.exportStory('old-device');
+    await expect(archiveService.importStory('new-device', resign({ ...archive, story: null as any })))
+      .rejects.toMatchObject({ reason: 'invalid' });
+  });
+});
@@ -0,0 +1,102 @@
+import { StoryGraphExporter } from '../StoryGraphExporter';
+import { StoryState } from '../../models/StoryState';
+
+describe('StoryGraphExporter', () => {
+  let exporter: StoryGraphExporter;
+  let storyState: StoryState;
+  
+  beforeEach(() => {
+    exporter = new StoryGraphExporter();
+    
+    storyState = new StoryState('user123');
+    storyState.addSegment({ id: 'intro', content: 'You stand at a "fork" in the road', choices: [
+      { id: 'left', text: 'Go left', nextSegmentId: 'forest' },
+      { id: 'right', text: 'Go right', nextSegmentId: 'river' }
+    ] });
+    storyState.addSegment({ id: 'forest', content: 'Two doors loom ahead', choices: [
+      { id: 'red', text: 'Red door', nextSegmentId: 'dragon' },
+      { id: 'blue', text: 'Blue door', nextSegmentId: 'castle' }
+    ] });
+    storyState.addSegment({ id: 'dragon', content: 'A dragon!', choices: [] });
+    storyState.makeChoice('left');
+    storyState.makeChoice('red');
+    storyState.markSegmentAsRead('dragon');
+  });
+  
+  describe('buildGraph', () => {
+    it('should include explored segments and unexplored choice targets', () => {
+      const graph = exporter.buildGraph(storyState);
+      
+      expect(graph.nodes.map(node => node.id).sort()).toEqual(['castle', 'dragon', 'forest', 'intro', 'river']);
+      expect(graph.nodes.find(node => node.id === 'river')?.generated).toBe(false);
+      expect(graph.edges).toHaveLength(4);
+    });
+    
+    it('should mark read segments and the path taken', () => {
+      const graph = exporter.buildGraph(storyState);
+      const node = (id: string) => graph.nodes.find(n => n.id === id)!;
+      
+      expect(graph.path).toEqual(['intro', 'forest', 'dragon']);
+      expect(node('forest').read).toBe(true);
+      expect(node('castle').read).toBe(false);
+      expect(node('dragon').current).toBe(true);
+      expect(graph.edges.filter(edge => edge.taken).map(edge => edge.choiceId)).toEqual(['left', 'red']);
+    });
+    
+    it('should mark choices undone by a rewind as abandoned', () => {
+      storyState.rewindTo('forest');
+      
+      const graph = exporter.buildGraph(storyState);
+      const red = graph.edges.find(edge => edge.choiceId === 'red')!;
+      
+      expect(red.taken).toBe(false);
+      expect(red.abandoned).toBe(true);
+      expect(graph.path).toEqual(['intro', 'forest']);
+    });
+    
+    it('should link conversational exchanges in order', () => {
+      const conversation = new StoryState('user123');
+      conversation.addSegment({ id: 'conv_intro', content: 'Once upon a time', choices: [] });
+      conversation.addSegment({ id: 'conv_1', content: 'The door opens', choices: [] });
+      conversation.addConversationMessage('assistant', 'Once upon a time', 'conv_intro');
+      conversation.addConversationMessage('user', 'Open the door');
+      conversation.addConversationMessage('assistant', 'The door opens', 'conv_1');
+      conversation.currentSegmentId = 'conv_1';
+      
+      const graph = exporter.buildGraph(conversation);
+      
+      expect(graph.edges).toEqual([
+        { from: 'conv_intro', to: 'conv_1', label: '', taken: true, abandoned: false }
+      ]);
+    });
+  });
+  
+  describe('render', () => {
+    it('should render Graphviz DOT with escaped labels', () => {
+      const dot = exporter.render(exporter.buildGraph(storyState), 'dot');
+      
+      expect(dot).toMatch(/^digraph story \{/);
+      expect(dot).toContain('"intro" [label="You stand at a \\"fork\\" in the road", fillcolor="#d4edda"]');
+      expect(dot).toContain('"intro" -> "forest" [label="Go left", penwidth=3]');
+      expect(dot).toContain('"forest" -> "castle" [label="Blue door", style=dashed]');
+    });
+    
+    it('should render a Mermaid flowchart', () => {
+      const mermaid = exporter.render(exporter.buildGraph(storyState), 'mermaid');
+      
+      expect(mermaid).toMatch(/^flowchart TD/);
+      expect(mermaid).toContain('n0["You stand at a #quot;fork#quot; in the road"]');
+      expect(mermaid).toContain('n0 ==>|"Go left"| n1');
+      expect(mermaid).toContain('n0 -.->|"Go right"| n2');
+      expect(mermaid).toContain('class n3 current');
+    });
+    
+    it('should keep Mermaid edge labels on one line', () => {
+      storyState.segments.intro.choices[1].text = 'Follow the\n  "river"  downstream';
+      
+      const mermaid = exporter.render(exporter.buildGraph(storyState), 'mermaid');
+      
+      expect(mermaid).toContain('n0 -.->|"Follow the #quot;river#quot; downstream"| n2');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { StoryMemory } from '../StoryMemory';
+import { StoryState } from '../../models/StoryState';
+import { StoryMemoryConfig } from '../../config/memory';
+import { LLMClient } from '../llm/LLMClient';
+import { countTextTokens } from '../llm/tokenCounter';
+
+describe('StoryMemory', () => {
+  const config: StoryMemoryConfig = {
+    bibleExtraction: true,
+    contextTokenBudget: 200,
+    recentMessages: 2,
+    summarizeBatchMessages: 3,
+    summaryMaxWords: 100
+  };
+  let llmClient: jest.Mocked<Pick<LLMClient, 'summarizeStory'>>;
+  let storyMemory: StoryMemory;
+
+  const buildConversation = (count: number) => {
+    const storyState = new StoryState('user123');
+    for (let i = 0; i < count; i++) {
+      storyState.conversationHistory.push({
+        role: i % 2 === 0 ? 'user' : 'assistant',
+        content: `Message ${i}`,
+        timestamp: new Date(Date.UTC(2024, 0, 1, 0, i))
+      });
+    }
+    return storyState;
+  };
+
+  beforeEach(() => {
+    llmClient = {
+      summarizeStory: jest.fn().mockResolvedValue({ summary: 'The reader set out at dawn.' })
+    };
+    storyMemory = new StoryMemory(llmClient as unknown as LLMClient, config);
+  });
+
+  describe('update', () => {
+    it('should wait until enough older messages have built up', async () => {
+      const storyState = buildConversation(4);
+
+      await expect(storyMemory.update(storyState)).resolves.toBe(false);
+      expect(llmClient.summarizeStory).not.toHaveBeenCalled();
+    });
+
+    it('should fold messages older than the recent window into the memory', async () => {
+      const storyState = buildConversation(5);
+
+      await expect(storyMemory.update(storyState, 'gemini')).resolves.toBe(true);
+
+      expect(llmClient.summarizeStory).toHaveBeenCalledWith({
+        memory: { summary: '' },
+        messages: storyState.conversationHistory.slice(0, 3),
+        summaryMaxWords: 100,
+        context: { userId: 'user123' },
+        provider: 'gemini'
+      });
+      expect(storyState.memory).toEqual({
+        summary: 'The reader set out at dawn.',
+        summarizedThrough: storyState.conversationHistory[2].timestamp,
+        summarizedThroughCount: 1
+      });
+    });
+
+    it('should only summarize messages the summary does not cover yet', async () => {
+      const storyState = buildConversation(5);
+      await storyMemory.update(storyState);
+      storyState.conversationHistory.push(...buildConversation(8).conversationHistory.slice(5));
+
+      await expect(storyMemory.update(storyState)).resolves.toBe(true);
+
+      expect(llmClient.summarizeStory.mock.calls[1][0].memory.summary).toBe('The reader set out at dawn.');
+      expect(llmClient.summarizeStory.mock.calls[1][0].messages.map(message => message.content))
+        .toEqual(['Message 3', 'Message 4', 'Message 5']);
+    });
+
+    it('should keep messages sharing a millisecond with the last summarized one', async () => {
+      const storyState = buildConversation(5);
+      // A reply that landed in the same millisecond as the message before it
+      storyState.conversationHistory[3].timestamp = storyState.conversationHistory[2].timestamp;
+      await storyMemory.update(storyState);
+
+      expect(storyState.memory.summarizedThroughCount).toBe(1);
+      expect(storyMemory.buildContext(storyState).recentConversation).toBe('Narrator: Message 3\nReader: Message 4');
+
+      storyState.conversationHistory.push(...buildConversation(8).conversationHistory.slice(5));
+      await storyMemory.update(storyState);
+
+      expect(llmClient.summarizeStory.mock.calls[1][0].messages.map(message => message.content))
+        .toEqual(['Message 3', 'Message 4', 'Message 5']);
+      expect(storyMemory.buildContext(storyState).recentConversation).toBe('Reader: Message 6\nNarrator: Message 7');
+    });
+
+    it('should keep the memory as it was when summarizing fails', async () => {
+      llmClient.summarizeStory.mockRejectedValue(new Error('GPT API request failed: Service unavailable'));
+      const storyState = buildConversation(5);
+
+      await expect(storyMemory.update(storyState)).resolves.toBe(false);
+      expect(storyState.memory.summarizedThrough).toBeNull();
+    });
+  });
+
+  describe('buildContext', () => {
+    it('should quote every message while the story is short', () => {
+      const storyState = buildConversation(3);
+
+      const context = storyMemory.buildContext(storyState);
+
+      expect(context.recentConversation).toBe('Reader: Message 0\nNarrator: Message 1\nReader: Message 2');
+      expect(context.storySummary).toBeUndefined();
+      expect(context.keyFacts).toBeUndefined();
+    });
+
+    it('should give the summary and the story bible with the messages after them', async () => {
+      const storyState = buildConversation(5);
+      storyState.bible.characters.push({ name: 'Mira', description: 'A cartographer' });
+      await storyMemory.update(storyState);
+
+      const context = storyMemory.buildContext(storyState);
+
+      expect(context).toEqual({
+        storySummary: 'The reader set out at dawn.',
+        keyFacts: 'Characters:\n- Mira: A cartographer',
+        recentConversation: 'Narrator: Message 3\nReader: Message 4',
+        tokens: expect.any(Number)
+      });
+    });
+
+    it('should leave out bible entries that do not fit', () => {
+      const storyState = new StoryState('user123');
+      for (let i = 0; i < 40; i++) {
+        storyState.bible.items.push({ name: `Trinket ${i}`, description: 'A small and unremarkable brass trinket found on the road' });
+      }
+      storyState.bible.characters.push({ name: 'Mira', description: 'A cartographer' });
+
+      const context = storyMemory.buildContext(storyState);
+
+      expect(context.tokens).toBeLessThanOrEqual(config.contextTokenBudget);
+      expect(context.keyFacts).toMatch(/^Characters:\n- Mira: A cartographer\nItems:\n- Trinket 0:/);
+      expect(context.keyFacts).not.toContain('Trinket 39');
+    });
+
+    it('should stay within the token budget, dropping the oldest messages first', () => {
+      const storyState = new StoryState('user123');
+      for (let i = 0; i < 30; i++) {
+        storyState.addConversationMessage('assistant', `Passage ${i}: the road winds on through the hills and the river runs beside it.`);
+      }
+      storyState.memory.summary = 'A long journey.';
+
+      const context = storyMemory.buildContext(storyState);
+
+      expect(context.tokens).toBeLessThanOrEqual(config.contextTokenBudget);
+      expect(context.storySummary).toBe('A long journey.');
+      expect(context.recentConversation).toContain('Passage 29:');
+      expect(context.recentConversation).not.toContain('Passage 0:');
+      expect(context.tokens).toBe(
+        countTextTokens('A long journey.') +
+        context.recentConversation!.split('\n').reduce((total, line) => total + countTextTokens(line), 0)
+      );
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { StoryStateCache } from '../StoryStateCache';
+import { StoryState } from '../../models/StoryState';
+
+describe('StoryStateCache', () => {
+  const config = { maxEntries: 2, idleTimeoutMs: 1000, sweepIntervalMs: 1000 };
+  let flush: jest.Mock;
+  let onEvicted: jest.Mock;
+  let cache: StoryStateCache;
+
+  const makeState = (userId: string) => {
+    const storyState = new StoryState(userId);
+    storyState.addSegment({ id: 'intro', content: 'Once upon a time', choices: [] });
+    return storyState;
+  };
+
+  beforeEach(() => {
+    flush = jest.fn().mockResolvedValue(undefined);
+    onEvicted = jest.fn();
+    cache = new StoryStateCache(flush, config, onEvicted);
+  });
+
+  afterEach(() => {
+    cache.stopSweep();
+  });
+
+  it('should count hits and misses', () => {
+    const storyState = makeState('user1');
+    cache.set('user1/default', 'user1', 'default', storyState, true);
+
+    expect(cache.get('user1/default')).toBe(storyState);
+    expect(cache.get('user2/default')).toBeUndefined();
+    expect(cache.peek('user1/default')).toBe(storyState);
+
+    expect(cache.getStats()).toEqual(expect.objectContaining({ size: 1, hits: 1, misses: 1, hitRate: 0.5 }));
+  });
+
+  it('should evict the least recently used state once over capacity', async () => {
+    cache.set('user1/default', 'user1', 'default', makeState('user1'), true);
+    cache.set('user2/default', 'user2', 'default', makeState('user2'), true);
+    cache.get('user1/default');
+    cache.set('user3/default', 'user3', 'default', makeState('user3'), true);
+
+    await cache.evict();
+
+    expect(cache.keys().sort()).toEqual(['user1/default', 'user3/default']);
+    expect(onEvicted).toHaveBeenCalledWith('user2', 'default');
+    expect(flush).not.toHaveBeenCalled();
+  });
+
+  it('should evict idle states', async () => {
+    cache.set('user1/default', 'user1', 'default', makeState('user1'), true);
+
+    expect(await cache.evict(Date.now() + 500)).toBe(0);
+    expect(await cache.evict(Date.now() + 1000)).toBe(1);
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it('should flush states with unsaved changes before evicting them', async () => {
+    const saved = makeState('user1');
+    const changed = makeState('user2');
+    cache.set('user1/default', 'user1', 'default', saved, true);
+    cache.set('user2/default', 'user2', 'default', changed, true);
+    changed.updateContextualData({ mood: 'brave' });
+
+    await cache.evict(Date.now() + 1000);
+
+    expect(flush).toHaveBeenCalledTimes(1);
+    expect(flush).toHaveBeenCalledWith('user2', 'default', changed);
+    expect(cache.keys()).toEqual([]);
+    expect(cache.getStats()).toEqual(expect.objectContaining({ evictions: 2, flushes: 1 }));
+  });
+
+  it('should treat states saved with markClean as clean', async () => {
+    const storyState = makeState('user1');
+    cache.set('user1/default', 'user1', 'default', storyState);
+    cache.markClean('user1/default');
+
+    await cache.evict(Date.now() + 1000);
+
+    expect(flush).not.toHaveBeenCalled();
+  });
+
+  it('should keep a state whose flush fails', async () => {
+    flush.mockRejectedValue(new Error('disk full'));
+    cache.set('user1/default', 'user1', 'default', makeState('user1'));
+
+    await cache.evict(Date.now() + 1000);
+
+    expect(cache.has('user1/default')).toBe(true);
+    expect(cache.getStats()).toEqual(expect.objectContaining({ evictions: 0, flushFailures: 1 }));
+    expect(onEvicted).not.toHaveBeenCalled();
+  });
+
+  it('should keep a state that is used while it is being flushed', async () => {
+    let finishFlush: () => void = () => undefined;
+    flush.mockReturnValue(new Promise<void>(resolve => { finishFlush = resolve; }));
+    cache.set('user1/default', 'user1', 'default', makeState('user1'));
+
+    const eviction = cache.evict(Date.now() + 1000);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    cache.get('user1/default');
+    finishFlush();
+
+    expect(await eviction).toBe(0);
+    expect(cache.has('user1/default')).toBe(true);
+  });
+});
@@ -1,10 +1,18 @@
 import { StoryStateService } from '../StoryStateService';
-import { StoryState, StorySegment } from '../../models/StoryState';
+import { StoryState, StorySegment, STORY_STATE_SCHEMA_VERSION } from '../../models/StoryState';
 import { StoryTemplate } from '../../models/StoryTemplate';
 import { GPTClient } from '../GPTClient';
 import { InMemoryStateStorage } from '../persistence/InMemoryStateStorage';
 import { StateStorageInterface } from '../persistence/StateStorageInterface';
+import { StateVersionConflictError } from '../persistence/StateVersionConflictError';
+import { StorySlotNotFoundError } from '../StorySlotNotFoundError';
+import { InvalidRewindTargetError } from '../InvalidRewindTargetError';
 import { PersonalizationManager } from '../PersonalizationManager';
+import { LLMCircuitOpenError, LLMProviderError } from '../llm/LLMProviderError';
+import { storyMonitoring } from '../../utils/storyMonitoring';
+import { UsageBudgetExceededError } from '../UsageBudgetExceededError';
+import { StoryTemplateStore } from '../templates';
+import { migrateStoredStates } from '../persistence/migrateStoredStates';
 
 // Mock dependencies
 jest.mock('../GPTClient');
@@ -17,15 +25,30 @@ describe('StoryStateService', () => {
   let mockGptClient: jest.Mocked<GPTClient>;
   let mockStateStorage: jest.Mocked<StateStorageInterface>;
   let personalizationManager: PersonalizationManager;
+  // The current version of each template, all at version 1
+  let templates: Record<string, StoryTemplate>;
+  let templateStore: jest.Mocked<StoryTemplateStore>;
   
   beforeEach(() => {
     // Reset all mocks
     jest.clearAllMocks();
     
+    templateStore = {
+      getCurrentTemplates: jest.fn(() => Object.values(templates).map(template => ({ version: 1, schema: {}, template }))),
+      find: jest.fn((id: string, version?: number) =>
+        templates[id] && (version === undefined || version === 1) ? { version: 1, schema: {}, template: templates[id] } : undefined)
+    } as unknown as jest.Mocked<StoryTemplateStore>;
+    
     // Set up mock GPT client
     mockGptClient = {
       generateStorySegment: jest.fn(),
       generateStoryChoices: jest.fn(),
+      generateStorySegmentWithChoices: jest.fn(),
+      // Two-call generation unless a test opts in
+      supportsCombinedGeneration: jest.fn().mockReturnValue(false),
+      extractStoryBible: jest.fn().mockResolvedValue({
+        characters: [], items: [], locations: [], plotThreads: [], resolvedPlotThreads: []
+      }),
     } as unknown as jest.Mocked<GPTClient>;
     
     // Set up mock state storage
@@ -33,18 +56,24 @@ describe('StoryStateService', () => {
       saveState: jest.fn().mockResolvedValue(undefined),
       loadState: jest.fn().mockResolvedValue(null),
       hasState: jest.fn().mockResolvedValue(false),
-      deleteState: jest.fn().mockResolvedValue(undefined)
+      deleteState: jest.fn().mockResolvedValue(undefined),
+      listStoryIds: jest.fn().mockResolvedValue([])
     } as unknown as jest.Mocked<StateStorageInterface>;
     
     personalizationManager = new PersonalizationManager();
     
     // Create service instance with mocked dependencies
-    storyStateService = new StoryStateService(mockGptClient, mockStateStorage, personalizationManager);
+    storyStateService = new StoryStateService(mockGptClient, mockStateStorage, personalizationManager, { templateStore });
     
-    // Mock template loading to return no templates
-    storyStateService['storyTemplates'] = {};
+    // No templates unless a test adds them
+    templates = {};
   });
   
+  // Put a state straight into the service's in-memory cache
+  const cacheState = (userId: string, storyId: string, storyState: StoryState) => {
+    storyStateService['storyStates'].set(`${userId}/${storyId}`, userId, storyId, storyState);
+  };
+  
   describe('getOrCreateStoryState', () => {
     it('should return existing story state if found in memory', async () => {
       const userId = 'user123';
@@ -54,9 +83,8 @@ describe('StoryStateService', () => {
       (StoryState as jest.MockedClass<typeof StoryState>).mockClear();
       
       // Mock the internal state map
-      (storyStateService as any).storyStates = {
-        [userId]: mockStoryState
-      };
+      cacheState(userId, 'default', mockStoryState);
+      (storyStateService as any).activeStoryIds = { [userId]: 'default' };
       
       const result = await storyStateService.getOrCreateStoryState(userId);
       
@@ -90,12 +118,78 @@ describe('StoryStateService', () => {
       const result = await storyStateService.getOrCreateStoryState(userId);
       
       expect(result).toBe(mockStoryState);
-      expect(mockStateStorage.hasState).toHaveBeenCalledWith(userId);
-      expect(mockStateStorage.loadState).toHaveBeenCalledWith(userId);
-      expect(StoryState.fromJSON).toHaveBeenCalledWith(storedStateData);
+      expect(mockStateStorage.hasState).toHaveBeenCalledWith(userId, 'default');
+      expect(mockStateStorage.loadState).toHaveBeenCalledWith(userId, 'default');
+      expect(StoryState.fromJSON).toHaveBeenCalledWith(expect.objectContaining(storedStateData));
       expect(StoryState).not.toHaveBeenCalled(); // Constructor should not be called
     });
     
+    it('should upgrade stored state from older schema versions before loading it', async () => {
+      const userId = 'user123';
+      mockStateStorage.hasState.mockResolvedValue(true);
+      mockStateStorage.loadState.mockResolvedValue({ userId, currentSegmentId: 'intro', segments: {} });
+      (StoryState.fromJSON as jest.Mock).mockReturnValue(new StoryState(userId));
+      
+      await storyStateService.getOrCreateStoryState(userId);
+      
+      expect(StoryState.fromJSON).toHaveBeenCalledWith(expect.objectContaining({
+        schemaVersion: STORY_STATE_SCHEMA_VERSION,
+        storyId: 'default',
+        choiceHistory: [],
+        abandonedBranches: []
+      }));
+    });
+    
+    it('should work out the template of stories saved before it was recorded', async () => {
+      const userId = 'user123';
+      const template = new StoryTemplate({} as any);
+      template.id = 'adventure';
+      template.segmentTemplates = {
+        intro: { id: 'intro', template: 'Once upon a time', choices: [{ id: 'follow_light', text: 'Follow', nextSegmentId: 'forest_interior' }] }
+      };
+      templates = { adventure: template };
+      const storyState = new StoryState(userId);
+      storyState.segments = { intro: { id: 'intro', content: 'Once upon a time', choices: [{ id: 'follow_light', text: 'Follow', nextSegmentId: 'forest_interior' }] } };
+      mockStateStorage.hasState.mockResolvedValue(true);
+      mockStateStorage.loadState.mockResolvedValue({ userId, schemaVersion: 5, currentSegmentId: 'intro', segments: storyState.segments });
+      (StoryState.fromJSON as jest.Mock).mockReturnValue(storyState);
+      
+      await storyStateService.getOrCreateStoryState(userId);
+      
+      expect(storyState.templateId).toBe('adventure');
+    });
+    
+    it('should still work out the template of stories the offline migrator upgraded', async () => {
+      const userId = 'user123';
+      const template = new StoryTemplate({} as any);
+      template.id = 'adventure';
+      template.segmentTemplates = {
+        intro: { id: 'intro', template: 'Once upon a time', choices: [{ id: 'follow_light', text: 'Follow', nextSegmentId: 'forest_interior' }] }
+      };
+      templates = { adventure: template };
+      const segments = { intro: { id: 'intro', content: 'Once upon a time', choices: [{ id: 'follow_light', text: 'Follow', nextSegmentId: 'forest_interior' }] } };
+      const { InMemoryStateStorage: Storage } = jest.requireActual('../persistence/InMemoryStateStorage');
+      const storage: StateStorageInterface = new Storage();
+      await storage.saveState(userId, 'default', { userId, schemaVersion: 5, currentSegmentId: 'intro', segments });
+      
+      await migrateStoredStates(storage);
+      
+      const migrated = await storage.loadState(userId, 'default');
+      expect(migrated?.schemaVersion).toBe(STORY_STATE_SCHEMA_VERSION);
+      expect(migrated).not.toHaveProperty('templateId');
+      
+      const storyState = new StoryState(userId);
+      storyState.segments = segments;
+      (StoryState.fromJSON as jest.Mock).mockReturnValue(storyState);
+      const service = new StoryStateService(mockGptClient, storage, personalizationManager, { templateStore });
+      
+      await service.getOrCreateStoryState(userId, 'default');
+      
+      expect(StoryState.fromJSON).toHaveBeenCalledWith(expect.objectContaining({ schemaVersion: STORY_STATE_SCHEMA_VERSION }));
+      expect(storyState.templateId).toBe('adventure');
+      expect(storyState.templateVersion).toBe(1);
+    });
+    
     it('should create a new story state if not found anywhere', async () => {
       const userId = 'user123';
       const mockStoryState = new StoryState(userId);
@@ -122,11 +216,28 @@ describe('StoryStateService', () => {
       const result = await storyStateService.getOrCreateStoryState(userId);
       
       expect(result).toBe(mockStoryState);
-      expect(mockStateStorage.hasState).toHaveBeenCalledWith(userId);
+      expect(mockStateStorage.hasState).toHaveBeenCalledWith(userId, 'default');
       expect(StoryState).toHaveBeenCalledWith(userId);
-      expect(storyStateService.generateInitialStorySegment).toHaveBeenCalledWith(userId);
+      expect(storyStateService.generateInitialStorySegment).toHaveBeenCalledWith(userId, 'default', undefined);
       expect(mockStoryState.addSegment).toHaveBeenCalled();
-      expect(storyStateService.saveStoryState).toHaveBeenCalledWith(userId);
+      expect(storyStateService.saveStoryState).toHaveBeenCalledWith(userId, 'default');
+      expect(mockStoryState.templateId).toBeNull();
+    });
+    
+    it('should remember the template a new story starts from', async () => {
+      const userId = 'user123';
+      const template = new StoryTemplate({} as any);
+      template.id = 'adventure';
+      templates = { adventure: template };
+      const mockStoryState = new StoryState(userId);
+      (StoryState as jest.MockedClass<typeof StoryState>).mockImplementation(() => mockStoryState);
+      jest.spyOn(storyStateService, 'generateInitialStorySegment').mockResolvedValue({ id: 'intro', content: 'Once upon a time', choices: [] });
+      jest.spyOn(storyStateService, 'saveStoryState').mockResolvedValue();
+      
+      await storyStateService.getOrCreateStoryState(userId);
+      
+      expect(mockStoryState.templateId).toBe('adventure');
+      expect(mockStoryState.templateVersion).toBe(1);
     });
   });
   
@@ -143,12 +254,13 @@ describe('StoryStateService', () => {
       // Set up mocks
       jest.spyOn(storyStateService as any, 'getTemplateForUser').mockReturnValue(mockTemplate);
       mockTemplate.generateSegment = jest.fn().mockReturnValue(mockSegment);
+      mockTemplate.getInitialStoryVariables = jest.fn().mockReturnValue({ inventory: [] });
       
       const result = await storyStateService.generateInitialStorySegment(userId);
       
       expect(result).toEqual(mockSegment);
-      expect((storyStateService as any).getTemplateForUser).toHaveBeenCalledWith(userId);
-      expect(mockTemplate.generateSegment).toHaveBeenCalledWith('intro', expect.any(Object));
+      expect((storyStateService as any).getTemplateForUser).toHaveBeenCalledWith(userId, 'default');
+      expect(mockTemplate.generateSegment).toHaveBeenCalledWith('intro', expect.any(Object), { inventory: [] });
     });
     
     it('should generate an initial story segment using GPT if no template', async () => {
@@ -171,6 +283,84 @@ describe('StoryStateService', () => {
       expect(mockGptClient.generateStoryChoices).toHaveBeenCalled();
     });
     
+    it('should serve a fallback segment while the LLM circuit is open', async () => {
+      const userId = 'user123';
+      jest.spyOn(storyStateService as any, 'getTemplateForUser').mockReturnValue(null);
+      mockGptClient.generateStorySegment.mockRejectedValue(new LLMCircuitOpenError('openai', new Date()));
+      const fallbackTemplate = {
+        generateSegment: jest.fn().mockReturnValue({
+          id: 'intro',
+          content: 'The storyteller pauses to gather their thoughts.',
+          choices: [{ id: 'set_out', text: 'Set out', nextSegmentId: 'interlude' }]
+        })
+      };
+      storyStateService['fallbackTemplate'] = fallbackTemplate as unknown as StoryTemplate;
+      
+      const result = await storyStateService.generateInitialStorySegment(userId);
+      
+      expect(fallbackTemplate.generateSegment).toHaveBeenCalledWith('intro', expect.any(Object));
+      expect(result).toEqual({
+        id: 'intro',
+        content: 'The storyteller pauses to gather their thoughts.',
+        choices: [{ id: 'set_out', text: 'Set out', nextSegmentId: 'intro_interlude' }]
+      });
+      expect(mockGptClient.generateStoryChoices).not.toHaveBeenCalled();
+    });
+    
+    it('should serve a fallback segment once the user is over budget', async () => {
+      jest.spyOn(storyStateService as any, 'getTemplateForUser').mockReturnValue(null);
+      mockGptClient.generateStorySegment.mockRejectedValue(
+        new UsageBudgetExceededError('user123', 'daily', 'tokens', new Date())
+      );
+      storyStateService['fallbackTemplate'] = {
+        generateSegment: jest.fn().mockReturnValue({ id: 'intro', content: 'A quiet moment.', choices: [] })
+      } as unknown as StoryTemplate;
+      const logStoryGeneration = jest.spyOn(storyMonitoring, 'logStoryGeneration');
+      
+      const result = await storyStateService.generateInitialStorySegment('user123');
+      
+      expect(result.content).toBe('A quiet moment.');
+      expect(logStoryGeneration).toHaveBeenCalledWith(
+        expect.objectContaining({ fallback: true, fallbackReason: 'budget_exceeded' })
+      );
+      logStoryGeneration.mockRestore();
+    });
+    
+    it('should serve a fallback segment when the provider is still failing after its retries', async () => {
+      jest.spyOn(storyStateService as any, 'getTemplateForUser').mockReturnValue(null);
+      mockGptClient.generateStorySegment.mockRejectedValue(
+        new LLMProviderError('openai', 'GPT API request failed: Rate limit reached', 429)
+      );
+      storyStateService['fallbackTemplate'] = {
+        generateSegment: jest.fn().mockReturnValue({ id: 'intro', content: 'A quiet moment.', choices: [] })
+      } as unknown as StoryTemplate;
+      const logStoryGeneration = jest.spyOn(storyMonitoring, 'logStoryGeneration');
+      
+      const result = await storyStateService.generateInitialStorySegment('user123');
+      
+      expect(result.content).toBe('A quiet moment.');
+      expect(logStoryGeneration).toHaveBeenCalledWith(
+        expect.objectContaining({ fallback: true, fallbackReason: 'provider_error' })
+      );
+      logStoryGeneration.mockRestore();
+    });
+    
+    it('should rethrow requests the provider rejected rather than fall back', async () => {
+      jest.spyOn(storyStateService as any, 'getTemplateForUser').mockReturnValue(null);
+      mockGptClient.generateStorySegment.mockRejectedValue(new LLMProviderError('openai', 'GPT API request failed: Invalid API key', 401));
+      storyStateService['fallbackTemplate'] = { generateSegment: jest.fn() } as unknown as StoryTemplate;
+      
+      await expect(storyStateService.generateInitialStorySegment('user123')).rejects.toThrow('Invalid API key');
+    });
+    
+    it('should rethrow other LLM errors rather than fall back', async () => {
+      jest.spyOn(storyStateService as any, 'getTemplateForUser').mockReturnValue(null);
+      mockGptClient.generateStorySegment.mockRejectedValue(new Error('GPT API request failed: Invalid API key'));
+      storyStateService['fallbackTemplate'] = { generateSegment: jest.fn() } as unknown as StoryTemplate;
+      
+      await expect(storyStateService.generateInitialStorySegment('user123')).rejects.toThrow('Invalid API key');
+    });
+    
     it('should use personalized context for story generation', async () => {
       const userId = 'test-user';
       const userPrefs = {
@@ -251,12 +441,133 @@ describe('StoryStateService', () => {
       const result = await storyStateService.generateNextSegment(userId, choiceId);
       
       expect(result).toEqual(mockNextSegment);
-      expect(storyStateService.getOrCreateStoryState).toHaveBeenCalledWith(userId);
+      expect(storyStateService.getOrCreateStoryState).toHaveBeenCalledWith(userId, undefined, undefined);
       expect(mockStoryState.makeChoice).toHaveBeenCalledWith(choiceId);
       expect(mockStoryState.addSegment).toHaveBeenCalled();
+      expect(mockStoryState.markSegmentAsRead).toHaveBeenCalledWith(nextSegmentId);
       expect(storyStateService.saveStoryState).toHaveBeenCalledWith(userId);
       expect(mockGptClient.generateStorySegment).toHaveBeenCalled();
     });
+
+    it('should reject the second of two concurrent choices made against the same version', async () => {
+      const userId = 'user123';
+      const mockStoryState = new StoryState(userId);
+      mockStoryState.version = 3;
+      mockStoryState.segments = {};
+      mockStoryState.getCurrentSegment = jest.fn().mockReturnValue({
+        id: 'current',
+        content: 'Current segment',
+        choices: [{ id: 'left', text: 'Go left', nextSegmentId: 'left_path' }, { id: 'right', text: 'Go right', nextSegmentId: 'right_path' }]
+      });
+      cacheState(userId, 'default', mockStoryState);
+      (storyStateService as any).activeStoryIds = { [userId]: 'default' };
+      mockStateStorage.saveState.mockImplementation(async (id, storyId, data, expectedVersion) => (expectedVersion ?? 0) + 1);
+      mockGptClient.generateStorySegment.mockImplementation(() => new Promise(resolve => setTimeout(() => resolve('On you go.'), 10)));
+      mockGptClient.generateStoryChoices.mockResolvedValue([]);
+
+      const results = await Promise.allSettled([
+        storyStateService.generateNextSegment(userId, 'left', 3),
+        storyStateService.generateNextSegment(userId, 'right', 3)
+      ]);
+
+      expect(results[0]).toEqual({ status: 'fulfilled', value: expect.anything() });
+      expect(results[1]).toEqual({ status: 'rejected', reason: expect.any(StateVersionConflictError) });
+      expect(mockStoryState.makeChoice).toHaveBeenCalledTimes(1);
+      expect(mockStateStorage.saveState).toHaveBeenCalledTimes(1);
+      expect(mockStoryState.version).toBe(4);
+    });
+
+    it('should keep the story bible up to date and give it to the next prompt', async () => {
+      const mockStoryState = new StoryState('user123');
+      mockStoryState.userId = 'user123';
+      mockStoryState.segments = {};
+      mockStoryState.bible = {
+        characters: [{ name: 'Mira', description: 'A young cartographer' }],
+        items: [],
+        locations: [],
+        plotThreads: []
+      };
+      mockStoryState.getCurrentSegment = jest.fn().mockReturnValue({
+        id: 'current',
+        content: 'Mira reaches the river.',
+        choices: [{ id: 'choice1', text: 'Call the ferryman', nextSegmentId: 'ferry' }]
+      });
+      jest.spyOn(storyStateService, 'getOrCreateStoryState').mockResolvedValue(mockStoryState);
+      jest.spyOn(storyStateService, 'saveStoryState').mockResolvedValue();
+      mockGptClient.generateStorySegment.mockResolvedValue('The ferryman poles Mira across.');
+      mockGptClient.generateStoryChoices.mockResolvedValue([]);
+      const update = {
+        characters: [{ name: 'The ferryman', description: 'Keeps the river crossing' }],
+        items: [],
+        locations: [],
+        plotThreads: [],
+        resolvedPlotThreads: []
+      };
+      mockGptClient.extractStoryBible.mockResolvedValue(update);
+      
+      await storyStateService.generateNextSegment('user123', 'choice1', undefined, 'openai');
+      
+      expect(mockGptClient.generateStorySegment.mock.calls[0][0].context.storyBible).toBe(mockStoryState.bible);
+      expect(mockGptClient.extractStoryBible).toHaveBeenCalledWith({
+        bible: mockStoryState.bible,
+        content: 'The ferryman poles Mira across.',
+        context: { userId: 'user123' },
+        provider: 'openai'
+      });
+      expect(mockStoryState.updateBible).toHaveBeenCalledWith(update);
+    });
+    
+    it('should keep the new segment when the story bible cannot be updated', async () => {
+      const mockStoryState = new StoryState('user123');
+      mockStoryState.segments = {};
+      mockStoryState.getCurrentSegment = jest.fn().mockReturnValue({
+        id: 'current',
+        content: 'Mira reaches the river.',
+        choices: [{ id: 'choice1', text: 'Call the ferryman', nextSegmentId: 'ferry' }]
+      });
+      jest.spyOn(storyStateService, 'getOrCreateStoryState').mockResolvedValue(mockStoryState);
+      jest.spyOn(storyStateService, 'saveStoryState').mockResolvedValue();
+      mockGptClient.generateStorySegment.mockResolvedValue('The ferryman poles Mira across.');
+      mockGptClient.generateStoryChoices.mockResolvedValue([]);
+      mockGptClient.extractStoryBible.mockRejectedValue(new Error('Failed to parse GPT API response as JSON'));
+      
+      const result = await storyStateService.generateNextSegment('user123', 'choice1');
+      
+      expect(result.content).toBe('The ferryman poles Mira across.');
+      expect(mockStoryState.updateBible).not.toHaveBeenCalled();
+      expect(storyStateService.saveStoryState).toHaveBeenCalledWith('user123');
+    });
+    
+    it('should write the segment and its choices in one call when the provider supports it', async () => {
+      const userId = 'user123';
+      const mockStoryState = new StoryState(userId);
+      mockStoryState.segments = {};
+      mockStoryState.getCurrentSegment = jest.fn().mockReturnValue({
+        id: 'current',
+        content: 'Current segment',
+        choices: [{ id: 'choice1', text: 'Go forward', nextSegmentId: 'next_segment' }]
+      });
+      mockStoryState.makeChoice = jest.fn();
+      jest.spyOn(storyStateService, 'getOrCreateStoryState').mockResolvedValue(mockStoryState);
+      jest.spyOn(storyStateService, 'saveStoryState').mockResolvedValue();
+      const logStoryGeneration = jest.spyOn(storyMonitoring, 'logStoryGeneration');
+      
+      const choices = [{ id: 'choice1', text: 'Open the door', nextSegmentId: 'door' }];
+      mockGptClient.supportsCombinedGeneration.mockReturnValue(true);
+      mockGptClient.generateStorySegmentWithChoices.mockResolvedValue({ content: 'Next part of the story', choices });
+      
+      const result = await storyStateService.generateNextSegment(userId, 'choice1', undefined, 'openai');
+      
+      expect(result).toEqual({ id: 'next_segment', content: 'Next part of the story', choices });
+      expect(mockGptClient.supportsCombinedGeneration).toHaveBeenCalledWith('openai');
+      expect(mockGptClient.generateStorySegmentWithChoices).toHaveBeenCalledWith(
+        expect.objectContaining({ numChoices: 2, provider: 'openai' })
+      );
+      expect(mockGptClient.generateStorySegment).not.toHaveBeenCalled();
+      expect(mockGptClient.generateStoryChoices).not.toHaveBeenCalled();
+      expect(logStoryGeneration).toHaveBeenCalledWith(expect.objectContaining({ generationMode: 'combined' }));
+      logStoryGeneration.mockRestore();
+    });
     
     it('should reuse existing segment if available', async () => {
       const userId = 'user123';
@@ -300,9 +611,157 @@ describe('StoryStateService', () => {
       expect(result).toEqual(mockNextSegment);
       expect(mockStoryState.makeChoice).toHaveBeenCalledWith(choiceId);
       expect(mockGptClient.generateStorySegment).not.toHaveBeenCalled(); // Should not generate new content
+      expect(mockStoryState.markSegmentAsRead).toHaveBeenCalledWith(nextSegmentId);
       expect(storyStateService.saveStoryState).toHaveBeenCalledWith(userId);
     });
     
+    it('should render segments the story template defines and leave the rest to the AI', async () => {
+      const userId = 'user123';
+      const template = new StoryTemplate({} as any);
+      template.id = 'adventure';
+      template.segmentTemplates = {
+        forest_interior: { id: 'forest_interior', template: 'The trees grew thicker.', choices: [] }
+      };
+      (template.generateSegment as jest.Mock).mockReturnValue({ id: 'forest_interior', content: 'The trees grew thicker.', choices: [] });
+      (template.applyChoiceEffects as jest.Mock).mockImplementation((segmentId, choiceId, variables) =>
+        choiceId === 'follow_light' ? { ...variables, followed_light: true } : variables);
+      templates = { adventure: template };
+      
+      const mockStoryState = new StoryState(userId);
+      mockStoryState.userId = userId;
+      mockStoryState.templateId = 'adventure';
+      mockStoryState.variables = {};
+      // Seen before, but rendered again for the current story variables
+      mockStoryState.segments = { forest_interior: { id: 'forest_interior', content: 'Before.', choices: [] } };
+      mockStoryState.getCurrentSegment = jest.fn().mockReturnValue({
+        id: 'intro',
+        content: 'A faint glowing light.',
+        choices: [
+          { id: 'follow_light', text: 'Follow the light', nextSegmentId: 'forest_interior' },
+          { id: 'call_friend', text: 'Get a friend', nextSegmentId: 'friend_house' }
+        ]
+      });
+      jest.spyOn(storyStateService, 'getOrCreateStoryState').mockResolvedValue(mockStoryState);
+      jest.spyOn(storyStateService, 'saveStoryState').mockResolvedValue();
+      const logStoryGeneration = jest.spyOn(storyMonitoring, 'logStoryGeneration');
+      mockGptClient.generateStorySegment.mockResolvedValue('Mira opens the door.');
+      mockGptClient.generateStoryChoices.mockResolvedValue([]);
+      
+      const authored = await storyStateService.generateNextSegment(userId, 'follow_light');
+      
+      expect(authored.content).toBe('The trees grew thicker.');
+      expect(template.applyChoiceEffects).toHaveBeenCalledWith('intro', 'follow_light', {});
+      expect(template.generateSegment).toHaveBeenCalledWith('forest_interior', expect.any(Object), { followed_light: true });
+      expect(mockGptClient.generateStorySegment).not.toHaveBeenCalled();
+      expect(logStoryGeneration).toHaveBeenCalledWith(expect.objectContaining({ segmentId: 'forest_interior', templateId: 'adventure' }));
+      
+      // The author left friend_house open
+      const open = await storyStateService.generateNextSegment(userId, 'call_friend');
+      
+      expect(open).toEqual({ id: 'friend_house', content: 'Mira opens the door.', choices: [] });
+      expect(mockGptClient.generateStorySegment).toHaveBeenCalledTimes(1);
+      logStoryGeneration.mockRestore();
+    });
+
+    it('should keep following the template version a story started with', async () => {
+      const userId = 'user123';
+      const started = new StoryTemplate({} as any);
+      started.id = 'adventure';
+      started.segmentTemplates = {
+        forest_interior: { id: 'forest_interior', template: 'The trees grew thicker.', choices: [] }
+      };
+      (started.generateSegment as jest.Mock).mockReturnValue({ id: 'forest_interior', content: 'The trees grew thicker.', choices: [] });
+      (started.applyChoiceEffects as jest.Mock).mockImplementation((segmentId, choiceId, variables) => variables);
+      // Edited since: the forest is now left to the AI
+      const current = new StoryTemplate({} as any);
+      current.id = 'adventure';
+      current.segmentTemplates = {};
+      templateStore.find.mockImplementation((id, version) => version === 2
+        ? { version: 2, hash: 'started', schema: {} as any, template: started }
+        : { version: 3, hash: 'current', schema: {} as any, template: current });
+
+      const mockStoryState = new StoryState(userId);
+      mockStoryState.templateId = 'adventure';
+      mockStoryState.templateVersion = 2;
+      mockStoryState.templateHash = 'started';
+      mockStoryState.variables = {};
+      mockStoryState.segments = {};
+      mockStoryState.getCurrentSegment = jest.fn().mockReturnValue({
+        id: 'intro',
+        content: 'A faint glowing light.',
+        choices: [{ id: 'follow_light', text: 'Follow the light', nextSegmentId: 'forest_interior' }]
+      });
+      jest.spyOn(storyStateService, 'getOrCreateStoryState').mockResolvedValue(mockStoryState);
+      jest.spyOn(storyStateService, 'saveStoryState').mockResolvedValue();
+
+      const segment = await storyStateService.generateNextSegment(userId, 'follow_light');
+
+      expect(templateStore.find).toHaveBeenCalledWith('adventure', 2, 'started');
+      expect(segment.content).toBe('The trees grew thicker.');
+      expect(mockGptClient.generateStorySegment).not.toHaveBeenCalled();
+    });
+
+    it('should follow the template content a story started with when this server numbers it differently', async () => {
+      const userId = 'user123';
+      const started = new StoryTemplate({} as any);
+      started.id = 'adventure';
+      started.segmentTemplates = {
+        forest_interior: { id: 'forest_interior', template: 'The trees grew thicker.', choices: [] }
+      };
+      (started.generateSegment as jest.Mock).mockReturnValue({ id: 'forest_interior', content: 'The trees grew thicker.', choices: [] });
+      (started.applyChoiceEffects as jest.Mock).mockImplementation((segmentId, choiceId, variables) => variables);
+      // Numbered afresh by a new deploy
+      templateStore.find.mockReturnValue({ version: 1, hash: 'started', schema: {} as any, template: started });
+
+      const mockStoryState = new StoryState(userId);
+      mockStoryState.templateId = 'adventure';
+      mockStoryState.templateVersion = 2;
+      mockStoryState.templateHash = 'started';
+      mockStoryState.variables = {};
+      mockStoryState.segments = {};
+      mockStoryState.getCurrentSegment = jest.fn().mockReturnValue({
+        id: 'intro',
+        content: 'A faint glowing light.',
+        choices: [{ id: 'follow_light', text: 'Follow the light', nextSegmentId: 'forest_interior' }]
+      });
+      jest.spyOn(storyStateService, 'getOrCreateStoryState').mockResolvedValue(mockStoryState);
+      jest.spyOn(storyStateService, 'saveStoryState').mockResolvedValue();
+
+      const segment = await storyStateService.generateNextSegment(userId, 'follow_light');
+
+      expect(segment.content).toBe('The trees grew thicker.');
+      expect(mockStoryState.templateVersion).toBe(1);
+    });
+
+    it('should leave the story as it was when the next segment cannot be produced', async () => {
+      const userId = 'user123';
+      const template = new StoryTemplate({} as any);
+      template.id = 'adventure';
+      template.segmentTemplates = {};
+      (template.applyChoiceEffects as jest.Mock).mockReturnValue({ coins: 1 });
+      templates = { adventure: template };
+      
+      const mockStoryState = new StoryState(userId);
+      mockStoryState.templateId = 'adventure';
+      mockStoryState.variables = {};
+      mockStoryState.segments = {};
+      mockStoryState.getCurrentSegment = jest.fn().mockReturnValue({
+        id: 'intro',
+        content: 'A faint glowing light.',
+        choices: [{ id: 'follow_light', text: 'Follow the light', nextSegmentId: 'forest_interior' }]
+      });
+      jest.spyOn(storyStateService, 'getOrCreateStoryState').mockResolvedValue(mockStoryState);
+      jest.spyOn(storyStateService, 'saveStoryState').mockResolvedValue();
+      mockGptClient.generateStorySegment.mockRejectedValue(new Error('Retries exhausted'));
+      
+      await expect(storyStateService.generateNextSegment(userId, 'follow_light')).rejects.toThrow('Retries exhausted');
+      
+      expect(mockStoryState.makeChoice).not.toHaveBeenCalled();
+      expect(mockStoryState.variables).toEqual({});
+      expect(mockStoryState.addSegment).not.toHaveBeenCalled();
+      expect(storyStateService.saveStoryState).not.toHaveBeenCalled();
+    });
+    
     it('should throw an error if current segment not found', async () => {
       const userId = 'user123';
       
@@ -343,6 +802,7 @@ describe('StoryStateService', () => {
         getCurrentSegment: jest.fn().mockReturnValue(initialSegment),
         makeChoice: jest.fn(),
         addSegment: jest.fn(),
+        markSegmentAsRead: jest.fn(),
         contextualData: {},
         choiceHistory: [],
         readSegments: new Set<string>(),
@@ -354,7 +814,8 @@ describe('StoryStateService', () => {
       } as unknown as StoryState;
 
       // Set up the mock state in the service
-      storyStateService['storyStates'][userId] = mockStoryState;
+      cacheState(userId, 'default', mockStoryState);
+      storyStateService['activeStoryIds'][userId] = 'default';
 
       mockGptClient.generateStorySegment.mockResolvedValue('You hear footsteps...');
       mockGptClient.generateStoryChoices.mockResolvedValue([
@@ -434,16 +895,33 @@ describe('StoryStateService', () => {
       
       // Mock JSON serialization
       mockStoryState.toJSON = jest.fn().mockReturnValue(serializedData);
+      mockStoryState.version = 3;
+      mockStateStorage.saveState.mockResolvedValue(4);
       
       // Set internal state
-      (storyStateService as any).storyStates = {
-        [userId]: mockStoryState
-      };
+      cacheState(userId, 'default', mockStoryState);
+      (storyStateService as any).activeStoryIds = { [userId]: 'default' };
       
       await storyStateService.saveStoryState(userId);
       
       expect(mockStoryState.toJSON).toHaveBeenCalled();
-      expect(mockStateStorage.saveState).toHaveBeenCalledWith(userId, serializedData);
+      expect(mockStateStorage.saveState).toHaveBeenCalledWith(userId, 'default', serializedData, 3);
+      expect(mockStoryState.version).toBe(4);
+    });
+    
+    it('should drop the stale in-memory state when another writer saved first', async () => {
+      const userId = 'user123';
+      const mockStoryState = new StoryState(userId);
+      mockStoryState.toJSON = jest.fn().mockReturnValue({ userId });
+      mockStoryState.version = 3;
+      mockStateStorage.saveState.mockRejectedValue(new StateVersionConflictError(userId, 3, 4));
+      
+      cacheState(userId, 'default', mockStoryState);
+      (storyStateService as any).activeStoryIds = { [userId]: 'default' };
+      
+      await expect(storyStateService.saveStoryState(userId))
+        .rejects.toBeInstanceOf(StateVersionConflictError);
+      expect((storyStateService as any).storyStates.peek(`${userId}/default`)).toBeUndefined();
     });
     
     it('should throw an error if story state not found', async () => {
@@ -452,23 +930,179 @@ describe('StoryStateService', () => {
     });
   });
   
+  describe('state cache', () => {
+    const userId = 'user123';
+    
+    beforeEach(() => {
+      storyStateService = new StoryStateService(mockGptClient, mockStateStorage, personalizationManager, {
+        cacheConfig: {
+          maxEntries: 10,
+          idleTimeoutMs: 0,
+          sweepIntervalMs: 1000
+        }
+      });
+    });
+    
+    it('should save unsaved states before evicting them and forget the idle user', async () => {
+      const mockStoryState = new StoryState(userId);
+      mockStoryState.toJSON = jest.fn().mockReturnValue({ userId, segments: {} });
+      mockStoryState.version = 2;
+      mockStateStorage.saveState.mockResolvedValue(3);
+      cacheState(userId, 'default', mockStoryState);
+      (storyStateService as any).activeStoryIds = { [userId]: 'default' };
+      
+      await storyStateService.evictIdleStates();
+      
+      expect(mockStateStorage.saveState).toHaveBeenCalledWith(userId, 'default', { userId, segments: {} }, 2);
+      expect((storyStateService as any).storyStates.peek(`${userId}/default`)).toBeUndefined();
+      expect((storyStateService as any).activeStoryIds[userId]).toBeUndefined();
+      expect(storyStateService.getStateCacheStats()).toEqual(expect.objectContaining({ evictions: 1, flushes: 1 }));
+    });
+    
+    it('should drop a stale state on eviction when another writer saved first', async () => {
+      const mockStoryState = new StoryState(userId);
+      mockStoryState.toJSON = jest.fn().mockReturnValue({ userId });
+      mockStateStorage.saveState.mockRejectedValue(new StateVersionConflictError(userId, 0, 1));
+      cacheState(userId, 'default', mockStoryState);
+      
+      await storyStateService.evictIdleStates();
+      
+      expect((storyStateService as any).storyStates.peek(`${userId}/default`)).toBeUndefined();
+    });
+  });
+  
   describe('clearUserState', () => {
     it('should remove state from memory and storage', async () => {
       const userId = 'user123';
       const mockStoryState = new StoryState(userId);
       
       // Set up internal state
-      (storyStateService as any).storyStates = {
-        [userId]: mockStoryState
-      };
+      cacheState(userId, 'default', mockStoryState);
+      (storyStateService as any).activeStoryIds = { [userId]: 'default' };
       
       await storyStateService.clearUserState(userId);
       
       // Check that state was removed from memory
-      expect((storyStateService as any).storyStates[userId]).toBeUndefined();
+      expect((storyStateService as any).storyStates.peek(`${userId}/default`)).toBeUndefined();
       
       // Check that state was removed from storage
-      expect(mockStateStorage.deleteState).toHaveBeenCalledWith(userId);
+      expect(mockStateStorage.deleteState).toHaveBeenCalledWith(userId, 'default');
+    });
+  });
+  
+  describe('save slots', () => {
+    const userId = 'user123';
+    
+    it('should create a new story in its own slot and make it active', async () => {
+      const mockStoryState = new StoryState(userId);
+      jest.spyOn(storyStateService, 'getOrCreateStoryState').mockResolvedValue(mockStoryState);
+      jest.spyOn(storyStateService, 'saveStoryState').mockResolvedValue();
+      
+      const result = await storyStateService.createStorySlot(userId);
+      const storyId = (storyStateService.getOrCreateStoryState as jest.Mock).mock.calls[0][1];
+      
+      expect(result).toBe(mockStoryState);
+      expect(storyId).not.toBe('default');
+      expect(mockStoryState.title).toBe('Story 1');
+      expect(storyStateService.saveStoryState).toHaveBeenCalledWith(userId, storyId);
+      await expect(storyStateService.getActiveStoryId(userId)).resolves.toBe(storyId);
+    });
+    
+    it('should resume the most recently updated story after a restart', async () => {
+      mockStateStorage.listStoryIds.mockResolvedValue(['older', 'newer']);
+      mockStateStorage.loadState.mockImplementation(async (_userId, storyId) => ({ storyId }));
+      (StoryState.fromJSON as jest.Mock).mockImplementation((data: any) => ({
+        storyId: data.storyId,
+        updatedAt: new Date(data.storyId === 'newer' ? 2000 : 1000),
+        getPublicState: () => ({ progress: 0 })
+      }));
+      
+      await expect(storyStateService.getActiveStoryId(userId)).resolves.toBe('newer');
+    });
+    
+    it('should use the default slot for users without stories', async () => {
+      await expect(storyStateService.getActiveStoryId(userId)).resolves.toBe('default');
+    });
+    
+    it('should switch to an existing slot', async () => {
+      const mockStoryState = new StoryState(userId);
+      mockStateStorage.hasState.mockResolvedValue(true);
+      jest.spyOn(storyStateService, 'getOrCreateStoryState').mockResolvedValue(mockStoryState);
+      jest.spyOn(storyStateService, 'saveStoryState').mockResolvedValue();
+      
+      const result = await storyStateService.switchStorySlot(userId, 'story-2');
+      
+      expect(result).toBe(mockStoryState);
+      expect(storyStateService.getOrCreateStoryState).toHaveBeenCalledWith(userId, 'story-2');
+      await expect(storyStateService.getActiveStoryId(userId)).resolves.toBe('story-2');
+    });
+    
+    it('should reject switching to a slot the user does not have', async () => {
+      await expect(storyStateService.switchStorySlot(userId, 'missing'))
+        .rejects.toBeInstanceOf(StorySlotNotFoundError);
+    });
+    
+    it('should rename a slot', async () => {
+      const mockStoryState = new StoryState(userId);
+      mockStateStorage.hasState.mockResolvedValue(true);
+      jest.spyOn(storyStateService, 'getOrCreateStoryState').mockResolvedValue(mockStoryState);
+      jest.spyOn(storyStateService, 'saveStoryState').mockResolvedValue();
+      
+      await storyStateService.renameStorySlot(userId, 'story-2', 'The Dragon Saga');
+      
+      expect(mockStoryState.title).toBe('The Dragon Saga');
+      expect(storyStateService.saveStoryState).toHaveBeenCalledWith(userId, 'story-2');
+    });
+    
+    it('should delete a slot without touching the others', async () => {
+      cacheState(userId, 'story-1', new StoryState(userId));
+      cacheState(userId, 'story-2', new StoryState(userId));
+      (storyStateService as any).activeStoryIds = { [userId]: 'story-2' };
+      
+      await storyStateService.deleteStorySlot(userId, 'story-2');
+      
+      expect(mockStateStorage.deleteState).toHaveBeenCalledWith(userId, 'story-2');
+      expect((storyStateService as any).storyStates.peek(`${userId}/story-1`)).toBeDefined();
+      expect((storyStateService as any).storyStates.peek(`${userId}/story-2`)).toBeUndefined();
+      expect((storyStateService as any).activeStoryIds[userId]).toBeUndefined();
+    });
+  });
+  
+  describe('rewindStory', () => {
+    const userId = 'user123';
+    
+    it('should rewind the active story and save it', async () => {
+      const mockStoryState = new StoryState(userId);
+      const branch = { id: 'branch_1', fromSegmentId: 'dragon', toSegmentId: 'forest' };
+      (mockStoryState.getRewindTargets as jest.Mock).mockReturnValue(['intro', 'forest']);
+      (mockStoryState.rewindTo as jest.Mock).mockReturnValue(branch);
+      jest.spyOn(storyStateService, 'getOrCreateStoryState').mockResolvedValue(mockStoryState);
+      jest.spyOn(storyStateService, 'saveStoryState').mockResolvedValue();
+      
+      const result = await storyStateService.rewindStory(userId, 'forest');
+      
+      expect(result).toBe(branch);
+      expect(mockStoryState.rewindTo).toHaveBeenCalledWith('forest');
+      expect(storyStateService.saveStoryState).toHaveBeenCalledWith(userId);
+    });
+    
+    it('should reject a segment that is not an earlier point in the story', async () => {
+      const mockStoryState = new StoryState(userId);
+      (mockStoryState.getRewindTargets as jest.Mock).mockReturnValue(['intro']);
+      jest.spyOn(storyStateService, 'getOrCreateStoryState').mockResolvedValue(mockStoryState);
+      
+      await expect(storyStateService.rewindStory(userId, 'castle'))
+        .rejects.toBeInstanceOf(InvalidRewindTargetError);
+      expect(mockStoryState.rewindTo).not.toHaveBeenCalled();
+    });
+    
+    it('should reject a rewind against a stale version', async () => {
+      const mockStoryState = new StoryState(userId);
+      mockStoryState.version = 5;
+      jest.spyOn(storyStateService, 'getOrCreateStoryState').mockResolvedValue(mockStoryState);
+      
+      await expect(storyStateService.rewindStory(userId, undefined, 4))
+        .rejects.toBeInstanceOf(StateVersionConflictError);
     });
   });
   
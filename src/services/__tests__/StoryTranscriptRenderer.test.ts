@@ -0,0 +1,140 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import { StoryTranscriptRenderer } from '../StoryTranscriptRenderer';
+import { IllustrationService } from '../IllustrationService';
+import { StoryState } from '../../models/StoryState';
+
+describe('StoryTranscriptRenderer', () => {
+  let publicDir: string;
+  let renderer: StoryTranscriptRenderer;
+  let storyState: StoryState;
+
+  beforeEach(() => {
+    publicDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcript-test-'));
+    fs.mkdirSync(path.join(publicDir, 'illustrations'));
+    fs.writeFileSync(path.join(publicDir, 'illustrations', 'metadata.json'), JSON.stringify([
+      {
+        id: 'fork',
+        path: '/illustrations/fork.png',
+        description: 'A fork in the road',
+        tags: [],
+        segmentMappings: ['intro'],
+        themes: [],
+        createdAt: new Date().toISOString()
+      },
+      {
+        id: 'missing',
+        path: '/illustrations/missing.png',
+        description: 'An image that was never drawn',
+        tags: [],
+        segmentMappings: ['forest'],
+        themes: [],
+        createdAt: new Date().toISOString()
+      }
+    ]));
+    fs.writeFileSync(path.join(publicDir, 'illustrations', 'fork.png'), Buffer.from('not really a png'));
+
+    renderer = new StoryTranscriptRenderer(new IllustrationService(publicDir));
+
+    storyState = new StoryState('user123');
+    storyState.title = 'The <Long> Road';
+    storyState.addSegment({ id: 'intro', content: 'You stand at a fork.\n\nBirds sing.', choices: [
+      { id: 'left', text: 'Go left', nextSegmentId: 'forest' },
+      { id: 'right', text: 'Go right', nextSegmentId: 'river' }
+    ] });
+    storyState.addSegment({ id: 'forest', content: 'Trees & shadows', choices: [] });
+    storyState.makeChoice('left');
+  });
+
+  afterEach(() => {
+    fs.rmSync(publicDir, { recursive: true, force: true });
+  });
+
+  describe('buildTranscript', () => {
+    it('should follow the choices taken', () => {
+      const transcript = renderer.buildTranscript(storyState);
+
+      expect(transcript.chapters.map(chapter => chapter.segmentId)).toEqual(['intro', 'forest']);
+      expect(transcript.chapters[0].choiceText).toBe('Go left');
+      expect(transcript.chapters[1].choiceText).toBeUndefined();
+      expect(transcript.chapters[0].illustrations.map(illustration => illustration.id)).toEqual(['fork']);
+    });
+
+    it('should leave out branches undone by a rewind', () => {
+      storyState.rewindTo('intro');
+
+      const transcript = renderer.buildTranscript(storyState);
+
+      expect(transcript.chapters.map(chapter => chapter.segmentId)).toEqual(['intro']);
+    });
+
+    it('should pair conversational replies with what the reader said', () => {
+      const conversation = new StoryState('user123');
+      conversation.isConversationalMode = true;
+      conversation.addConversationMessage('assistant', 'Once upon a time', 'conv_intro');
+      conversation.addConversationMessage('user', 'Open the door');
+      conversation.addConversationMessage('assistant', 'The door opens', 'conv_1');
+
+      const transcript = renderer.buildTranscript(conversation);
+
+      expect(transcript.chapters).toEqual([
+        expect.objectContaining({ number: 1, segmentId: 'conv_intro', readerInput: undefined, content: 'Once upon a time' }),
+        expect.objectContaining({ number: 2, segmentId: 'conv_1', readerInput: 'Open the door', content: 'The door opens' })
+      ]);
+    });
+  });
+
+  describe('render', () => {
+    it('should render Markdown with chapters, illustrations and choices', async () => {
+      const rendered = await renderer.render(renderer.buildTranscript(storyState), 'markdown');
+      const markdown = rendered.body as string;
+
+      expect(rendered.fileName).toBe('the-long-road.md');
+      expect(markdown).toMatch(/^# The <Long> Road\n/);
+      expect(markdown).toContain('## Chapter 2');
+      expect(markdown).toContain('![A fork in the road](/illustrations/fork.png)');
+      expect(markdown).toContain('You stand at a fork.\n\nBirds sing.');
+      expect(markdown).toContain('*You chose: Go left*');
+    });
+
+    it('should render escaped HTML with readable illustrations embedded', async () => {
+      const rendered = await renderer.render(renderer.buildTranscript(storyState), 'html');
+      const html = rendered.body as string;
+
+      expect(rendered.contentType).toBe('text/html; charset=utf-8');
+      expect(html).toContain('<h1>The &lt;Long&gt; Road</h1>');
+      expect(html).toContain('<p>Trees &amp; shadows</p>');
+      expect(html).toContain(`src="data:image/png;base64,${Buffer.from('not really a png').toString('base64')}"`);
+      expect(html).toContain('src="/illustrations/missing.png"');
+    });
+
+    it('should render an EPUB with the mimetype stored first', async () => {
+      const rendered = await renderer.render(renderer.buildTranscript(storyState), 'epub');
+      const epub = rendered.body as Buffer;
+
+      // The EPUB spec requires an uncompressed mimetype as the very first entry
+      expect(epub.subarray(30, 38).toString()).toBe('mimetype');
+      expect(epub.subarray(38, 58).toString()).toBe('application/epub+zip');
+
+      const zip = await JSZip.loadAsync(epub);
+      expect(Object.keys(zip.files)).toEqual(expect.arrayContaining([
+        'META-INF/container.xml',
+        'OEBPS/content.opf',
+        'OEBPS/nav.xhtml',
+        'OEBPS/chapter-1.xhtml',
+        'OEBPS/chapter-2.xhtml',
+        'OEBPS/images/fork-1.png'
+      ]));
+
+      const opf = await zip.file('OEBPS/content.opf')!.async('string');
+      expect(opf).toContain('<dc:title>The &lt;Long&gt; Road</dc:title>');
+      expect(opf).toContain('<itemref idref="chapter-2"/>');
+
+      // Illustrations without an image file are left out of the book
+      const chapter2 = await zip.file('OEBPS/chapter-2.xhtml')!.async('string');
+      expect(chapter2).not.toContain('<img');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { UsageTracker } from '../UsageTracker';
+import { UsageBudgetExceededError } from '../UsageBudgetExceededError';
+import { UsageConfig } from '../../config/usage';
+
+describe('UsageTracker', () => {
+  let now: Date;
+  let config: UsageConfig;
+
+  const createTracker = () => new UsageTracker(config, () => now);
+
+  beforeEach(() => {
+    now = new Date('2025-06-30T23:00:00.000Z');
+    config = {
+      pricing: {
+        'gpt-4': { prompt: 30, completion: 60 },
+        'gpt-4o': { prompt: 2.5, completion: 10 }
+      },
+      budgets: {
+        daily: { tokens: 0, costUsd: 0 },
+        monthly: { tokens: 0, costUsd: 0 }
+      }
+    };
+  });
+
+  it('should price calls by model, matching versioned names by prefix', () => {
+    const tracker = createTracker();
+
+    expect(tracker.calculateCost('gpt-4', 1000, 500)).toBeCloseTo(0.06);
+    expect(tracker.calculateCost('gpt-4o-2024-08-06', 1000, 500)).toBeCloseTo(0.0075);
+    expect(tracker.calculateCost('llama3', 1000, 500)).toBe(0);
+  });
+
+  it('should total each user\'s tokens and cost for the day and month', () => {
+    const tracker = createTracker();
+
+    tracker.record('user1', 'gpt-4', 1000, 500);
+    tracker.record('user1', 'gpt-4', 200, 100);
+    tracker.record('user2', 'gpt-4', 50, 50);
+
+    const usage = tracker.getUserUsage('user1');
+    expect(usage.daily).toMatchObject({
+      period: '2025-06-30',
+      promptTokens: 1200,
+      completionTokens: 600,
+      totalTokens: 1800,
+      requests: 2,
+      remaining: { tokens: null, costUsd: null },
+      resetAt: '2025-07-01T00:00:00.000Z'
+    });
+    expect(usage.daily.costUsd).toBeCloseTo(0.072);
+    expect(usage.monthly).toMatchObject({ period: '2025-06', totalTokens: 1800 });
+    expect(usage.overBudget).toBe(false);
+  });
+
+  it('should refuse users over their daily token budget until the next day', () => {
+    config.budgets.daily.tokens = 1000;
+    const tracker = createTracker();
+
+    tracker.record('user1', 'gpt-4', 600, 300);
+    expect(() => tracker.checkBudget('user1')).not.toThrow();
+    tracker.record('user1', 'gpt-4', 100, 50);
+
+    expect(() => tracker.checkBudget('user1')).toThrow(UsageBudgetExceededError);
+    expect(tracker.getUserUsage('user1')).toMatchObject({ overBudget: true, daily: { remaining: { tokens: 0 } } });
+    expect(() => tracker.checkBudget('user2')).not.toThrow();
+
+    // A new day starts a new daily total; the month keeps counting
+    now = new Date('2025-07-01T00:00:01.000Z');
+    expect(() => tracker.checkBudget('user1')).not.toThrow();
+    expect(tracker.getUserUsage('user1').monthly).toMatchObject({ period: '2025-07', totalTokens: 0 });
+  });
+
+  it('should refuse users over their monthly cost budget', () => {
+    config.budgets.monthly.costUsd = 0.05;
+    const tracker = createTracker();
+
+    tracker.record('user1', 'gpt-4', 1000, 500);
+
+    const error = (() => {
+      try {
+        tracker.checkBudget('user1');
+      } catch (e) {
+        return e as UsageBudgetExceededError;
+      }
+    })();
+    expect(error).toBeInstanceOf(UsageBudgetExceededError);
+    expect(error?.period).toBe('monthly');
+    expect(error?.resetAt.toISOString()).toBe('2025-07-01T00:00:00.000Z');
+  });
+
+  it('should keep totals across restarts in the ledger file', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-ledger-'));
+    config.ledgerFile = path.join(directory, 'usage.json');
+
+    try {
+      const tracker = createTracker();
+      tracker.record('user1', 'gpt-4', 1000, 500);
+      await tracker.flush();
+
+      expect(createTracker().getUserUsage('user1').daily.totalTokens).toBe(1500);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
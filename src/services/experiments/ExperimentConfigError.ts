@@ -0,0 +1,12 @@
+/**
+ * Thrown when an experiment definition cannot be used
+ */
+export class ExperimentConfigError extends Error {
+  experimentId?: string;
+
+  constructor(message: string, experimentId?: string) {
+    super(message);
+    this.experimentId = experimentId;
+    this.name = this.constructor.name;
+  }
+}
@@ -0,0 +1,172 @@
+import experimentsConfig, { ExperimentConfig, ExperimentVariantConfig, ExperimentsConfig } from '../../config/experiments';
+import { hashCode } from '../../utils/hashCode';
+import { getPromptTemplateStore, PromptTemplateNotFoundError, PromptTemplateStore } from '../prompts';
+import { ExperimentConfigError } from './ExperimentConfigError';
+
+/**
+ * The variants a user is in and the settings they add up to
+ */
+export interface ExperimentAssignment {
+  // Variant name by experiment ID
+  variants: Record<string, string>;
+  promptVersions: Record<string, number>;
+  temperature?: number;
+  model?: string;
+}
+
+/**
+ * Splits users between the variants of each enabled experiment. A user's
+ * variant comes from a hash of the experiment and user IDs, so it is the
+ * same on every request and every server without storing anything, and
+ * independent of their variants in other experiments.
+ */
+export class ExperimentService {
+  private experiments: ExperimentConfig[];
+  // Checked for the prompt versions variants pin
+  private prompts: PromptTemplateStore;
+
+  constructor(config: ExperimentsConfig = experimentsConfig, prompts: PromptTemplateStore = getPromptTemplateStore()) {
+    this.prompts = prompts;
+    config.experiments.forEach((experiment, index) => this.validate(experiment, config.experiments.slice(0, index)));
+    this.experiments = config.experiments.filter(experiment => experiment.enabled !== false);
+    this.warnAboutOverlaps();
+    console.log(`[ExperimentService] ${this.experiments.length} of ${config.experiments.length} experiments enabled`);
+  }
+
+  /**
+   * The enabled experiments
+   */
+  getExperiments(): ExperimentConfig[] {
+    return this.experiments;
+  }
+
+  /**
+   * The user's variant in each enabled experiment and the settings they
+   * get. Where experiments change the same setting, the later one wins.
+   */
+  assign(userId: string): ExperimentAssignment {
+    const assignment: ExperimentAssignment = { variants: {}, promptVersions: {} };
+    for (const experiment of this.experiments) {
+      const variant = this.pickVariant(experiment, userId);
+      assignment.variants[experiment.id] = variant.name;
+      Object.assign(assignment.promptVersions, variant.promptVersions);
+      if (variant.temperature !== undefined) {
+        assignment.temperature = variant.temperature;
+      }
+      if (variant.model !== undefined) {
+        assignment.model = variant.model;
+      }
+    }
+    return assignment;
+  }
+
+  /**
+   * Variant name by experiment ID, for tagging the user's metrics
+   */
+  getVariants(userId: string): Record<string, string> {
+    return this.assign(userId).variants;
+  }
+
+  private pickVariant(experiment: ExperimentConfig, userId: string): ExperimentVariantConfig {
+    const totalWeight = experiment.variants.reduce((sum, variant) => sum + (variant.weight ?? 1), 0);
+    let bucket = Math.abs(hashCode(`${experiment.id}:${userId}`)) % totalWeight;
+    for (const variant of experiment.variants) {
+      bucket -= variant.weight ?? 1;
+      if (bucket < 0) {
+        return variant;
+      }
+    }
+    return experiment.variants[experiment.variants.length - 1];
+  }
+
+  private validate(experiment: ExperimentConfig, earlier: ExperimentConfig[]): void {
+    if (!experiment || typeof experiment.id !== 'string' || !experiment.id) {
+      throw new ExperimentConfigError('Experiment must have a string id');
+    }
+    const { id } = experiment;
+    if (earlier.some(other => other.id === id)) {
+      throw new ExperimentConfigError(`Experiment ${id} is defined more than once`, id);
+    }
+    if (!Array.isArray(experiment.variants) || experiment.variants.length === 0) {
+      throw new ExperimentConfigError(`Experiment ${id} must have at least one variant`, id);
+    }
+
+    const names = new Set<string>();
+    for (const variant of experiment.variants) {
+      if (!variant || typeof variant.name !== 'string' || !variant.name) {
+        throw new ExperimentConfigError(`Every variant of experiment ${id} must have a string name`, id);
+      }
+      if (names.has(variant.name)) {
+        throw new ExperimentConfigError(`Experiment ${id} has more than one variant named ${variant.name}`, id);
+      }
+      names.add(variant.name);
+      if (variant.weight !== undefined && (!Number.isInteger(variant.weight) || variant.weight < 1)) {
+        throw new ExperimentConfigError(`Variant ${variant.name} of experiment ${id} must have a positive integer weight`, id);
+      }
+      const versions = Object.entries(variant.promptVersions || {});
+      if (versions.some(([, version]) => !Number.isInteger(version) || version < 1)) {
+        throw new ExperimentConfigError(`Variant ${variant.name} of experiment ${id} has an invalid prompt version`, id);
+      }
+      for (const [promptId, version] of versions) {
+        this.checkPromptVersion(experiment, variant, promptId, version);
+      }
+      if (variant.temperature !== undefined && (typeof variant.temperature !== 'number' || variant.temperature < 0)) {
+        throw new ExperimentConfigError(`Variant ${variant.name} of experiment ${id} has an invalid temperature`, id);
+      }
+    }
+  }
+
+  /**
+   * Fail at startup rather than on every request from the variant's users
+   */
+  private checkPromptVersion(experiment: ExperimentConfig, variant: ExperimentVariantConfig, promptId: string, version: number): void {
+    try {
+      this.prompts.get(promptId, version);
+    } catch (error) {
+      if (error instanceof PromptTemplateNotFoundError) {
+        throw new ExperimentConfigError(
+          `Variant ${variant.name} of experiment ${experiment.id} pins ${promptId} v${version}, which is not loaded`,
+          experiment.id
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Experiments that change the same setting muddle each other's results
+   */
+  private warnAboutOverlaps(): void {
+    const changedBy: Record<string, string> = {};
+    for (const experiment of this.experiments) {
+      const settings = new Set<string>();
+      for (const variant of experiment.variants) {
+        Object.keys(variant.promptVersions || {}).forEach(promptId => settings.add(`prompt ${promptId}`));
+        if (variant.temperature !== undefined) {
+          settings.add('temperature');
+        }
+        if (variant.model !== undefined) {
+          settings.add('model');
+        }
+      }
+      for (const setting of settings) {
+        if (changedBy[setting]) {
+          console.warn(`[ExperimentService] Experiments ${changedBy[setting]} and ${experiment.id} both change ${setting}; ${experiment.id} wins`);
+        }
+        changedBy[setting] = experiment.id;
+      }
+    }
+  }
+}
+
+let defaultService: ExperimentService | undefined;
+
+/**
+ * The configured experiments, loaded on first use
+ */
+export function getExperimentService(): ExperimentService {
+  if (!defaultService) {
+    defaultService = new ExperimentService();
+  }
+  return defaultService;
+}
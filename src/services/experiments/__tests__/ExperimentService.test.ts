@@ -0,0 +1,94 @@
+import { ExperimentService } from '../ExperimentService';
+import { ExperimentConfigError } from '../ExperimentConfigError';
+import { ExperimentConfig } from '../../../config/experiments';
+import { PromptTemplateNotFoundError, PromptTemplateStore } from '../../prompts';
+
+describe('ExperimentService', () => {
+  // Versions 1 and 2 of story-segment are loaded
+  const prompts = {
+    get: (id: string, version?: number) => {
+      if (id !== 'story-segment' || (version !== 1 && version !== 2)) {
+        throw new PromptTemplateNotFoundError(id, version);
+      }
+      return {};
+    }
+  } as unknown as PromptTemplateStore;
+  const segmentPrompt: ExperimentConfig = {
+    id: 'segment-prompt',
+    variants: [
+      { name: 'control' },
+      { name: 'vivid', promptVersions: { 'story-segment': 2 }, temperature: 0.9 }
+    ]
+  };
+  const userIds = Array.from({ length: 1000 }, (_, i) => `user-${i}`);
+
+  it('should put a user in the same variant every time', () => {
+    const first = new ExperimentService({ experiments: [segmentPrompt] }, prompts);
+    const second = new ExperimentService({ experiments: [segmentPrompt] }, prompts);
+
+    for (const userId of userIds.slice(0, 50)) {
+      expect(second.getVariants(userId)).toEqual(first.getVariants(userId));
+    }
+  });
+
+  it('should split users by the variant weights', () => {
+    const service = new ExperimentService({
+      experiments: [{ id: 'model', variants: [{ name: 'control', weight: 9 }, { name: 'mini', weight: 1, model: 'gpt-4o-mini' }] }]
+    }, prompts);
+
+    const mini = userIds.filter(userId => service.getVariants(userId).model === 'mini').length;
+
+    expect(mini).toBeGreaterThan(50);
+    expect(mini).toBeLessThan(150);
+  });
+
+  it('should give users the settings of their variants', () => {
+    const service = new ExperimentService({ experiments: [segmentPrompt] }, prompts);
+    const vividUser = userIds.find(userId => service.getVariants(userId)['segment-prompt'] === 'vivid')!;
+    const controlUser = userIds.find(userId => service.getVariants(userId)['segment-prompt'] === 'control')!;
+
+    expect(service.assign(vividUser)).toEqual({
+      variants: { 'segment-prompt': 'vivid' },
+      promptVersions: { 'story-segment': 2 },
+      temperature: 0.9
+    });
+    expect(service.assign(controlUser)).toEqual({ variants: { 'segment-prompt': 'control' }, promptVersions: {} });
+  });
+
+  it('should leave out disabled experiments', () => {
+    const service = new ExperimentService({ experiments: [{ ...segmentPrompt, enabled: false }] }, prompts);
+
+    expect(service.getExperiments()).toEqual([]);
+    expect(service.assign('user-1')).toEqual({ variants: {}, promptVersions: {} });
+  });
+
+  it('should let the later experiment win a setting both change', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const service = new ExperimentService({
+      experiments: [
+        { id: 'warm', variants: [{ name: 'all', temperature: 0.9 }] },
+        { id: 'cool', variants: [{ name: 'all', temperature: 0.2 }] }
+      ]
+    }, prompts);
+
+    expect(service.assign('user-1').temperature).toBe(0.2);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Experiments warm and cool both change temperature'));
+    warn.mockRestore();
+  });
+
+  it('should reject experiments it cannot split users between', () => {
+    const create = (experiments: any[]) => () => new ExperimentService({ experiments }, prompts);
+
+    expect(create([{ id: 'empty', variants: [] }])).toThrow('Experiment empty must have at least one variant');
+    expect(create([segmentPrompt, segmentPrompt])).toThrow('Experiment segment-prompt is defined more than once');
+    expect(create([{ id: 'twins', variants: [{ name: 'a' }, { name: 'a' }] }]))
+      .toThrow('Experiment twins has more than one variant named a');
+    expect(create([{ id: 'weights', variants: [{ name: 'a', weight: 0.5 }] }])).toThrow(ExperimentConfigError);
+    expect(create([{ id: 'prompts', variants: [{ name: 'a', promptVersions: { 'story-segment': 0 } }] }]))
+      .toThrow('Variant a of experiment prompts has an invalid prompt version');
+    expect(create([{ id: 'prompts', variants: [{ name: 'a', promptVersions: { 'story-segment': 3 } }] }]))
+      .toThrow('Variant a of experiment prompts pins story-segment v3, which is not loaded');
+    expect(create([{ id: 'prompts', variants: [{ name: 'a', promptVersions: { 'story-ending': 1 } }] }]))
+      .toThrow(ExperimentConfigError);
+  });
+});
@@ -0,0 +1,2 @@
+export * from './ExperimentConfigError';
+export * from './ExperimentService';
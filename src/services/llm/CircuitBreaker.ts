@@ -0,0 +1,91 @@
+import { LLMCircuitOpenError } from './LLMProviderError';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  // When the breaker last opened
+  openedAt: string | null;
+  // When an open breaker will let a trial call through
+  retryAt: string | null;
+}
+
+/**
+ * Stops calling a provider that keeps failing. After `failureThreshold`
+ * consecutive failures the breaker opens and calls fail fast; once
+ * `resetTimeoutMs` has passed one trial call is let through (half open),
+ * and its outcome closes or re-opens the breaker.
+ */
+export class CircuitBreaker {
+  private provider: string;
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private now: () => number;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(provider: string, failureThreshold: number, resetTimeoutMs: number, now: () => number = Date.now) {
+    this.provider = provider;
+    this.failureThreshold = failureThreshold;
+    this.resetTimeoutMs = resetTimeoutMs;
+    this.now = now;
+  }
+
+  /**
+   * Call before each request. Throws LLMCircuitOpenError while the breaker is
+   * open, or while a half-open trial call is still running.
+   */
+  acquire(): void {
+    if (this.state === 'open') {
+      if (this.now() < this.retryAt()) {
+        throw new LLMCircuitOpenError(this.provider, new Date(this.retryAt()));
+      }
+      this.state = 'half_open';
+      console.log(`[CircuitBreaker] ${this.provider} half open, letting a trial call through`);
+    }
+
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) {
+        throw new LLMCircuitOpenError(this.provider, new Date(this.now() + this.resetTimeoutMs));
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`[CircuitBreaker] ${this.provider} recovered, closing circuit`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = this.now();
+      console.warn(`[CircuitBreaker] ${this.provider} opened after ${this.consecutiveFailures} consecutive failures; failing fast for ${this.resetTimeoutMs}ms`);
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const isOpen = this.state === 'open';
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== undefined ? new Date(this.openedAt).toISOString() : null,
+      retryAt: isOpen ? new Date(this.retryAt()).toISOString() : null
+    };
+  }
+
+  private retryAt(): number {
+    return (this.openedAt ?? 0) + this.resetTimeoutMs;
+  }
+}
@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { StoryChoice } from '../../models/StoryState';
+import { LLMCompletion, LLMJsonCompletion, LLMMessage, LLMProvider, LLMRequestOptions } from './LLMProvider';
+import { LLMTranscript, LLMTranscriptCallKind, LLMTranscriptEntry, transcriptKey } from './LLMTranscript';
+import { STORY_BIBLE_RESPONSE_SCHEMA, STORY_MEMORY_RESPONSE_SCHEMA, STORY_SEGMENT_RESPONSE_SCHEMA } from './storyResponseSchemas';
+
+/**
+ * Story text the fake provider draws from
+ */
+export interface FakeLLMFixtures {
+  segments: string[];
+  // Choice texts; each response picks a few
+  choices: string[];
+}
+
+export interface FakeLLMProviderOptions {
+  fixtures: FakeLLMFixtures;
+  // Same seed and messages, same response
+  seed?: string;
+  // Recorded calls to answer with before falling back to the fixtures
+  transcript?: LLMTranscript;
+  chunkDelayMs?: number;
+}
+
+const DEFAULT_NUM_CHOICES = 2;
+
+/**
+ * Offline provider for development and tests. Responses are drawn from
+ * fixtures by a generator seeded with the request, so the same story plays
+ * out the same way every run without any network access.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake';
+  readonly model = 'fake-storyteller';
+  readonly structuredOutput = true;
+  private fixtures: FakeLLMFixtures;
+  private seed: string;
+  private transcript?: LLMTranscript;
+  private chunkDelayMs: number;
+  // Transcript entries already replayed
+  private replayed: Set<LLMTranscriptEntry> = new Set();
+
+  constructor(options: FakeLLMProviderOptions) {
+    if (!options.fixtures.segments.length || !options.fixtures.choices.length) {
+      throw new Error('Fake LLM fixtures need at least one segment and one choice');
+    }
+    this.fixtures = options.fixtures;
+    this.seed = options.seed ?? 'primer';
+    this.transcript = options.transcript;
+    this.chunkDelayMs = options.chunkDelayMs ?? 0;
+  }
+
+  async complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMCompletion> {
+    const text = this.replay('text', messages) ?? this.generateSegment(messages);
+    return this.toCompletion(messages, text);
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    onChunk: (chunk: string) => void,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMCompletion> {
+    const text = this.replay('text', messages) ?? this.generateSegment(messages);
+
+    // Word by word, keeping the whitespace so the chunks join back up exactly
+    for (const chunk of text.match(/\S+\s*/g) || []) {
+      await new Promise(resolve => setTimeout(resolve, this.chunkDelayMs));
+      onChunk(chunk);
+    }
+
+    return this.toCompletion(messages, text);
+  }
+
+  async completeJSON<T = unknown>(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMJsonCompletion<T>> {
+    const text = this.replay('json', messages) ?? JSON.stringify(this.generateJSON(messages, options));
+    return { ...this.toCompletion(messages, text), data: JSON.parse(text) as T };
+  }
+
+  /**
+   * The recorded response for these messages. Prompts that differ from the
+   * recording (timestamps, IDs) fall back to the next unplayed entry of the
+   * same kind, so a session replays in the order it was recorded.
+   */
+  private replay(kind: LLMTranscriptCallKind, messages: LLMMessage[]): string | undefined {
+    if (!this.transcript) {
+      return undefined;
+    }
+
+    const key = transcriptKey(kind, messages);
+    const unplayed = this.transcript.entries.filter(entry => entry.kind === kind && !this.replayed.has(entry));
+    const entry = unplayed.find(candidate => candidate.key === key) || unplayed[0];
+    if (!entry) {
+      return undefined;
+    }
+
+    this.replayed.add(entry);
+    return entry.text;
+  }
+
+  private generateJSON(messages: LLMMessage[], options: LLMRequestOptions): unknown {
+    switch (options.responseSchema?.name) {
+      case STORY_SEGMENT_RESPONSE_SCHEMA.name:
+        return { content: this.generateSegment(messages), choices: this.generateChoices(messages) };
+      case STORY_MEMORY_RESPONSE_SCHEMA.name:
+        return this.generateMemory(messages);
+      case STORY_BIBLE_RESPONSE_SCHEMA.name:
+        // The fixtures name no one, so there is nothing to add
+        return { characters: [], items: [], locations: [], plotThreads: [], resolvedPlotThreads: [] };
+      default:
+        return this.generateChoices(messages);
+    }
+  }
+
+  /**
+   * A summary made of the first sentence of each narrator passage
+   */
+  private generateMemory(messages: LLMMessage[]): unknown {
+    const passages = messages[messages.length - 1].content.split('\n')
+      .filter(line => line.startsWith('Narrator: '))
+      .map(line => line.substring('Narrator: '.length).split(/(?<=[.!?])\s/)[0]);
+
+    return { summary: passages.join(' ') || 'The story has only just begun.' };
+  }
+
+  private generateSegment(messages: LLMMessage[]): string {
+    const random = this.random('text', messages);
+    return this.fixtures.segments[Math.floor(random() * this.fixtures.segments.length)];
+  }
+
+  private generateChoices(messages: LLMMessage[]): StoryChoice[] {
+    const random = this.random('json', messages);
+    const requested = messages.map(message => message.content).join('\n').match(/exactly (\d+) choices/i);
+    const numChoices = Math.min(requested ? parseInt(requested[1], 10) : DEFAULT_NUM_CHOICES, this.fixtures.choices.length);
+
+    // Partial Fisher-Yates shuffle so no choice text repeats
+    const texts = [...this.fixtures.choices];
+    for (let i = 0; i < numChoices; i++) {
+      const j = i + Math.floor(random() * (texts.length - i));
+      [texts[i], texts[j]] = [texts[j], texts[i]];
+    }
+
+    return texts.slice(0, numChoices).map((text, index) => ({
+      id: `choice${index + 1}`,
+      text,
+      nextSegmentId: `fake_${Math.floor(random() * 0xffffffff).toString(16).padStart(8, '0')}`
+    }));
+  }
+
+  /**
+   * Seeded generator (mulberry32) for one call
+   */
+  private random(kind: LLMTranscriptCallKind, messages: LLMMessage[]): () => number {
+    let state = crypto.createHash('sha256')
+      .update(JSON.stringify({ seed: this.seed, kind, messages }))
+      .digest()
+      .readUInt32LE(0);
+
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private toCompletion(messages: LLMMessage[], text: string): LLMCompletion {
+    return {
+      text,
+      model: this.model,
+      usage: {
+        promptTokens: Math.ceil(JSON.stringify(messages).length / 4),
+        completionTokens: Math.ceil(text.length / 4)
+      }
+    };
+  }
+}
+
+export function loadFakeLLMFixtures(file: string): FakeLLMFixtures {
+  const fixtures = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(fixtures?.segments) || !Array.isArray(fixtures?.choices)) {
+    throw new Error(`Fake LLM fixtures must have "segments" and "choices" arrays: ${file}`);
+  }
+  return fixtures as FakeLLMFixtures;
+}
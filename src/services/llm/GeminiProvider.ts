@@ -0,0 +1,162 @@
+import {
+  Content,
+  GenerationConfig,
+  GoogleGenerativeAI,
+  GenerativeModel,
+  ModelParams,
+  ResponseSchema,
+  UsageMetadata
+} from '@google/generative-ai';
+import { LLMCompletion, LLMJsonCompletion, LLMMessage, LLMProvider, LLMRequestOptions, LLMUsage } from './LLMProvider';
+import { LLMProviderError } from './LLMProviderError';
+import { parseJsonResponse } from './parseJsonResponse';
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 1000;
+
+/**
+ * Adapter for Google's Gemini API
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  readonly structuredOutput = true;
+  private genAI: GoogleGenerativeAI;
+
+  constructor(apiKey: string, model: string = 'gemini-1.5-pro', genAI: GoogleGenerativeAI = new GoogleGenerativeAI(apiKey)) {
+    this.model = model;
+    this.genAI = genAI;
+  }
+
+  async complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMCompletion> {
+    return this.generate(messages, this.buildGenerationConfig(options), options);
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    onChunk: (chunk: string) => void,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMCompletion> {
+    try {
+      const { model, modelName, contents } = this.prepare(messages, this.buildGenerationConfig(options), options);
+      const result = await model.generateContentStream({ contents });
+
+      let text = '';
+      for await (const chunk of result.stream) {
+        const content = chunk.text();
+        if (content) {
+          text += content;
+          onChunk(content);
+        }
+      }
+
+      const response = await result.response;
+      return { text, model: modelName, usage: this.toUsage(response.usageMetadata) };
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  async completeJSON<T = unknown>(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMJsonCompletion<T>> {
+    const completion = await this.generate(messages, {
+      ...this.buildGenerationConfig(options),
+      responseMimeType: 'application/json',
+      ...(options.responseSchema ? { responseSchema: this.toResponseSchema(options.responseSchema.schema) } : {})
+    }, options);
+    return { ...completion, data: parseJsonResponse<T>(this.name, completion.text) };
+  }
+
+  private async generate(messages: LLMMessage[], generationConfig: GenerationConfig, options: LLMRequestOptions): Promise<LLMCompletion> {
+    try {
+      const { model, modelName, contents } = this.prepare(messages, generationConfig, options);
+      const result = await model.generateContent({ contents });
+      return {
+        text: result.response.text().trim(),
+        model: modelName,
+        usage: this.toUsage(result.response.usageMetadata)
+      };
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  /**
+   * Gemini takes system messages as a separate instruction and calls the
+   * assistant role "model"
+   */
+  private prepare(
+    messages: LLMMessage[],
+    generationConfig: GenerationConfig,
+    options: LLMRequestOptions
+  ): { model: GenerativeModel; modelName: string; contents: Content[] } {
+    const systemInstruction = messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    const contents: Content[] = messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }]
+      }));
+
+    const params: ModelParams = {
+      model: options.model ?? this.model,
+      generationConfig,
+      ...(systemInstruction ? { systemInstruction } : {})
+    };
+    const model = options.timeoutMs
+      ? this.genAI.getGenerativeModel(params, { timeout: options.timeoutMs })
+      : this.genAI.getGenerativeModel(params);
+
+    return { model, modelName: params.model, contents };
+  }
+
+  private buildGenerationConfig(options: LLMRequestOptions): GenerationConfig {
+    return {
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      maxOutputTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS
+    };
+  }
+
+  /**
+   * Gemini takes an OpenAPI-style subset of JSON Schema without additionalProperties
+   */
+  private toResponseSchema(schema: Record<string, any>): ResponseSchema {
+    const { additionalProperties, ...rest } = schema;
+    const converted: Record<string, any> = { ...rest };
+    if (rest.properties) {
+      converted.properties = Object.fromEntries(
+        Object.entries(rest.properties).map(([key, value]) => [key, this.toResponseSchema(value as Record<string, any>)])
+      );
+    }
+    if (rest.items) {
+      converted.items = this.toResponseSchema(rest.items);
+    }
+    return converted as ResponseSchema;
+  }
+
+  private toUsage(usage?: UsageMetadata): LLMUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+    return { promptTokens: usage.promptTokenCount, completionTokens: usage.candidatesTokenCount };
+  }
+
+  private toProviderError(error: any): LLMProviderError {
+    if (error instanceof LLMProviderError) {
+      return error;
+    }
+    return new LLMProviderError(this.name, error?.message || 'Unknown error', error?.status, this.parseRetryDelay(error));
+  }
+
+  /**
+   * Gemini reports how long to back off in a google.rpc.RetryInfo error detail, e.g. "30s"
+   */
+  private parseRetryDelay(error: any): number | undefined {
+    const retryInfo = (error?.errorDetails || []).find((detail: any) => detail?.['@type']?.endsWith('RetryInfo'));
+    const seconds = parseFloat(retryInfo?.retryDelay);
+    return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+  }
+}
@@ -0,0 +1,89 @@
+import { ConversationMessage, StoryBible, StoryBibleUpdate, StoryChoice } from '../../models/StoryState';
+import { PromptTemplateRef } from '../prompts';
+import { StoryMemoryDraft, StorySegmentDraft } from './storyResponseSchemas';
+
+export interface GenerateStorySegmentParams {
+  prompt: string;
+  // Template the prompt was rendered from, recorded with the request
+  promptTemplate?: PromptTemplateRef;
+  context: Record<string, any>;
+  // Provider to generate with; the deployment default when omitted
+  provider?: string;
+}
+
+export interface StreamStorySegmentParams {
+  prompt: string;
+  promptTemplate?: PromptTemplateRef;
+  context: Record<string, any>;
+  onChunk: (chunk: string) => void;
+  provider?: string;
+}
+
+export interface GenerateStoryChoicesParams {
+  currentSegment: string;
+  context: Record<string, any>;
+  numChoices: number;
+  provider?: string;
+}
+
+export interface GenerateStorySegmentWithChoicesParams {
+  prompt: string;
+  promptTemplate?: PromptTemplateRef;
+  context: Record<string, any>;
+  numChoices: number;
+  provider?: string;
+}
+
+export interface SummarizeStoryParams {
+  // The summary so far, which the new messages are folded into
+  memory: StoryMemoryDraft;
+  messages: ConversationMessage[];
+  summaryMaxWords: number;
+  context: Record<string, any>;
+  provider?: string;
+}
+
+export interface ExtractStoryBibleParams {
+  bible: StoryBible;
+  // Text of the segment just written
+  content: string;
+  context: Record<string, any>;
+  provider?: string;
+}
+
+/**
+ * Story-level text generation. The story services and controllers depend on
+ * this rather than on a particular vendor's API.
+ */
+export interface LLMClient {
+  generateStorySegment(params: GenerateStorySegmentParams): Promise<string>;
+  streamStorySegment(params: StreamStorySegmentParams): Promise<void>;
+  generateStoryChoices(params: GenerateStoryChoicesParams): Promise<StoryChoice[]>;
+
+  /**
+   * Write a segment and its choices in one call. Only for providers where
+   * supportsCombinedGeneration is true.
+   */
+  generateStorySegmentWithChoices(params: GenerateStorySegmentWithChoicesParams): Promise<StorySegmentDraft>;
+
+  /**
+   * Whether the provider can return a segment and its choices in one
+   * structured response
+   */
+  supportsCombinedGeneration(provider?: string): boolean;
+
+  /**
+   * Fold older conversation messages into a story's rolling summary
+   */
+  summarizeStory(params: SummarizeStoryParams): Promise<StoryMemoryDraft>;
+
+  /**
+   * What a new segment introduced or changed in the story bible
+   */
+  extractStoryBible(params: ExtractStoryBibleParams): Promise<StoryBibleUpdate>;
+
+  /**
+   * Names of the providers requests may select
+   */
+  getProviderNames(): string[];
+}
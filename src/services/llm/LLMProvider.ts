@@ -0,0 +1,73 @@
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * The shape a JSON response must take, for providers that can enforce it
+ * (function calling, response schemas)
+ */
+export interface LLMResponseSchema {
+  // Identifier the provider may show the model, e.g. as a function name
+  name: string;
+  description?: string;
+  // JSON Schema; the root must be an object
+  schema: Record<string, any>;
+}
+
+export interface LLMRequestOptions {
+  // Model to use instead of the provider's configured one
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Abandon the call if the provider has not answered in time
+  timeoutMs?: number;
+  // Structured output for completeJSON; providers without it rely on the prompt
+  responseSchema?: LLMResponseSchema;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMCompletion {
+  text: string;
+  // Model that actually answered
+  model: string;
+  // Token counts, when the provider reports them
+  usage?: LLMUsage;
+}
+
+export interface LLMJsonCompletion<T> extends LLMCompletion {
+  data: T;
+}
+
+/**
+ * A vendor's text generation API. Adapters translate these calls to the
+ * vendor's wire format; everything story-specific lives above this interface.
+ */
+export interface LLMProvider {
+  // Name clients use to select this provider
+  readonly name: string;
+  readonly model: string;
+  // Whether completeJSON enforces options.responseSchema rather than relying on the prompt
+  readonly structuredOutput?: boolean;
+
+  /**
+   * Generate a complete response
+   */
+  complete(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMCompletion>;
+
+  /**
+   * Generate a response, passing each piece of text to onChunk as it arrives.
+   * Resolves with the full response once the stream ends.
+   */
+  stream(messages: LLMMessage[], onChunk: (chunk: string) => void, options?: LLMRequestOptions): Promise<LLMCompletion>;
+
+  /**
+   * Generate a response that must be JSON, and parse it.
+   * Throws LLMResponseFormatError when the response is not valid JSON.
+   */
+  completeJSON<T = unknown>(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMJsonCompletion<T>>;
+}
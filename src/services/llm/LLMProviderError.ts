@@ -0,0 +1,63 @@
+/**
+ * Thrown when an LLM provider's API call fails
+ */
+export class LLMProviderError extends Error {
+  provider: string;
+  // HTTP status of the failed call, when there was a response
+  status?: number;
+  // How long the provider asked us to wait before retrying (Retry-After)
+  retryAfterMs?: number;
+
+  constructor(provider: string, message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.provider = provider;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.name = this.constructor.name;
+  }
+}
+
+/**
+ * Thrown without calling the provider while its circuit breaker is open
+ * (it has failed repeatedly and is given time to recover)
+ */
+export class LLMCircuitOpenError extends LLMProviderError {
+  // When the breaker will let a trial request through
+  retryAt: Date;
+
+  constructor(provider: string, retryAt: Date) {
+    super(provider, `LLM provider ${provider} is unavailable; retrying after ${retryAt.toISOString()}`, 503);
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Thrown when a provider's response is not in the requested format (e.g. invalid JSON)
+ */
+export class LLMResponseFormatError extends Error {
+  provider: string;
+  // Raw response text, for logging
+  responseText: string;
+
+  constructor(provider: string, message: string, responseText: string) {
+    super(message);
+    this.provider = provider;
+    this.responseText = responseText;
+    this.name = this.constructor.name;
+  }
+}
+
+/**
+ * Thrown when a request asks for a provider this deployment does not have
+ */
+export class UnknownLLMProviderError extends Error {
+  provider: string;
+  availableProviders: string[];
+
+  constructor(provider: string, availableProviders: string[]) {
+    super(`Unknown LLM provider: ${provider} (available: ${availableProviders.join(', ') || 'none'})`);
+    this.provider = provider;
+    this.availableProviders = availableProviders;
+    this.name = this.constructor.name;
+  }
+}
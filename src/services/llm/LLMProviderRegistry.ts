@@ -0,0 +1,77 @@
+import { LLMProvider } from './LLMProvider';
+import { UnknownLLMProviderError } from './LLMProviderError';
+
+export interface LLMProviderRegistryOptions {
+  // Provider used when a request does not name one (defaults to the first registered)
+  defaultProvider?: string;
+  // Whether requests may name a provider other than the default
+  allowRequestOverride?: boolean;
+}
+
+/**
+ * The LLM providers a deployment has configured, looked up by name
+ */
+export class LLMProviderRegistry {
+  private providers: Map<string, LLMProvider> = new Map();
+  private defaultProviderName?: string;
+  private allowRequestOverride: boolean;
+
+  constructor(providers: LLMProvider[] = [], options: LLMProviderRegistryOptions = {}) {
+    providers.forEach(provider => this.register(provider));
+    this.defaultProviderName = options.defaultProvider || providers[0]?.name;
+    this.allowRequestOverride = options.allowRequestOverride ?? true;
+
+    if (this.defaultProviderName && !this.providers.has(this.defaultProviderName)) {
+      throw new UnknownLLMProviderError(this.defaultProviderName, this.getProviderNames());
+    }
+  }
+
+  register(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+    if (!this.defaultProviderName) {
+      this.defaultProviderName = provider.name;
+    }
+  }
+
+  /**
+   * Names of the providers requests may select
+   */
+  getProviderNames(): string[] {
+    if (!this.allowRequestOverride) {
+      return this.defaultProviderName ? [this.defaultProviderName] : [];
+    }
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Every registered provider, including ones requests may not select
+   */
+  getProviders(): LLMProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  getDefaultProviderName(): string | undefined {
+    return this.defaultProviderName;
+  }
+
+  /**
+   * Whether a request naming this provider would be served
+   */
+  supports(name: string): boolean {
+    return this.getProviderNames().includes(name);
+  }
+
+  /**
+   * Resolve the provider for a request; without a name this is the default.
+   * Throws UnknownLLMProviderError for providers that are not configured, or
+   * that requests may not select.
+   */
+  get(name?: string): LLMProvider {
+    const providerName = name || this.defaultProviderName;
+    const provider = providerName && this.supports(providerName) ? this.providers.get(providerName) : undefined;
+    if (!provider) {
+      throw new UnknownLLMProviderError(providerName || '(none)', this.getProviderNames());
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { LLMMessage } from './LLMProvider';
+
+// Plain text (completed or streamed) or JSON-structured output
+export type LLMTranscriptCallKind = 'text' | 'json';
+
+/**
+ * One recorded provider call
+ */
+export interface LLMTranscriptEntry {
+  kind: LLMTranscriptCallKind;
+  // Hash of the kind and messages, used to find the entry when replaying
+  key: string;
+  messages: LLMMessage[];
+  text: string;
+  model: string;
+  recordedAt: string;
+}
+
+/**
+ * Provider calls recorded from a real session, for replaying offline
+ */
+export interface LLMTranscript {
+  version: 1;
+  entries: LLMTranscriptEntry[];
+}
+
+export function transcriptKey(kind: LLMTranscriptCallKind, messages: LLMMessage[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify({ kind, messages })).digest('hex');
+}
+
+export function loadTranscript(file: string): LLMTranscript {
+  const transcript = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (transcript?.version !== 1 || !Array.isArray(transcript.entries)) {
+    throw new Error(`Not an LLM transcript: ${file}`);
+  }
+  return transcript as LLMTranscript;
+}
+
+export function saveTranscript(file: string, transcript: LLMTranscript): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(transcript, null, 2));
+}
@@ -0,0 +1,251 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import { LLMCompletion, LLMJsonCompletion, LLMMessage, LLMProvider, LLMRequestOptions, LLMUsage } from './LLMProvider';
+import { LLMProviderError } from './LLMProviderError';
+import { parseJsonResponse } from './parseJsonResponse';
+
+export interface OpenAICompatibleProviderOptions {
+  // Name clients use to select this provider
+  name: string;
+  // API root, e.g. http://localhost:11434/v1 (the chat/completions path is appended)
+  baseUrl: string;
+  model: string;
+  // Local servers often need no key
+  apiKey?: string;
+  // Whether the server supports function calling, used to enforce JSON response schemas
+  structuredOutput?: boolean;
+  // Whether the server reports token usage at the end of a stream (stream_options.include_usage)
+  streamUsage?: boolean;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      tool_calls?: Array<{ function?: { arguments?: string } }>;
+    };
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+  };
+}
+
+interface OpenAIErrorResponse {
+  error?: {
+    message?: string;
+    type?: string;
+  };
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 1000;
+
+/**
+ * Adapter for any server that speaks the OpenAI chat completions API:
+ * OpenAI itself, and local endpoints such as Ollama, LM Studio or vLLM
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private url: string;
+  private apiKey?: string;
+  readonly structuredOutput: boolean;
+  private streamUsage: boolean;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.name = options.name;
+    this.model = options.model;
+    this.url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    this.apiKey = options.apiKey;
+    this.structuredOutput = options.structuredOutput ?? false;
+    this.streamUsage = options.streamUsage ?? false;
+  }
+
+  async complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMCompletion> {
+    return this.post(this.buildRequestBody(messages, options), options);
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    onChunk: (chunk: string) => void,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMCompletion> {
+    const config: AxiosRequestConfig = {
+      method: 'post',
+      url: this.url,
+      data: {
+        ...this.buildRequestBody(messages, options),
+        stream: true,
+        ...(this.streamUsage ? { stream_options: { include_usage: true } } : {})
+      },
+      headers: { ...this.buildHeaders(), 'Accept': 'text/event-stream' },
+      responseType: 'stream',
+      // Covers waiting for the stream to start, not the stream itself
+      timeout: options.timeoutMs
+    };
+
+    let response;
+    try {
+      response = await axios(config);
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+
+    let text = '';
+    let model = options.model ?? this.model;
+    let usage: LLMUsage | undefined;
+    // Server-sent events can be split across network chunks; keep the partial line
+    let pending = '';
+
+    const handleLine = (line: string) => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) {
+        return;
+      }
+      const payload = trimmed.slice('data:'.length).trim();
+      if (!payload || payload === '[DONE]') {
+        return;
+      }
+
+      try {
+        const json = JSON.parse(payload);
+        if (json.model) {
+          model = json.model;
+        }
+        // The final event carries the usage when it was asked for
+        if (json.usage) {
+          usage = this.toUsage(json.usage);
+        }
+        const content = json.choices?.[0]?.delta?.content;
+        if (content) {
+          text += content;
+          onChunk(content);
+        }
+      } catch (e) {
+        console.warn(`[${this.name}] Failed to parse streaming chunk:`, e);
+      }
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      response.data.on('data', (chunk: Buffer) => {
+        const lines = (pending + chunk.toString()).split('\n');
+        pending = lines.pop() || '';
+        lines.forEach(handleLine);
+      });
+      response.data.on('end', () => {
+        handleLine(pending);
+        resolve();
+      });
+      response.data.on('error', (error: Error) => {
+        reject(new LLMProviderError(this.name, `Stream from ${this.name} failed: ${error.message}`));
+      });
+    });
+
+    return { text, model, usage };
+  }
+
+  async completeJSON<T = unknown>(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMJsonCompletion<T>> {
+    // JSON mode (response_format) and json_schema are unevenly supported across
+    // models and local servers, whereas function calling is widespread, so a
+    // schema is enforced by forcing a call to a function that takes it
+    const body = this.buildRequestBody(messages, options);
+    const schema = this.structuredOutput ? options.responseSchema : undefined;
+    if (schema) {
+      body.tools = [{
+        type: 'function',
+        function: { name: schema.name, description: schema.description, parameters: schema.schema }
+      }];
+      body.tool_choice = { type: 'function', function: { name: schema.name } };
+    }
+
+    const completion = await this.post(body, options);
+    return { ...completion, data: parseJsonResponse<T>(this.name, completion.text) };
+  }
+
+  private async post(body: Record<string, any>, options: LLMRequestOptions): Promise<LLMCompletion> {
+    try {
+      const response = await axios.post<ChatCompletionResponse>(
+        this.url,
+        body,
+        { headers: this.buildHeaders(), timeout: options.timeoutMs }
+      );
+
+      // A forced function call carries its JSON in the arguments rather than the content
+      const message = response.data?.choices?.[0]?.message;
+      const content = message?.tool_calls?.[0]?.function?.arguments ?? message?.content;
+      if (typeof content !== 'string') {
+        throw new LLMProviderError(this.name, `Invalid response from ${this.name}: no message content`);
+      }
+
+      return {
+        text: content.trim(),
+        model: response.data.model || body.model,
+        usage: this.toUsage(response.data.usage)
+      };
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  private buildRequestBody(messages: LLMMessage[], options: LLMRequestOptions): Record<string, any> {
+    return {
+      model: options.model ?? this.model,
+      messages,
+      temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS
+    };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  private toUsage(usage: ChatCompletionResponse['usage']): LLMUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+    return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens };
+  }
+
+  /**
+   * Read how long the server asked us to back off: retry-after-ms (OpenAI), or
+   * the standard Retry-After in seconds or as an HTTP date
+   */
+  private parseRetryAfter(headers?: Record<string, any>): number | undefined {
+    const retryAfterMs = Number(headers?.['retry-after-ms']);
+    if (headers?.['retry-after-ms'] !== undefined && Number.isFinite(retryAfterMs)) {
+      return Math.max(0, retryAfterMs);
+    }
+
+    const retryAfter = headers?.['retry-after'];
+    if (retryAfter === undefined) {
+      return undefined;
+    }
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private toProviderError(error: any): LLMProviderError {
+    if (error instanceof LLMProviderError) {
+      return error;
+    }
+
+    if (axios.isAxiosError(error)) {
+      // Prefer the API's own explanation over axios' generic status message
+      const responseData = error.response?.data as OpenAIErrorResponse | undefined;
+      const message = responseData?.error?.message || error.message;
+      return new LLMProviderError(this.name, message, error.response?.status, this.parseRetryAfter(error.response?.headers));
+    }
+
+    return new LLMProviderError(this.name, error?.message || 'Unknown error');
+  }
+}
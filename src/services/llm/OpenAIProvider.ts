@@ -0,0 +1,12 @@
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+export const OPENAI_API_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Adapter for the OpenAI API
+ */
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  constructor(apiKey: string, model: string = 'gpt-4', baseUrl: string = OPENAI_API_BASE_URL) {
+    super({ name: 'openai', baseUrl, model, apiKey, structuredOutput: true, streamUsage: true });
+  }
+}
@@ -0,0 +1,58 @@
+import { LLMCompletion, LLMJsonCompletion, LLMMessage, LLMProvider, LLMRequestOptions } from './LLMProvider';
+import { LLMTranscript, LLMTranscriptCallKind, saveTranscript, transcriptKey } from './LLMTranscript';
+
+/**
+ * Wraps a provider and writes every call it answers to a transcript file,
+ * which the fake provider can replay offline
+ */
+export class RecordingLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly structuredOutput?: boolean;
+  private provider: LLMProvider;
+  private file: string;
+  private transcript: LLMTranscript = { version: 1, entries: [] };
+
+  constructor(provider: LLMProvider, file: string) {
+    this.provider = provider;
+    this.name = provider.name;
+    this.model = provider.model;
+    this.structuredOutput = provider.structuredOutput;
+    this.file = file;
+  }
+
+  async complete(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMCompletion> {
+    return this.record('text', messages, await this.provider.complete(messages, options));
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    onChunk: (chunk: string) => void,
+    options?: LLMRequestOptions
+  ): Promise<LLMCompletion> {
+    return this.record('text', messages, await this.provider.stream(messages, onChunk, options));
+  }
+
+  async completeJSON<T = unknown>(messages: LLMMessage[], options?: LLMRequestOptions): Promise<LLMJsonCompletion<T>> {
+    return this.record('json', messages, await this.provider.completeJSON<T>(messages, options));
+  }
+
+  private record<T extends LLMCompletion>(kind: LLMTranscriptCallKind, messages: LLMMessage[], completion: T): T {
+    this.transcript.entries.push({
+      kind,
+      key: transcriptKey(kind, messages),
+      messages,
+      text: completion.text,
+      model: completion.model,
+      recordedAt: new Date().toISOString()
+    });
+
+    // Written after every call so a crashed session still leaves a usable transcript
+    try {
+      saveTranscript(this.file, this.transcript);
+    } catch (error) {
+      console.error(`[RecordingLLMProvider] Could not write transcript ${this.file}:`, error);
+    }
+    return completion;
+  }
+}
@@ -0,0 +1,124 @@
+import { LLMCompletion, LLMJsonCompletion, LLMMessage, LLMProvider, LLMRequestOptions } from './LLMProvider';
+import { LLMCircuitOpenError, LLMProviderError } from './LLMProviderError';
+import { CircuitBreaker, CircuitBreakerStatus } from './CircuitBreaker';
+import { LLMConfig } from '../../config/llm';
+
+export type LLMResilienceOptions = LLMConfig['resilience'];
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Whether a failed call is worth repeating: timeouts, network errors, rate
+ * limits and server errors. Bad requests and unparseable responses are not.
+ */
+export function isRetryableLLMError(error: unknown): boolean {
+  if (!(error instanceof LLMProviderError) || error instanceof LLMCircuitOpenError) {
+    return false;
+  }
+  return error.status === undefined || error.status === 408 || error.status === 429 || error.status >= 500;
+}
+
+/**
+ * Wraps a provider with per-call timeouts, retries with jittered exponential
+ * backoff (honoring Retry-After), and a circuit breaker
+ */
+export class ResilientLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly structuredOutput?: boolean;
+  private provider: LLMProvider;
+  private options: LLMResilienceOptions;
+  private circuitBreaker: CircuitBreaker;
+  private wait: (ms: number) => Promise<void>;
+  private random: () => number;
+
+  constructor(
+    provider: LLMProvider,
+    options: LLMResilienceOptions,
+    circuitBreaker: CircuitBreaker = new CircuitBreaker(provider.name, options.breakerFailureThreshold, options.breakerResetTimeoutMs),
+    wait: (ms: number) => Promise<void> = sleep,
+    random: () => number = Math.random
+  ) {
+    this.provider = provider;
+    this.name = provider.name;
+    this.model = provider.model;
+    this.structuredOutput = provider.structuredOutput;
+    this.options = options;
+    this.circuitBreaker = circuitBreaker;
+    this.wait = wait;
+    this.random = random;
+  }
+
+  complete(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMCompletion> {
+    return this.execute(callOptions => this.provider.complete(messages, callOptions), options);
+  }
+
+  stream(
+    messages: LLMMessage[],
+    onChunk: (chunk: string) => void,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMCompletion> {
+    // Once the reader has seen part of a response, retrying would repeat it
+    let delivered = false;
+    return this.execute(
+      callOptions => this.provider.stream(messages, chunk => {
+        delivered = true;
+        onChunk(chunk);
+      }, callOptions),
+      options,
+      () => !delivered
+    );
+  }
+
+  completeJSON<T = unknown>(messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<LLMJsonCompletion<T>> {
+    return this.execute(callOptions => this.provider.completeJSON<T>(messages, callOptions), options);
+  }
+
+  getCircuitStatus(): CircuitBreakerStatus {
+    return this.circuitBreaker.getStatus();
+  }
+
+  private async execute<T>(
+    call: (options: LLMRequestOptions) => Promise<T>,
+    options: LLMRequestOptions,
+    canRetry: () => boolean = () => true
+  ): Promise<T> {
+    this.circuitBreaker.acquire();
+    const callOptions = { ...options, timeoutMs: options.timeoutMs ?? this.options.timeoutMs };
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await call(callOptions);
+        this.circuitBreaker.recordSuccess();
+        return result;
+      } catch (error) {
+        if (!isRetryableLLMError(error)) {
+          // The provider answered, so it is up, even if the answer was unusable
+          this.circuitBreaker.recordSuccess();
+          throw error;
+        }
+
+        const delay = this.retryDelay(attempt, (error as LLMProviderError).retryAfterMs);
+        if (attempt >= this.options.maxRetries || !canRetry() || delay === null) {
+          this.circuitBreaker.recordFailure();
+          throw error;
+        }
+
+        console.warn(`[ResilientLLMProvider] ${this.name} call failed (${(error as Error).message}); retry ${attempt + 1}/${this.options.maxRetries} in ${delay}ms`);
+        await this.wait(delay);
+      }
+    }
+  }
+
+  /**
+   * Delay before the next attempt: what Retry-After asked for, or full-jitter
+   * exponential backoff. Null when Retry-After asks for longer than we will wait.
+   */
+  private retryDelay(attempt: number, retryAfterMs?: number): number | null {
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs <= this.options.retryMaxDelayMs ? retryAfterMs : null;
+    }
+    const ceiling = Math.min(this.options.retryMaxDelayMs, this.options.retryBaseDelayMs * 2 ** attempt);
+    return Math.round(this.random() * ceiling);
+  }
+}
@@ -0,0 +1,103 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FakeLLMProvider, FakeLLMFixtures } from '../FakeLLMProvider';
+import { RecordingLLMProvider } from '../RecordingLLMProvider';
+import { loadTranscript, transcriptKey } from '../LLMTranscript';
+import { StoryChoice } from '../../../models/StoryState';
+import { STORY_MEMORY_RESPONSE_SCHEMA } from '../storyResponseSchemas';
+
+describe('FakeLLMProvider', () => {
+  const fixtures: FakeLLMFixtures = {
+    segments: ['The door creaked open.', 'A bird sang in the rain.', 'The map was blank.'],
+    choices: ['Go left', 'Go right', 'Wait', 'Run', 'Shout']
+  };
+  const messages = [
+    { role: 'system' as const, content: 'Generate exactly 3 choices for an interactive narrative.' },
+    { role: 'user' as const, content: 'The story so far...' }
+  ];
+
+  it('should give the same response for the same seed and messages', async () => {
+    const first = await new FakeLLMProvider({ fixtures, seed: 'a' }).complete(messages);
+    const second = await new FakeLLMProvider({ fixtures, seed: 'a' }).complete(messages);
+
+    expect(fixtures.segments).toContain(first.text);
+    expect(second.text).toBe(first.text);
+  });
+
+  it('should generate the requested number of distinct, valid choices', async () => {
+    const provider = new FakeLLMProvider({ fixtures });
+
+    const { data } = await provider.completeJSON<StoryChoice[]>(messages);
+
+    expect(data).toHaveLength(3);
+    expect(new Set(data.map(choice => choice.text)).size).toBe(3);
+    data.forEach((choice, index) => {
+      expect(choice.id).toBe(`choice${index + 1}`);
+      expect(fixtures.choices).toContain(choice.text);
+      expect(choice.nextSegmentId).toMatch(/^fake_[0-9a-f]{8}$/);
+    });
+    expect((await provider.completeJSON(messages)).data).toEqual(data);
+  });
+
+  it('should stream the segment in chunks that join back up', async () => {
+    const provider = new FakeLLMProvider({ fixtures });
+    const chunks: string[] = [];
+
+    const completion = await provider.stream(messages, chunk => chunks.push(chunk));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(completion.text);
+    expect(completion.text).toBe((await provider.complete(messages)).text);
+  });
+
+  it('should summarize a story from the first sentence of each narrator passage', async () => {
+    const provider = new FakeLLMProvider({ fixtures });
+
+    const { data } = await provider.completeJSON(
+      [{ role: 'user', content: 'New passages:\nReader: Open it\nNarrator: The door creaked open. Dust fell.\nNarrator: A bird sang.' }],
+      { responseSchema: STORY_MEMORY_RESPONSE_SCHEMA }
+    );
+
+    expect(data).toEqual({ summary: 'The door creaked open. A bird sang.' });
+  });
+
+  it('should replay a transcript, matching by messages and then in recorded order', async () => {
+    const entry = (kind: 'text' | 'json', text: string, key: string) =>
+      ({ kind, key, messages: [], text, model: 'gpt-4', recordedAt: '2025-01-01T00:00:00.000Z' });
+    const provider = new FakeLLMProvider({
+      fixtures,
+      transcript: {
+        version: 1,
+        entries: [
+          entry('text', 'First recorded', 'other'),
+          entry('text', 'Matching recorded', transcriptKey('text', messages)),
+          entry('json', '[{"id":"c1","text":"Recorded","nextSegmentId":"s1"}]', 'other')
+        ]
+      }
+    });
+
+    expect((await provider.complete(messages)).text).toBe('Matching recorded');
+    expect((await provider.complete(messages)).text).toBe('First recorded');
+    expect((await provider.completeJSON(messages)).data).toEqual([{ id: 'c1', text: 'Recorded', nextSegmentId: 's1' }]);
+    // Transcript exhausted: back to the fixtures
+    expect(fixtures.segments).toContain((await provider.complete(messages)).text);
+  });
+
+  it('should replay what a recording provider captured', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-transcript-'));
+    const file = path.join(directory, 'session.json');
+    try {
+      const recorder = new RecordingLLMProvider(new FakeLLMProvider({ fixtures, seed: 'live' }), file);
+      const recorded = await recorder.complete(messages);
+      const recordedChoices = await recorder.completeJSON(messages);
+
+      const replay = new FakeLLMProvider({ fixtures, seed: 'different', transcript: loadTranscript(file) });
+
+      expect((await replay.complete(messages)).text).toBe(recorded.text);
+      expect((await replay.completeJSON(messages)).data).toEqual(recordedChoices.data);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
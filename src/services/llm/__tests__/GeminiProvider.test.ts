@@ -0,0 +1,113 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GeminiProvider } from '../GeminiProvider';
+import { LLMProviderError } from '../LLMProviderError';
+
+describe('GeminiProvider', () => {
+  const messages = [
+    { role: 'system' as const, content: 'You are a storyteller.' },
+    { role: 'user' as const, content: 'Begin.' },
+    { role: 'assistant' as const, content: 'Once upon a time...' },
+    { role: 'user' as const, content: 'Go on.' }
+  ];
+  let model: { generateContent: jest.Mock; generateContentStream: jest.Mock };
+  let genAI: { getGenerativeModel: jest.Mock };
+  let provider: GeminiProvider;
+
+  const response = (text: string) => ({
+    text: () => text,
+    usageMetadata: { promptTokenCount: 20, candidatesTokenCount: 8, totalTokenCount: 28 }
+  });
+
+  beforeEach(() => {
+    model = { generateContent: jest.fn(), generateContentStream: jest.fn() };
+    genAI = { getGenerativeModel: jest.fn().mockReturnValue(model) };
+    provider = new GeminiProvider('key', 'gemini-1.5-flash', genAI as unknown as GoogleGenerativeAI);
+  });
+
+  it('should send system messages as the system instruction and map roles', async () => {
+    model.generateContent.mockResolvedValue({ response: response(' The dragon woke. ') });
+
+    const completion = await provider.complete(messages, { maxTokens: 200 });
+
+    expect(completion).toEqual({
+      text: 'The dragon woke.',
+      model: 'gemini-1.5-flash',
+      usage: { promptTokens: 20, completionTokens: 8 }
+    });
+    expect(genAI.getGenerativeModel).toHaveBeenCalledWith({
+      model: 'gemini-1.5-flash',
+      generationConfig: { temperature: 0.7, maxOutputTokens: 200 },
+      systemInstruction: 'You are a storyteller.'
+    });
+    expect(model.generateContent.mock.calls[0][0].contents.map((content: any) => content.role))
+      .toEqual(['user', 'model', 'user']);
+  });
+
+  it('should use the model the request names', async () => {
+    model.generateContent.mockResolvedValue({ response: response('Hi') });
+
+    const completion = await provider.complete(messages, { model: 'gemini-1.5-pro' });
+
+    expect(genAI.getGenerativeModel.mock.calls[0][0].model).toBe('gemini-1.5-pro');
+    expect(completion.model).toBe('gemini-1.5-pro');
+  });
+
+  it('should ask for a JSON response and parse it', async () => {
+    model.generateContent.mockResolvedValue({ response: response('[{"id":"a"}]') });
+
+    const completion = await provider.completeJSON(messages);
+
+    expect(completion.data).toEqual([{ id: 'a' }]);
+    expect(genAI.getGenerativeModel.mock.calls[0][0].generationConfig.responseMimeType).toBe('application/json');
+  });
+
+  it('should pass a response schema, dropping what Gemini does not support', async () => {
+    model.generateContent.mockResolvedValue({ response: response('{"choices":[]}') });
+
+    await provider.completeJSON(messages, {
+      responseSchema: {
+        name: 'story_choices',
+        schema: {
+          type: 'object',
+          properties: { choices: { type: 'array', items: { type: 'object', properties: { id: { type: 'string' } }, additionalProperties: false } } },
+          required: ['choices'],
+          additionalProperties: false
+        }
+      }
+    });
+
+    expect(genAI.getGenerativeModel.mock.calls[0][0].generationConfig.responseSchema).toEqual({
+      type: 'object',
+      properties: { choices: { type: 'array', items: { type: 'object', properties: { id: { type: 'string' } } } } },
+      required: ['choices']
+    });
+  });
+
+  it('should stream chunks and resolve with the full text', async () => {
+    async function* chunks() {
+      yield { text: () => 'The dragon ' };
+      yield { text: () => 'woke.' };
+    }
+    model.generateContentStream.mockResolvedValue({
+      stream: chunks(),
+      response: Promise.resolve(response('The dragon woke.'))
+    });
+    const received: string[] = [];
+
+    const completion = await provider.stream(messages, chunk => received.push(chunk));
+
+    expect(received).toEqual(['The dragon ', 'woke.']);
+    expect(completion.text).toBe('The dragon woke.');
+    expect(completion.usage).toEqual({ promptTokens: 20, completionTokens: 8 });
+  });
+
+  it('should wrap SDK errors with the HTTP status', async () => {
+    model.generateContent.mockRejectedValue(Object.assign(new Error('Quota exceeded'), { status: 429 }));
+
+    const error = await provider.complete(messages).catch(e => e);
+
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error.provider).toBe('gemini');
+    expect(error.status).toBe(429);
+  });
+});
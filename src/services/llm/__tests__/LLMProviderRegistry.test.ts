@@ -0,0 +1,93 @@
+import { LLMProviderRegistry } from '../LLMProviderRegistry';
+import { LLMProvider } from '../LLMProvider';
+import { UnknownLLMProviderError } from '../LLMProviderError';
+import { createLLMProviderRegistry } from '..';
+import path from 'path';
+import { LLMConfig } from '../../../config/llm';
+
+describe('LLMProviderRegistry', () => {
+  const provider = (name: string): LLMProvider => ({
+    name,
+    model: `${name}-model`,
+    complete: jest.fn(),
+    stream: jest.fn(),
+    completeJSON: jest.fn()
+  });
+
+  it('should resolve the default provider when none is named', () => {
+    const registry = new LLMProviderRegistry([provider('openai'), provider('gemini')], { defaultProvider: 'gemini' });
+
+    expect(registry.get().name).toBe('gemini');
+    expect(registry.get('openai').name).toBe('openai');
+    expect(registry.getProviderNames()).toEqual(['openai', 'gemini']);
+  });
+
+  it('should throw for providers that are not registered', () => {
+    const registry = new LLMProviderRegistry([provider('openai')]);
+
+    expect(() => registry.get('gemini')).toThrow(UnknownLLMProviderError);
+    expect(() => registry.get('gemini')).toThrow('Unknown LLM provider: gemini (available: openai)');
+  });
+
+  it('should only offer the default provider when request overrides are disabled', () => {
+    const registry = new LLMProviderRegistry([provider('openai'), provider('local')], {
+      defaultProvider: 'local',
+      allowRequestOverride: false
+    });
+
+    expect(registry.getProviderNames()).toEqual(['local']);
+    expect(() => registry.get('openai')).toThrow(UnknownLLMProviderError);
+  });
+
+  it('should refuse a default provider that is not configured', () => {
+    expect(() => new LLMProviderRegistry([provider('openai')], { defaultProvider: 'gemini' }))
+      .toThrow(UnknownLLMProviderError);
+  });
+
+  describe('createLLMProviderRegistry', () => {
+    const config: LLMConfig = {
+      defaultProvider: 'openai',
+      allowRequestOverride: true,
+      openai: { apiKey: 'sk-test', model: 'gpt-4', baseUrl: 'https://api.openai.com/v1' },
+      gemini: { apiKey: '', model: 'gemini-1.5-pro' },
+      local: { model: 'llama3', structuredOutput: false },
+      fake: {
+        enabled: false,
+        seed: 'test',
+        fixturesFile: path.join(__dirname, '../../../../data/llm-fixtures/fake-story.json'),
+        chunkDelayMs: 0
+      },
+      resilience: {
+        timeoutMs: 1000,
+        maxRetries: 0,
+        retryBaseDelayMs: 10,
+        retryMaxDelayMs: 100,
+        breakerFailureThreshold: 3,
+        breakerResetTimeoutMs: 1000
+      },
+      choiceRepairAttempts: 1,
+      combinedGeneration: true
+    };
+
+    it('should register only the providers that are configured', () => {
+      expect(createLLMProviderRegistry(config).getProviderNames()).toEqual(['openai']);
+
+      const registry = createLLMProviderRegistry({
+        ...config,
+        defaultProvider: 'local',
+        gemini: { apiKey: 'gemini-key', model: 'gemini-1.5-pro' },
+        local: { baseUrl: 'http://localhost:11434/v1', model: 'llama3', structuredOutput: false }
+      });
+
+      expect(registry.getProviderNames()).toEqual(['openai', 'gemini', 'local']);
+      expect(registry.get().model).toBe('llama3');
+    });
+
+    it('should register the offline fake when it is the default provider', () => {
+      const registry = createLLMProviderRegistry({ ...config, defaultProvider: 'fake' });
+
+      expect(registry.getProviderNames()).toEqual(['openai', 'fake']);
+      expect(registry.get().name).toBe('fake');
+    });
+  });
+});
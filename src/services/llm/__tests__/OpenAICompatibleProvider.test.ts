@@ -0,0 +1,163 @@
+import axios from 'axios';
+import MockAdapter from 'axios-mock-adapter';
+import { PassThrough } from 'stream';
+import { OpenAICompatibleProvider } from '../OpenAICompatibleProvider';
+import { OpenAIProvider } from '../OpenAIProvider';
+import { LLMProviderError, LLMResponseFormatError } from '../LLMProviderError';
+
+describe('OpenAICompatibleProvider', () => {
+  const url = 'http://localhost:11434/v1/chat/completions';
+  const messages = [{ role: 'user' as const, content: 'Tell me a story' }];
+  let mockAxios: MockAdapter;
+  let provider: OpenAICompatibleProvider;
+
+  beforeEach(() => {
+    mockAxios = new MockAdapter(axios);
+    provider = new OpenAICompatibleProvider({ name: 'local', baseUrl: 'http://localhost:11434/v1/', model: 'llama3' });
+  });
+
+  afterEach(() => {
+    mockAxios.restore();
+  });
+
+  it('should return the completion text and reported usage', async () => {
+    mockAxios.onPost(url).reply(200, {
+      model: 'llama3:8b',
+      choices: [{ message: { content: '  Once upon a time.  ' } }],
+      usage: { prompt_tokens: 12, completion_tokens: 5 }
+    });
+
+    const completion = await provider.complete(messages, { temperature: 0.2 });
+
+    expect(completion).toEqual({
+      text: 'Once upon a time.',
+      model: 'llama3:8b',
+      usage: { promptTokens: 12, completionTokens: 5 }
+    });
+    const request = JSON.parse(mockAxios.history.post[0].data);
+    expect(request).toEqual(expect.objectContaining({ model: 'llama3', temperature: 0.2, max_tokens: 1000 }));
+    // No key configured, so no Authorization header
+    expect(mockAxios.history.post[0].headers?.Authorization).toBeUndefined();
+  });
+
+  it('should send the API key as a bearer token', async () => {
+    const openai = new OpenAIProvider('sk-test', 'gpt-4');
+    mockAxios.onPost('https://api.openai.com/v1/chat/completions').reply(200, {
+      choices: [{ message: { content: 'Hi' } }]
+    });
+
+    const completion = await openai.complete(messages);
+
+    expect(openai.name).toBe('openai');
+    expect(completion.model).toBe('gpt-4');
+    expect(mockAxios.history.post[0].headers?.Authorization).toBe('Bearer sk-test');
+  });
+
+  it('should ask for another model when the request names one', async () => {
+    mockAxios.onPost(url).reply(200, { choices: [{ message: { content: 'Hi' } }] });
+
+    const completion = await provider.complete(messages, { model: 'mistral' });
+
+    expect(JSON.parse(mockAxios.history.post[0].data).model).toBe('mistral');
+    expect(completion.model).toBe('mistral');
+  });
+
+  it('should report the API error message and status', async () => {
+    mockAxios.onPost(url).reply(429, { error: { message: 'Rate limit reached' } });
+
+    const error = await provider.complete(messages).catch(e => e);
+
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error.message).toBe('Rate limit reached');
+    expect(error.status).toBe(429);
+    expect(error.provider).toBe('local');
+  });
+
+  it('should report how long the server asked to back off', async () => {
+    mockAxios.onPost(url).replyOnce(429, { error: { message: 'Rate limit reached' } }, { 'retry-after': '2' });
+    mockAxios.onPost(url).replyOnce(503, {}, { 'retry-after-ms': '350' });
+    mockAxios.onPost(url).replyOnce(500, {});
+
+    const seconds = await provider.complete(messages).catch(e => e);
+    const milliseconds = await provider.complete(messages).catch(e => e);
+    const none = await provider.complete(messages).catch(e => e);
+
+    expect(seconds.retryAfterMs).toBe(2000);
+    expect(milliseconds.retryAfterMs).toBe(350);
+    expect(none.retryAfterMs).toBeUndefined();
+  });
+
+  it('should pass the request timeout to axios', async () => {
+    mockAxios.onPost(url).reply(200, { choices: [{ message: { content: 'Hi' } }] });
+
+    await provider.complete(messages, { timeoutMs: 1234 });
+
+    expect(mockAxios.history.post[0].timeout).toBe(1234);
+  });
+
+  it('should parse JSON responses, unwrapping markdown code blocks', async () => {
+    mockAxios.onPost(url).reply(200, {
+      choices: [{ message: { content: '```json\n[{"id":"a"}]\n```' } }]
+    });
+
+    const completion = await provider.completeJSON<Array<{ id: string }>>(messages);
+
+    expect(completion.data).toEqual([{ id: 'a' }]);
+  });
+
+  it('should enforce a response schema with a forced function call when supported', async () => {
+    const responseSchema = { name: 'story_choices', schema: { type: 'object', properties: {} } };
+    const structured = new OpenAICompatibleProvider({
+      name: 'local', baseUrl: 'http://localhost:11434/v1', model: 'llama3', structuredOutput: true
+    });
+    mockAxios.onPost(url).reply(200, {
+      choices: [{ message: { content: null, tool_calls: [{ function: { name: 'story_choices', arguments: '{"choices":[]}' } }] } }]
+    });
+
+    const completion = await structured.completeJSON(messages, { responseSchema });
+    // Servers without function calling get the prompt alone
+    await provider.completeJSON(messages, { responseSchema }).catch(() => undefined);
+
+    expect(completion.data).toEqual({ choices: [] });
+    const request = JSON.parse(mockAxios.history.post[0].data);
+    expect(request.tools).toEqual([{ type: 'function', function: { name: 'story_choices', parameters: responseSchema.schema } }]);
+    expect(request.tool_choice).toEqual({ type: 'function', function: { name: 'story_choices' } });
+    expect(JSON.parse(mockAxios.history.post[1].data).tools).toBeUndefined();
+  });
+
+  it('should reject responses that are not JSON', async () => {
+    mockAxios.onPost(url).reply(200, { choices: [{ message: { content: 'Sorry, I cannot do that' } }] });
+
+    await expect(provider.completeJSON(messages)).rejects.toBeInstanceOf(LLMResponseFormatError);
+  });
+
+  it('should stream chunks, including events split across network packets', async () => {
+    const stream = new PassThrough();
+    mockAxios.onPost(url).reply(200, stream);
+    const chunks: string[] = [];
+
+    const result = provider.stream(messages, chunk => chunks.push(chunk));
+    await new Promise(resolve => setImmediate(resolve));
+    stream.write('data: {"choices":[{"delta":{"content":"Once "}}]}\n\ndata: {"choices":[{"del');
+    stream.write('ta":{"content":"upon a time"}}]}\n\n');
+    stream.end('data: [DONE]\n\n');
+
+    await expect(result).resolves.toEqual({ text: 'Once upon a time', model: 'llama3' });
+    expect(chunks).toEqual(['Once ', 'upon a time']);
+  });
+
+  it('should ask OpenAI for usage at the end of a stream and report it', async () => {
+    const openai = new OpenAIProvider('test-key');
+    const stream = new PassThrough();
+    mockAxios.onPost('https://api.openai.com/v1/chat/completions').reply(200, stream);
+
+    const result = openai.stream(messages, () => undefined);
+    await new Promise(resolve => setImmediate(resolve));
+    stream.write('data: {"choices":[{"delta":{"content":"Once"}}]}\n\n');
+    stream.write('data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":1}}\n\n');
+    stream.end('data: [DONE]\n\n');
+
+    await expect(result).resolves.toEqual({ text: 'Once', model: 'gpt-4', usage: { promptTokens: 12, completionTokens: 1 } });
+    expect(JSON.parse(mockAxios.history.post[0].data).stream_options).toEqual({ include_usage: true });
+  });
+});
@@ -0,0 +1,153 @@
+import { ResilientLLMProvider, LLMResilienceOptions } from '../ResilientLLMProvider';
+import { CircuitBreaker } from '../CircuitBreaker';
+import { LLMProvider } from '../LLMProvider';
+import { LLMCircuitOpenError, LLMProviderError, LLMResponseFormatError } from '../LLMProviderError';
+
+describe('ResilientLLMProvider', () => {
+  const options: LLMResilienceOptions = {
+    timeoutMs: 5000,
+    maxRetries: 2,
+    retryBaseDelayMs: 100,
+    retryMaxDelayMs: 1000,
+    breakerFailureThreshold: 2,
+    breakerResetTimeoutMs: 30000
+  };
+  const completion = { text: 'Once upon a time', model: 'test-model' };
+
+  let inner: jest.Mocked<LLMProvider>;
+  let wait: jest.Mock;
+  let now: number;
+
+  const createProvider = (overrides: Partial<LLMResilienceOptions> = {}) => {
+    const resilienceOptions = { ...options, ...overrides };
+    const breaker = new CircuitBreaker(
+      'test',
+      resilienceOptions.breakerFailureThreshold,
+      resilienceOptions.breakerResetTimeoutMs,
+      () => now
+    );
+    return new ResilientLLMProvider(inner, resilienceOptions, breaker, wait, () => 0.5);
+  };
+
+  beforeEach(() => {
+    inner = {
+      name: 'test',
+      model: 'test-model',
+      complete: jest.fn(),
+      stream: jest.fn(),
+      completeJSON: jest.fn()
+    };
+    wait = jest.fn().mockResolvedValue(undefined);
+    now = 1_000_000;
+  });
+
+  it('should apply the default timeout unless the request sets one', async () => {
+    inner.complete.mockResolvedValue(completion);
+    const provider = createProvider();
+
+    await provider.complete([{ role: 'user', content: 'hi' }]);
+    await provider.complete([{ role: 'user', content: 'hi' }], { timeoutMs: 100 });
+
+    expect(inner.complete.mock.calls[0][1]).toEqual({ timeoutMs: 5000 });
+    expect(inner.complete.mock.calls[1][1]).toEqual({ timeoutMs: 100 });
+  });
+
+  it('should retry transient errors with jittered exponential backoff', async () => {
+    inner.complete
+      .mockRejectedValueOnce(new LLMProviderError('test', 'Service unavailable', 503))
+      .mockRejectedValueOnce(new LLMProviderError('test', 'socket hang up'))
+      .mockResolvedValueOnce(completion);
+
+    const result = await createProvider().complete([{ role: 'user', content: 'hi' }]);
+
+    expect(result).toEqual(completion);
+    expect(inner.complete).toHaveBeenCalledTimes(3);
+    // Half of 100ms, then half of 200ms
+    expect(wait.mock.calls).toEqual([[50], [100]]);
+  });
+
+  it('should wait as long as Retry-After asks', async () => {
+    inner.complete
+      .mockRejectedValueOnce(new LLMProviderError('test', 'Rate limited', 429, 750))
+      .mockResolvedValueOnce(completion);
+
+    await createProvider().complete([{ role: 'user', content: 'hi' }]);
+
+    expect(wait).toHaveBeenCalledWith(750);
+  });
+
+  it('should give up when Retry-After is longer than the maximum delay', async () => {
+    const error = new LLMProviderError('test', 'Rate limited', 429, 60000);
+    inner.complete.mockRejectedValue(error);
+
+    await expect(createProvider().complete([{ role: 'user', content: 'hi' }])).rejects.toBe(error);
+    expect(inner.complete).toHaveBeenCalledTimes(1);
+    expect(wait).not.toHaveBeenCalled();
+  });
+
+  it('should not retry errors that would fail again', async () => {
+    inner.complete.mockRejectedValueOnce(new LLMProviderError('test', 'Invalid API key', 401));
+    inner.completeJSON.mockRejectedValueOnce(new LLMResponseFormatError('test', 'Bad JSON', 'not json'));
+    const provider = createProvider();
+
+    await expect(provider.complete([{ role: 'user', content: 'hi' }])).rejects.toThrow('Invalid API key');
+    await expect(provider.completeJSON([{ role: 'user', content: 'hi' }])).rejects.toThrow(LLMResponseFormatError);
+    expect(inner.complete).toHaveBeenCalledTimes(1);
+    expect(inner.completeJSON).toHaveBeenCalledTimes(1);
+    expect(provider.getCircuitStatus().consecutiveFailures).toBe(0);
+  });
+
+  it('should not retry a stream that has already delivered text', async () => {
+    inner.stream.mockImplementation(async (_messages, onChunk) => {
+      onChunk('Once');
+      throw new LLMProviderError('test', 'Stream failed');
+    });
+    const chunks: string[] = [];
+
+    await expect(createProvider().stream([{ role: 'user', content: 'hi' }], chunk => chunks.push(chunk)))
+      .rejects.toThrow('Stream failed');
+    expect(inner.stream).toHaveBeenCalledTimes(1);
+    expect(chunks).toEqual(['Once']);
+  });
+
+  it('should open the circuit after repeated failures and fail fast', async () => {
+    inner.complete.mockRejectedValue(new LLMProviderError('test', 'Service unavailable', 503));
+    const provider = createProvider({ maxRetries: 0 });
+
+    await expect(provider.complete([{ role: 'user', content: 'hi' }])).rejects.toThrow('Service unavailable');
+    expect(provider.getCircuitStatus().state).toBe('closed');
+    await expect(provider.complete([{ role: 'user', content: 'hi' }])).rejects.toThrow('Service unavailable');
+    expect(provider.getCircuitStatus().state).toBe('open');
+
+    await expect(provider.complete([{ role: 'user', content: 'hi' }])).rejects.toThrow(LLMCircuitOpenError);
+    expect(inner.complete).toHaveBeenCalledTimes(2);
+    expect(provider.getCircuitStatus().retryAt).toBe(new Date(now + 30000).toISOString());
+  });
+
+  it('should let a trial call through once the reset timeout has passed', async () => {
+    inner.complete.mockRejectedValue(new LLMProviderError('test', 'Service unavailable', 503));
+    const provider = createProvider({ maxRetries: 0, breakerFailureThreshold: 1 });
+    await expect(provider.complete([{ role: 'user', content: 'hi' }])).rejects.toThrow('Service unavailable');
+
+    // A failed trial re-opens the breaker
+    now += 30000;
+    await expect(provider.complete([{ role: 'user', content: 'hi' }])).rejects.toThrow('Service unavailable');
+    expect(provider.getCircuitStatus().state).toBe('open');
+
+    // A successful trial closes it
+    now += 30000;
+    inner.complete.mockResolvedValue(completion);
+    await expect(provider.complete([{ role: 'user', content: 'hi' }])).resolves.toEqual(completion);
+    expect(provider.getCircuitStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 0, retryAt: null });
+  });
+
+  it('should allow only one trial call while half open', async () => {
+    const breaker = new CircuitBreaker('test', 1, 1000, () => now);
+    breaker.recordFailure();
+    now += 1000;
+
+    breaker.acquire();
+    expect(breaker.getStatus().state).toBe('half_open');
+    expect(() => breaker.acquire()).toThrow(LLMCircuitOpenError);
+  });
+});
@@ -0,0 +1,75 @@
+import llmConfig, { LLMConfig } from '../../config/llm';
+import { LLMProvider } from './LLMProvider';
+import { LLMProviderRegistry } from './LLMProviderRegistry';
+import { OpenAIProvider } from './OpenAIProvider';
+import { GeminiProvider } from './GeminiProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { FakeLLMProvider, loadFakeLLMFixtures } from './FakeLLMProvider';
+import { RecordingLLMProvider } from './RecordingLLMProvider';
+import { loadTranscript } from './LLMTranscript';
+import { ResilientLLMProvider } from './ResilientLLMProvider';
+
+export * from './LLMProvider';
+export * from './LLMProviderError';
+export * from './LLMClient';
+export { LLMProviderRegistry } from './LLMProviderRegistry';
+export { OpenAIProvider } from './OpenAIProvider';
+export { GeminiProvider } from './GeminiProvider';
+export { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+export { FakeLLMProvider, FakeLLMFixtures, loadFakeLLMFixtures } from './FakeLLMProvider';
+export { RecordingLLMProvider } from './RecordingLLMProvider';
+export * from './LLMTranscript';
+export { ResilientLLMProvider, LLMResilienceOptions, isRetryableLLMError } from './ResilientLLMProvider';
+export { CircuitBreaker, CircuitBreakerStatus, CircuitState } from './CircuitBreaker';
+export * from './storyResponseSchemas';
+
+/**
+ * Register the providers this deployment has configured. OpenAI is always
+ * available; Gemini needs an API key and the local endpoint a base URL.
+ * The offline fake is registered when enabled or chosen as the default.
+ */
+export function createLLMProviderRegistry(config: LLMConfig = llmConfig): LLMProviderRegistry {
+  const providers: LLMProvider[] = [new OpenAIProvider(config.openai.apiKey, config.openai.model, config.openai.baseUrl)];
+
+  if (config.gemini.apiKey) {
+    providers.push(new GeminiProvider(config.gemini.apiKey, config.gemini.model));
+  }
+
+  if (config.local.baseUrl) {
+    providers.push(new OpenAICompatibleProvider({
+      name: 'local',
+      baseUrl: config.local.baseUrl,
+      model: config.local.model,
+      apiKey: config.local.apiKey,
+      structuredOutput: config.local.structuredOutput
+    }));
+  }
+
+  if (config.fake.enabled || config.defaultProvider === 'fake') {
+    providers.push(new FakeLLMProvider({
+      fixtures: loadFakeLLMFixtures(config.fake.fixturesFile),
+      seed: config.fake.seed,
+      transcript: config.fake.transcriptFile ? loadTranscript(config.fake.transcriptFile) : undefined,
+      chunkDelayMs: config.fake.chunkDelayMs
+    }));
+  }
+
+  // Capture a real session for the fake provider to replay
+  if (config.recordTranscriptFile) {
+    const index = providers.findIndex(provider => provider.name === config.defaultProvider);
+    if (index >= 0) {
+      providers[index] = new RecordingLLMProvider(providers[index], config.recordTranscriptFile);
+      console.log(`[LLM] Recording ${config.defaultProvider} calls to ${config.recordTranscriptFile}`);
+    }
+  }
+
+  // Timeouts, retries and a circuit breaker around every provider
+  const resilientProviders = providers.map(provider => new ResilientLLMProvider(provider, config.resilience));
+
+  const registry = new LLMProviderRegistry(resilientProviders, {
+    defaultProvider: config.defaultProvider,
+    allowRequestOverride: config.allowRequestOverride
+  });
+  console.log(`[LLM] Providers: ${providers.map(provider => `${provider.name} (${provider.model})`).join(', ')}; default: ${registry.getDefaultProviderName()}`);
+  return registry;
+}
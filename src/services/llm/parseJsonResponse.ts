@@ -0,0 +1,24 @@
+import { LLMResponseFormatError } from './LLMProviderError';
+
+/**
+ * Parse a model's JSON response. Models sometimes wrap JSON in a markdown
+ * code block (```json ... ```) despite being told not to, so that is unwrapped first.
+ */
+export function parseJsonResponse<T>(provider: string, text: string): T {
+  let contentToProcess = text.trim();
+
+  if (contentToProcess.startsWith('```')) {
+    const startJsonIndex = contentToProcess.indexOf('\n') + 1;
+    const endJsonIndex = contentToProcess.lastIndexOf('```');
+
+    if (startJsonIndex > 0 && endJsonIndex > startJsonIndex) {
+      contentToProcess = contentToProcess.substring(startJsonIndex, endJsonIndex).trim();
+    }
+  }
+
+  try {
+    return JSON.parse(contentToProcess) as T;
+  } catch (error) {
+    throw new LLMResponseFormatError(provider, `Response from ${provider} is not valid JSON`, text);
+  }
+}
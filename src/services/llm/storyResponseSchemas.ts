@@ -0,0 +1,163 @@
+import { z, ZodError } from 'zod';
+import { StoryBibleUpdate, StoryChoice } from '../../models/StoryState';
+import { LLMResponseSchema } from './LLMProvider';
+
+const storyChoiceSchema = z.object({
+  id: z.string().trim().min(1),
+  text: z.string().trim().min(1),
+  nextSegmentId: z.string().trim().min(1)
+});
+
+const storyChoiceListSchema = z.array(storyChoiceSchema)
+  .min(1)
+  .superRefine((choices, ctx) => {
+    const ids = choices.map(choice => choice.id);
+    if (new Set(ids).size !== ids.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Choice ids must be unique' });
+    }
+  });
+
+/**
+ * A segment's narrative and choices, written in one response
+ */
+export interface StorySegmentDraft {
+  content: string;
+  choices: StoryChoice[];
+}
+
+/**
+ * Choices as a model returns them: wrapped in a "choices" object, which
+ * structured output requires, or as a bare array from providers without it
+ */
+export const storyChoicesResponseSchema = z.preprocess(
+  data => (data && typeof data === 'object' && !Array.isArray(data) && 'choices' in data ? (data as { choices: unknown }).choices : data),
+  storyChoiceListSchema
+// Without strictNullChecks zod infers every field as optional
+) as z.ZodType<StoryChoice[], z.ZodTypeDef, unknown>;
+
+export const storySegmentResponseSchema = z.object({
+  content: z.string().trim().min(1),
+  choices: storyChoiceListSchema
+}) as z.ZodType<StorySegmentDraft, z.ZodTypeDef, unknown>;
+
+/**
+ * A story's rolling summary, rewritten to take in new messages
+ */
+export interface StoryMemoryDraft {
+  summary: string;
+}
+
+export const storyMemoryResponseSchema = z.object({
+  summary: z.string().trim().min(1)
+}) as z.ZodType<StoryMemoryDraft, z.ZodTypeDef, unknown>;
+
+const storyBibleEntryListSchema = z.array(z.object({
+  name: z.string().trim().min(1),
+  description: z.string().trim()
+}));
+
+export const storyBibleUpdateResponseSchema = z.object({
+  characters: storyBibleEntryListSchema,
+  items: storyBibleEntryListSchema,
+  locations: storyBibleEntryListSchema,
+  plotThreads: storyBibleEntryListSchema,
+  resolvedPlotThreads: z.array(z.string().trim().min(1))
+}) as z.ZodType<StoryBibleUpdate, z.ZodTypeDef, unknown>;
+
+const CHOICE_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Short identifier, e.g. choice1' },
+    text: { type: 'string', description: 'What the reader sees' },
+    nextSegmentId: { type: 'string', description: 'snake_case id of the segment this choice leads to' }
+  },
+  required: ['id', 'text', 'nextSegmentId'],
+  additionalProperties: false
+};
+
+/**
+ * JSON Schemas for the same shapes, for providers' structured output
+ */
+export const STORY_CHOICES_RESPONSE_SCHEMA: LLMResponseSchema = {
+  name: 'story_choices',
+  description: 'The choices the reader can make next',
+  schema: {
+    type: 'object',
+    properties: {
+      choices: { type: 'array', items: CHOICE_JSON_SCHEMA }
+    },
+    required: ['choices'],
+    additionalProperties: false
+  }
+};
+
+export const STORY_SEGMENT_RESPONSE_SCHEMA: LLMResponseSchema = {
+  name: 'story_segment',
+  description: 'The next part of the story and the choices the reader can make at its end',
+  schema: {
+    type: 'object',
+    properties: {
+      content: { type: 'string', description: 'The narrative text of the segment' },
+      choices: { type: 'array', items: CHOICE_JSON_SCHEMA }
+    },
+    required: ['content', 'choices'],
+    additionalProperties: false
+  }
+};
+
+export const STORY_MEMORY_RESPONSE_SCHEMA: LLMResponseSchema = {
+  name: 'story_memory',
+  description: 'The updated summary of the story so far',
+  schema: {
+    type: 'object',
+    properties: {
+      summary: { type: 'string', description: 'The whole story so far, oldest events first' }
+    },
+    required: ['summary'],
+    additionalProperties: false
+  }
+};
+
+const BIBLE_ENTRY_LIST_JSON_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'The name the story uses, spelled as in the bible when it is already there' },
+      description: { type: 'string', description: 'What the story has established about it, in one sentence' }
+    },
+    required: ['name', 'description'],
+    additionalProperties: false
+  }
+};
+
+export const STORY_BIBLE_RESPONSE_SCHEMA: LLMResponseSchema = {
+  name: 'story_bible',
+  description: 'What a story segment introduced or changed in the story bible',
+  schema: {
+    type: 'object',
+    properties: {
+      characters: BIBLE_ENTRY_LIST_JSON_SCHEMA,
+      items: BIBLE_ENTRY_LIST_JSON_SCHEMA,
+      locations: BIBLE_ENTRY_LIST_JSON_SCHEMA,
+      plotThreads: BIBLE_ENTRY_LIST_JSON_SCHEMA,
+      resolvedPlotThreads: { type: 'array', items: { type: 'string' }, description: 'Names of plot threads the segment resolved' }
+    },
+    required: ['characters', 'items', 'locations', 'plotThreads', 'resolvedPlotThreads'],
+    additionalProperties: false
+  }
+};
+
+/**
+ * Zod issues as one line a model can act on, e.g. "choices[1].nextSegmentId: Required".
+ * `root` names the value the paths start from.
+ */
+export function describeResponseSchemaError(error: ZodError, root: string = ''): string {
+  return error.issues
+    .map(issue => {
+      const path = (root + issue.path.map(part => (typeof part === 'number' ? `[${part}]` : `.${part}`)).join(''))
+        .replace(/^\./, '');
+      return path ? `${path}: ${issue.message}` : issue.message;
+    })
+    .join('; ');
+}
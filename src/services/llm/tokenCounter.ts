@@ -0,0 +1,22 @@
+import { countTokens } from 'gpt-tokenizer';
+import { LLMMessage } from './LLMProvider';
+
+// Chat formatting adds a few tokens around each message and before the reply
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+/**
+ * Count tokens locally for responses that arrive without usage figures
+ * (streams, local servers). Uses OpenAI's o200k encoding, so counts for
+ * other vendors' models are close estimates rather than exact.
+ */
+export function countTextTokens(text: string): number {
+  return text ? countTokens(text) : 0;
+}
+
+export function countMessageTokens(messages: LLMMessage[]): number {
+  return messages.reduce(
+    (total, message) => total + TOKENS_PER_MESSAGE + countTextTokens(message.content),
+    TOKENS_PER_REPLY
+  );
+}
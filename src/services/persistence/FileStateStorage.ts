@@ -0,0 +1,182 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { StateStorageInterface } from './StateStorageInterface';
+import { StateVersionConflictError } from './StateVersionConflictError';
+import { DEFAULT_STORY_ID } from '../../models/StoryState';
+
+/**
+ * File-backed implementation of the state storage interface.
+ * Each user gets a directory, and each of their stories is stored as a single
+ * JSON file inside it.
+ */
+export class FileStateStorage implements StateStorageInterface {
+  private directory: string;
+  private pendingWrites: Map<string, Promise<unknown>> = new Map();
+
+  constructor(directory: string) {
+    this.directory = directory;
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.migrateSingleStoryFiles();
+  }
+
+  /**
+   * Saves state data for a user's story to disk, bumping its version.
+   * The data is written to a temporary file first and then renamed over the
+   * target, so readers never observe a partially written snapshot. Writes for
+   * the same story are serialized within this process so the version check and
+   * the rename cannot interleave.
+   */
+  async saveState(userId: string, storyId: string, data: Record<string, any>, expectedVersion?: number): Promise<number> {
+    const filePath = this.getFilePath(userId, storyId);
+
+    return this.withFileLock(filePath, async () => {
+      const existing = await this.loadState(userId, storyId);
+      const currentVersion = existing?.version || 0;
+      if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+        throw new StateVersionConflictError(userId, expectedVersion, currentVersion);
+      }
+
+      const version = currentVersion + 1;
+      const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+
+      try {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(tempPath, JSON.stringify({ ...data, version }), 'utf8');
+        await fs.promises.rename(tempPath, filePath);
+      } catch (error) {
+        await fs.promises.rm(tempPath, { force: true });
+        throw error;
+      }
+
+      return version;
+    });
+  }
+
+  /**
+   * Retrieves state data for a user's story from disk
+   */
+  async loadState(userId: string, storyId: string): Promise<Record<string, any> | null> {
+    try {
+      const contents = await fs.promises.readFile(this.getFilePath(userId, storyId), 'utf8');
+      return JSON.parse(contents);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Checks if a state file exists for a user's story
+   */
+  async hasState(userId: string, storyId: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.getFilePath(userId, storyId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Deletes the state file for a user's story
+   */
+  async deleteState(userId: string, storyId: string): Promise<void> {
+    await fs.promises.rm(this.getFilePath(userId, storyId), { force: true });
+  }
+
+  /**
+   * Lists the stories stored for a user
+   */
+  async listStoryIds(userId: string): Promise<string[]> {
+    try {
+      const files = await fs.promises.readdir(this.getUserDirectory(userId));
+      return files
+        .filter(file => file.endsWith('.json'))
+        .map(file => decodeURIComponent(file.slice(0, -'.json'.length)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists every user with at least one stored story
+   */
+  async listUserIds(): Promise<string[]> {
+    const entries = await fs.promises.readdir(this.directory, { withFileTypes: true });
+    const userIds: string[] = [];
+
+    for (const entry of entries.filter(entry => entry.isDirectory())) {
+      const userId = decodeURIComponent(entry.name);
+      if ((await this.listStoryIds(userId)).length > 0) {
+        userIds.push(userId);
+      }
+    }
+
+    return userIds;
+  }
+
+  /**
+   * Move files written before save slots existed (`<user>.json`) into the
+   * user's directory as their default story
+   */
+  private migrateSingleStoryFiles(): void {
+    const legacyFiles = fs.readdirSync(this.directory, { withFileTypes: true })
+      .filter(entry => entry.isFile() && entry.name.endsWith('.json'));
+
+    for (const file of legacyFiles) {
+      const userId = decodeURIComponent(file.name.slice(0, -'.json'.length));
+      const targetPath = this.getFilePath(userId, DEFAULT_STORY_ID);
+
+      if (!fs.existsSync(targetPath)) {
+        fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+        fs.renameSync(path.join(this.directory, file.name), targetPath);
+        console.log(`[FileStateStorage] Moved single-story state for ${userId} into its default slot`);
+      }
+    }
+  }
+
+  /**
+   * Run an operation once every earlier operation on the same file has settled
+   */
+  private async withFileLock<T>(filePath: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.pendingWrites.get(filePath) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(operation);
+    this.pendingWrites.set(filePath, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.pendingWrites.get(filePath) === current) {
+        this.pendingWrites.delete(filePath);
+      }
+    }
+  }
+
+  /**
+   * Directory holding a user's stories
+   */
+  private getUserDirectory(userId: string): string {
+    return path.join(this.directory, this.toFileName(userId));
+  }
+
+  /**
+   * Build the file path for a user's story
+   */
+  private getFilePath(userId: string, storyId: string): string {
+    return path.join(this.getUserDirectory(userId), `${this.toFileName(storyId)}.json`);
+  }
+
+  /**
+   * Encode an ID so it is always a single, safe path segment (dots included,
+   * so IDs like '..' cannot escape the storage directory)
+   */
+  private toFileName(id: string): string {
+    return encodeURIComponent(id).replace(/\./g, '%2E');
+  }
+}
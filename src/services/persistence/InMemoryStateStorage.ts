@@ -1,25 +1,36 @@
 import { StateStorageInterface } from './StateStorageInterface';
+import { StateVersionConflictError } from './StateVersionConflictError';
 
 /**
  * In-memory implementation of the state storage interface for development and testing
  */
 export class InMemoryStateStorage implements StateStorageInterface {
-  private stateStore: Map<string, Record<string, any>> = new Map();
+  private stateStore: Map<string, Map<string, Record<string, any>>> = new Map();
   
   /**
-   * Saves state data for a user in memory
+   * Saves state data for a user's story in memory, bumping its version
    */
-  async saveState(userId: string, data: Record<string, any>): Promise<void> {
+  async saveState(userId: string, storyId: string, data: Record<string, any>, expectedVersion?: number): Promise<number> {
+    const userStories = this.stateStore.get(userId) || new Map<string, Record<string, any>>();
+    const currentVersion = userStories.get(storyId)?.version || 0;
+    if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+      throw new StateVersionConflictError(userId, expectedVersion, currentVersion);
+    }
+    
     // Create a deep copy to avoid reference issues
     const dataCopy = JSON.parse(JSON.stringify(data));
-    this.stateStore.set(userId, dataCopy);
+    dataCopy.version = currentVersion + 1;
+    userStories.set(storyId, dataCopy);
+    this.stateStore.set(userId, userStories);
+    
+    return dataCopy.version;
   }
   
   /**
-   * Retrieves state data for a user from memory
+   * Retrieves state data for a user's story from memory
    */
-  async loadState(userId: string): Promise<Record<string, any> | null> {
-    const data = this.stateStore.get(userId);
+  async loadState(userId: string, storyId: string): Promise<Record<string, any> | null> {
+    const data = this.stateStore.get(userId)?.get(storyId);
     
     if (!data) {
       return null;
@@ -30,17 +41,41 @@ export class InMemoryStateStorage implements StateStorageInterface {
   }
   
   /**
-   * Checks if state exists for a user in memory
+   * Checks if state exists for a user's story in memory
+   */
+  async hasState(userId: string, storyId: string): Promise<boolean> {
+    return this.stateStore.get(userId)?.has(storyId) || false;
+  }
+  
+  /**
+   * Deletes state for a user's story from memory
+   */
+  async deleteState(userId: string, storyId: string): Promise<void> {
+    const userStories = this.stateStore.get(userId);
+    if (!userStories) {
+      return;
+    }
+    
+    userStories.delete(storyId);
+    if (userStories.size === 0) {
+      this.stateStore.delete(userId);
+    }
+  }
+  
+  /**
+   * Lists the stories held in memory for a user
    */
-  async hasState(userId: string): Promise<boolean> {
-    return this.stateStore.has(userId);
+  async listStoryIds(userId: string): Promise<string[]> {
+    return Array.from(this.stateStore.get(userId)?.keys() || []);
   }
   
   /**
-   * Deletes state for a user from memory
+   * Lists every user with at least one stored story
    */
-  async deleteState(userId: string): Promise<void> {
-    this.stateStore.delete(userId);
+  async listUserIds(): Promise<string[]> {
+    return Array.from(this.stateStore.entries())
+      .filter(([, stories]) => stories.size > 0)
+      .map(([userId]) => userId);
   }
   
   /**
@@ -49,4 +84,4 @@ export class InMemoryStateStorage implements StateStorageInterface {
   clearAll(): void {
     this.stateStore.clear();
   }
-} 
\ No newline at end of file
+}
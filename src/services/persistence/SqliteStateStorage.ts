@@ -0,0 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { StateStorageInterface } from './StateStorageInterface';
+import { StateVersionConflictError } from './StateVersionConflictError';
+import { DEFAULT_STORY_ID } from '../../models/StoryState';
+
+/**
+ * SQLite implementation of the state storage interface.
+ * All story states live in a single embedded database file, one row per
+ * (user, story) pair.
+ */
+export class SqliteStateStorage implements StateStorageInterface {
+  private db: Database.Database;
+
+  /**
+   * @param filename Path to the database file, or ':memory:' for a throwaway database
+   */
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.migrateSchema();
+  }
+
+  /**
+   * Saves state data for a user's story, bumping its version.
+   * The version check and the upsert run in one transaction, so the
+   * compare-and-swap holds even with several processes sharing the file.
+   */
+  async saveState(userId: string, storyId: string, data: Record<string, any>, expectedVersion?: number): Promise<number> {
+    const save = this.db.transaction(() => {
+      const row = this.db
+        .prepare('SELECT version FROM story_states WHERE user_id = ? AND story_id = ?')
+        .get(userId, storyId) as { version: number } | undefined;
+      const currentVersion = row?.version || 0;
+
+      if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+        throw new StateVersionConflictError(userId, expectedVersion, currentVersion);
+      }
+
+      const version = currentVersion + 1;
+      this.db
+        .prepare(`
+          INSERT INTO story_states (user_id, story_id, data, version, updated_at) VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT(user_id, story_id) DO UPDATE SET
+            data = excluded.data, version = excluded.version, updated_at = excluded.updated_at
+        `)
+        .run(userId, storyId, JSON.stringify({ ...data, version }), version, Date.now());
+
+      return version;
+    });
+
+    return save.immediate();
+  }
+
+  /**
+   * Retrieves state data for a user's story
+   */
+  async loadState(userId: string, storyId: string): Promise<Record<string, any> | null> {
+    const row = this.db
+      .prepare('SELECT data FROM story_states WHERE user_id = ? AND story_id = ?')
+      .get(userId, storyId) as { data: string } | undefined;
+
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  /**
+   * Checks if state exists for a user's story
+   */
+  async hasState(userId: string, storyId: string): Promise<boolean> {
+    const row = this.db
+      .prepare('SELECT 1 FROM story_states WHERE user_id = ? AND story_id = ?')
+      .get(userId, storyId);
+
+    return row !== undefined;
+  }
+
+  /**
+   * Deletes state for a user's story
+   */
+  async deleteState(userId: string, storyId: string): Promise<void> {
+    this.db.prepare('DELETE FROM story_states WHERE user_id = ? AND story_id = ?').run(userId, storyId);
+  }
+
+  /**
+   * Lists the stories stored for a user
+   */
+  async listStoryIds(userId: string): Promise<string[]> {
+    const rows = this.db
+      .prepare('SELECT story_id FROM story_states WHERE user_id = ?')
+      .all(userId) as { story_id: string }[];
+
+    return rows.map(row => row.story_id);
+  }
+
+  /**
+   * Lists every user with at least one stored story
+   */
+  async listUserIds(): Promise<string[]> {
+    const rows = this.db
+      .prepare('SELECT DISTINCT user_id FROM story_states')
+      .all() as { user_id: string }[];
+
+    return rows.map(row => row.user_id);
+  }
+
+  /**
+   * Closes the underlying database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Create the story_states table, upgrading databases written by earlier
+   * versions (no version column, or one row per user before save slots)
+   */
+  private migrateSchema(): void {
+    const columns = (this.db.prepare('PRAGMA table_info(story_states)').all() as { name: string }[])
+      .map(column => column.name);
+
+    this.db.transaction(() => {
+      if (columns.length > 0 && !columns.includes('story_id')) {
+        this.db.exec('ALTER TABLE story_states RENAME TO story_states_single');
+      }
+
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS story_states (
+          user_id TEXT NOT NULL,
+          story_id TEXT NOT NULL,
+          data TEXT NOT NULL,
+          version INTEGER NOT NULL DEFAULT 0,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (user_id, story_id)
+        )
+      `);
+
+      if (columns.length > 0 && !columns.includes('story_id')) {
+        const versionColumn = columns.includes('version') ? 'version' : '0';
+        this.db
+          .prepare(`
+            INSERT INTO story_states (user_id, story_id, data, version, updated_at)
+            SELECT user_id, ?, data, ${versionColumn}, updated_at FROM story_states_single
+          `)
+          .run(DEFAULT_STORY_ID);
+        this.db.exec('DROP TABLE story_states_single');
+      }
+    })();
+  }
+}
@@ -1,28 +1,50 @@
 export interface StateStorageInterface {
   /**
-   * Saves state data for a user
+   * Saves state data for one of a user's stories.
+   * When expectedVersion is given the write is a compare-and-swap: it only
+   * succeeds if the stored version still equals expectedVersion (0 when nothing
+   * is stored), and throws StateVersionConflictError otherwise.
    * @param userId User identifier
+   * @param storyId Story (save slot) identifier
    * @param data The data to store
+   * @param expectedVersion Version the caller last loaded, if any
+   * @returns The version of the data now in storage
    */
-  saveState(userId: string, data: Record<string, any>): Promise<void>;
+  saveState(userId: string, storyId: string, data: Record<string, any>, expectedVersion?: number): Promise<number>;
   
   /**
-   * Retrieves state data for a user
+   * Retrieves state data for one of a user's stories
    * @param userId User identifier
+   * @param storyId Story (save slot) identifier
    * @returns The stored data or null if not found
    */
-  loadState(userId: string): Promise<Record<string, any> | null>;
+  loadState(userId: string, storyId: string): Promise<Record<string, any> | null>;
   
   /**
-   * Checks if state exists for a user
+   * Checks if state exists for one of a user's stories
    * @param userId User identifier
+   * @param storyId Story (save slot) identifier
    * @returns True if state exists
    */
-  hasState(userId: string): Promise<boolean>;
+  hasState(userId: string, storyId: string): Promise<boolean>;
   
   /**
-   * Deletes state for a user
+   * Deletes state for one of a user's stories
    * @param userId User identifier
+   * @param storyId Story (save slot) identifier
    */
-  deleteState(userId: string): Promise<void>;
-} 
\ No newline at end of file
+  deleteState(userId: string, storyId: string): Promise<void>;
+  
+  /**
+   * Lists the IDs of every story stored for a user
+   * @param userId User identifier
+   * @returns Story identifiers, in no particular order
+   */
+  listStoryIds(userId: string): Promise<string[]>;
+  
+  /**
+   * Lists every user with at least one stored story (used by offline maintenance tools)
+   * @returns User identifiers, in no particular order
+   */
+  listUserIds(): Promise<string[]>;
+}
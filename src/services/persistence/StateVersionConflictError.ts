@@ -0,0 +1,17 @@
+/**
+ * Thrown when a compare-and-swap save finds that the stored state has moved on
+ * since the caller loaded it (for example, another tab or device saved first).
+ */
+export class StateVersionConflictError extends Error {
+  userId: string;
+  expectedVersion: number;
+  actualVersion: number;
+  
+  constructor(userId: string, expectedVersion: number, actualVersion: number) {
+    super(`Story state for ${userId} is at version ${actualVersion}, expected version ${expectedVersion}`);
+    this.userId = userId;
+    this.expectedVersion = expectedVersion;
+    this.actualVersion = actualVersion;
+    this.name = this.constructor.name;
+  }
+}
@@ -1,18 +1,43 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
 import { InMemoryStateStorage } from '../InMemoryStateStorage';
+import { FileStateStorage } from '../FileStateStorage';
+import { SqliteStateStorage } from '../SqliteStateStorage';
 import { StateStorageInterface } from '../StateStorageInterface';
+import { StateVersionConflictError } from '../StateVersionConflictError';
+import { createStateStorage } from '..';
 
 describe('State Storage Implementations', () => {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'primer-state-'));
+  const sqliteStorage = new SqliteStateStorage(path.join(tempDir, 'sqlite', 'state.db'));
+  
   const testStorages: { name: string; storage: StateStorageInterface }[] = [
     { 
       name: 'InMemoryStateStorage', 
       storage: new InMemoryStateStorage() 
+    },
+    {
+      name: 'FileStateStorage',
+      storage: new FileStateStorage(path.join(tempDir, 'files'))
+    },
+    {
+      name: 'SqliteStateStorage',
+      storage: sqliteStorage
     }
   ];
   
+  afterAll(() => {
+    sqliteStorage.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+  
   // Test each storage implementation with the same test suite
   testStorages.forEach(({ name, storage }) => {
     describe(name, () => {
       const userId = 'test-user-123';
+      const storyId = 'story-1';
       const testData = {
         name: 'Test User',
         preferences: {
@@ -26,37 +51,37 @@ describe('State Storage Implementations', () => {
       };
       
       it('should save and load state', async () => {
-        await storage.saveState(userId, testData);
-        const loadedData = await storage.loadState(userId);
+        await storage.saveState(userId, storyId, testData);
+        const loadedData = await storage.loadState(userId, storyId);
         
-        expect(loadedData).toEqual(testData);
+        expect(loadedData).toEqual({ ...testData, version: expect.any(Number) });
       });
       
       it('should return null when loading non-existent state', async () => {
-        const loadedData = await storage.loadState('non-existent-user');
+        const loadedData = await storage.loadState('non-existent-user', storyId);
         expect(loadedData).toBeNull();
       });
       
       it('should detect if state exists', async () => {
-        await storage.saveState(userId, testData);
+        await storage.saveState(userId, storyId, testData);
         
-        const exists = await storage.hasState(userId);
-        const nonExists = await storage.hasState('non-existent-user');
+        const exists = await storage.hasState(userId, storyId);
+        const nonExists = await storage.hasState('non-existent-user', storyId);
         
         expect(exists).toBe(true);
         expect(nonExists).toBe(false);
       });
       
       it('should delete state', async () => {
-        await storage.saveState(userId, testData);
-        await storage.deleteState(userId);
+        await storage.saveState(userId, storyId, testData);
+        await storage.deleteState(userId, storyId);
         
-        const exists = await storage.hasState(userId);
+        const exists = await storage.hasState(userId, storyId);
         expect(exists).toBe(false);
       });
       
       it('should not throw when deleting non-existent state', async () => {
-        await expect(storage.deleteState('non-existent-user')).resolves.not.toThrow();
+        await expect(storage.deleteState('non-existent-user', storyId)).resolves.not.toThrow();
       });
       
       it('should handle deeply nested objects', async () => {
@@ -73,26 +98,187 @@ describe('State Storage Implementations', () => {
           }
         };
         
-        await storage.saveState(userId, complexData);
-        const loadedData = await storage.loadState(userId);
+        await storage.saveState(userId, storyId, complexData);
+        const loadedData = await storage.loadState(userId, storyId);
         
-        expect(loadedData).toEqual(complexData);
+        expect(loadedData).toEqual({ ...complexData, version: expect.any(Number) });
       });
       
       it('should store independent copies of data', async () => {
         // Save initial data
-        await storage.saveState(userId, testData);
+        await storage.saveState(userId, storyId, testData);
         
         // Get a reference and modify it
         const dataCopy = { ...testData };
         dataCopy.name = 'Modified Name';
         
         // Load the original data again
-        const loadedData = await storage.loadState(userId);
+        const loadedData = await storage.loadState(userId, storyId);
         
         // It should not be modified
         expect(loadedData?.name).toBe('Test User');
       });
+      
+      it('should bump the version on every save', async () => {
+        const versionedUser = 'versioned-user';
+        const first = await storage.saveState(versionedUser, storyId, testData);
+        const second = await storage.saveState(versionedUser, storyId, testData);
+        
+        expect(first).toBe(1);
+        expect(second).toBe(2);
+        expect((await storage.loadState(versionedUser, storyId))?.version).toBe(2);
+      });
+      
+      it('should save when the expected version matches', async () => {
+        const casUser = 'cas-user';
+        await expect(storage.saveState(casUser, storyId, testData, 0)).resolves.toBe(1);
+        await expect(storage.saveState(casUser, storyId, testData, 1)).resolves.toBe(2);
+      });
+      
+      it('should reject a save against a stale version', async () => {
+        const staleUser = 'stale-user';
+        await storage.saveState(staleUser, storyId, { ...testData, name: 'First tab' }, 0);
+        
+        await expect(storage.saveState(staleUser, storyId, { ...testData, name: 'Second tab' }, 0))
+          .rejects.toBeInstanceOf(StateVersionConflictError);
+        expect((await storage.loadState(staleUser, storyId))?.name).toBe('First tab');
+      });
+      
+      it('should let only one of two concurrent writers win', async () => {
+        const racingUser = 'racing-user';
+        const results = await Promise.allSettled([
+          storage.saveState(racingUser, storyId, { name: 'A' }, 0),
+          storage.saveState(racingUser, storyId, { name: 'B' }, 0)
+        ]);
+        
+        expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+        expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+      });
+      
+      it('should keep each of a user\'s stories separate', async () => {
+        const slotUser = 'slot-user';
+        await storage.saveState(slotUser, 'first', { name: 'First story' });
+        await storage.saveState(slotUser, 'second', { name: 'Second story' });
+        await storage.deleteState(slotUser, 'first');
+        
+        expect(await storage.hasState(slotUser, 'first')).toBe(false);
+        expect((await storage.loadState(slotUser, 'second'))?.name).toBe('Second story');
+      });
+      
+      it('should version each story independently', async () => {
+        const slotUser = 'versioned-slot-user';
+        await storage.saveState(slotUser, 'first', testData);
+        await storage.saveState(slotUser, 'first', testData);
+        
+        await expect(storage.saveState(slotUser, 'second', testData, 0)).resolves.toBe(1);
+      });
+      
+      it('should list the stories stored for a user', async () => {
+        const slotUser = 'listing-user';
+        await storage.saveState(slotUser, 'first', testData);
+        await storage.saveState(slotUser, 'second.story', testData);
+        await storage.saveState('other-user', 'third', testData);
+        
+        expect((await storage.listStoryIds(slotUser)).sort()).toEqual(['first', 'second.story']);
+        expect(await storage.listStoryIds('user-without-stories')).toEqual([]);
+      });
+      
+      it('should list users with stored stories', async () => {
+        await storage.saveState('listed-user', 'first', testData);
+        await storage.saveState('removed-user', 'first', testData);
+        await storage.deleteState('removed-user', 'first');
+        
+        const userIds = await storage.listUserIds();
+        
+        expect(userIds).toContain('listed-user');
+        expect(userIds).not.toContain('removed-user');
+      });
+    });
+  });
+
+  describe('durable storage', () => {
+    const userId = 'device/with:odd chars';
+    const storyId = 'default';
+    const snapshot = { userId, currentSegmentId: 'intro', segments: {} };
+    
+    it('should keep file state across storage instances', async () => {
+      const directory = path.join(tempDir, 'restart-files');
+      await new FileStateStorage(directory).saveState(userId, storyId, snapshot);
+      
+      const reopened = new FileStateStorage(directory);
+      expect(await reopened.loadState(userId, storyId)).toEqual({ ...snapshot, version: 1 });
+    });
+    
+    it('should not leave temporary files behind after saving', async () => {
+      const directory = path.join(tempDir, 'atomic-files');
+      const storage = new FileStateStorage(directory);
+      await storage.saveState(userId, storyId, snapshot);
+      await storage.saveState(userId, storyId, { ...snapshot, currentSegmentId: 'next' });
+      
+      const [userDirectory] = fs.readdirSync(directory);
+      const files = fs.readdirSync(path.join(directory, userDirectory));
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/\.json$/);
+    });
+    
+    it('should keep SQLite state across storage instances', async () => {
+      const filename = path.join(tempDir, 'restart.db');
+      const first = new SqliteStateStorage(filename);
+      await first.saveState(userId, storyId, snapshot);
+      first.close();
+      
+      const reopened = new SqliteStateStorage(filename);
+      expect(await reopened.loadState(userId, storyId)).toEqual({ ...snapshot, version: 1 });
+      reopened.close();
+    });
+    
+    it('should move single-story files into the default slot', async () => {
+      const directory = path.join(tempDir, 'legacy-files');
+      fs.mkdirSync(directory, { recursive: true });
+      fs.writeFileSync(path.join(directory, 'legacy-user.json'), JSON.stringify({ ...snapshot, version: 3 }));
+      
+      const storage = new FileStateStorage(directory);
+      
+      expect(await storage.listStoryIds('legacy-user')).toEqual(['default']);
+      expect((await storage.loadState('legacy-user', 'default'))?.version).toBe(3);
+      expect(fs.existsSync(path.join(directory, 'legacy-user.json'))).toBe(false);
+    });
+    
+    it('should move single-story SQLite rows into the default slot', async () => {
+      const filename = path.join(tempDir, 'legacy.db');
+      const legacy = new Database(filename);
+      legacy.exec('CREATE TABLE story_states (user_id TEXT PRIMARY KEY, data TEXT NOT NULL, version INTEGER NOT NULL DEFAULT 0, updated_at INTEGER NOT NULL)');
+      legacy.prepare('INSERT INTO story_states (user_id, data, version, updated_at) VALUES (?, ?, ?, ?)')
+        .run('legacy-user', JSON.stringify({ ...snapshot, version: 2 }), 2, Date.now());
+      legacy.close();
+      
+      const storage = new SqliteStateStorage(filename);
+      
+      expect(await storage.listStoryIds('legacy-user')).toEqual(['default']);
+      await expect(storage.saveState('legacy-user', 'default', snapshot, 2)).resolves.toBe(3);
+      storage.close();
+    });
+  });
+  
+  describe('createStateStorage', () => {
+    const config = {
+      driver: 'memory' as const,
+      file: { directory: path.join(tempDir, 'factory-files') },
+      sqlite: { filename: ':memory:' }
+    };
+    
+    it('should create the configured storage backend', () => {
+      expect(createStateStorage(config)).toBeInstanceOf(InMemoryStateStorage);
+      expect(createStateStorage({ ...config, driver: 'file' })).toBeInstanceOf(FileStateStorage);
+      
+      const sqlite = createStateStorage({ ...config, driver: 'sqlite' });
+      expect(sqlite).toBeInstanceOf(SqliteStateStorage);
+      (sqlite as SqliteStateStorage).close();
+    });
+    
+    it('should reject unknown drivers', () => {
+      expect(() => createStateStorage({ ...config, driver: 'redis' as any }))
+        .toThrow('Unknown state storage driver: redis');
     });
   });
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,38 @@
+import { InMemoryStateStorage } from '../InMemoryStateStorage';
+import { migrateStoredStates } from '../migrateStoredStates';
+import { STORY_STATE_SCHEMA_VERSION } from '../../../models/StoryState';
+
+describe('migrateStoredStates', () => {
+  let storage: InMemoryStateStorage;
+  const legacySnapshot = { userId: 'user1', currentSegmentId: 'intro', segments: {} };
+  
+  beforeEach(async () => {
+    storage = new InMemoryStateStorage();
+    await storage.saveState('user1', 'default', legacySnapshot);
+    await storage.saveState('user2', 'default', { ...legacySnapshot, userId: 'user2', schemaVersion: STORY_STATE_SCHEMA_VERSION });
+    await storage.saveState('user2', 'broken', { userId: 'user2', schemaVersion: STORY_STATE_SCHEMA_VERSION + 1 });
+  });
+  
+  it('should upgrade outdated records and report the ones it could not', async () => {
+    const report = await migrateStoredStates(storage);
+    
+    expect(report).toEqual({
+      scanned: 3,
+      upgraded: 1,
+      current: 1,
+      failed: [{
+        userId: 'user2',
+        storyId: 'broken',
+        error: expect.stringContaining('newer than the supported version')
+      }]
+    });
+    expect((await storage.loadState('user1', 'default'))?.schemaVersion).toBe(STORY_STATE_SCHEMA_VERSION);
+  });
+  
+  it('should not write anything in a dry run', async () => {
+    const report = await migrateStoredStates(storage, { dryRun: true });
+    
+    expect(report.upgraded).toBe(1);
+    expect((await storage.loadState('user1', 'default'))?.schemaVersion).toBeUndefined();
+  });
+});
@@ -0,0 +1,26 @@
+import storageConfig, { StorageConfig } from '../../config/storage';
+import { StateStorageInterface } from './StateStorageInterface';
+import { InMemoryStateStorage } from './InMemoryStateStorage';
+import { FileStateStorage } from './FileStateStorage';
+import { SqliteStateStorage } from './SqliteStateStorage';
+
+/**
+ * Create the state storage backend selected in configuration
+ */
+export function createStateStorage(config: StorageConfig = storageConfig): StateStorageInterface {
+  switch (config.driver) {
+    case 'file':
+      console.log(`[StateStorage] Using file storage in ${config.file.directory}`);
+      return new FileStateStorage(config.file.directory);
+    case 'sqlite':
+      console.log(`[StateStorage] Using SQLite storage at ${config.sqlite.filename}`);
+      return new SqliteStateStorage(config.sqlite.filename);
+    case 'memory':
+      console.log('[StateStorage] Using in-memory storage (state is lost on restart)');
+      return new InMemoryStateStorage();
+    default:
+      throw new Error(`Unknown state storage driver: ${config.driver}`);
+  }
+}
+
+export { StateStorageInterface, InMemoryStateStorage, FileStateStorage, SqliteStateStorage };
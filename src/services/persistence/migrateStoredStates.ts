@@ -0,0 +1,65 @@
+import { StateStorageInterface } from './StateStorageInterface';
+import { migrateStoryStateData, StoryStateMigration, STORY_STATE_MIGRATIONS } from '../../models/StoryStateMigrations';
+
+export interface StateMigrationFailure {
+  userId: string;
+  storyId: string;
+  error: string;
+}
+
+export interface StateMigrationReport {
+  scanned: number;
+  upgraded: number;
+  current: number;
+  failed: StateMigrationFailure[];
+}
+
+export interface MigrateStoredStatesOptions {
+  // Report what would change without writing anything
+  dryRun?: boolean;
+  migrations?: StoryStateMigration[];
+}
+
+/**
+ * Upgrade every story in a storage backend to the current schema version.
+ * Records that cannot be loaded, migrated or saved are reported rather than
+ * stopping the run.
+ */
+export async function migrateStoredStates(
+  storage: StateStorageInterface,
+  options: MigrateStoredStatesOptions = {}
+): Promise<StateMigrationReport> {
+  const { dryRun = false, migrations = STORY_STATE_MIGRATIONS } = options;
+  const report: StateMigrationReport = { scanned: 0, upgraded: 0, current: 0, failed: [] };
+
+  for (const userId of await storage.listUserIds()) {
+    for (const storyId of await storage.listStoryIds(userId)) {
+      report.scanned++;
+
+      try {
+        const stored = await storage.loadState(userId, storyId);
+        if (!stored) {
+          continue;
+        }
+
+        const result = migrateStoryStateData(stored, migrations);
+        if (!result.migrated) {
+          report.current++;
+          continue;
+        }
+
+        if (!dryRun) {
+          // Compare-and-swap so a record written meanwhile is reported, not clobbered
+          await storage.saveState(userId, storyId, result.data, stored.version || 0);
+        }
+        report.upgraded++;
+        console.log(`[StateMigration] ${dryRun ? 'Would upgrade' : 'Upgraded'} ${userId}/${storyId} from schema ${result.fromVersion} to ${result.toVersion}`);
+      } catch (error) {
+        report.failed.push({ userId, storyId, error: (error as Error).message });
+        console.error(`[StateMigration] Could not upgrade ${userId}/${storyId}:`, (error as Error).message);
+      }
+    }
+  }
+
+  return report;
+}
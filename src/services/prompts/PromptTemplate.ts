@@ -0,0 +1,161 @@
+import { PromptTemplateError } from './PromptTemplateError';
+
+/**
+ * A prompt template as stored on disk. Message text may be one string or a
+ * list of lines.
+ */
+export interface PromptTemplateData {
+  id: string;
+  version: number;
+  description?: string;
+  system?: string | string[];
+  user: string | string[];
+}
+
+/**
+ * Which template (and which version of it) a prompt was rendered from
+ */
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+}
+
+export interface RenderedPrompt extends PromptTemplateRef {
+  system?: string;
+  user: string;
+}
+
+export type PromptVariables = Record<string, unknown>;
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string }
+  // Rendered when the variable is set (not empty, false or an empty list), or when it is not if inverted
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+const TAG_PATTERN = /{{\s*([#^/]?)\s*([A-Za-z_][A-Za-z0-9_]*)\s*}}/g;
+// A section tag alone on its line takes the line with it
+const STANDALONE_SECTION_TAG_PATTERN = /^[ \t]*({{\s*[#^/][^}]*}})[ \t]*(\r?\n|$)/gm;
+
+/**
+ * Compile template text into nodes. Supports {{name}} to insert a variable,
+ * {{#name}}...{{/name}} for text only used when the variable is set and
+ * {{^name}}...{{/name}} for text only used when it is not.
+ */
+function compile(source: string, promptId: string): TemplateNode[] {
+  const text = source.replace(STANDALONE_SECTION_TAG_PATTERN, '$1');
+  const root: TemplateNode[] = [];
+  const open: { name: string; children: TemplateNode[] }[] = [];
+  let nodes = root;
+  let position = 0;
+
+  const addText = (value: string) => {
+    if (value.includes('{{')) {
+      throw new PromptTemplateError(`Invalid tag in prompt template ${promptId}: ${value.substring(value.indexOf('{{'), value.indexOf('{{') + 30)}`, promptId);
+    }
+    if (value) {
+      nodes.push({ type: 'text', text: value });
+    }
+  };
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    addText(text.substring(position, match.index));
+    position = match.index! + match[0].length;
+    const [, kind, name] = match;
+
+    if (kind === '/') {
+      const section = open.pop();
+      if (!section || section.name !== name) {
+        throw new PromptTemplateError(`Unexpected {{/${name}}} in prompt template ${promptId}`, promptId);
+      }
+      nodes = open.length > 0 ? open[open.length - 1].children : root;
+    } else if (kind) {
+      const section: TemplateNode = { type: 'section', name, inverted: kind === '^', children: [] };
+      nodes.push(section);
+      open.push(section);
+      nodes = section.children;
+    } else {
+      nodes.push({ type: 'variable', name });
+    }
+  }
+  addText(text.substring(position));
+
+  if (open.length > 0) {
+    throw new PromptTemplateError(`Unclosed {{#${open[open.length - 1].name}}} in prompt template ${promptId}`, promptId);
+  }
+  return root;
+}
+
+function isSet(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null && value !== false && value !== '';
+}
+
+/**
+ * A named, versioned prompt. The text is compiled when the template is
+ * loaded, so syntax errors show up at startup rather than mid-story.
+ */
+export class PromptTemplate {
+  id: string;
+  version: number;
+  description?: string;
+  private system?: TemplateNode[];
+  private user: TemplateNode[];
+
+  constructor(data: PromptTemplateData) {
+    if (!data || typeof data.id !== 'string' || !data.id) {
+      throw new PromptTemplateError('Prompt template must have a string id');
+    }
+    if (!Number.isInteger(data.version) || data.version < 1) {
+      throw new PromptTemplateError(`Prompt template ${data.id} must have a positive integer version`, data.id);
+    }
+    if (data.user === undefined) {
+      throw new PromptTemplateError(`Prompt template ${data.id} must have user text`, data.id);
+    }
+
+    this.id = data.id;
+    this.version = data.version;
+    this.description = data.description;
+    this.system = data.system !== undefined ? compile(this.joinLines(data.system), data.id) : undefined;
+    this.user = compile(this.joinLines(data.user), data.id);
+  }
+
+  /**
+   * Render the template's messages, without trailing whitespace. Every
+   * variable the template uses must be given, even if only as undefined,
+   * so a typo fails loudly.
+   */
+  render(variables: PromptVariables): RenderedPrompt {
+    return {
+      id: this.id,
+      version: this.version,
+      system: this.system ? this.renderNodes(this.system, variables).trimEnd() : undefined,
+      user: this.renderNodes(this.user, variables).trimEnd()
+    };
+  }
+
+  private renderNodes(nodes: TemplateNode[], variables: PromptVariables): string {
+    return nodes.map(node => {
+      if (node.type === 'text') {
+        return node.text;
+      }
+      if (!(node.name in variables)) {
+        throw new PromptTemplateError(`Missing variable ${node.name} for prompt template ${this.id} v${this.version}`, this.id);
+      }
+      const value = variables[node.name];
+      if (node.type === 'variable') {
+        return isSet(value) ? String(value) : '';
+      }
+      return isSet(value) !== node.inverted ? this.renderNodes(node.children, variables) : '';
+    }).join('');
+  }
+
+  private joinLines(text: string | string[]): string {
+    if (Array.isArray(text) && text.every(line => typeof line === 'string')) {
+      return text.join('\n');
+    }
+    if (typeof text === 'string') {
+      return text;
+    }
+    throw new PromptTemplateError(`Prompt template ${this.id} text must be a string or a list of lines`, this.id);
+  }
+}
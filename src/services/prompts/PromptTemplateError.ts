@@ -0,0 +1,25 @@
+/**
+ * Thrown when a prompt template cannot be loaded or rendered
+ */
+export class PromptTemplateError extends Error {
+  // Template ID, when known
+  promptId?: string;
+
+  constructor(message: string, promptId?: string) {
+    super(message);
+    this.promptId = promptId;
+    this.name = this.constructor.name;
+  }
+}
+
+/**
+ * Thrown when no loaded template has the requested ID (and version)
+ */
+export class PromptTemplateNotFoundError extends PromptTemplateError {
+  version?: number;
+
+  constructor(promptId: string, version?: number) {
+    super(`Prompt template not found: ${promptId}${version !== undefined ? ` v${version}` : ''}`, promptId);
+    this.version = version;
+  }
+}
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import path from 'path';
+import promptConfig, { PromptConfig } from '../../config/prompts';
+import { PromptTemplate, PromptVariables, RenderedPrompt } from './PromptTemplate';
+import { PromptTemplateNotFoundError } from './PromptTemplateError';
+
+/**
+ * The prompt templates in the configured directory, every version of each.
+ * Rendering a prompt uses the version pinned in the configuration, or the
+ * newest one.
+ */
+export class PromptTemplateStore {
+  private config: PromptConfig;
+  // Versions of each prompt ID, by version number
+  private templates: Map<string, Map<number, PromptTemplate>> = new Map();
+
+  constructor(config: PromptConfig = promptConfig) {
+    this.config = config;
+    this.loadTemplates();
+  }
+
+  /**
+   * The template for a prompt ID: the given version, else the pinned or newest one
+   */
+  get(id: string, version?: number): PromptTemplate {
+    const versions = this.templates.get(id);
+    const wanted = version ?? this.config.versions[id] ?? (versions ? Math.max(...versions.keys()) : undefined);
+    const template = wanted !== undefined ? versions?.get(wanted) : undefined;
+    if (!template) {
+      throw new PromptTemplateNotFoundError(id, version ?? this.config.versions[id]);
+    }
+    return template;
+  }
+
+  render(id: string, variables: PromptVariables, version?: number): RenderedPrompt {
+    return this.get(id, version).render(variables);
+  }
+
+  private loadTemplates(): void {
+    const directory = this.config.directory;
+    if (!fs.existsSync(directory)) {
+      console.warn(`[PromptTemplateStore] Prompt template directory not found: ${directory}`);
+      return;
+    }
+
+    const files = fs.readdirSync(directory).filter(file => file.endsWith('.json')).sort();
+    for (const file of files) {
+      try {
+        const template = new PromptTemplate(JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8')));
+        if (!this.templates.has(template.id)) {
+          this.templates.set(template.id, new Map());
+        }
+        const versions = this.templates.get(template.id)!;
+        if (versions.has(template.version)) {
+          console.error(`[PromptTemplateStore] Skipping ${file}: ${template.id} v${template.version} is already loaded`);
+          continue;
+        }
+        versions.set(template.version, template);
+      } catch (error) {
+        console.error(`[PromptTemplateStore] Error loading prompt template from ${file}:`, error);
+      }
+    }
+
+    console.log(`[PromptTemplateStore] Loaded ${files.length} prompt templates for ${this.templates.size} prompts from ${directory}`);
+  }
+}
+
+let defaultStore: PromptTemplateStore | undefined;
+
+/**
+ * The templates in the configured directory, loaded on first use
+ */
+export function getPromptTemplateStore(): PromptTemplateStore {
+  if (!defaultStore) {
+    defaultStore = new PromptTemplateStore();
+  }
+  return defaultStore;
+}
@@ -0,0 +1,59 @@
+import { PromptTemplate } from '../PromptTemplate';
+import { PromptTemplateError } from '../PromptTemplateError';
+
+describe('PromptTemplate', () => {
+  it('should fill in variables in the system and user text', () => {
+    const template = new PromptTemplate({
+      id: 'greeting',
+      version: 2,
+      system: 'You are {{role}}.',
+      user: ['Hello {{ name }}.', 'Count: {{count}}']
+    });
+
+    expect(template.render({ role: 'a narrator', name: 'Mira', count: 0 })).toEqual({
+      id: 'greeting',
+      version: 2,
+      system: 'You are a narrator.',
+      user: 'Hello Mira.\nCount: 0'
+    });
+  });
+
+  it('should only use section text when its variable is set', () => {
+    const template = new PromptTemplate({
+      id: 'sections',
+      version: 1,
+      user: [
+        'Start',
+        '{{#tone}}',
+        'Tone: {{tone}}',
+        '{{/tone}}',
+        '{{^tone}}',
+        'Any tone',
+        '{{/tone}}',
+        '{{#items}}Has items{{/items}}',
+        'End'
+      ]
+    });
+
+    expect(template.render({ tone: 'eerie', items: ['lamp'] }).user).toBe('Start\nTone: eerie\nHas items\nEnd');
+    expect(template.render({ tone: '', items: [] }).user).toBe('Start\nAny tone\n\nEnd');
+  });
+
+  it('should fail to render when a variable is not given', () => {
+    const template = new PromptTemplate({ id: 'greeting', version: 1, user: 'Hello {{name}}.' });
+
+    expect(() => template.render({})).toThrow('Missing variable name for prompt template greeting v1');
+    expect(template.render({ name: undefined }).user).toBe('Hello .');
+  });
+
+  it('should reject invalid templates when they are loaded', () => {
+    expect(() => new PromptTemplate({ id: 'broken', version: 1, user: '{{#tone}}Unclosed' }))
+      .toThrow('Unclosed {{#tone}} in prompt template broken');
+    expect(() => new PromptTemplate({ id: 'broken', version: 1, user: '{{#a}}{{/b}}' }))
+      .toThrow('Unexpected {{/b}} in prompt template broken');
+    expect(() => new PromptTemplate({ id: 'broken', version: 1, user: 'Hello {{user name}}' }))
+      .toThrow(PromptTemplateError);
+    expect(() => new PromptTemplate({ id: 'broken', version: 0, user: 'Hello' }))
+      .toThrow('Prompt template broken must have a positive integer version');
+  });
+});
@@ -0,0 +1,49 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PromptTemplateStore } from '../PromptTemplateStore';
+import { PromptTemplateNotFoundError } from '../PromptTemplateError';
+
+describe('PromptTemplateStore', () => {
+  let directory: string;
+
+  const writeTemplate = (file: string, data: unknown) =>
+    fs.writeFileSync(path.join(directory, file), typeof data === 'string' ? data : JSON.stringify(data));
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'prompt-templates-'));
+    writeTemplate('story-intro.v1.json', { id: 'story-intro', version: 1, user: 'Begin.' });
+    writeTemplate('story-intro.v2.json', { id: 'story-intro', version: 2, user: 'Begin, {{name}}.' });
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should use the newest version unless the configuration pins one', () => {
+    const latest = new PromptTemplateStore({ directory, versions: {} });
+    const pinned = new PromptTemplateStore({ directory, versions: { 'story-intro': 1 } });
+
+    expect(latest.render('story-intro', { name: 'Mira' })).toEqual({ id: 'story-intro', version: 2, system: undefined, user: 'Begin, Mira.' });
+    expect(pinned.render('story-intro', {})).toMatchObject({ version: 1, user: 'Begin.' });
+    expect(latest.get('story-intro', 1).version).toBe(1);
+  });
+
+  it('should skip templates that do not load and keep the rest', () => {
+    writeTemplate('broken.v1.json', { id: 'broken', version: 1, user: '{{#open}}' });
+    writeTemplate('not-json.json', '{ id: ');
+    writeTemplate('z-duplicate.json', { id: 'story-intro', version: 2, user: 'Another v2' });
+
+    const store = new PromptTemplateStore({ directory, versions: {} });
+
+    expect(() => store.get('broken')).toThrow(PromptTemplateNotFoundError);
+    expect(store.render('story-intro', { name: 'Mira' }).user).toBe('Begin, Mira.');
+  });
+
+  it('should report prompts and versions it does not have', () => {
+    const store = new PromptTemplateStore({ directory, versions: { 'story-intro': 3 } });
+
+    expect(() => store.get('story-intro')).toThrow('Prompt template not found: story-intro v3');
+    expect(() => store.get('story-ending')).toThrow('Prompt template not found: story-ending');
+  });
+});
@@ -0,0 +1,3 @@
+export * from './PromptTemplate';
+export * from './PromptTemplateError';
+export { PromptTemplateStore, getPromptTemplateStore } from './PromptTemplateStore';
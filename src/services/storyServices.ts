@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+import { StoryStateService } from './StoryStateService';
+import { GPTClient } from './GPTClient';
+import { createStateStorage, StateStorageInterface } from './persistence';
+import { PersonalizationManager } from './PersonalizationManager';
+import { IllustrationService } from './IllustrationService';
+import { StoryArchiveService } from './StoryArchiveService';
+import { RetentionService } from './RetentionService';
+import { UsageTracker } from './UsageTracker';
+import { ExperimentService, getExperimentService } from './experiments';
+import { analyzeTemplateFiles, formatTemplateIssue, getStoryTemplateStore, StoryTemplateStore } from './templates';
+import { createLLMProviderRegistry, LLMProviderRegistry } from './llm';
+import llmConfig, { LLMConfig } from '../config/llm';
+import templateConfig from '../config/templates';
+import { storyMonitoring } from '../utils/storyMonitoring';
+
+/**
+ * Story engine services shared by the story and admin routes
+ */
+export interface StoryServices {
+  stateStorage: StateStorageInterface;
+  llmProviders: LLMProviderRegistry;
+  usageTracker: UsageTracker;
+  experimentService: ExperimentService;
+  templateStore: StoryTemplateStore;
+  gptClient: GPTClient;
+  personalizationManager: PersonalizationManager;
+  storyStateService: StoryStateService;
+  illustrationService: IllustrationService;
+  storyArchiveService: StoryArchiveService;
+  retentionService: RetentionService;
+}
+
+/**
+ * Report problems in the story templates when the server starts rather than
+ * when a reader runs into them
+ */
+function logTemplateAnalysis(directory: string): void {
+  if (!fs.existsSync(directory)) {
+    return;
+  }
+  const analyses = analyzeTemplateFiles(directory);
+  let errors = 0;
+  let warnings = 0;
+  let openTargets = 0;
+  for (const analysis of analyses) {
+    for (const issue of analysis.issues) {
+      if (issue.severity === 'error') {
+        errors++;
+        console.error(`[TemplateAnalyzer] ${formatTemplateIssue(analysis, issue)}`);
+      } else if (issue.severity === 'warning') {
+        warnings++;
+        console.warn(`[TemplateAnalyzer] ${formatTemplateIssue(analysis, issue)}`);
+      } else {
+        openTargets++;
+      }
+    }
+  }
+  console.log(`[TemplateAnalyzer] Analyzed ${analyses.length} story templates: ${errors} errors, ${warnings} warnings, ${openTargets} choices left to the AI`);
+}
+
+/**
+ * Create the story engine services and start their background jobs
+ */
+export function createStoryServices(apiKey: string, config: LLMConfig = llmConfig): StoryServices {
+  logTemplateAnalysis(templateConfig.directory);
+  const stateStorage = createStateStorage();
+  const llmProviders = createLLMProviderRegistry({
+    ...config,
+    openai: { ...config.openai, apiKey: apiKey || config.openai.apiKey }
+  });
+  const usageTracker = new UsageTracker();
+  const experimentService = getExperimentService();
+  const gptClient = new GPTClient(llmProviders, { usageTracker, experiments: experimentService });
+  const personalizationManager = new PersonalizationManager();
+  const templateStore = getStoryTemplateStore();
+  const storyStateService = new StoryStateService(gptClient, stateStorage, personalizationManager, { templateStore });
+  const illustrationService = new IllustrationService(path.join(__dirname, '../../public'));
+  const storyArchiveService = new StoryArchiveService(storyStateService, personalizationManager, illustrationService);
+  const retentionService = new RetentionService(stateStorage, storyStateService);
+
+  storyStateService.startStateCacheSweep();
+  storyMonitoring.setStateCacheStatsProvider(() => storyStateService.getStateCacheStats());
+  storyMonitoring.setUsageReportProvider(userId => usageTracker.getUserUsage(userId));
+  storyMonitoring.setExperimentVariantsProvider(userId => experimentService.getVariants(userId));
+  retentionService.start();
+  templateStore.watch();
+
+  return {
+    stateStorage,
+    llmProviders,
+    usageTracker,
+    experimentService,
+    templateStore,
+    gptClient,
+    personalizationManager,
+    storyStateService,
+    illustrationService,
+    storyArchiveService,
+    retentionService
+  };
+}
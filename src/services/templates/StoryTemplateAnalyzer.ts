@@ -0,0 +1,360 @@
+import fs from 'fs';
+import path from 'path';
+import { StoryTemplateSchema } from '../../models/StoryTemplate';
+import {
+  compileExpression,
+  compileTemplate,
+  getExpressionVariables,
+  getTemplateVariables
+} from '../../models/StoryTemplateExpression';
+
+export type TemplateIssueKind =
+  | 'invalid-template'
+  | 'missing-intro'
+  | 'dangling-target'
+  | 'unreachable-segment'
+  | 'dead-end'
+  | 'inescapable-cycle'
+  | 'undeclared-variable'
+  | 'unused-variable';
+
+/**
+ * Errors leave readers stuck or show them broken text; warnings are worth a
+ * look; info is how the template hands over to the AI
+ */
+export type TemplateIssueSeverity = 'error' | 'warning' | 'info';
+
+export interface TemplateIssue {
+  kind: TemplateIssueKind;
+  severity: TemplateIssueSeverity;
+  message: string;
+  segmentId?: string;
+  choiceId?: string;
+  variable?: string;
+}
+
+export interface TemplateGraphEdge {
+  from: string;
+  to: string;
+  choiceId: string;
+  // Only offered while the choice's condition holds
+  conditional: boolean;
+}
+
+/**
+ * The segments of a template and the choices between them
+ */
+export interface TemplateSegmentGraph {
+  segments: string[];
+  edges: TemplateGraphEdge[];
+  // Choice targets the template does not define, which the AI writes
+  openTargets: string[];
+}
+
+export interface TemplateAnalysis {
+  templateId: string;
+  // File the template was read from, when analyzed from disk
+  file?: string;
+  // Missing when the template could not be loaded
+  graph?: TemplateSegmentGraph;
+  issues: TemplateIssue[];
+}
+
+const START_SEGMENT_ID = 'intro';
+
+export function buildSegmentGraph(template: StoryTemplateSchema): TemplateSegmentGraph {
+  const segments = Object.keys(template.segmentTemplates);
+  const edges: TemplateGraphEdge[] = [];
+  const openTargets = new Set<string>();
+
+  for (const segment of Object.values(template.segmentTemplates)) {
+    for (const choice of segment.choices) {
+      edges.push({ from: segment.id, to: choice.nextSegmentId, choiceId: choice.id, conditional: Boolean(choice.condition) });
+      if (!template.segmentTemplates[choice.nextSegmentId]) {
+        openTargets.add(choice.nextSegmentId);
+      }
+    }
+  }
+
+  return { segments, edges, openTargets: Array.from(openTargets) };
+}
+
+/**
+ * Levenshtein distance between two IDs
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * The defined segment a dangling target was probably meant to be: one or two
+ * edits away (one for short IDs), ignoring case
+ */
+function findLikelyTypo(target: string, segments: string[]): string | undefined {
+  const limit = target.length < 8 ? 1 : 2;
+  let closest: { segmentId: string; distance: number } | undefined;
+  for (const segmentId of segments) {
+    const distance = editDistance(target.toLowerCase(), segmentId.toLowerCase());
+    if (distance <= limit && (!closest || distance < closest.distance)) {
+      closest = { segmentId, distance };
+    }
+  }
+  return closest?.segmentId;
+}
+
+/**
+ * Groups of segments that can all reach each other (Tarjan's algorithm),
+ * over the edges between segments the template defines
+ */
+function findStronglyConnected(graph: TemplateSegmentGraph): string[][] {
+  const defined = new Set(graph.segments);
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (segmentId: string) => {
+    indexes.set(segmentId, indexes.size);
+    lowLinks.set(segmentId, indexes.get(segmentId)!);
+    stack.push(segmentId);
+    onStack.add(segmentId);
+
+    for (const edge of graph.edges) {
+      if (edge.from !== segmentId || !defined.has(edge.to)) {
+        continue;
+      }
+      if (!indexes.has(edge.to)) {
+        visit(edge.to);
+        lowLinks.set(segmentId, Math.min(lowLinks.get(segmentId)!, lowLinks.get(edge.to)!));
+      } else if (onStack.has(edge.to)) {
+        lowLinks.set(segmentId, Math.min(lowLinks.get(segmentId)!, indexes.get(edge.to)!));
+      }
+    }
+
+    if (lowLinks.get(segmentId) === indexes.get(segmentId)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== segmentId);
+      components.push(component.reverse());
+    }
+  };
+
+  graph.segments.forEach(segmentId => {
+    if (!indexes.has(segmentId)) {
+      visit(segmentId);
+    }
+  });
+  return components;
+}
+
+function checkGraph(template: StoryTemplateSchema, graph: TemplateSegmentGraph): TemplateIssue[] {
+  const issues: TemplateIssue[] = [];
+
+  if (!template.segmentTemplates[START_SEGMENT_ID]) {
+    issues.push({
+      kind: 'missing-intro',
+      severity: 'error',
+      message: `There is no ${START_SEGMENT_ID} segment for stories to start from`
+    });
+  }
+
+  for (const edge of graph.edges) {
+    if (!graph.openTargets.includes(edge.to)) {
+      continue;
+    }
+    // Left to the AI on purpose, unless it is a near miss of a segment the template has
+    const likelyTarget = findLikelyTypo(edge.to, graph.segments);
+    issues.push({
+      kind: 'dangling-target',
+      severity: likelyTarget ? 'warning' : 'info',
+      message: likelyTarget
+        ? `Choice ${edge.choiceId} in segment ${edge.from} leads to ${edge.to}, which the template does not define; did you mean ${likelyTarget}? (Otherwise the AI will write it)`
+        : `Choice ${edge.choiceId} in segment ${edge.from} leads to ${edge.to}, which the template does not define; the AI will write it`,
+      segmentId: edge.from,
+      choiceId: edge.choiceId
+    });
+  }
+
+  // Everything the intro leads to
+  const reachable = new Set<string>();
+  const queue = template.segmentTemplates[START_SEGMENT_ID] ? [START_SEGMENT_ID] : [];
+  while (queue.length > 0) {
+    const segmentId = queue.shift()!;
+    if (reachable.has(segmentId)) {
+      continue;
+    }
+    reachable.add(segmentId);
+    graph.edges.filter(edge => edge.from === segmentId && template.segmentTemplates[edge.to]).forEach(edge => queue.push(edge.to));
+  }
+  if (reachable.size > 0) {
+    graph.segments.filter(segmentId => !reachable.has(segmentId)).forEach(segmentId => {
+      issues.push({
+        kind: 'unreachable-segment',
+        severity: 'warning',
+        message: `Segment ${segmentId} cannot be reached from ${START_SEGMENT_ID}`,
+        segmentId
+      });
+    });
+  }
+
+  for (const segment of Object.values(template.segmentTemplates)) {
+    if (segment.ending) {
+      continue;
+    }
+    if (segment.choices.length === 0) {
+      issues.push({
+        kind: 'dead-end',
+        severity: 'error',
+        message: `Segment ${segment.id} has no choices and is not marked as an ending`,
+        segmentId: segment.id
+      });
+    } else if (segment.choices.every(choice => choice.condition)) {
+      issues.push({
+        kind: 'dead-end',
+        severity: 'warning',
+        message: `Every choice in segment ${segment.id} has a condition; when none holds the reader is stuck`,
+        segmentId: segment.id
+      });
+    }
+  }
+
+  // A cycle the reader can enter but never leave or finish. Conditions are
+  // not evaluated, so an exit that is never offered is not caught.
+  for (const component of findStronglyConnected(graph)) {
+    const members = new Set(component);
+    const isCycle = component.length > 1 ||
+      graph.edges.some(edge => edge.from === component[0] && edge.to === component[0]);
+    if (!isCycle) {
+      continue;
+    }
+    const hasExit = component.some(segmentId => template.segmentTemplates[segmentId].ending) ||
+      graph.edges.some(edge => members.has(edge.from) && !members.has(edge.to));
+    if (!hasExit) {
+      issues.push({
+        kind: 'inescapable-cycle',
+        severity: 'error',
+        message: `Segments ${component.join(', ')} lead only to each other, with no ending and no way out`,
+        segmentId: component[0]
+      });
+    }
+  }
+
+  return issues;
+}
+
+function checkVariables(template: StoryTemplateSchema): TemplateIssue[] {
+  const issues: TemplateIssue[] = [];
+  const declared = new Set([
+    ...template.variables.map(variable => variable.name),
+    ...(template.storyVariables || []).map(variable => variable.name)
+  ]);
+  // Where each variable is first read
+  const used = new Map<string, { segmentId: string; choiceId?: string }>();
+  const use = (names: Set<string>, segmentId: string, choiceId?: string) => {
+    names.forEach(name => {
+      if (!used.has(name)) {
+        used.set(name, { segmentId, choiceId });
+      }
+    });
+  };
+
+  for (const segment of Object.values(template.segmentTemplates)) {
+    use(getTemplateVariables(compileTemplate(segment.template)), segment.id);
+    for (const choice of segment.choices) {
+      use(getTemplateVariables(compileTemplate(choice.text)), segment.id, choice.id);
+      if (choice.condition) {
+        use(getExpressionVariables(compileExpression(choice.condition)), segment.id, choice.id);
+      }
+    }
+  }
+
+  used.forEach((location, name) => {
+    if (!declared.has(name)) {
+      issues.push({
+        kind: 'undeclared-variable',
+        severity: 'error',
+        message: `${location.choiceId ? `Choice ${location.choiceId} in segment` : 'Segment'} ${location.segmentId} uses ${name}, which is not declared (it renders blank)`,
+        ...location,
+        variable: name
+      });
+    }
+  });
+
+  const setByChoices = new Set(Object.values(template.segmentTemplates)
+    .flatMap(segment => segment.choices)
+    .flatMap(choice => choice.effects || [])
+    .map(effect => 'set' in effect ? effect.set : 'increment' in effect ? effect.increment : 'add' in effect ? effect.add : effect.remove));
+  declared.forEach(name => {
+    if (!used.has(name)) {
+      issues.push({
+        kind: 'unused-variable',
+        severity: 'warning',
+        message: setByChoices.has(name)
+          ? `Variable ${name} is changed by choices but never read`
+          : `Variable ${name} is declared but never used`,
+        variable: name
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Check a template for problems readers would run into: dangling choice
+ * targets, unreachable segments, dead ends, inescapable cycles, and
+ * undeclared or unused variables. The template must be valid
+ * (StoryTemplateSchema.validate).
+ */
+export function analyzeStoryTemplate(template: StoryTemplateSchema): TemplateAnalysis {
+  const graph = buildSegmentGraph(template);
+  return {
+    templateId: template.id,
+    graph,
+    issues: [...checkGraph(template, graph), ...checkVariables(template)]
+  };
+}
+
+/**
+ * Analyze a template file, or every *.json template in a directory.
+ * Files that do not parse or validate get an invalid-template error.
+ */
+export function analyzeTemplateFiles(target: string): TemplateAnalysis[] {
+  const files = fs.statSync(target).isDirectory()
+    ? fs.readdirSync(target).filter(file => file.endsWith('.json')).sort().map(file => path.join(target, file))
+    : [target];
+
+  return files.map(file => {
+    try {
+      const schema = JSON.parse(fs.readFileSync(file, 'utf8'));
+      StoryTemplateSchema.validate(schema);
+      return { ...analyzeStoryTemplate(schema), file };
+    } catch (error) {
+      return {
+        templateId: path.basename(file, '.json'),
+        file,
+        issues: [{ kind: 'invalid-template', severity: 'error', message: (error as Error).message }]
+      };
+    }
+  });
+}
+
+/**
+ * One line per issue, for logs and the command line
+ */
+export function formatTemplateIssue(analysis: TemplateAnalysis, issue: TemplateIssue): string {
+  return `${analysis.file ? path.basename(analysis.file) : analysis.templateId}: ${issue.severity} ${issue.kind}: ${issue.message}`;
+}
@@ -0,0 +1,39 @@
+/**
+ * Thrown when a story template cannot be stored or found
+ */
+export class StoryTemplateError extends Error {
+  // Template ID, when known
+  templateId?: string;
+
+  constructor(message: string, templateId?: string) {
+    super(message);
+    this.templateId = templateId;
+    this.name = this.constructor.name;
+  }
+}
+
+/**
+ * Thrown when there is no template with the requested ID (and version)
+ */
+export class StoryTemplateNotFoundError extends StoryTemplateError {
+  version?: number;
+
+  constructor(templateId: string, version?: number) {
+    super(`Story template not found: ${templateId}${version !== undefined ? ` v${version}` : ''}`, templateId);
+    this.version = version;
+  }
+}
+
+/**
+ * Thrown when a template to be saved fails validation
+ */
+export class InvalidStoryTemplateError extends StoryTemplateError {}
+
+/**
+ * Thrown when creating a template whose ID is already taken
+ */
+export class StoryTemplateExistsError extends StoryTemplateError {
+  constructor(templateId: string) {
+    super(`Story template already exists: ${templateId}`, templateId);
+  }
+}
@@ -0,0 +1,405 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import templateConfig, { TemplateConfig } from '../../config/templates';
+import { StoryTemplate, StoryTemplateSchema } from '../../models/StoryTemplate';
+import {
+  InvalidStoryTemplateError,
+  StoryTemplateExistsError,
+  StoryTemplateNotFoundError
+} from './StoryTemplateError';
+
+// Template IDs name files, so keep them to characters that are safe there
+const TEMPLATE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const ARCHIVE_FILE_PATTERN = /^(.+)\.v(\d+)\.json$/;
+
+/**
+ * One version of a story template
+ */
+export interface StoredStoryTemplate {
+  version: number;
+  // Of the content, which stories record with the version since numbers are
+  // only stable within one versions directory
+  hash: string;
+  schema: StoryTemplateSchema;
+  template: StoryTemplate;
+}
+
+export interface StoryTemplateSummary {
+  id: string;
+  // The version new stories start from
+  version: number;
+  // Every version kept, oldest first
+  versions: number[];
+  file: string;
+}
+
+function hashSchema(schema: StoryTemplateSchema): string {
+  return crypto.createHash('sha256').update(JSON.stringify(schema)).digest('hex');
+}
+
+// The version in the templates directory, which new stories start from
+interface CurrentStoryTemplate extends StoredStoryTemplate {
+  file: string;
+}
+
+/**
+ * The story templates in the configured directory, with every earlier
+ * version of each kept for the stories started from it.
+ *
+ * The version in the directory is the current one, and every version is
+ * copied to the versions directory as <id>.v<N>.json when it becomes current.
+ * Numbers stay stable across restarts: a template whose content matches an
+ * archived version has that version, and otherwise the one after the newest.
+ * They are only stable within one versions directory, though, so stories
+ * find their version by its content hash too.
+ */
+export class StoryTemplateStore {
+  private config: TemplateConfig;
+  private current: Map<string, CurrentStoryTemplate> = new Map();
+  // Archived versions read back so far, by template ID and version
+  private archived: Map<string, Map<number, StoredStoryTemplate>> = new Map();
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: TemplateConfig = templateConfig) {
+    this.config = config;
+    this.reload();
+  }
+
+  /**
+   * The current version of every template, by ID
+   */
+  getCurrentTemplates(): StoredStoryTemplate[] {
+    return Array.from(this.current.keys()).sort().map(id => this.current.get(id)!);
+  }
+
+  /**
+   * A template's given version, else its current one; undefined when there is no such version.
+   * With a hash, the version with that content even if it is numbered differently here
+   * (after a fresh deploy, or on another server).
+   */
+  find(id: string, version?: number, hash?: string): StoredStoryTemplate | undefined {
+    const current = this.current.get(id);
+    if (version === undefined) {
+      return current;
+    }
+    const stored = current?.version === version ? current : this.loadArchived(id, version);
+    if (hash === undefined || stored?.hash === hash) {
+      return stored;
+    }
+    if (current?.hash === hash) {
+      return current;
+    }
+    return this.listArchivedVersions(id)
+      .map(archived => this.loadArchived(id, archived))
+      .find(archived => archived?.hash === hash);
+  }
+
+  get(id: string, version?: number): StoredStoryTemplate {
+    const stored = this.find(id, version);
+    if (!stored) {
+      throw new StoryTemplateNotFoundError(id, version);
+    }
+    return stored;
+  }
+
+  list(): StoryTemplateSummary[] {
+    return this.getCurrentTemplates().map(stored => {
+      const id = stored.schema.id;
+      return {
+        id,
+        version: stored.version,
+        versions: this.getVersions(id),
+        file: this.current.get(id)!.file
+      };
+    });
+  }
+
+  /**
+   * Every version of a template, oldest first, including those of a deleted template
+   */
+  getVersions(id: string): number[] {
+    const versions = new Set(this.listArchivedVersions(id));
+    const current = this.current.get(id);
+    if (current) {
+      versions.add(current.version);
+    }
+    if (versions.size === 0) {
+      throw new StoryTemplateNotFoundError(id);
+    }
+    return Array.from(versions).sort((a, b) => a - b);
+  }
+
+  /**
+   * Add a template, written to <id>.json in the templates directory
+   */
+  create(schema: StoryTemplateSchema): StoredStoryTemplate {
+    const template = this.checkSchema(schema);
+    if (this.current.has(schema.id)) {
+      throw new StoryTemplateExistsError(schema.id);
+    }
+    const file = `${schema.id}.json`;
+    if (fs.existsSync(path.join(this.config.directory, file))) {
+      throw new StoryTemplateExistsError(schema.id);
+    }
+    this.writeTemplateFile(file, schema);
+    return this.install(schema, template, file);
+  }
+
+  /**
+   * Replace a template's current version. Stories already started from it
+   * keep the version they started with.
+   */
+  update(id: string, schema: StoryTemplateSchema): StoredStoryTemplate {
+    const current = this.current.get(id);
+    if (!current) {
+      throw new StoryTemplateNotFoundError(id);
+    }
+    const template = this.checkSchema(schema);
+    if (schema.id !== id) {
+      throw new InvalidStoryTemplateError(`Template id ${schema.id} does not match ${id}`, id);
+    }
+    this.writeTemplateFile(current.file, schema);
+    return this.install(schema, template, current.file);
+  }
+
+  /**
+   * Stop starting stories from a template. Its versions stay archived for
+   * the stories already started from it. Returns the version removed.
+   */
+  delete(id: string): StoredStoryTemplate {
+    const current = this.current.get(id);
+    if (!current) {
+      throw new StoryTemplateNotFoundError(id);
+    }
+    this.archive(id, current);
+    fs.rmSync(path.join(this.config.directory, current.file), { force: true });
+    this.current.delete(id);
+    console.log(`[StoryTemplateStore] Deleted ${id} v${current.version}`);
+    return current;
+  }
+
+  /**
+   * Read the templates directory again. A file that no longer loads keeps
+   * its template at the version loaded before.
+   */
+  reload(): void {
+    const directory = this.config.directory;
+    if (!fs.existsSync(directory)) {
+      console.warn(`[StoryTemplateStore] Story template directory not found: ${directory}`);
+    }
+    const files = fs.existsSync(directory)
+      ? fs.readdirSync(directory).filter(file => file.endsWith('.json')).sort()
+      : [];
+
+    const seen = new Set<string>();
+    for (const file of files) {
+      try {
+        const schema = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8'));
+        const template = this.checkSchema(schema);
+        if (seen.has(schema.id)) {
+          console.error(`[StoryTemplateStore] Skipping ${file}: template ${schema.id} is already loaded`);
+          continue;
+        }
+        seen.add(schema.id);
+        const previousVersion = this.current.get(schema.id)?.version;
+        const stored = this.install(schema, template, file);
+        if (stored.version !== previousVersion) {
+          console.log(`[StoryTemplateStore] Loaded ${schema.id} v${stored.version} from ${file}`);
+        }
+      } catch (error) {
+        console.error(`[StoryTemplateStore] Error loading story template from ${file}:`, error);
+        this.current.forEach((stored, id) => {
+          if (stored.file === file) {
+            seen.add(id);
+          }
+        });
+      }
+    }
+
+    // Templates whose files were removed
+    this.current.forEach((stored, id) => {
+      if (!seen.has(id)) {
+        this.archive(id, stored);
+        this.current.delete(id);
+        console.log(`[StoryTemplateStore] Removed ${id} v${stored.version}; ${stored.file} is gone`);
+      }
+    });
+
+    console.log(`[StoryTemplateStore] Serving ${this.current.size} story templates from ${directory}`);
+  }
+
+  /**
+   * Reload when files in the templates directory change
+   */
+  watch(): void {
+    const directory = this.config.directory;
+    if (!this.config.watch || this.watcher || !fs.existsSync(directory)) {
+      return;
+    }
+
+    this.watcher = fs.watch(directory, (event, filename) => {
+      // Skips the versions directory and half-written files
+      if (filename && !filename.toString().endsWith('.json')) {
+        return;
+      }
+      if (this.reloadTimer) {
+        clearTimeout(this.reloadTimer);
+      }
+      this.reloadTimer = setTimeout(() => {
+        this.reloadTimer = null;
+        try {
+          this.reload();
+        } catch (error) {
+          console.error('[StoryTemplateStore] Error reloading story templates:', error);
+        }
+      }, this.config.watchDebounceMs);
+      this.reloadTimer.unref();
+    });
+    this.watcher.on('error', error => console.error('[StoryTemplateStore] Error watching story templates:', error));
+    // Never keep the process alive just to watch
+    this.watcher.unref();
+    console.log(`[StoryTemplateStore] Watching ${directory} for template changes`);
+  }
+
+  close(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  private checkSchema(schema: any): StoryTemplate {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      throw new InvalidStoryTemplateError('A story template must be a JSON object');
+    }
+    try {
+      StoryTemplateSchema.validate(schema);
+    } catch (error) {
+      throw new InvalidStoryTemplateError((error as Error).message, typeof schema.id === 'string' ? schema.id : undefined);
+    }
+    if (!TEMPLATE_ID_PATTERN.test(schema.id)) {
+      throw new InvalidStoryTemplateError(`Template id ${schema.id} may only contain letters, digits, _ and -`, schema.id);
+    }
+    return new StoryTemplate(schema);
+  }
+
+  /**
+   * Make a template's content current, archiving it and the version it replaces
+   */
+  private install(schema: StoryTemplateSchema, template: StoryTemplate, file: string): StoredStoryTemplate {
+    const hash = hashSchema(schema);
+    const previous = this.current.get(schema.id);
+    if (previous && previous.hash === hash) {
+      previous.file = file;
+      return previous;
+    }
+    if (previous) {
+      this.archive(schema.id, previous);
+    }
+
+    const stored: CurrentStoryTemplate = { version: this.resolveVersion(schema.id, hash), hash, schema, template, file };
+    this.current.set(schema.id, stored);
+    try {
+      this.archive(schema.id, stored);
+    } catch (error) {
+      // Still served; only stories started from it lose it once it changes
+      console.error(`[StoryTemplateStore] Could not archive ${schema.id} v${stored.version}:`, error);
+    }
+    return stored;
+  }
+
+  /**
+   * The archived version with this content, else the one after the newest
+   */
+  private resolveVersion(id: string, hash: string): number {
+    const versions = this.listArchivedVersions(id);
+    for (const version of [...versions].reverse()) {
+      if (this.loadArchived(id, version)?.hash === hash) {
+        return version;
+      }
+    }
+    return versions.length > 0 ? versions[versions.length - 1] + 1 : 1;
+  }
+
+  private archive(id: string, stored: StoredStoryTemplate): void {
+    const file = this.archivePath(id, stored.version);
+    if (!fs.existsSync(file)) {
+      fs.mkdirSync(this.config.versionsDirectory, { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(stored.schema, null, 2));
+    }
+    if (!this.archived.has(id)) {
+      this.archived.set(id, new Map());
+    }
+    this.archived.get(id)!.set(stored.version, { version: stored.version, hash: stored.hash, schema: stored.schema, template: stored.template });
+  }
+
+  private loadArchived(id: string, version: number): StoredStoryTemplate | undefined {
+    const cached = this.archived.get(id)?.get(version);
+    if (cached) {
+      return cached;
+    }
+
+    const file = this.archivePath(id, version);
+    if (!TEMPLATE_ID_PATTERN.test(id) || !fs.existsSync(file)) {
+      return undefined;
+    }
+    try {
+      const schema = JSON.parse(fs.readFileSync(file, 'utf8'));
+      const stored = { version, hash: hashSchema(schema), schema, template: new StoryTemplate(schema) };
+      if (!this.archived.has(id)) {
+        this.archived.set(id, new Map());
+      }
+      this.archived.get(id)!.set(version, stored);
+      return stored;
+    } catch (error) {
+      console.error(`[StoryTemplateStore] Error loading ${id} v${version} from ${file}:`, error);
+      return undefined;
+    }
+  }
+
+  private listArchivedVersions(id: string): number[] {
+    const directory = this.config.versionsDirectory;
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+    return fs.readdirSync(directory)
+      .map(file => ARCHIVE_FILE_PATTERN.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null && match[1] === id)
+      .map(match => parseInt(match[2], 10))
+      .sort((a, b) => a - b);
+  }
+
+  private archivePath(id: string, version: number): string {
+    return path.join(this.config.versionsDirectory, `${id}.v${version}.json`);
+  }
+
+  /**
+   * Write through a temporary file so the watcher never reads half a template
+   */
+  private writeTemplateFile(file: string, schema: StoryTemplateSchema): void {
+    fs.mkdirSync(this.config.directory, { recursive: true });
+    const target = path.join(this.config.directory, file);
+    const temporary = path.join(this.config.directory, `.${file}.tmp`);
+    fs.writeFileSync(temporary, JSON.stringify(schema, null, 2));
+    fs.renameSync(temporary, target);
+  }
+}
+
+let defaultStore: StoryTemplateStore | undefined;
+
+/**
+ * The templates in the configured directory, loaded on first use
+ */
+export function getStoryTemplateStore(): StoryTemplateStore {
+  if (!defaultStore) {
+    defaultStore = new StoryTemplateStore();
+  }
+  return defaultStore;
+}
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StoryTemplateSchema } from '../../../models/StoryTemplate';
+import { analyzeStoryTemplate, analyzeTemplateFiles } from '../StoryTemplateAnalyzer';
+
+describe('StoryTemplateAnalyzer', () => {
+  const template: StoryTemplateSchema = {
+    id: 'castle',
+    variables: [
+      { name: 'character_name', type: 'string', required: true },
+      { name: 'age', type: 'number', required: false, default: 10 }
+    ],
+    storyVariables: [
+      { name: 'inventory', type: 'list' },
+      { name: 'visits', type: 'number' }
+    ],
+    segmentTemplates: {
+      intro: {
+        id: 'intro',
+        template: '{character_name} reaches the castle{#if weather == "rain"} in the rain{/if}.',
+        choices: [
+          { id: 'enter', text: 'Go in', nextSegmentId: 'hall', effects: [{ increment: 'visits' }] },
+          { id: 'garden', text: 'Walk around', nextSegmentId: 'garden' }
+        ]
+      },
+      hall: {
+        id: 'hall',
+        template: 'A long hall.',
+        choices: [
+          { id: 'left', text: 'Left corridor', nextSegmentId: 'corridor' },
+          { id: 'vault', text: 'Open the vault', nextSegmentId: 'vault', condition: "'key' in inventory" }
+        ]
+      },
+      corridor: {
+        id: 'corridor',
+        template: 'The corridor turns.',
+        choices: [{ id: 'on', text: 'Keep walking', nextSegmentId: 'stairs' }]
+      },
+      stairs: {
+        id: 'stairs',
+        template: 'Stairs wind down.',
+        choices: [{ id: 'down', text: 'Go down', nextSegmentId: 'corridor' }]
+      },
+      vault: { id: 'vault', template: 'Treasure!', choices: [], ending: true },
+      cellar: { id: 'cellar', template: 'Damp and dark.', choices: [] }
+    }
+  };
+
+  const issuesOf = (kind: string) => analyzeStoryTemplate(template).issues.filter(issue => issue.kind === kind);
+
+  it('should build the segment graph', () => {
+    const { graph } = analyzeStoryTemplate(template);
+
+    expect(graph!.segments).toEqual(['intro', 'hall', 'corridor', 'stairs', 'vault', 'cellar']);
+    expect(graph!.edges).toContainEqual({ from: 'hall', to: 'vault', choiceId: 'vault', conditional: true });
+    expect(graph!.openTargets).toEqual(['garden']);
+  });
+
+  it('should report choices that lead out of the template as left to the AI', () => {
+    expect(issuesOf('dangling-target')).toEqual([expect.objectContaining({
+      severity: 'info',
+      segmentId: 'intro',
+      choiceId: 'garden'
+    })]);
+  });
+
+  it('should warn about choice targets that look like a typo of a segment', () => {
+    const typos: StoryTemplateSchema = {
+      ...template,
+      segmentTemplates: {
+        ...template.segmentTemplates,
+        hall: {
+          ...template.segmentTemplates.hall,
+          choices: [
+            { id: 'left', text: 'Left corridor', nextSegmentId: 'coridor' },
+            { id: 'vault', text: 'Open the vault', nextSegmentId: 'Vault' },
+            { id: 'tower', text: 'Climb the tower', nextSegmentId: 'tower' }
+          ]
+        }
+      }
+    };
+
+    const dangling = analyzeStoryTemplate(typos).issues.filter(issue => issue.kind === 'dangling-target');
+
+    expect(dangling.map(issue => [issue.choiceId, issue.severity])).toEqual([
+      ['garden', 'info'],
+      ['left', 'warning'],
+      ['vault', 'warning'],
+      ['tower', 'info']
+    ]);
+    expect(dangling[1].message).toContain('did you mean corridor?');
+  });
+
+  it('should report unreachable segments and dead ends without an ending', () => {
+    expect(issuesOf('unreachable-segment').map(issue => issue.segmentId)).toEqual(['cellar']);
+    expect(issuesOf('dead-end')).toEqual([expect.objectContaining({ severity: 'error', segmentId: 'cellar' })]);
+  });
+
+  it('should report cycles with no way out', () => {
+    expect(issuesOf('inescapable-cycle')).toEqual([expect.objectContaining({
+      severity: 'error',
+      message: 'Segments corridor, stairs lead only to each other, with no ending and no way out'
+    })]);
+  });
+
+  it('should report undeclared and unused variables', () => {
+    expect(issuesOf('undeclared-variable')).toEqual([expect.objectContaining({
+      severity: 'error',
+      variable: 'weather',
+      segmentId: 'intro'
+    })]);
+    expect(issuesOf('unused-variable').map(issue => issue.message)).toEqual([
+      'Variable age is declared but never used',
+      'Variable visits is changed by choices but never read'
+    ]);
+  });
+
+  it('should find nothing wrong with a sound template', () => {
+    const sound: StoryTemplateSchema = {
+      id: 'sound',
+      variables: [],
+      segmentTemplates: {
+        intro: { id: 'intro', template: 'A fork.', choices: [{ id: 'loop', text: 'Again', nextSegmentId: 'intro' }, { id: 'end', text: 'Stop', nextSegmentId: 'end' }] },
+        end: { id: 'end', template: 'The end.', choices: [], ending: true }
+      }
+    };
+
+    expect(analyzeStoryTemplate(sound).issues).toEqual([]);
+  });
+
+  describe('analyzeTemplateFiles', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'story-templates-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should analyze every template in a directory and report the ones that do not load', () => {
+      fs.writeFileSync(path.join(directory, 'castle.json'), JSON.stringify(template));
+      fs.writeFileSync(path.join(directory, 'broken.json'), JSON.stringify({ ...template, id: 'broken', variables: undefined }));
+      fs.writeFileSync(path.join(directory, 'notes.txt'), 'not a template');
+
+      const analyses = analyzeTemplateFiles(directory);
+
+      expect(analyses.map(analysis => analysis.templateId)).toEqual(['broken', 'castle']);
+      expect(analyses[0].issues).toEqual([
+        { kind: 'invalid-template', severity: 'error', message: 'Schema must have variables array' }
+      ]);
+      expect(analyses[1].file).toBe(path.join(directory, 'castle.json'));
+    });
+
+    it('should find no errors in the shipped templates', () => {
+      const analyses = analyzeTemplateFiles(path.join(__dirname, '../../../../data/templates'));
+
+      expect(analyses.length).toBeGreaterThan(0);
+      expect(analyses.flatMap(analysis => analysis.issues).filter(issue => issue.severity !== 'info')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TemplateConfig } from '../../../config/templates';
+import { StoryTemplateSchema } from '../../../models/StoryTemplate';
+import { StoryTemplateStore } from '../StoryTemplateStore';
+import {
+  InvalidStoryTemplateError,
+  StoryTemplateExistsError,
+  StoryTemplateNotFoundError
+} from '../StoryTemplateError';
+
+describe('StoryTemplateStore', () => {
+  let config: TemplateConfig;
+  let store: StoryTemplateStore;
+
+  const castle = (intro: string): StoryTemplateSchema => ({
+    id: 'castle',
+    variables: [],
+    segmentTemplates: {
+      intro: { id: 'intro', template: intro, choices: [{ id: 'enter', text: 'Go in', nextSegmentId: 'hall' }] }
+    }
+  });
+
+  const writeTemplate = (file: string, schema: unknown) =>
+    fs.writeFileSync(path.join(config.directory, file), JSON.stringify(schema));
+
+  beforeEach(() => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'story-templates-'));
+    config = { directory, versionsDirectory: path.join(directory, '.versions'), watch: true, watchDebounceMs: 10 };
+    writeTemplate('castle.json', castle('A castle.'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    store = new StoryTemplateStore(config);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(config.directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should load the templates in the directory as their first version', () => {
+    expect(store.getCurrentTemplates().map(stored => [stored.schema.id, stored.version])).toEqual([['castle', 1]]);
+    expect(store.list()).toEqual([{ id: 'castle', version: 1, versions: [1], file: 'castle.json' }]);
+    expect(fs.readdirSync(config.versionsDirectory)).toEqual(['castle.v1.json']);
+  });
+
+  it('should keep earlier versions for the stories started from them', () => {
+    const updated = store.update('castle', castle('A ruined castle.'));
+
+    expect(updated.version).toBe(2);
+    expect(store.get('castle').schema.segmentTemplates.intro.template).toBe('A ruined castle.');
+    expect(store.get('castle', 1).schema.segmentTemplates.intro.template).toBe('A castle.');
+    expect(store.getVersions('castle')).toEqual([1, 2]);
+    expect(JSON.parse(fs.readFileSync(path.join(config.directory, 'castle.json'), 'utf8'))).toEqual(castle('A ruined castle.'));
+    expect(() => store.get('castle', 3)).toThrow(StoryTemplateNotFoundError);
+  });
+
+  it('should not bump the version when nothing changed', () => {
+    expect(store.update('castle', castle('A castle.')).version).toBe(1);
+  });
+
+  it('should create new templates and refuse ones that exist or do not validate', () => {
+    const created = store.create({ ...castle('A tower.'), id: 'tower' });
+
+    expect(created.version).toBe(1);
+    expect(fs.existsSync(path.join(config.directory, 'tower.json'))).toBe(true);
+    expect(() => store.create(castle('Another castle.'))).toThrow(StoryTemplateExistsError);
+    expect(() => store.create({ id: 'broken' } as StoryTemplateSchema)).toThrow(InvalidStoryTemplateError);
+    expect(() => store.create({ ...castle('Up.'), id: '../escape' })).toThrow(InvalidStoryTemplateError);
+    expect(() => store.update('castle', { ...castle('Moved.'), id: 'tower' })).toThrow(InvalidStoryTemplateError);
+  });
+
+  it('should keep a deleted template for stories already started from it', () => {
+    expect(store.delete('castle').version).toBe(1);
+
+    expect(store.getCurrentTemplates()).toEqual([]);
+    expect(store.find('castle')).toBeUndefined();
+    expect(store.get('castle', 1).schema.segmentTemplates.intro.template).toBe('A castle.');
+    expect(fs.existsSync(path.join(config.directory, 'castle.json'))).toBe(false);
+    expect(store.create(castle('A new castle.')).version).toBe(2);
+  });
+
+  it('should number versions the same way after a restart', () => {
+    store.update('castle', castle('A ruined castle.'));
+
+    expect(new StoryTemplateStore(config).get('castle').version).toBe(2);
+
+    // Put back by hand while the server was down
+    writeTemplate('castle.json', castle('A castle.'));
+    const restarted = new StoryTemplateStore(config);
+
+    expect(restarted.get('castle').version).toBe(1);
+    expect(restarted.getVersions('castle')).toEqual([1, 2]);
+  });
+
+  it('should find a story\'s version by its content when versions are numbered afresh', () => {
+    const original = store.get('castle', 1);
+    const ruined = store.update('castle', castle('A ruined castle.'));
+
+    // A fresh deploy of the ruined castle, without the versions directory
+    fs.rmSync(config.versionsDirectory, { recursive: true, force: true });
+    const deployed = new StoryTemplateStore(config);
+
+    expect(deployed.get('castle').version).toBe(1);
+    expect(deployed.find('castle', 2, ruined.hash)?.schema.segmentTemplates.intro.template).toBe('A ruined castle.');
+    // v1 here is other content than the story started with
+    expect(deployed.find('castle', 1, original.hash)).toBeUndefined();
+    expect(deployed.find('castle', 1)?.version).toBe(1);
+  });
+
+  it('should pick up changes to the directory on reload and keep serving templates whose file breaks', () => {
+    writeTemplate('castle.json', castle('A haunted castle.'));
+    writeTemplate('tower.json', { ...castle('A tower.'), id: 'tower' });
+    store.reload();
+
+    expect(store.get('castle').version).toBe(2);
+    expect(store.get('tower').version).toBe(1);
+
+    fs.writeFileSync(path.join(config.directory, 'castle.json'), '{ "id": "castle", ');
+    fs.rmSync(path.join(config.directory, 'tower.json'));
+    store.reload();
+
+    expect(store.get('castle').version).toBe(2);
+    expect(store.find('tower')).toBeUndefined();
+    expect(store.get('tower', 1).schema.id).toBe('tower');
+  });
+
+  it('should reload when a template file changes', async () => {
+    store.watch();
+    writeTemplate('castle.json', castle('A castle at dusk.'));
+
+    const deadline = Date.now() + 5000;
+    while (store.get('castle').version === 1 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+
+    expect(store.get('castle').version).toBe(2);
+    expect(store.get('castle', 1).schema.segmentTemplates.intro.template).toBe('A castle.');
+  });
+});
@@ -0,0 +1,3 @@
+export * from './StoryTemplateAnalyzer';
+export * from './StoryTemplateError';
+export * from './StoryTemplateStore';
@@ -0,0 +1,34 @@
+import request from 'supertest';
+import express from 'express';
+import { requireAdminToken } from '../../middleware/adminAuth';
+
+describe('Admin Auth Middleware', () => {
+  const createApp = (apiToken?: string) => {
+    const app = express();
+    app.get('/admin', requireAdminToken({ apiToken }), (req, res) => {
+      res.status(200).json({ success: true });
+    });
+    return app;
+  };
+
+  it('should let requests with the admin token through', async () => {
+    const response = await request(createApp('secret-token'))
+      .get('/admin')
+      .set('X-Admin-Token', 'secret-token');
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should reject requests with a missing or wrong token', async () => {
+    const app = createApp('secret-token');
+
+    expect((await request(app).get('/admin')).status).toBe(401);
+    expect((await request(app).get('/admin').set('X-Admin-Token', 'guess')).status).toBe(401);
+  });
+
+  it('should refuse every request when no token is configured', async () => {
+    const response = await request(createApp()).get('/admin').set('X-Admin-Token', '');
+
+    expect(response.status).toBe(503);
+  });
+});
@@ -0,0 +1,65 @@
+import request from 'supertest';
+import express from 'express';
+import { initHealthRoutes } from '../../routes/health.routes';
+import { responseFormatter } from '../../middleware/responseFormatter';
+import { LLMProviderRegistry } from '../../services/llm/LLMProviderRegistry';
+import { ResilientLLMProvider } from '../../services/llm/ResilientLLMProvider';
+import { CircuitBreaker } from '../../services/llm/CircuitBreaker';
+import { LLMProvider } from '../../services/llm/LLMProvider';
+
+// Builds its own app around the health routes, so it runs without the rest of the server
+describe('Health routes', () => {
+  describe('GET /health with LLM providers', () => {
+    const resilience = {
+      timeoutMs: 1000,
+      maxRetries: 0,
+      retryBaseDelayMs: 10,
+      retryMaxDelayMs: 100,
+      breakerFailureThreshold: 1,
+      breakerResetTimeoutMs: 30000
+    };
+
+    const createApp = (breaker: CircuitBreaker) => {
+      const provider: LLMProvider = {
+        name: 'openai',
+        model: 'gpt-4',
+        complete: jest.fn(),
+        stream: jest.fn(),
+        completeJSON: jest.fn()
+      };
+      const registry = new LLMProviderRegistry([new ResilientLLMProvider(provider, resilience, breaker)]);
+      const healthApp = express();
+      healthApp.use(responseFormatter());
+      healthApp.use('/health', initHealthRoutes(registry));
+      return healthApp;
+    };
+
+    it('should report each provider\'s circuit breaker', async () => {
+      const response = await request(createApp(new CircuitBreaker('openai', 1, 30000)))
+        .get('/health')
+        .expect(200);
+
+      expect(response.body.data.status).toBe('ok');
+      expect(response.body.data.llm).toEqual({
+        defaultProvider: 'openai',
+        providers: [{
+          name: 'openai',
+          model: 'gpt-4',
+          circuit: { state: 'closed', consecutiveFailures: 0, openedAt: null, retryAt: null }
+        }]
+      });
+    });
+
+    it('should be degraded while the default provider\'s circuit is open', async () => {
+      const breaker = new CircuitBreaker('openai', 1, 30000);
+      breaker.recordFailure();
+
+      const response = await request(createApp(breaker))
+        .get('/health')
+        .expect(200);
+
+      expect(response.body.data.status).toBe('degraded');
+      expect(response.body.data.llm.providers[0].circuit.state).toBe('open');
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { storyMonitoring } from '../../../utils/storyMonitoring';
+
+describe('Experiment comparison', () => {
+  const variants: Record<string, string> = { 'user-a': 'control', 'user-b': 'vivid', 'user-c': 'vivid' };
+  const minutes = (count: number) => count * 60 * 1000;
+
+  const logSegment = (userId: string, choiceId?: string, success: boolean = true) => {
+    storyMonitoring.logStoryGeneration({ requestId: '', userId, segmentId: 'segment', choiceId, latency: 1000, success });
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-05-01T10:00:00Z'));
+    storyMonitoring.setExperimentVariantsProvider(userId => (variants[userId] ? { 'segment-prompt': variants[userId] } : {}));
+
+    logSegment('user-a');
+    logSegment('user-b');
+    logSegment('user-c');
+    storyMonitoring.logGPTRequest({ requestId: '', userId: 'user-b', endpoint: 'chat/completions', latency: 400, promptTokens: 10, completionTokens: 20, success: true });
+    storyMonitoring.logGPTRequest({ requestId: '', userId: 'user-c', endpoint: 'chat/completions', latency: 800, promptTokens: 10, completionTokens: 0, success: false });
+    storyMonitoring.logGPTRequest({ requestId: '', userId: 'system', endpoint: 'chat/completions', latency: 100, promptTokens: 10, completionTokens: 20, success: true });
+
+    jest.advanceTimersByTime(minutes(10));
+    logSegment('user-b', 'choice-1');
+    logSegment('user-c', 'choice-1', false);
+    // user-b comes back after a break: a new session
+    jest.advanceTimersByTime(minutes(45));
+    logSegment('user-b', 'choice-2');
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should tag metrics with the user\'s variants, except requests made for no user', () => {
+    const [gptMetric, , systemMetric] = storyMonitoring.getRecentGPTMetrics(3);
+
+    expect(gptMetric.experiments).toEqual({ 'segment-prompt': 'vivid' });
+    expect(systemMetric.experiments).toBeUndefined();
+  });
+
+  it('should compare latency, errors and engagement by variant', () => {
+    const comparison = storyMonitoring.getExperimentComparison();
+
+    expect(Object.keys(comparison)).toEqual(['segment-prompt']);
+    expect(comparison['segment-prompt'].control).toMatchObject({
+      users: 1,
+      gptRequests: { count: 0, errorRate: 0, averageLatency: 0 },
+      choicesMade: 0,
+      sessions: 1,
+      averageSessionSegments: 1,
+      averageSessionDuration: 0
+    });
+    expect(comparison['segment-prompt'].vivid).toEqual({
+      users: 2,
+      gptRequests: { count: 2, errorRate: 0.5, averageLatency: 600 },
+      storyGenerations: { count: 5, errorRate: 0.2, averageLatency: 1000 },
+      choicesMade: 2,
+      choicesPerUser: 1,
+      // user-b: 10:00 and 10:10, then 10:55; user-c: 10:00
+      sessions: 3,
+      averageSessionSegments: 4 / 3,
+      averageSessionDuration: minutes(10) / 3
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import express from 'express';
+import request from 'supertest';
+import llmConfig from '../../config/llm';
+import { StoryController } from '../../controllers/storyController';
+import { createStoryServices, StoryServices } from '../../services/storyServices';
+
+describe('Story API with the offline LLM provider', () => {
+  let services: StoryServices;
+  let app: express.Express;
+
+  beforeAll(() => {
+    services = createStoryServices('', { ...llmConfig, defaultProvider: 'fake', recordTranscriptFile: undefined });
+    const controller = new StoryController(services.storyStateService, services.personalizationManager, services.gptClient);
+    app = express();
+    app.use(express.json());
+    app.get('/story/current', (req, res) => controller.getCurrentStory(req, res));
+    app.post('/story/choice', (req, res) => controller.makeChoice(req, res));
+    app.post('/story/conversation/start', (req, res) => controller.startConversation(req, res));
+    app.post('/story/converse', (req, res) => controller.converseWithStory(req, res));
+  });
+
+  afterAll(() => {
+    services.storyStateService.stopStateCacheSweep();
+    services.retentionService.stop();
+    services.templateStore.close();
+  });
+
+  it('should play a story end to end without network access', async () => {
+    const current = await request(app).get('/story/current').set('X-Device-ID', 'offline-device').expect(200);
+    const [choice] = current.body.segment.choices;
+
+    const next = await request(app)
+      .post('/story/choice')
+      .set('X-Device-ID', 'offline-device')
+      .send({ choiceId: choice.id })
+      .expect(200);
+
+    expect(next.body.success).toBe(true);
+    expect(next.body.segment.content).toEqual(expect.any(String));
+    expect(next.body.segment.choices.length).toBeGreaterThan(0);
+  });
+
+  it('should stream a conversational story', async () => {
+    await request(app).post('/story/conversation/start').set('X-Device-ID', 'offline-chat').send({}).expect(200);
+
+    const response = await request(app)
+      .post('/story/converse?stream=true')
+      .set('X-Device-ID', 'offline-chat')
+      .send({ userInput: 'I open the little door' })
+      .expect(200);
+
+    const events = response.text.trim().split('\n\n').map(event => JSON.parse(event.replace(/^data: /, '')));
+    const chunks = events.filter(event => event.type === 'chunk').map(event => event.content);
+    expect(events[0].type).toBe('init');
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(events[events.length - 1].type).toBe('done');
+  });
+});
@@ -1,3 +1,6 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { Express } from 'express';
 
 declare global {
@@ -11,6 +14,16 @@ declare global {
 // Increase timeout for async tests
 jest.setTimeout(10000);
 
+// Keep the story template versions the services write out of data/templates,
+// and don't leave a watcher running on it
+const templateVersionsDirectory = path.join(os.tmpdir(), `story-template-versions-${process.pid}-${Date.now()}`);
+process.env.STORY_TEMPLATE_VERSIONS_DIR = templateVersionsDirectory;
+process.env.STORY_TEMPLATES_WATCH = 'false';
+
+afterAll(() => {
+  fs.rmSync(templateVersionsDirectory, { recursive: true, force: true });
+});
+
 // Add custom matchers if needed
 expect.extend({
   // Add custom matchers here
@@ -0,0 +1,13 @@
+/**
+ * A stable 32-bit hash of a string, for spreading users over a fixed set of
+ * options (story templates, experiment variants) the same way every time
+ */
+export const hashCode = (str: string): number => {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32bit integer
+  }
+  return hash;
+};
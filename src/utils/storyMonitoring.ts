@@ -4,6 +4,8 @@
 import path from 'path';
 import fs from 'fs';
 import { StorySegment, StoryChoice } from '../models/StoryState';
+import { StoryStateCacheStats } from '../services/StoryStateCache';
+import { UserUsageReport } from '../services/UsageTracker';
 
 interface GPTMetrics {
   requestId: string;
@@ -15,9 +17,33 @@ interface GPTMetrics {
   completionTokens: number;
   success: boolean;
   error?: string;
+  // LLM provider that served the request (openai, gemini, local)
+  provider?: string;
   model?: string;
+  // Tokens were counted locally because the provider reported no usage
+  usageCounted?: boolean;
+  // Price of the request, for requests made on behalf of a user
+  costUsd?: number;
+  // Prompt template the request was built from
+  promptId?: string;
+  promptVersion?: number;
+  // Template of the instruction inside the prompt (story-intro, conversation-turn, ...)
+  instructionPromptId?: string;
+  instructionPromptVersion?: number;
+  // The user's variant in each experiment, by experiment ID
+  experiments?: Record<string, string>;
 }
 
+interface PromptStats {
+  count: number;
+  errorRate: number;
+  averageLatency: number;
+  averageCompletionTokens: number;
+}
+
+// How a segment's content and choices were written: one structured LLM call, or two calls
+type StoryGenerationMode = 'combined' | 'separate';
+
 interface StoryGenerationMetrics {
   requestId: string;
   userId: string;
@@ -28,9 +54,43 @@ interface StoryGenerationMetrics {
   latency: number; // ms
   success: boolean;
   error?: string;
+  // Served from the fallback template instead of the LLM, and why
+  fallback?: boolean;
+  fallbackReason?: 'provider_unavailable' | 'provider_error' | 'budget_exceeded';
+  // Set when the segment was written by the LLM
+  generationMode?: StoryGenerationMode;
+  // Set when the segment was authored in the story's template
+  templateId?: string;
   gptMetrics?: GPTMetrics;
+  // The user's variant in each experiment, by experiment ID
+  experiments?: Record<string, string>;
 }
 
+interface RequestStats {
+  count: number;
+  errorRate: number;
+  averageLatency: number;
+}
+
+/**
+ * How one experiment variant's users fared
+ */
+interface ExperimentVariantStats {
+  users: number;
+  gptRequests: RequestStats;
+  storyGenerations: RequestStats;
+  // Engagement: choices the users made, and their sessions (runs of segments
+  // without a break of SESSION_GAP_MS)
+  choicesMade: number;
+  choicesPerUser: number;
+  sessions: number;
+  averageSessionSegments: number;
+  averageSessionDuration: number; // ms
+}
+
+// A longer break between a user's segments starts a new session
+const SESSION_GAP_MS = 30 * 60 * 1000;
+
 interface MonitoringOptions {
   enableConsoleLogging: boolean;
   enableFileLogging: boolean;
@@ -42,6 +102,9 @@ class StoryMonitoring {
   private options: MonitoringOptions;
   private segmentGenerationLog: StoryGenerationMetrics[] = [];
   private gptRequestLog: GPTMetrics[] = [];
+  private stateCacheStatsProvider?: () => StoryStateCacheStats;
+  private usageReportProvider?: (userId: string) => UserUsageReport;
+  private experimentVariantsProvider?: (userId: string) => Record<string, string>;
   
   constructor(options?: Partial<MonitoringOptions>) {
     this.options = {
@@ -67,6 +130,7 @@ class StoryMonitoring {
     
     const fullMetrics: GPTMetrics = {
       ...metrics,
+      experiments: metrics.experiments ?? this.getExperimentVariants(metrics.userId),
       requestId,
       timestamp
     };
@@ -81,7 +145,7 @@ class StoryMonitoring {
     
     // Log to console if enabled
     if (this.options.enableConsoleLogging) {
-      console.log(`[GPT Request] ${requestId} | User: ${metrics.userId} | Endpoint: ${metrics.endpoint} | Model: ${metrics.model || 'unknown'} | Latency: ${metrics.latency}ms | Success: ${metrics.success}`);
+      console.log(`[GPT Request] ${requestId} | User: ${metrics.userId} | Endpoint: ${metrics.endpoint} | Provider: ${metrics.provider || 'unknown'} | Model: ${metrics.model || 'unknown'}${metrics.promptId ? ` | Prompt: ${metrics.promptId} v${metrics.promptVersion}` : ''} | Latency: ${metrics.latency}ms | Success: ${metrics.success}`);
       
       if (metrics.error) {
         console.error(`[GPT Error] ${requestId} | ${metrics.error}`);
@@ -105,6 +169,7 @@ class StoryMonitoring {
     
     const fullMetrics: StoryGenerationMetrics = {
       ...metrics,
+      experiments: metrics.experiments ?? this.getExperimentVariants(metrics.userId),
       requestId,
       timestamp
     };
@@ -119,7 +184,7 @@ class StoryMonitoring {
     
     // Log to console if enabled
     if (this.options.enableConsoleLogging) {
-      console.log(`[Story Generation] ${requestId} | User: ${metrics.userId} | Segment: ${metrics.segmentId} | Latency: ${metrics.latency}ms | Success: ${metrics.success}`);
+      console.log(`[Story Generation] ${requestId} | User: ${metrics.userId} | Segment: ${metrics.segmentId} | Latency: ${metrics.latency}ms | Success: ${metrics.success}${metrics.generationMode ? ` | Mode: ${metrics.generationMode}` : ''}`);
       
       if (metrics.error) {
         console.error(`[Story Error] ${requestId} | ${metrics.error}`);
@@ -222,22 +287,227 @@ class StoryMonitoring {
   /**
    * Get token usage statistics
    */
-  getTokenUsageStats(timeFrame: number = 3600000): { promptTokens: number, completionTokens: number, totalTokens: number } {
+  getTokenUsageStats(timeFrame: number = 3600000): { promptTokens: number, completionTokens: number, totalTokens: number, costUsd: number } {
     const now = Date.now();
     const metrics = this.gptRequestLog.filter(
       metric => now - metric.timestamp.getTime() < timeFrame
     );
     
-    const promptTokens = metrics.reduce((sum, metric) => sum + metric.promptTokens, 0);
-    const completionTokens = metrics.reduce((sum, metric) => sum + metric.completionTokens, 0);
+    // Failed requests have no token counts
+    const promptTokens = metrics.reduce((sum, metric) => sum + (metric.promptTokens || 0), 0);
+    const completionTokens = metrics.reduce((sum, metric) => sum + (metric.completionTokens || 0), 0);
+    const costUsd = metrics.reduce((sum, metric) => sum + (metric.costUsd || 0), 0);
     
     return {
       promptTokens,
       completionTokens,
-      totalTokens: promptTokens + completionTokens
+      totalTokens: promptTokens + completionTokens,
+      costUsd
+    };
+  }
+  
+  /**
+   * Average latency of successful LLM-written segments for each generation
+   * mode, and how much faster single-call generation is than two calls
+   */
+  getGenerationModeStats(timeFrame: number = 86400000): {
+    combined: { count: number; averageLatency: number };
+    separate: { count: number; averageLatency: number };
+    // separate minus combined; null until both modes have been used
+    latencyDifference: number | null;
+  } {
+    const now = Date.now();
+    const metrics = this.segmentGenerationLog.filter(
+      metric => metric.success && metric.generationMode && now - metric.timestamp.getTime() < timeFrame
+    );
+    
+    const statsFor = (mode: StoryGenerationMode) => {
+      const modeMetrics = metrics.filter(metric => metric.generationMode === mode);
+      const totalLatency = modeMetrics.reduce((sum, metric) => sum + metric.latency, 0);
+      return {
+        count: modeMetrics.length,
+        averageLatency: modeMetrics.length ? totalLatency / modeMetrics.length : 0
+      };
+    };
+    
+    const combined = statsFor('combined');
+    const separate = statsFor('separate');
+    return {
+      combined,
+      separate,
+      latencyDifference: combined.count && separate.count ? separate.averageLatency - combined.averageLatency : null
     };
   }
   
+  /**
+   * Requests, errors, latency and output length for each prompt template
+   * version ("story-segment v2"), counting instruction templates as well as
+   * the prompts they are part of, so prompt versions can be compared and a
+   * regression traced to the prompt change that caused it
+   */
+  getPromptStats(timeFrame: number = 86400000): Record<string, PromptStats> {
+    const now = Date.now();
+    const byPrompt: Record<string, GPTMetrics[]> = {};
+    for (const metric of this.gptRequestLog) {
+      if (now - metric.timestamp.getTime() >= timeFrame) {
+        continue;
+      }
+      const prompts = [
+        metric.promptId && `${metric.promptId} v${metric.promptVersion}`,
+        metric.instructionPromptId && `${metric.instructionPromptId} v${metric.instructionPromptVersion}`
+      ];
+      for (const prompt of prompts) {
+        if (prompt) {
+          (byPrompt[prompt] = byPrompt[prompt] || []).push(metric);
+        }
+      }
+    }
+    
+    const stats: Record<string, PromptStats> = {};
+    for (const [prompt, metrics] of Object.entries(byPrompt)) {
+      const successful = metrics.filter(metric => metric.success);
+      stats[prompt] = {
+        count: metrics.length,
+        errorRate: (metrics.length - successful.length) / metrics.length,
+        averageLatency: metrics.reduce((sum, metric) => sum + metric.latency, 0) / metrics.length,
+        averageCompletionTokens: successful.length
+          ? successful.reduce((sum, metric) => sum + (metric.completionTokens || 0), 0) / successful.length
+          : 0
+      };
+    }
+    return stats;
+  }
+  
+  /**
+   * Report users' token usage and budgets on the user metrics endpoint
+   */
+  setUsageReportProvider(provider: (userId: string) => UserUsageReport): void {
+    this.usageReportProvider = provider;
+  }
+  
+  /**
+   * A user's token usage and cost this day and month against their budgets;
+   * null until the story routes have started
+   */
+  getUserUsage(userId: string): UserUsageReport | null {
+    return this.usageReportProvider ? this.usageReportProvider(userId) : null;
+  }
+  
+  /**
+   * Tag each user's metrics with their experiment variants
+   */
+  setExperimentVariantsProvider(provider: (userId: string) => Record<string, string>): void {
+    this.experimentVariantsProvider = provider;
+  }
+  
+  /**
+   * The user's experiment variants; undefined for requests not made for a
+   * user, or when no experiment is running
+   */
+  private getExperimentVariants(userId: string): Record<string, string> | undefined {
+    if (!this.experimentVariantsProvider || userId === 'system') {
+      return undefined;
+    }
+    const variants = this.experimentVariantsProvider(userId);
+    return Object.keys(variants).length > 0 ? variants : undefined;
+  }
+  
+  /**
+   * Latency, error rate and engagement of each variant of each experiment,
+   * by experiment ID then variant name, from the metrics tagged with them
+   */
+  getExperimentComparison(timeFrame: number = 7 * 86400000): Record<string, Record<string, ExperimentVariantStats>> {
+    const now = Date.now();
+    const inTimeFrame = (metric: { timestamp: Date }) => now - metric.timestamp.getTime() < timeFrame;
+    
+    // Metrics of each variant, by experiment then variant
+    const byVariant: Record<string, Record<string, { gpt: GPTMetrics[]; story: StoryGenerationMetrics[] }>> = {};
+    const metricsFor = (experiment: string, variant: string) => {
+      byVariant[experiment] = byVariant[experiment] || {};
+      byVariant[experiment][variant] = byVariant[experiment][variant] || { gpt: [], story: [] };
+      return byVariant[experiment][variant];
+    };
+    for (const metric of this.gptRequestLog.filter(inTimeFrame)) {
+      for (const [experiment, variant] of Object.entries(metric.experiments || {})) {
+        metricsFor(experiment, variant).gpt.push(metric);
+      }
+    }
+    for (const metric of this.segmentGenerationLog.filter(inTimeFrame)) {
+      for (const [experiment, variant] of Object.entries(metric.experiments || {})) {
+        metricsFor(experiment, variant).story.push(metric);
+      }
+    }
+    
+    const comparison: Record<string, Record<string, ExperimentVariantStats>> = {};
+    for (const [experiment, variants] of Object.entries(byVariant)) {
+      comparison[experiment] = {};
+      for (const [variant, { gpt, story }] of Object.entries(variants)) {
+        comparison[experiment][variant] = this.getVariantStats(gpt, story);
+      }
+    }
+    return comparison;
+  }
+  
+  private getVariantStats(gpt: GPTMetrics[], story: StoryGenerationMetrics[]): ExperimentVariantStats {
+    const requestStats = (metrics: { success: boolean; latency: number }[]): RequestStats => ({
+      count: metrics.length,
+      errorRate: metrics.length ? metrics.filter(metric => !metric.success).length / metrics.length : 0,
+      averageLatency: metrics.length ? metrics.reduce((sum, metric) => sum + metric.latency, 0) / metrics.length : 0
+    });
+    
+    const users = new Set([...gpt, ...story].map(metric => metric.userId));
+    const segments = story.filter(metric => metric.success);
+    const choicesMade = segments.filter(metric => metric.choiceId).length;
+    const sessions = this.getSessions(segments);
+    
+    return {
+      users: users.size,
+      gptRequests: requestStats(gpt),
+      storyGenerations: requestStats(story),
+      choicesMade,
+      choicesPerUser: users.size ? choicesMade / users.size : 0,
+      sessions: sessions.length,
+      averageSessionSegments: sessions.length
+        ? sessions.reduce((sum, session) => sum + session.length, 0) / sessions.length
+        : 0,
+      averageSessionDuration: sessions.length
+        ? sessions.reduce((sum, session) => sum + session[session.length - 1] - session[0], 0) / sessions.length
+        : 0
+    };
+  }
+  
+  /**
+   * Split each user's segments into sessions wherever they took a break of
+   * more than SESSION_GAP_MS; each session is its segment times in order
+   */
+  private getSessions(segments: StoryGenerationMetrics[]): number[][] {
+    const timesByUser = new Map<string, number[]>();
+    for (const segment of segments) {
+      timesByUser.set(segment.userId, [...(timesByUser.get(segment.userId) || []), segment.timestamp.getTime()]);
+    }
+    
+    const sessions: number[][] = [];
+    for (const times of timesByUser.values()) {
+      let session: number[] = [];
+      for (const time of times.sort((a, b) => a - b)) {
+        if (session.length > 0 && time - session[session.length - 1] > SESSION_GAP_MS) {
+          sessions.push(session);
+          session = [];
+        }
+        session.push(time);
+      }
+      sessions.push(session);
+    }
+    return sessions;
+  }
+  
+  /**
+   * Report the story state cache on the dashboard
+   */
+  setStateCacheStatsProvider(provider: () => StoryStateCacheStats): void {
+    this.stateCacheStatsProvider = provider;
+  }
+  
   /**
    * Get performance metrics dashboard data
    */
@@ -255,7 +525,8 @@ class StoryMonitoring {
           metric => Date.now() - metric.timestamp.getTime() < lastDay
         ).length,
         averageLatency: this.getAverageGPTLatency(),
-        errorRate: this.getGPTErrorRate()
+        errorRate: this.getGPTErrorRate(),
+        prompts: this.getPromptStats(lastDay)
       },
       storyGenerations: {
         count: this.segmentGenerationLog.length,
@@ -264,9 +535,11 @@ class StoryMonitoring {
         ).length,
         lastDay: this.segmentGenerationLog.filter(
           metric => Date.now() - metric.timestamp.getTime() < lastDay
-        ).length
+        ).length,
+        generationModes: this.getGenerationModeStats(lastDay)
       },
-      tokenUsage: this.getTokenUsageStats(lastDay)
+      tokenUsage: this.getTokenUsageStats(lastDay),
+      stateCache: this.stateCacheStatsProvider ? this.stateCacheStatsProvider() : null
     };
   }
 }
@@ -275,4 +548,4 @@ class StoryMonitoring {
 export const storyMonitoring = new StoryMonitoring();
 
 // Export types
-export { GPTMetrics, StoryGenerationMetrics, MonitoringOptions };
\ No newline at end of file
+export { ExperimentVariantStats, GPTMetrics, PromptStats, RequestStats, StoryGenerationMetrics, StoryGenerationMode, MonitoringOptions };
\ No newline at end of file